@@ -19,6 +19,7 @@ import PrivacyPage from "@/pages/privacy-page";
 import ContactPage from "@/pages/contact-page";
 import BillingPage from "@/pages/billing-page";
 import HelpPage from "@/pages/help-page";
+import VerifyEmailPage from "@/pages/verify-email-page";
 import EmailTestPage from "@/pages/email-test";
 import SmsTestPage from "@/pages/sms-test";
 import EnhancedConversationCenterPage from "@/pages/enhanced-conversation-center-page";
@@ -30,6 +31,7 @@ function Router() {
       <Route path="/" component={HomePage} />
       <Route path="/auth" component={AuthPage} />
       <Route path="/reset-password" component={AuthPage} />
+      <Route path="/verify-email" component={VerifyEmailPage} />
       <Route path="/about" component={AboutPage} />
       <Route path="/terms" component={TermsPage} />
       <Route path="/privacy" component={PrivacyPage} />
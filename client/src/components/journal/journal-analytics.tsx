@@ -101,7 +101,10 @@ export function JournalAnalytics() {
       });
 
       if (!response.ok) {
-        throw new Error("Failed to generate summary");
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.code === "upgrade_required"
+          ? errorData.error
+          : "Failed to generate summary");
       }
 
       const data = await response.json();
@@ -0,0 +1,78 @@
+import { ClientJournalAttachment } from "@shared/schema";
+import { FileText, Music, Video, Paperclip } from "lucide-react";
+
+interface JournalAttachmentsProps {
+  attachments: ClientJournalAttachment[];
+}
+
+// Browsers can't show HEIC, so those are listed as files
+const DISPLAYABLE_IMAGE_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"];
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function FileIcon({ contentType }: { contentType: string }) {
+  const className = "h-4 w-4 shrink-0 text-foreground/60";
+  if (contentType.startsWith("audio/")) return <Music className={className} />;
+  if (contentType.startsWith("video/")) return <Video className={className} />;
+  if (contentType === "application/pdf" || contentType === "text/plain") return <FileText className={className} />;
+  return <Paperclip className={className} />;
+}
+
+/**
+ * Photos and files attached to a journal entry, e.g. sent in by email or MMS.
+ * Images show as thumbnails linking to the full size; everything else as a file link.
+ */
+export function JournalAttachments({ attachments }: JournalAttachmentsProps) {
+  const images = attachments.filter(attachment => DISPLAYABLE_IMAGE_TYPES.includes(attachment.contentType));
+  const files = attachments.filter(attachment => !DISPLAYABLE_IMAGE_TYPES.includes(attachment.contentType));
+
+  return (
+    <div className="mb-4 space-y-2">
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map(image => (
+            <a
+              key={image.id}
+              href={image.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block h-24 w-24 rounded-[0.5rem] overflow-hidden border border-border bg-muted"
+              title={image.filename}
+            >
+              <img
+                src={image.thumbnailUrl || image.url}
+                alt={image.filename}
+                className="h-full w-full object-cover"
+                loading="lazy"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map(file => (
+            <li key={file.id}>
+              <a
+                href={file.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                download={file.filename}
+                className="inline-flex items-center gap-2 text-sm text-foreground/80 hover:text-primary"
+              >
+                <FileIcon contentType={file.contentType} />
+                <span className="truncate max-w-[220px]">{file.filename}</span>
+                <span className="text-xs text-foreground/50">{formatFileSize(file.size)}</span>
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
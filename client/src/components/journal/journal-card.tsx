@@ -1,11 +1,21 @@
 import { useState } from "react";
 import { formatDistance } from "date-fns";
 import { Card, CardContent } from "@/components/ui/card";
-import { JournalEntry } from "@shared/schema";
+import { JournalEntryWithAttachments, JOURNAL_TRASH_RETENTION_DAYS } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Edit, Loader2, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { JournalForm } from "@/components/journal/journal-form";
+import { JournalAttachments } from "@/components/journal/journal-attachments";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -19,12 +29,13 @@ import {
 } from "@/components/ui/alert-dialog";
 
 interface JournalCardProps {
-  entry: JournalEntry;
+  entry: JournalEntryWithAttachments;
 }
 
 export function JournalCard({ entry }: JournalCardProps) {
   const { toast } = useToast();
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isEditOpen, setIsEditOpen] = useState(false);
 
   const formattedDate = entry.createdAt 
     ? formatDistance(new Date(entry.createdAt), new Date(), { addSuffix: true })
@@ -49,11 +60,13 @@ export function JournalCard({ entry }: JournalCardProps) {
   const handleDelete = async () => {
     setIsDeleting(true);
     try {
-      await apiRequest("DELETE", `/api/journal/${entry.id}`);
+      const res = await apiRequest("DELETE", `/api/journal/${entry.id}`);
+      if (!res.ok) throw new Error("Failed to delete journal entry");
       queryClient.invalidateQueries({ queryKey: ["/api/journal"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/journal/trash"] });
       toast({
-        title: "Entry deleted",
-        description: "Your journal entry has been deleted successfully.",
+        title: "Entry moved to trash",
+        description: `You can restore it from the trash for ${JOURNAL_TRASH_RETENTION_DAYS} days.`,
       });
     } catch (error) {
       toast({
@@ -81,10 +94,10 @@ export function JournalCard({ entry }: JournalCardProps) {
           {entry.content}
         </p>
         
-        {entry.imageUrl && (
+        {entry.signedImageUrl && (
           <div className="mb-4 rounded-[0.75rem] overflow-hidden">
             <img 
-              src={entry.imageUrl} 
+              src={entry.signedImageUrl} 
               alt="Journal entry" 
               className="w-full h-auto max-h-[300px] object-contain"
               loading="lazy" 
@@ -92,6 +105,10 @@ export function JournalCard({ entry }: JournalCardProps) {
           </div>
         )}
         
+        {entry.attachments.length > 0 && (
+          <JournalAttachments attachments={entry.attachments} />
+        )}
+        
         <div className="flex justify-between items-center">
           <div className="flex flex-wrap gap-2">
             {entry.tags && entry.tags.map((tag, index) => (
@@ -109,14 +126,38 @@ export function JournalCard({ entry }: JournalCardProps) {
           </div>
           
           <div className="flex space-x-2">
-            <Button 
-              variant="ghost" 
-              size="icon"
-              className="h-9 w-9 rounded-full hover:bg-primary/10"
-              aria-label="Edit entry"
-            >
-              <Edit className="h-[18px] w-[18px]" />
-            </Button>
+            <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+              <DialogTrigger asChild>
+                <Button 
+                  variant="ghost" 
+                  size="icon"
+                  className="h-9 w-9 rounded-full hover:bg-primary/10"
+                  aria-label="Edit entry"
+                >
+                  <Edit className="h-[18px] w-[18px]" />
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto p-4 sm:p-6">
+                <DialogHeader className="mb-4">
+                  <DialogTitle>Edit Journal Entry</DialogTitle>
+                  <DialogDescription>
+                    Every change is saved as a new version, so you can always go back.
+                  </DialogDescription>
+                </DialogHeader>
+                <JournalForm
+                  entryId={entry.id}
+                  defaultValues={{
+                    title: entry.title || "",
+                    content: entry.content,
+                    mood: (entry.mood as "happy" | "calm" | "neutral" | "sad" | "frustrated") || "neutral",
+                    tags: entry.tags?.join(", ") || "",
+                    imageUrl: entry.imageUrl || "",
+                  }}
+                  imagePreviewUrl={entry.signedImageUrl}
+                  onSuccess={() => setIsEditOpen(false)}
+                />
+              </DialogContent>
+            </Dialog>
             
             <AlertDialog>
               <AlertDialogTrigger asChild>
@@ -133,8 +174,8 @@ export function JournalCard({ entry }: JournalCardProps) {
                 <AlertDialogHeader>
                   <AlertDialogTitle className="text-center">Delete Journal Entry</AlertDialogTitle>
                   <AlertDialogDescription className="text-center">
-                    This action cannot be undone. This will permanently delete your
-                    journal entry and its attached image (if any).
+                    The entry will be moved to the trash, where you can restore it for
+                    {` ${JOURNAL_TRASH_RETENTION_DAYS} `}days before it is deleted permanently.
                   </AlertDialogDescription>
                 </AlertDialogHeader>
                 <AlertDialogFooter className="flex-col sm:flex-row gap-2">
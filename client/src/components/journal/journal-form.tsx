@@ -1,9 +1,15 @@
 import { useState, useRef } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
-import { insertJournalEntrySchema } from "@shared/schema";
+import { formatDistance } from "date-fns";
+import {
+  insertJournalEntrySchema,
+  type JournalEntryWithAttachments,
+  type JournalEntryRevision,
+  type JournalRevisionDiff,
+} from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -18,7 +24,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
-import { Image, Loader2, Upload, X } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronDown, History, Image, Loader2, RotateCcw, Upload, X } from "lucide-react";
 
 // Define the form schema with client-side validation
 const formSchema = z.object({
@@ -45,11 +52,13 @@ const transformFormData = (data: FormInputValues) => {
 interface JournalFormProps {
   onSuccess?: () => void;
   defaultValues?: Partial<FormInputValues>;
+  entryId?: number; // When set, the form edits this entry and shows its history
+  imagePreviewUrl?: string | null; // Signed URL of the entry's current image
 }
 
-export function JournalForm({ onSuccess, defaultValues }: JournalFormProps) {
+export function JournalForm({ onSuccess, defaultValues, entryId, imagePreviewUrl }: JournalFormProps) {
   const { toast } = useToast();
-  const [imagePreview, setImagePreview] = useState<string | null>(defaultValues?.imageUrl || null);
+  const [imagePreview, setImagePreview] = useState<string | null>(imagePreviewUrl || null);
   const [isUploading, setIsUploading] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -64,14 +73,29 @@ export function JournalForm({ onSuccess, defaultValues }: JournalFormProps) {
     },
   });
 
-  const createJournalMutation = useMutation({
+  const saveJournalMutation = useMutation({
     mutationFn: async (data: FormInputValues) => {
       const transformedData = transformFormData(data);
-      const response = await apiRequest("POST", "/api/journal", transformedData);
+      const response = entryId
+        ? await apiRequest("PUT", `/api/journal/${entryId}`, transformedData)
+        : await apiRequest("POST", "/api/journal", transformedData);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to save journal entry");
+      }
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/journal"] });
+      if (entryId) {
+        queryClient.invalidateQueries({ queryKey: [`/api/journal/${entryId}/revisions`] });
+        toast({
+          title: "Success",
+          description: "Journal entry updated successfully!",
+        });
+        if (onSuccess) onSuccess();
+        return;
+      }
       toast({
         title: "Success",
         description: "Journal entry created successfully!",
@@ -89,12 +113,24 @@ export function JournalForm({ onSuccess, defaultValues }: JournalFormProps) {
     onError: (error: Error) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to create journal entry",
+        description: error.message || "Failed to save journal entry",
         variant: "destructive",
       });
     },
   });
 
+  // Load a restored revision back into the form
+  const handleRestored = (entry: JournalEntryWithAttachments) => {
+    form.reset({
+      title: entry.title || "",
+      content: entry.content,
+      mood: (entry.mood as FormInputValues["mood"]) || "neutral",
+      tags: entry.tags?.join(", ") || "",
+      imageUrl: entry.imageUrl || "",
+    });
+    setImagePreview(entry.signedImageUrl);
+  };
+
   // Handle image upload
   const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -127,17 +163,19 @@ export function JournalForm({ onSuccess, defaultValues }: JournalFormProps) {
       const formData = new FormData();
       formData.append('image', file);
 
-      const response = await fetch('/api/journal/upload-image', {
+      const response = await fetch('/api/journal/upload', {
         method: 'POST',
         body: formData,
       });
 
       if (!response.ok) {
-        throw new Error('Failed to upload image');
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || 'Failed to upload image');
       }
 
-      const data = await response.json();
-      setImagePreview(data.imageUrl);
+      // imageUrl is the stored reference saved with the entry; previewUrl is a signed URL to show it
+      const data: { imageUrl: string; previewUrl: string | null } = await response.json();
+      setImagePreview(data.previewUrl);
       form.setValue("imageUrl", data.imageUrl);
     } catch (error) {
       toast({
@@ -159,10 +197,10 @@ export function JournalForm({ onSuccess, defaultValues }: JournalFormProps) {
   };
 
   const onSubmit = (data: FormInputValues) => {
-    createJournalMutation.mutate(data);
+    saveJournalMutation.mutate(data);
   };
 
-  const isSubmitting = form.formState.isSubmitting || createJournalMutation.isPending;
+  const isSubmitting = form.formState.isSubmitting || saveJournalMutation.isPending;
 
   const moodOptions = [
     { emoji: "😊", value: "happy", label: "Happy" },
@@ -175,7 +213,9 @@ export function JournalForm({ onSuccess, defaultValues }: JournalFormProps) {
   return (
     <Card className="shadow-md overflow-visible">
       <CardHeader className="px-4 py-3 sm:px-6 sm:py-4">
-        <CardTitle className="font-quicksand text-lg sm:text-xl">New Journal Entry</CardTitle>
+        <CardTitle className="font-quicksand text-lg sm:text-xl">
+          {entryId ? "Edit Journal Entry" : "New Journal Entry"}
+        </CardTitle>
       </CardHeader>
       <CardContent className="px-4 sm:px-6">
         <Form {...form}>
@@ -222,7 +262,7 @@ export function JournalForm({ onSuccess, defaultValues }: JournalFormProps) {
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>How are you feeling?</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
                       <SelectTrigger>
                         <SelectValue placeholder="Select a mood" />
@@ -346,13 +386,201 @@ export function JournalForm({ onSuccess, defaultValues }: JournalFormProps) {
                     Saving...
                   </>
                 ) : (
-                  "Save Entry"
+                  entryId ? "Save Changes" : "Save Entry"
                 )}
               </Button>
             </div>
           </form>
         </Form>
+
+        {entryId && (
+          <JournalHistoryPanel entryId={entryId} onRestored={handleRestored} />
+        )}
       </CardContent>
     </Card>
   );
+}
+
+const revisionSourceLabels: Record<string, string> = {
+  create: "Original",
+  edit: "Edited",
+  restore: "Restored",
+};
+
+interface JournalHistoryPanelProps {
+  entryId: number;
+  onRestored: (entry: JournalEntryWithAttachments) => void;
+}
+
+// Lists every saved version of an entry, shows what changed in the selected
+// version compared with the one before it, and restores old versions
+function JournalHistoryPanel({ entryId, onRestored }: JournalHistoryPanelProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [selected, setSelected] = useState<number | null>(null);
+  const revisionsKey = `/api/journal/${entryId}/revisions`;
+
+  const { data: revisions = [], isLoading } = useQuery<JournalEntryRevision[]>({
+    queryKey: [revisionsKey],
+    enabled: isOpen,
+  });
+
+  const latest = revisions[0]?.revisionNumber;
+  const selectedNumber = selected ?? latest;
+  const compareWith = revisions.find(revision => revision.revisionNumber < (selectedNumber ?? 0))?.revisionNumber;
+
+  const { data: diff, isFetching: isDiffLoading } = useQuery<JournalRevisionDiff>({
+    queryKey: [`${revisionsKey}/diff?from=${compareWith}&to=${selectedNumber}`],
+    enabled: isOpen && selectedNumber !== undefined && compareWith !== undefined,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionNumber: number) => {
+      const response = await apiRequest("POST", `${revisionsKey}/${revisionNumber}/restore`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to restore this version");
+      }
+      return response.json() as Promise<JournalEntryWithAttachments>;
+    },
+    onSuccess: (entry, revisionNumber) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/journal"] });
+      queryClient.invalidateQueries({ queryKey: [revisionsKey] });
+      setSelected(null);
+      onRestored(entry);
+      toast({
+        title: "Version restored",
+        description: `Your entry is back to version ${revisionNumber}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="mt-4 border-t pt-4">
+      <CollapsibleTrigger asChild>
+        <Button type="button" variant="ghost" className="w-full justify-between px-2">
+          <span className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Version history
+          </span>
+          <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? "rotate-180" : ""}`} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-2">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground px-2">No earlier versions yet.</p>
+        ) : (
+          <>
+            <ul className="max-h-48 overflow-y-auto divide-y rounded-md border">
+              {revisions.map(revision => (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(revision.revisionNumber)}
+                    className={`w-full text-left px-3 py-2 text-sm hover:bg-muted/50 ${
+                      revision.revisionNumber === selectedNumber ? "bg-muted" : ""
+                    }`}
+                  >
+                    <div className="flex justify-between gap-2">
+                      <span className="font-medium">
+                        Version {revision.revisionNumber}
+                        {revision.revisionNumber === latest && " (current)"}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {formatDistance(new Date(revision.createdAt), new Date(), { addSuffix: true })}
+                      </span>
+                    </div>
+                    <div className="text-muted-foreground truncate">
+                      {revisionSourceLabels[revision.source] || revision.source}
+                      {revision.restoredFromRevision && ` from version ${revision.restoredFromRevision}`}
+                      {revision.title && ` · ${revision.title}`}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+
+            {selectedNumber !== undefined && (
+              <div className="rounded-md border p-3 space-y-2 text-sm">
+                {compareWith === undefined ? (
+                  <p className="text-muted-foreground">This is the original version.</p>
+                ) : isDiffLoading || !diff ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                ) : (
+                  <>
+                    <p className="text-muted-foreground">
+                      Changes in version {selectedNumber} since version {compareWith}
+                    </p>
+                    {diff.title.some(part => part.type !== "equal") && (
+                      <p className="font-medium">
+                        <DiffText parts={diff.title} />
+                      </p>
+                    )}
+                    {diff.mood && (
+                      <p>Mood: {diff.mood.from || "none"} → {diff.mood.to || "none"}</p>
+                    )}
+                    {(diff.tags.added.length > 0 || diff.tags.removed.length > 0) && (
+                      <p>
+                        Tags: <DiffText parts={[
+                          ...diff.tags.removed.map(tag => ({ type: "removed" as const, value: `${tag} ` })),
+                          ...diff.tags.added.map(tag => ({ type: "added" as const, value: `${tag} ` })),
+                        ]} />
+                      </p>
+                    )}
+                    <p className="whitespace-pre-line max-h-48 overflow-y-auto">
+                      <DiffText parts={diff.content} />
+                    </p>
+                  </>
+                )}
+
+                {selectedNumber !== latest && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(selectedNumber)}
+                    disabled={restoreMutation.isPending}
+                  >
+                    {restoreMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                    )}
+                    Restore version {selectedNumber}
+                  </Button>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+function DiffText({ parts }: { parts: JournalRevisionDiff["content"] }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.type === "added" ? (
+          <ins key={index} className="bg-green-500/15 text-green-700 dark:text-green-400 no-underline">{part.value}</ins>
+        ) : part.type === "removed" ? (
+          <del key={index} className="bg-destructive/10 text-destructive">{part.value}</del>
+        ) : (
+          <span key={index}>{part.value}</span>
+        )
+      )}
+    </>
+  );
 }
\ No newline at end of file
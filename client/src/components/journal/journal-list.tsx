@@ -1,7 +1,7 @@
 import { useQuery } from '@tanstack/react-query';
 import { JournalCard } from './journal-card';
 import { Skeleton } from '@/components/ui/skeleton';
-import { JournalEntry } from '@shared/schema';
+import { JournalEntryWithAttachments } from '@shared/schema';
 import { Loader2 } from 'lucide-react';
 
 interface JournalListProps {
@@ -13,7 +13,7 @@ interface JournalListProps {
 }
 
 export function JournalList({ filter }: JournalListProps) {
-  const { data: entries, isLoading, error } = useQuery<JournalEntry[]>({
+  const { data: entries, isLoading, error } = useQuery<JournalEntryWithAttachments[]>({
     queryKey: ['/api/journal', filter],
   });
 
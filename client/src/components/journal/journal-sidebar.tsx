@@ -1,12 +1,66 @@
-import { useState } from 'react';
+import { useState, type FormEvent } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
 import { Card, CardContent } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
-import { Feather } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Feather, Search, Loader2 } from 'lucide-react';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
+interface JournalSearchHit {
+  entryId: number;
+  title: string | null;
+  titleHighlight: string | null;
+  snippet: string;
+  createdAt: string;
+  matchedIn: Array<'title' | 'content' | 'email' | 'sms'>;
+}
+
+interface JournalSearchResponse {
+  query: string;
+  results: JournalSearchHit[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+// Render <mark>-delimited highlights from the search API without using innerHTML
+function Highlighted({ text }: { text: string }) {
+  const parts = text.split(/(<mark>.*?<\/mark>)/g);
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.startsWith('<mark>') ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded px-0.5">
+            {part.slice(6, -7)}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </>
+  );
+}
+
 export function JournalSidebar() {
   const [dateRange, setDateRange] = useState('7days');
   const [selectedMood, setSelectedMood] = useState<string | null>(null);
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchPage, setSearchPage] = useState(1);
+  
+  const { data: searchResults, isFetching: isSearching } = useQuery<JournalSearchResponse>({
+    queryKey: [`/api/journal/search?q=${encodeURIComponent(searchQuery)}&page=${searchPage}&limit=10`],
+    enabled: searchQuery.length > 0,
+  });
+  
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setSearchQuery(searchInput.trim());
+    setSearchPage(1);
+  };
   
   const handleMoodSelect = (mood: string) => {
     setSelectedMood(mood === selectedMood ? null : mood);
@@ -30,6 +84,66 @@ export function JournalSidebar() {
   
   return (
     <>
+      <Card className="mb-4 shadow-sm">
+        <CardContent className="p-4">
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search your journal..."
+              className="rounded-[0.75rem]"
+              aria-label="Search journal entries"
+            />
+            <Button type="submit" size="icon" variant="outline" aria-label="Search">
+              {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            </Button>
+          </form>
+          
+          {searchQuery && searchResults && (
+            <div className="mt-3 space-y-3">
+              <p className="text-xs text-muted-foreground">
+                {searchResults.total} result{searchResults.total !== 1 ? 's' : ''} for "{searchResults.query}"
+              </p>
+              {searchResults.results.map((hit) => (
+                <div key={hit.entryId} className="text-sm border-l-2 border-primary/30 pl-2">
+                  <p className="font-medium text-foreground">
+                    {hit.titleHighlight ? <Highlighted text={hit.titleHighlight} /> : 'Untitled entry'}
+                  </p>
+                  <p className="text-xs text-muted-foreground mb-1">
+                    {format(new Date(hit.createdAt), 'MMM d, yyyy')}
+                    {hit.matchedIn.includes('email') && ' · via email'}
+                    {hit.matchedIn.includes('sms') && ' · via SMS'}
+                  </p>
+                  <p className="text-foreground/80 leading-snug">
+                    <Highlighted text={hit.snippet} />
+                  </p>
+                </div>
+              ))}
+              {(searchPage > 1 || searchResults.hasMore) && (
+                <div className="flex justify-between">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={searchPage === 1}
+                    onClick={() => setSearchPage(searchPage - 1)}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={!searchResults.hasMore}
+                    onClick={() => setSearchPage(searchPage + 1)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      
       <Card className="mb-4 shadow-sm">
         <CardContent className="p-4 overflow-y-auto">
           <h3 className="font-quicksand font-semibold text-lg text-foreground mb-3 flex items-center">
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistance } from "date-fns";
+import { JournalEntry, JOURNAL_TRASH_RETENTION_DAYS } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+
+type TrashedJournalEntry = JournalEntry & { purgeAt: string };
+
+const TRASH_QUERY_KEY = "/api/journal/trash";
+
+export function JournalTrash() {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const { data: entries = [], isLoading } = useQuery<TrashedJournalEntry[]>({
+    queryKey: [TRASH_QUERY_KEY],
+    enabled: isOpen,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [TRASH_QUERY_KEY] });
+    queryClient.invalidateQueries({ queryKey: ["/api/journal"] });
+  };
+
+  const trashMutation = useMutation({
+    mutationFn: async ({ method, url }: { method: "POST" | "DELETE"; url: string }) => {
+      const response = await apiRequest(method, url);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.error || "Something went wrong. Please try again.");
+      }
+    },
+    onSuccess: (_data, { method }) => {
+      refresh();
+      toast({
+        title: method === "POST" ? "Entry restored" : "Deleted permanently",
+        description: method === "POST"
+          ? "Your journal entry is back in your journal."
+          : "The journal entry can no longer be recovered.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Trash2 size={16} />
+          Trash
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto p-4 sm:p-6">
+        <DialogHeader className="mb-2">
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted entries are kept for {JOURNAL_TRASH_RETENTION_DAYS} days before they are removed permanently.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">The trash is empty.</p>
+        ) : (
+          <div className="space-y-3">
+            {entries.map(entry => (
+              <div key={entry.id} className="rounded-md border p-3">
+                <div className="flex justify-between items-start gap-2">
+                  <div className="min-w-0">
+                    <h4 className="font-medium truncate">{entry.title || "Untitled Entry"}</h4>
+                    <p className="text-xs text-muted-foreground">
+                      Deleted {entry.deletedAt && formatDistance(new Date(entry.deletedAt), new Date(), { addSuffix: true })}
+                      {" • "}removed {formatDistance(new Date(entry.purgeAt), new Date(), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label="Restore entry"
+                      disabled={trashMutation.isPending}
+                      onClick={() => trashMutation.mutate({ method: "POST", url: `/api/journal/${entry.id}/restore` })}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 hover:bg-destructive/10"
+                      aria-label="Delete entry permanently"
+                      disabled={trashMutation.isPending}
+                      onClick={() => trashMutation.mutate({ method: "DELETE", url: `/api/journal/${entry.id}/permanent` })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-sm text-foreground/70 mt-2 line-clamp-2">{entry.content}</p>
+              </div>
+            ))}
+
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" className="w-full text-destructive" disabled={trashMutation.isPending}>
+                  Empty trash
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent className="max-w-[90vw] md:max-w-md">
+                <AlertDialogHeader>
+                  <AlertDialogTitle className="text-center">Empty Trash</AlertDialogTitle>
+                  <AlertDialogDescription className="text-center">
+                    This permanently deletes {entries.length} journal {entries.length === 1 ? "entry" : "entries"}.
+                    This action cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter className="flex-col sm:flex-row gap-2">
+                  <AlertDialogCancel className="mt-0 w-full sm:w-auto">Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => trashMutation.mutate({ method: "DELETE", url: TRASH_QUERY_KEY })}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90 w-full sm:w-auto"
+                  >
+                    Empty Trash
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
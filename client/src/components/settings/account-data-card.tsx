@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { AccountExport, ACCOUNT_EXPORT_RETENTION_DAYS } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Download, Loader2 } from "lucide-react";
+
+// Dates arrive as strings over JSON
+type ClientAccountExport = Omit<AccountExport, "filePath" | "createdAt" | "completedAt" | "expiresAt"> & {
+  createdAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
+  downloadUrl: string | null;
+};
+
+const EXPORTS_QUERY_KEY = "/api/account/exports";
+
+export function AccountDataCard() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [password, setPassword] = useState("");
+
+  const { data: exports = [] } = useQuery<ClientAccountExport[]>({
+    queryKey: [EXPORTS_QUERY_KEY],
+    // Poll while an export is being built
+    refetchInterval: (query) =>
+      query.state.data?.some(item => item.status === "pending" || item.status === "processing") ? 5000 : false,
+  });
+
+  const latestExport = exports[0];
+  const isBuilding = latestExport?.status === "pending" || latestExport?.status === "processing";
+
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/account/export");
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to start export. Please try again.");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [EXPORTS_QUERY_KEY] });
+      toast({
+        title: "Export started",
+        description: "We're gathering your data. The download will appear here when it's ready.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/account", { password });
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to delete account. Please try again.");
+      }
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/user"], null);
+      queryClient.clear();
+      toast({
+        title: "Account deleted",
+        description: "Your account and data have been deleted.",
+      });
+      navigate("/");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-quicksand">Your Data</CardTitle>
+        <CardDescription>
+          Download a copy of everything we store about you, or delete your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div className="space-y-3">
+          <h3 className="font-medium">Export your data</h3>
+          <p className="text-sm text-foreground/70">
+            A ZIP file with your profile, preferences, journal entries and images, emails, text messages,
+            conversations, memories and billing history. Downloads are available
+            for {ACCOUNT_EXPORT_RETENTION_DAYS} days.
+          </p>
+
+          {latestExport?.status === "completed" && latestExport.downloadUrl && (
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <span className="text-sm">
+                Ready {latestExport.completedAt && format(new Date(latestExport.completedAt), "MMM d, yyyy h:mm a")}
+                {latestExport.expiresAt && ` • expires ${format(new Date(latestExport.expiresAt), "MMM d")}`}
+              </span>
+              <Button variant="outline" size="sm" asChild>
+                <a href={latestExport.downloadUrl} download>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </a>
+              </Button>
+            </div>
+          )}
+
+          {latestExport?.status === "failed" && (
+            <p className="text-sm text-destructive">Your last export failed. Please try again.</p>
+          )}
+
+          <Button
+            onClick={() => exportMutation.mutate()}
+            disabled={exportMutation.isPending || isBuilding}
+          >
+            {isBuilding ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Preparing export...
+              </>
+            ) : (
+              "Request export"
+            )}
+          </Button>
+        </div>
+
+        <div className="space-y-3 border-t pt-6">
+          <h3 className="font-medium text-destructive">Delete account</h3>
+          <p className="text-sm text-foreground/70">
+            Permanently deletes your journal, messages, conversations, memories and uploaded images.
+            Billing records are kept for accounting, with your personal details removed.
+          </p>
+
+          <AlertDialog onOpenChange={(open) => !open && setPassword("")}>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive">Delete my account</Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent className="max-w-[90vw] md:max-w-md">
+              <AlertDialogHeader>
+                <AlertDialogTitle className="text-center">Delete Account</AlertDialogTitle>
+                <AlertDialogDescription className="text-center">
+                  This action cannot be undone. Enter your password to confirm.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor="delete-account-password">Password</Label>
+                <Input
+                  id="delete-account-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+              <AlertDialogFooter className="flex-col sm:flex-row gap-2">
+                <AlertDialogCancel className="mt-0 w-full sm:w-auto">Cancel</AlertDialogCancel>
+                <Button
+                  variant="destructive"
+                  className="w-full sm:w-auto"
+                  disabled={!password || deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate()}
+                >
+                  {deleteMutation.isPending ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Deleting...
+                    </>
+                  ) : (
+                    "Delete Account"
+                  )}
+                </Button>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,135 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Monitor } from "lucide-react";
+
+type ClientSession = {
+  id: number;
+  device: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+};
+
+const SESSIONS_QUERY_KEY = "/api/sessions";
+
+export function SessionsCard() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+
+  const { data: sessions = [], isLoading } = useQuery<ClientSession[]>({
+    queryKey: [SESSIONS_QUERY_KEY],
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("DELETE", `/api/sessions/${id}`);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to log out that session. Please try again.");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [SESSIONS_QUERY_KEY] });
+      toast({
+        title: "Logged out",
+        description: "That session has been logged out.",
+      });
+    },
+    onError: showError,
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/sessions");
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => null);
+        throw new Error(errorData?.error || "Failed to log out everywhere. Please try again.");
+      }
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/user"], null);
+      queryClient.clear();
+      toast({
+        title: "Logged out everywhere",
+        description: "Every session, including this one, has been logged out.",
+      });
+      navigate("/auth");
+    },
+    onError: showError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-quicksand">Where You're Logged In</CardTitle>
+        <CardDescription>
+          If you don't recognize a session, log it out and change your password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {sessions.map((session) => (
+              <li key={session.id} className="flex items-center justify-between gap-4 p-3">
+                <div className="flex items-start gap-3 min-w-0">
+                  <Monitor className="h-5 w-5 text-foreground/60 mt-0.5 shrink-0" />
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm">{session.device}</span>
+                      {session.current && <Badge variant="secondary">This device</Badge>}
+                    </div>
+                    <p className="text-xs text-foreground/70 truncate">
+                      {session.ipAddress || "Unknown location"}
+                      {" • "}
+                      {session.current
+                        ? "Active now"
+                        : `Last active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={revokeMutation.isPending}
+                    onClick={() => revokeMutation.mutate(session.id)}
+                  >
+                    Log out
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Button
+          variant="destructive"
+          disabled={revokeAllMutation.isPending}
+          onClick={() => revokeAllMutation.mutate()}
+        >
+          {revokeAllMutation.isPending ? "Logging out..." : "Log out everywhere"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
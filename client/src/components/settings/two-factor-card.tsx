@@ -0,0 +1,342 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { TwoFactorMethod } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Copy, Loader2, ShieldCheck } from "lucide-react";
+
+type TwoFactorStatus = {
+  method: TwoFactorMethod | null;
+  enabledAt: string | null;
+  phoneHint: string | null;
+  recoveryCodesRemaining: number;
+};
+
+// Setup in progress, between choosing a method and confirming a code
+type TwoFactorSetup =
+  | { method: "totp"; secret: string; otpauthUrl: string }
+  | { method: "sms"; phoneHint: string };
+
+const TWO_FACTOR_QUERY_KEY = "/api/2fa";
+
+async function postJson<T>(url: string, body?: unknown, fallbackError = "Something went wrong. Please try again."): Promise<T> {
+  const res = await apiRequest("POST", url, body);
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => null);
+    throw new Error(errorData?.error || fallbackError);
+  }
+  return res.status === 204 ? (undefined as T) : res.json();
+}
+
+export function TwoFactorCard() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [phoneNumber, setPhoneNumber] = useState("");
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [password, setPassword] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: [TWO_FACTOR_QUERY_KEY],
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const totpSetupMutation = useMutation({
+    mutationFn: () => postJson<{ secret: string; otpauthUrl: string }>("/api/2fa/totp/setup"),
+    onSuccess: (data) => {
+      setCode("");
+      setSetup({ method: "totp", ...data });
+    },
+    onError: showError,
+  });
+
+  const smsSetupMutation = useMutation({
+    mutationFn: () => postJson<{ phoneHint: string }>("/api/2fa/sms/setup", { phoneNumber }, "Failed to send code. Please try again."),
+    onSuccess: (data) => {
+      setCode("");
+      setSetup({ method: "sms", phoneHint: data.phoneHint });
+    },
+    onError: showError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: () => postJson<{ recoveryCodes: string[] }>(`/api/2fa/${setup?.method}/enable`, { code }),
+    onSuccess: (data) => {
+      setSetup(null);
+      setCode("");
+      setPhoneNumber("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: [TWO_FACTOR_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "Two-factor authentication is on",
+        description: "You'll be asked for a code each time you sign in.",
+      });
+    },
+    onError: (error: Error) => {
+      setCode("");
+      showError(error);
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => postJson<{ recoveryCodes: string[] }>("/api/2fa/recovery-codes", { password }),
+    onSuccess: (data) => {
+      setPassword("");
+      setRecoveryCodes(data.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: [TWO_FACTOR_QUERY_KEY] });
+    },
+    onError: showError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => postJson<void>("/api/2fa/disable", { password }, "Failed to turn off two-factor authentication."),
+    onSuccess: () => {
+      setPassword("");
+      setRecoveryCodes(null);
+      queryClient.invalidateQueries({ queryKey: [TWO_FACTOR_QUERY_KEY] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({
+        title: "Two-factor authentication is off",
+        description: "You'll sign in with just your password.",
+      });
+    },
+    onError: showError,
+  });
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      toast({ title: "Copied", description: "Your recovery codes are on the clipboard." });
+    } catch {
+      toast({ title: "Couldn't copy", description: "Please copy the codes by hand.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-quicksand">Two-Factor Authentication</CardTitle>
+        <CardDescription>
+          Protect your journal with a code from your phone as well as your password when you sign in
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : recoveryCodes ? (
+          <div className="space-y-3">
+            <h3 className="font-medium">Save your recovery codes</h3>
+            <p className="text-sm text-foreground/70">
+              If you lose your phone, each of these codes lets you sign in once. Keep them somewhere safe;
+              they won't be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 rounded-md border p-4 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={copyRecoveryCodes}>
+                <Copy className="h-4 w-4 mr-2" />
+                Copy codes
+              </Button>
+              <Button onClick={() => setRecoveryCodes(null)}>I've saved them</Button>
+            </div>
+          </div>
+        ) : status?.method ? (
+          <>
+            <div className="flex items-start gap-3">
+              <ShieldCheck className="h-5 w-5 text-green-600 mt-0.5" />
+              <div className="space-y-1">
+                <h3 className="font-medium">
+                  On, with {status.method === "totp" ? "an authenticator app" : `text messages to ${status.phoneHint}`}
+                </h3>
+                <p className="text-sm text-foreground/70">
+                  {status.enabledAt && `Since ${format(new Date(status.enabledAt), "MMM d, yyyy")}. `}
+                  {status.recoveryCodesRemaining} of your recovery codes left.
+                </p>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2 border-t pt-6">
+              <AlertDialog onOpenChange={(open) => !open && setPassword("")}>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline">New recovery codes</Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent className="max-w-[90vw] md:max-w-md">
+                  <AlertDialogHeader>
+                    <AlertDialogTitle className="text-center">New Recovery Codes</AlertDialogTitle>
+                    <AlertDialogDescription className="text-center">
+                      Your current recovery codes will stop working. Enter your password to continue.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <div className="space-y-2">
+                    <Label htmlFor="recovery-codes-password">Password</Label>
+                    <Input
+                      id="recovery-codes-password"
+                      type="password"
+                      autoComplete="current-password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                    />
+                  </div>
+                  <AlertDialogFooter className="flex-col sm:flex-row gap-2">
+                    <AlertDialogCancel className="mt-0 w-full sm:w-auto">Cancel</AlertDialogCancel>
+                    <Button
+                      className="w-full sm:w-auto"
+                      disabled={!password || regenerateMutation.isPending}
+                      onClick={() => regenerateMutation.mutate()}
+                    >
+                      {regenerateMutation.isPending ? "Creating..." : "Create new codes"}
+                    </Button>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+
+              <AlertDialog onOpenChange={(open) => !open && setPassword("")}>
+                <AlertDialogTrigger asChild>
+                  <Button variant="destructive">Turn off</Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent className="max-w-[90vw] md:max-w-md">
+                  <AlertDialogHeader>
+                    <AlertDialogTitle className="text-center">Turn Off Two-Factor Authentication</AlertDialogTitle>
+                    <AlertDialogDescription className="text-center">
+                      You'll sign in with just your password. Enter your password to confirm.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <div className="space-y-2">
+                    <Label htmlFor="disable-two-factor-password">Password</Label>
+                    <Input
+                      id="disable-two-factor-password"
+                      type="password"
+                      autoComplete="current-password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                    />
+                  </div>
+                  <AlertDialogFooter className="flex-col sm:flex-row gap-2">
+                    <AlertDialogCancel className="mt-0 w-full sm:w-auto">Cancel</AlertDialogCancel>
+                    <Button
+                      variant="destructive"
+                      className="w-full sm:w-auto"
+                      disabled={!password || disableMutation.isPending}
+                      onClick={() => disableMutation.mutate()}
+                    >
+                      {disableMutation.isPending ? "Turning off..." : "Turn off"}
+                    </Button>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </>
+        ) : setup ? (
+          <div className="space-y-4">
+            {setup.method === "totp" ? (
+              <div className="space-y-3">
+                <h3 className="font-medium">Add Featherweight to your authenticator app</h3>
+                <p className="text-sm text-foreground/70">
+                  In Google Authenticator, 1Password, Authy or a similar app, add an account and enter this key.
+                  On this phone you can <a href={setup.otpauthUrl} className="text-primary underline">open it in your app</a> instead.
+                </p>
+                <div className="rounded-md border p-3 font-mono text-sm break-all">
+                  {setup.secret.match(/.{1,4}/g)?.join(" ")}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-foreground/70">
+                We've texted a 6-digit code to {setup.phoneHint}.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label>Enter the 6-digit code</Label>
+              <InputOTP maxLength={6} value={code} onChange={setCode}>
+                <InputOTPGroup>
+                  {[0, 1, 2, 3, 4, 5].map((index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                disabled={code.length !== 6 || enableMutation.isPending}
+                onClick={() => enableMutation.mutate()}
+              >
+                {enableMutation.isPending ? "Verifying..." : "Turn on"}
+              </Button>
+              <Button variant="ghost" onClick={() => setSetup(null)}>Cancel</Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <h3 className="font-medium">Authenticator app</h3>
+              <p className="text-sm text-foreground/70">
+                Get codes from an app on your phone. Works without a signal.
+              </p>
+              <Button
+                onClick={() => totpSetupMutation.mutate()}
+                disabled={totpSetupMutation.isPending}
+              >
+                Set up an authenticator app
+              </Button>
+            </div>
+
+            <div className="space-y-3 border-t pt-6">
+              <h3 className="font-medium">Text message</h3>
+              <p className="text-sm text-foreground/70">
+                Get a code by text each time you sign in.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-phone">Phone number</Label>
+                <Input
+                  id="two-factor-phone"
+                  type="tel"
+                  placeholder="+14155552671"
+                  value={phoneNumber}
+                  onChange={(e) => setPhoneNumber(e.target.value)}
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => smsSetupMutation.mutate()}
+                disabled={!phoneNumber || smsSetupMutation.isPending}
+              >
+                {smsSetupMutation.isPending ? "Sending..." : "Text me a code"}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,310 @@
+import { useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { WEBHOOK_EVENTS, type WebhookDelivery, type WebhookEvent, type WebhookSubscription } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Copy, Loader2, RotateCcw, Trash2, Webhook } from "lucide-react";
+
+type ClientWebhook = Omit<WebhookSubscription, "secret" | "createdAt" | "updatedAt"> & {
+  createdAt: string;
+  updatedAt: string;
+};
+
+type ClientWebhookDelivery = Omit<WebhookDelivery, "createdAt" | "lastAttemptAt" | "nextAttemptAt" | "deliveredAt"> & {
+  createdAt: string;
+  lastAttemptAt: string | null;
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+};
+
+const WEBHOOKS_QUERY_KEY = "/api/webhooks";
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  "journal.created": "New journal entries",
+  "journal.updated": "Edited journal entries",
+  "conversation.replied": "Flappy's replies",
+  "mood.detected": "Detected moods",
+  "sms.received": "Text messages you send",
+};
+
+async function sendJson<T>(method: string, url: string, body?: unknown, fallbackError = "Something went wrong. Please try again."): Promise<T> {
+  const res = await apiRequest(method, url, body);
+  if (!res.ok) {
+    const errorData = await res.json().catch(() => null);
+    throw new Error(errorData?.error || fallbackError);
+  }
+  return res.status === 204 ? (undefined as T) : res.json();
+}
+
+function deliveryStatus(delivery: ClientWebhookDelivery): string {
+  if (delivery.status === "succeeded") return `Delivered${delivery.responseStatus ? ` (${delivery.responseStatus})` : ""}`;
+  if (delivery.status === "failed") return "Failed";
+  if (delivery.attempts === 0) return "Sending";
+  return delivery.nextAttemptAt
+    ? `Retrying ${formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}`
+    : "Retrying";
+}
+
+function WebhookDeliveries({ webhook, onError }: { webhook: ClientWebhook; onError: (error: Error) => void }) {
+  const { toast } = useToast();
+  const deliveriesQueryKey = `/api/webhooks/${webhook.id}/deliveries`;
+
+  const { data: deliveries = [], isLoading } = useQuery<ClientWebhookDelivery[]>({
+    queryKey: [deliveriesQueryKey],
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: (deliveryId: number) =>
+      sendJson("POST", `/api/webhooks/deliveries/${deliveryId}/replay`, undefined, "Failed to resend. Please try again."),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [deliveriesQueryKey] });
+      toast({
+        title: "Resending",
+        description: "The event has been queued to send again.",
+      });
+    },
+    onError,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-3">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (deliveries.length === 0) {
+    return <p className="text-xs text-foreground/70 py-2">Nothing has been sent to this webhook yet.</p>;
+  }
+
+  return (
+    <ul className="divide-y rounded-md border text-xs">
+      {deliveries.map((delivery) => (
+        <li key={delivery.id} className="flex items-center justify-between gap-3 p-2">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="font-mono">{delivery.event}</span>
+              <Badge variant={delivery.status === "failed" ? "destructive" : "secondary"}>
+                {deliveryStatus(delivery)}
+              </Badge>
+            </div>
+            <p className="text-foreground/70 truncate">
+              {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+              {delivery.lastError && ` • ${delivery.lastError}`}
+            </p>
+          </div>
+          {delivery.status !== "pending" && (
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={replayMutation.isPending || !webhook.isActive}
+              onClick={() => replayMutation.mutate(delivery.id)}
+            >
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Resend
+            </Button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function WebhooksCard() {
+  const { toast } = useToast();
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(["journal.created"]);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data: webhooks = [], isLoading } = useQuery<ClientWebhook[]>({
+    queryKey: [WEBHOOKS_QUERY_KEY],
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () =>
+      sendJson<WebhookSubscription>("POST", WEBHOOKS_QUERY_KEY, { url, events }, "Failed to add webhook. Please try again."),
+    onSuccess: (webhook) => {
+      queryClient.invalidateQueries({ queryKey: [WEBHOOKS_QUERY_KEY] });
+      setNewSecret(webhook.secret);
+      setUrl("");
+      setEvents(["journal.created"]);
+    },
+    onError: showError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: number; isActive: boolean }) =>
+      sendJson<ClientWebhook>("PATCH", `/api/webhooks/${id}`, { isActive }, "Failed to update webhook. Please try again."),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [WEBHOOKS_QUERY_KEY] });
+    },
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) =>
+      sendJson("DELETE", `/api/webhooks/${id}`, undefined, "Failed to remove webhook. Please try again."),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [WEBHOOKS_QUERY_KEY] });
+      toast({
+        title: "Webhook removed",
+        description: "Nothing more will be sent to that URL.",
+      });
+    },
+    onError: showError,
+  });
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setEvents((current) => checked ? [...current, event] : current.filter((e) => e !== event));
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate();
+  };
+
+  const copySecret = async () => {
+    if (!newSecret) return;
+    await navigator.clipboard.writeText(newSecret);
+    toast({
+      title: "Copied",
+      description: "The signing secret is on your clipboard.",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="font-quicksand">Webhooks</CardTitle>
+        <CardDescription>
+          Send your journal entries and conversations to tools like Zapier or Notion as they happen
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {newSecret && (
+          <div className="rounded-md border bg-muted/40 p-4 space-y-2">
+            <p className="text-sm font-medium">Copy your signing secret now. It won't be shown again.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 truncate rounded bg-background px-2 py-1 text-xs">{newSecret}</code>
+              <Button variant="outline" size="sm" onClick={copySecret}>
+                <Copy className="h-3 w-3 mr-1" />
+                Copy
+              </Button>
+            </div>
+            <p className="text-xs text-foreground/70">
+              Each request has a Featherweight-Signature header: t is the time it was sent and v1 the
+              HMAC-SHA256 of "t.body" with this secret.
+            </p>
+            <Button variant="ghost" size="sm" onClick={() => setNewSecret(null)}>
+              Done
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : webhooks.length > 0 && (
+          <ul className="divide-y rounded-md border">
+            {webhooks.map((webhook) => (
+              <li key={webhook.id} className="p-3 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex items-start gap-3 min-w-0">
+                    <Webhook className="h-5 w-5 text-foreground/60 mt-0.5 shrink-0" />
+                    <div className="min-w-0 space-y-1">
+                      <p className="font-medium text-sm truncate">{webhook.url}</p>
+                      <div className="flex flex-wrap gap-1">
+                        {webhook.events.map((event) => (
+                          <Badge key={event} variant="outline" className="font-mono text-[10px]">{event}</Badge>
+                        ))}
+                      </div>
+                      {!webhook.isActive && webhook.consecutiveFailures > 0 && (
+                        <p className="text-xs text-destructive">Paused after repeated failed deliveries</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Switch
+                      checked={webhook.isActive}
+                      disabled={updateMutation.isPending}
+                      onCheckedChange={(isActive) => updateMutation.mutate({ id: webhook.id, isActive })}
+                      aria-label={webhook.isActive ? "Pause webhook" : "Resume webhook"}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(webhook.id)}
+                      aria-label="Remove webhook"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={() => setExpandedId(expandedId === webhook.id ? null : webhook.id)}
+                >
+                  {expandedId === webhook.id ? "Hide recent deliveries" : "Show recent deliveries"}
+                </Button>
+                {expandedId === webhook.id && <WebhookDeliveries webhook={webhook} onError={showError} />}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">Endpoint URL</Label>
+            <Input
+              id="webhook-url"
+              type="url"
+              placeholder="https://hooks.example.com/featherweight"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Events</Label>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {WEBHOOK_EVENTS.map((event) => (
+                <label key={event} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                  />
+                  {EVENT_LABELS[event]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <Button type="submit" disabled={createMutation.isPending || !url || events.length === 0}>
+            {createMutation.isPending ? "Adding..." : "Add webhook"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
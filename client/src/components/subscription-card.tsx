@@ -2,41 +2,69 @@ import { useState } from "react";
 import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Stars, Check } from "lucide-react";
+import type { User } from "@shared/schema";
 
 export function SubscriptionCard() {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [isSubscribing, setIsSubscribing] = useState(false);
+  const [promoCode, setPromoCode] = useState("");
 
-  // Subscribe to premium (simulation for demo purposes)
-  const subscribeMutation = useMutation({
+  // Start the account's free trial
+  const trialMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("PATCH", "/api/user/subscription", { 
-        isPremium: true,
-        durationMonths: 1
-      });
+      const res = await apiRequest("POST", "/api/premium/trial");
       
       if (!res.ok) {
         const errorData = await res.json();
-        throw new Error(errorData.message || "Failed to subscribe");
+        throw new Error(errorData.error || "Failed to start trial");
       }
       
       return await res.json();
     },
     onSuccess: () => {
       toast({
-        title: "Subscription activated!",
-        description: "You now have access to premium features!",
+        title: "Your free trial has started!",
+        description: "You now have access to premium features.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't start trial",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  });
+
+  // Redeem a promo code for premium access
+  const redeemMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/premium/redeem", { code });
+      
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || "Failed to redeem promo code");
+      }
+      
+      return await res.json() as { durationDays: number };
+    },
+    onSuccess: ({ durationDays }) => {
+      setPromoCode("");
+      toast({
+        title: "Promo code redeemed!",
+        description: `You have ${durationDays} days of premium features.`,
       });
       queryClient.invalidateQueries({ queryKey: ["/api/user"] });
     },
     onError: (error: Error) => {
       toast({
-        title: "Subscription failed",
+        title: "Promo code not applied",
         description: error.message,
         variant: "destructive",
       });
@@ -44,8 +72,15 @@ export function SubscriptionCard() {
   });
 
   const handleSubscribe = () => {
-    // Redirect to the billing page instead of directly subscribing
-    window.location.href = '/billing';
+    // Paid subscriptions are set up on the subscription page
+    window.location.href = '/subscription';
+  };
+
+  const handleRedeem = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (promoCode.trim()) {
+      redeemMutation.mutate(promoCode.trim());
+    }
   };
 
   // If the user is already premium, show a different message
@@ -77,9 +112,7 @@ export function SubscriptionCard() {
         </CardContent>
         <CardFooter>
           <p className="text-sm text-muted-foreground">
-            Your subscription will {user.premiumUntil 
-              ? `renew on ${new Date(user.premiumUntil).toLocaleDateString()}` 
-              : "renew automatically"}
+            {premiumStatusText(user)}
           </p>
         </CardFooter>
       </Card>
@@ -120,15 +153,49 @@ export function SubscriptionCard() {
           </li>
         </ul>
       </CardContent>
-      <CardFooter>
-        <Button 
-          onClick={handleSubscribe} 
-          className="w-full" 
-          disabled={isSubscribing}
-        >
-          {isSubscribing ? "Processing..." : "Subscribe Now"}
+      <CardFooter className="flex flex-col gap-3">
+        <Button onClick={handleSubscribe} className="w-full">
+          Subscribe Now
         </Button>
+        {!user?.trialEndsAt && (
+          <Button
+            variant="outline"
+            onClick={() => trialMutation.mutate()}
+            className="w-full"
+            disabled={trialMutation.isPending}
+          >
+            {trialMutation.isPending ? "Starting trial..." : "Start free trial"}
+          </Button>
+        )}
+        <form onSubmit={handleRedeem} className="flex w-full gap-2">
+          <Input
+            value={promoCode}
+            onChange={(e) => setPromoCode(e.target.value)}
+            placeholder="Promo code"
+            aria-label="Promo code"
+          />
+          <Button type="submit" variant="secondary" disabled={!promoCode.trim() || redeemMutation.isPending}>
+            {redeemMutation.isPending ? "Applying..." : "Apply"}
+          </Button>
+        </form>
       </CardFooter>
     </Card>
   );
-}
\ No newline at end of file
+}
+// When the user's premium access ends or renews, by where it comes from
+function premiumStatusText(user: Omit<User, "password">): string {
+  const until = user.premiumUntil ? new Date(user.premiumUntil).toLocaleDateString() : null;
+
+  if (user.premiumSource === "trial") {
+    return until ? `Your free trial ends on ${until}` : "You're on a free trial";
+  }
+  if (user.premiumSource === "promo") {
+    return until ? `Your promo access ends on ${until}` : "You have premium through a promo code";
+  }
+  if (!until) {
+    return "Your subscription will renew automatically";
+  }
+  return user.cancelAtPeriodEnd
+    ? `Your subscription ends on ${until}`
+    : `Your subscription will renew on ${until}`;
+}
@@ -12,7 +12,8 @@ type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  loginMutation: UseMutationResult<SelectUser | TwoFactorChallenge, Error, LoginData>;
+  twoFactorMutation: UseMutationResult<SelectUser, Error, TwoFactorData>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<SelectUser, Error, RegisterData>;
 };
@@ -30,6 +31,18 @@ type LoginData = {
   password: string;
 };
 
+// Returned by login instead of the user when a second step is needed
+export type TwoFactorChallenge = {
+  twoFactorRequired: true;
+  method: "totp" | "sms";
+  phoneHint?: string;
+};
+
+// A code from the user's app or phone, or one of their recovery codes
+type TwoFactorData = {
+  code: string;
+};
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
@@ -55,13 +68,44 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         throw new Error(err instanceof Error ? err.message : "Login failed. Please try again.");
       }
     },
+    onSuccess: (result: SelectUser | TwoFactorChallenge) => {
+      // The auth page asks for the code; the user isn't signed in yet
+      if ("twoFactorRequired" in result) return;
+
+      queryClient.setQueryData(["/api/user"], result);
+      toast({
+        title: "Welcome back!",
+        description: "You have successfully logged in.",
+      });
+      
+      // Force redirect to journal page
+      window.location.href = "/journal";
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const twoFactorMutation = useMutation({
+    mutationFn: async (data: TwoFactorData) => {
+      const res = await apiRequest("POST", "/api/login/2fa", data);
+      if (!res.ok) {
+        const errorData = await res.json().catch(() => ({}));
+        throw new Error(errorData.message || "That code isn't right. Please try again.");
+      }
+      return await res.json();
+    },
     onSuccess: (user: SelectUser) => {
       queryClient.setQueryData(["/api/user"], user);
       toast({
         title: "Welcome back!",
         description: "You have successfully logged in.",
       });
-      
+
       // Force redirect to journal page
       window.location.href = "/journal";
     },
@@ -157,6 +201,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        twoFactorMutation,
         logoutMutation,
         registerMutation: registerMutation as unknown as UseMutationResult<SelectUser, Error, RegisterData>,
       }}
@@ -0,0 +1,82 @@
+export interface ConversationStreamResult {
+  conversationId: number;
+  threadId: number;
+  response: string;
+  reflectionPrompt?: string;
+}
+
+interface ConversationStreamHandlers {
+  onDelta: (text: string) => void;
+  onReflection?: (reflectionPrompt: string) => void;
+}
+
+/**
+ * Send a chat message and read Flappy's reply from the server's event stream.
+ * Resolves once the reply is complete and saved; rejects if the stream ends early.
+ */
+export async function streamConversation(
+  body: Record<string, unknown>,
+  handlers: ConversationStreamHandlers,
+  signal?: AbortSignal,
+): Promise<ConversationStreamResult> {
+  let res: Response;
+  try {
+    res = await fetch("/api/conversation/stream", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+      body: JSON.stringify(body),
+      credentials: "include",
+      signal,
+    });
+  } catch (error) {
+    console.error("Network error during conversation stream:", error);
+    throw new Error("Network error. Please check your connection and try again.");
+  }
+
+  if (!res.ok || !res.body) {
+    const errorData = await res.json().catch(() => null);
+    throw new Error(errorData?.message || "Failed to send message. Please try again.");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      let data = "";
+      for (const line of rawEvent.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+      if (!data) continue;
+
+      const payload = JSON.parse(data);
+      switch (event) {
+        case "delta":
+          handlers.onDelta(payload.text);
+          break;
+        case "reflection":
+          handlers.onReflection?.(payload.reflectionPrompt);
+          break;
+        case "done":
+          return payload as ConversationStreamResult;
+        case "error":
+          throw new Error(payload.message || "Flappy's reply was interrupted");
+      }
+    }
+  }
+
+  throw new Error("The connection to Flappy was lost. Please try again.");
+}
@@ -1,7 +1,7 @@
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
-import { useState, useEffect } from "react";
+import { useState, useEffect, FormEvent } from "react";
 import { useLocation, useSearch } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { insertUserSchema } from "@shared/schema";
@@ -19,6 +19,7 @@ import { useToast } from "@/hooks/use-toast";
 import { AlertCircle, ArrowLeft, CheckCircle, Loader2 } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Checkbox } from "@/components/ui/checkbox";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 
 // Extend schema for client-side validation
 const registerSchema = insertUserSchema.extend({
@@ -76,7 +77,15 @@ export default function AuthPage() {
   const [, navigate] = useLocation();
   const search = useSearch();
   const { toast } = useToast();
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, twoFactorMutation, registerMutation } = useAuth();
+
+  // Second step of signing in, when the account has two-factor authentication on
+  const twoFactorChallenge = loginMutation.data && "twoFactorRequired" in loginMutation.data
+    ? loginMutation.data
+    : null;
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [resendingCode, setResendingCode] = useState(false);
 
   // Redirect if already logged in
   useEffect(() => {
@@ -151,12 +160,52 @@ export default function AuthPage() {
 
   const onLoginSubmit = (data: LoginFormValues) => {
     loginMutation.mutate(data, {
-      onSuccess: () => {
+      onSuccess: (result) => {
+        // With two-factor authentication on, the code is asked for first
+        if ("twoFactorRequired" in result) {
+          setTwoFactorCode("");
+          setUseRecoveryCode(false);
+          return;
+        }
         // Force navigation after login
         navigate("/journal");
       }
     });
   };
+
+  const onTwoFactorSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!twoFactorCode.trim()) return;
+    twoFactorMutation.mutate({ code: twoFactorCode }, {
+      onSuccess: () => {
+        navigate("/journal");
+      },
+      onError: () => {
+        setTwoFactorCode("");
+      }
+    });
+  };
+
+  const onResendTwoFactorCode = async () => {
+    setResendingCode(true);
+    try {
+      const response = await apiRequest("POST", "/api/login/2fa/resend");
+      const result = await response.json().catch(() => ({}));
+      toast({
+        title: response.ok ? "Code sent" : "Couldn't send a new code",
+        description: result.message,
+        variant: response.ok ? "default" : "destructive",
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't send a new code",
+        description: "An error occurred. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setResendingCode(false);
+    }
+  };
   
   const onForgotPasswordSubmit = async (data: ForgotPasswordFormValues) => {
     try {
@@ -408,6 +457,82 @@ export default function AuthPage() {
                         
                         {/* Login Tab */}
                         <TabsContent value="login">
+                          {twoFactorChallenge ? (
+                            <form onSubmit={onTwoFactorSubmit} className="space-y-4">
+                              <p className="text-sm text-muted-foreground text-center">
+                                {useRecoveryCode
+                                  ? "Enter one of the recovery codes you saved when you turned on two-factor authentication."
+                                  : twoFactorChallenge.method === "sms"
+                                    ? `Enter the 6-digit code we texted to ${twoFactorChallenge.phoneHint}.`
+                                    : "Enter the 6-digit code from your authenticator app."}
+                              </p>
+
+                              {useRecoveryCode ? (
+                                <Input
+                                  placeholder="XXXXX-XXXXX"
+                                  autoComplete="off"
+                                  value={twoFactorCode}
+                                  onChange={(e) => setTwoFactorCode(e.target.value)}
+                                />
+                              ) : (
+                                <div className="flex justify-center">
+                                  <InputOTP
+                                    maxLength={6}
+                                    autoFocus
+                                    value={twoFactorCode}
+                                    onChange={setTwoFactorCode}
+                                  >
+                                    <InputOTPGroup>
+                                      {[0, 1, 2, 3, 4, 5].map((index) => (
+                                        <InputOTPSlot key={index} index={index} />
+                                      ))}
+                                    </InputOTPGroup>
+                                  </InputOTP>
+                                </div>
+                              )}
+
+                              <Button
+                                type="submit"
+                                className="w-full font-quicksand"
+                                disabled={twoFactorMutation.isPending || !twoFactorCode.trim()}
+                              >
+                                {twoFactorMutation.isPending ? "Verifying..." : "Verify"}
+                              </Button>
+
+                              <div className="flex justify-between items-center w-full mt-4">
+                                <button
+                                  type="button"
+                                  className="text-xs text-muted-foreground hover:text-primary"
+                                  onClick={() => {
+                                    setUseRecoveryCode(!useRecoveryCode);
+                                    setTwoFactorCode("");
+                                  }}
+                                >
+                                  {useRecoveryCode ? "Use a 6-digit code" : "Use a recovery code"}
+                                </button>
+                                {twoFactorChallenge.method === "sms" && !useRecoveryCode && (
+                                  <button
+                                    type="button"
+                                    className="text-xs text-muted-foreground hover:text-primary"
+                                    disabled={resendingCode}
+                                    onClick={onResendTwoFactorCode}
+                                  >
+                                    {resendingCode ? "Sending..." : "Send a new code"}
+                                  </button>
+                                )}
+                              </div>
+
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                className="w-full"
+                                onClick={() => loginMutation.reset()}
+                              >
+                                <ArrowLeft className="mr-2 h-4 w-4" />
+                                Back to sign in
+                              </Button>
+                            </form>
+                          ) : (
                           <Form {...loginForm}>
                             <form onSubmit={loginForm.handleSubmit(onLoginSubmit)} className="space-y-4">
                               <FormField
@@ -462,6 +587,7 @@ export default function AuthPage() {
                               </div>
                             </form>
                           </Form>
+                          )}
                         </TabsContent>
                         
                         {/* Register Tab */}
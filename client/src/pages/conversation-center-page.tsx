@@ -295,7 +295,11 @@ export default function ConversationCenterPage() {
       });
       
       if (!response.ok) {
-        throw new Error("Failed to send message. Please try again.");
+        // Over the plan's daily limit comes back as an upgrade_required error with a message to show
+        const errorData = await response.json().catch(() => null);
+        throw new Error(errorData?.code === "upgrade_required"
+          ? errorData.error
+          : "Failed to send message. Please try again.");
       }
       
       const responseData = await response.json();
@@ -4,6 +4,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { streamConversation } from "@/lib/conversation-stream";
 import { useToast } from "@/hooks/use-toast";
 import { Header } from "@/components/layout/header";
 import { Footer } from "@/components/layout/footer";
@@ -237,9 +238,11 @@ export default function ConversationPage() {
     // Reset the form
     form.reset();
     
+    // Add a loading state for Flappy's response; it fills in as the reply streams
+    const loadingId = generateId();
+    let streamedContent = "";
+    
     try {
-      // Add a loading state for Flappy's response
-      const loadingId = generateId();
       setMessages((prev) => [
         ...prev,
         {
@@ -250,35 +253,36 @@ export default function ConversationPage() {
         },
       ]);
       
-      // Call the API to get Flappy's response
+      // Stream Flappy's response into the loading message as it arrives
       // Note: We're NOT creating a journal entry automatically anymore
-      const response = await apiRequest("POST", "/api/conversation", {
-        message: data.message,
-        createJournalEntry: false, // Don't create a journal entry automatically
-        isFirstMessage: messages.filter(m => m.type === "flappy").length === 0, // Check if this is the first flappy message
-      });
-      
-      if (!response.ok) {
-        throw new Error("Failed to send message");
-      }
-      
-      const responseData = await response.json();
-      
-      // Remove the loading message and add Flappy's actual response
-      setMessages((prev) => {
-        const filtered = prev.filter((msg) => msg.id !== loadingId);
-        return [
-          ...filtered,
-          {
-            id: generateId(),
-            content: responseData.response,
-            type: "flappy",
-            timestamp: new Date(),
-            reflectionPrompt: responseData.reflectionPrompt || undefined,
-            conversationId: responseData.conversationId
+      const responseData = await streamConversation(
+        {
+          message: data.message,
+          createJournalEntry: false, // Don't create a journal entry automatically
+          isFirstMessage: messages.filter(m => m.type === "flappy").length === 0, // Check if this is the first flappy message
+        },
+        {
+          onDelta: (text) => {
+            streamedContent += text;
+            setMessages((prev) => prev.map((msg) =>
+              msg.id === loadingId ? { ...msg, content: streamedContent } : msg
+            ));
           },
-        ];
-      });
+        }
+      );
+      
+      // Replace the streamed text with the final saved response
+      setMessages((prev) => prev.map((msg) =>
+        msg.id === loadingId
+          ? {
+              ...msg,
+              content: responseData.response,
+              timestamp: new Date(),
+              reflectionPrompt: responseData.reflectionPrompt || undefined,
+              conversationId: responseData.conversationId,
+            }
+          : msg
+      ));
       
       // Use the first message as a potential title for the conversation
       if (messages.length <= 2 && !conversationTitle) {
@@ -289,8 +293,10 @@ export default function ConversationPage() {
         setConversationTitle(potentialTitle);
       }
     } catch (error) {
-      // Remove the loading message if there was an error
-      setMessages((prev) => prev.filter((msg) => msg.content !== "Flappy is ruffling his feathers..."));
+      // Keep any part of the reply that already arrived; otherwise drop the loading message
+      setMessages((prev) => streamedContent
+        ? prev.map((msg) => msg.id === loadingId ? { ...msg, content: `${streamedContent}…` } : msg)
+        : prev.filter((msg) => msg.id !== loadingId));
       
       toast({
         title: "Message Failed",
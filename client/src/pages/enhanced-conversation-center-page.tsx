@@ -4,6 +4,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { streamConversation } from "@/lib/conversation-stream";
 import { useToast } from "@/hooks/use-toast";
 import { Header } from "@/components/layout/enhanced-header";
 import { Footer } from "@/components/layout/footer";
@@ -395,8 +396,10 @@ export default function EnhancedConversationCenterPage() {
     
     form.reset();
     
+    const loadingId = generateId();
+    let streamedContent = "";
+    
     try {
-      const loadingId = generateId();
       setMessages((prev) => [
         ...prev,
         {
@@ -407,22 +410,27 @@ export default function EnhancedConversationCenterPage() {
         },
       ]);
       
-      const response = await apiRequest("POST", "/api/conversation", {
-        message: data.message,
-        mood: currentMood,
-        createJournalEntry: false,
-        isFirstMessage: messages.filter(m => m.type === "user").length === 0,
-      });
-      
-      if (!response.ok) {
-        throw new Error("Failed to send message. Please try again.");
-      }
-      
-      const responseData = await response.json();
+      // Render Flappy's reply token by token as it streams in
+      const responseData = await streamConversation(
+        {
+          message: data.message,
+          mood: currentMood,
+          createJournalEntry: false,
+          isFirstMessage: messages.filter(m => m.type === "user").length === 0,
+        },
+        {
+          onDelta: (text) => {
+            streamedContent += text;
+            setMessages((prev) => prev.map((msg) =>
+              msg.id === loadingId ? { ...msg, content: streamedContent } : msg
+            ));
+          },
+        }
+      );
       
       // Generate enhanced response with personality indicators
       const flappyResponse: Message = {
-        id: generateId(),
+        id: loadingId,
         content: responseData.response,
         type: "flappy",
         timestamp: new Date(),
@@ -431,10 +439,7 @@ export default function EnhancedConversationCenterPage() {
         insights: generateInsights(data.message)
       };
       
-      setMessages((prev) => {
-        const filtered = prev.filter((msg) => msg.id !== loadingId);
-        return [...filtered, flappyResponse];
-      });
+      setMessages((prev) => prev.map((msg) => msg.id === loadingId ? flappyResponse : msg));
       
       if (messages.length <= 2 && !conversationTitle) {
         const potentialTitle = data.message.length > 50 
@@ -443,7 +448,10 @@ export default function EnhancedConversationCenterPage() {
         setConversationTitle(potentialTitle);
       }
     } catch (error) {
-      setMessages((prev) => prev.filter((msg) => msg.content !== "Flappy is thoughtfully considering your message... 🤔✨"));
+      // Keep any part of the reply that already arrived; otherwise drop the loading message
+      setMessages((prev) => streamedContent
+        ? prev.map((msg) => msg.id === loadingId ? { ...msg, content: `${streamedContent}…` } : msg)
+        : prev.filter((msg) => msg.id !== loadingId));
       
       toast({
         title: "Message Failed",
@@ -1,123 +1,220 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
 import { Header } from "@/components/layout/enhanced-header";
 import { Footer } from "@/components/layout/footer";
 import { Container } from "@/components/ui/container";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Helmet } from 'react-helmet';
-import { 
-  Brain, 
-  TrendingUp, 
-  Heart, 
+import {
+  Brain,
+  TrendingUp,
+  TrendingDown,
+  Heart,
   Lightbulb,
-  Calendar,
   Target,
   Sparkles,
-  BarChart3,
   PieChart,
   Activity,
-  Zap,
   Star,
   ArrowRight,
   RefreshCw,
-  Download,
-  Share2
+  Waves,
+  Minus,
 } from "lucide-react";
-import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import {
   Tabs,
   TabsContent,
   TabsList,
   TabsTrigger,
 } from "@/components/ui/tabs";
-import { QuantumConsciousnessDashboard } from "@/components/consciousness/quantum-consciousness-dashboard";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart as RechartsPieChart, Cell, BarChart, Bar } from 'recharts';
-
-// Mock data for demonstration - in real app, this would come from the backend
-const mockMoodData = [
-  { date: '2024-01-01', mood: 7, entries: 2 },
-  { date: '2024-01-02', mood: 6, entries: 1 },
-  { date: '2024-01-03', mood: 8, entries: 3 },
-  { date: '2024-01-04', mood: 5, entries: 1 },
-  { date: '2024-01-05', mood: 9, entries: 2 },
-  { date: '2024-01-06', mood: 7, entries: 2 },
-  { date: '2024-01-07', mood: 8, entries: 1 },
-];
+import { Tooltip, ResponsiveContainer, PieChart as RechartsPieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
 
-const mockThemeData = [
-  { name: 'Work Stress', value: 35, color: '#ef4444' },
-  { name: 'Relationships', value: 25, color: '#3b82f6' },
-  { name: 'Personal Growth', value: 20, color: '#10b981' },
-  { name: 'Health & Wellness', value: 15, color: '#f59e0b' },
-  { name: 'Creativity', value: 5, color: '#8b5cf6' },
-];
+// Shapes served by /api/insights; dates arrive as strings over JSON
+type EmotionalTone = 'positive' | 'neutral' | 'negative' | 'mixed';
+
+type ConversationTheme = {
+  name: string;
+  frequency: number;
+  emotionalTone: EmotionalTone;
+  keywords: string[];
+  relatedEntries: number[];
+  insights: string[];
+  firstMention: string;
+  lastMention: string;
+};
+
+type KeyMoment = {
+  date: string;
+  type: 'breakthrough' | 'setback' | 'milestone' | 'turning_point';
+  description: string;
+  entryId?: number;
+};
 
-const mockInsights = [
-  {
-    id: 1,
-    type: 'pattern',
-    title: 'Weekly Stress Pattern Detected',
-    description: 'You tend to experience higher stress levels on Mondays and Wednesdays. Consider planning lighter schedules on these days.',
-    confidence: 0.85,
-    actionable: true,
-    suggestedActions: [
-      'Schedule important meetings on Tuesdays or Thursdays',
-      'Plan relaxing activities for Monday evenings',
-      'Consider meditation before Wednesday meetings'
-    ],
-    relatedThemes: ['Work Stress', 'Time Management'],
-    timeframe: { start: new Date('2024-01-01'), end: new Date('2024-01-31') },
-    icon: Calendar,
-    color: 'from-red-500 to-orange-500'
-  },
-  {
-    id: 2,
-    type: 'growth',
-    title: 'Positive Emotional Trajectory',
-    description: 'Your emotional well-being shows a 23% improvement over the past month, particularly in areas of self-confidence and optimism.',
-    confidence: 0.92,
-    actionable: true,
-    suggestedActions: [
-      'Continue current wellness practices',
-      'Document what\'s working well',
-      'Share your success strategies with others'
-    ],
-    relatedThemes: ['Personal Growth', 'Mental Health'],
-    timeframe: { start: new Date('2024-01-01'), end: new Date('2024-01-31') },
-    icon: TrendingUp,
-    color: 'from-emerald-500 to-teal-500'
-  },
-  {
-    id: 3,
-    type: 'connection',
-    title: 'Social Support Correlation',
-    description: 'Your mood consistently improves by 40% on days when you mention spending time with friends or family.',
-    confidence: 0.78,
-    actionable: true,
-    suggestedActions: [
-      'Schedule regular social activities',
-      'Reach out to friends during difficult times',
-      'Consider joining social groups or communities'
-    ],
-    relatedThemes: ['Relationships', 'Social Connection'],
-    timeframe: { start: new Date('2024-01-01'), end: new Date('2024-01-31') },
-    icon: Heart,
-    color: 'from-pink-500 to-rose-500'
-  }
+type EmotionalArc = {
+  timeframe: { start: string; end: string };
+  overallTrend: 'improving' | 'declining' | 'stable' | 'volatile';
+  keyMoments: KeyMoment[];
+  emotionalDistribution: { positive: number; neutral: number; negative: number };
+};
+
+type ConversationInsight = {
+  type: 'pattern' | 'growth' | 'concern' | 'achievement' | 'connection';
+  title: string;
+  description: string;
+  confidence: number;
+  actionable: boolean;
+  suggestedActions?: string[];
+  relatedThemes: string[];
+  timeframe: { start: string; end: string };
+};
+
+type InsightsReport = {
+  themes: ConversationTheme[];
+  emotionalArc: EmotionalArc | null;
+  insights: ConversationInsight[];
+  summary: string | null;
+  summaryRequiresUpgrade: boolean;
+  generatedAt: string;
+};
+
+type MoodPattern = {
+  pattern: 'weekly_low' | 'stress_spike' | 'consistent_anxiety' | 'positive_trend' | 'emotional_volatility';
+  confidence: number;
+  triggers: string[];
+  timeframe: { start: string; end: string };
+  recommendations: string[];
+};
+
+const TIMEFRAMES = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
 ];
 
+const CARD_CLASS = "bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 rounded-xl shadow-lg";
+const TAB_CLASS = "font-quicksand font-medium data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-500 data-[state=active]:to-indigo-500 data-[state=active]:text-white rounded-lg transition-all duration-200";
+
+const INSIGHT_STYLES: Record<ConversationInsight['type'], { icon: typeof Star; color: string }> = {
+  pattern: { icon: Activity, color: 'from-blue-500 to-indigo-500' },
+  growth: { icon: TrendingUp, color: 'from-emerald-500 to-teal-500' },
+  concern: { icon: Heart, color: 'from-pink-500 to-rose-500' },
+  achievement: { icon: Star, color: 'from-amber-500 to-orange-500' },
+  connection: { icon: Sparkles, color: 'from-purple-500 to-pink-500' },
+};
+
+const TREND_STYLES: Record<EmotionalArc['overallTrend'], { icon: typeof Star; label: string; description: string }> = {
+  improving: { icon: TrendingUp, label: 'Improving', description: 'Your recent entries are brighter than your earlier ones.' },
+  declining: { icon: TrendingDown, label: 'Declining', description: 'Your recent entries are heavier than your earlier ones. Be gentle with yourself.' },
+  stable: { icon: Minus, label: 'Steady', description: 'Your mood has held fairly steady.' },
+  volatile: { icon: Waves, label: 'Changeable', description: 'Your mood has swung back and forth between highs and lows.' },
+};
+
+const MOMENT_LABELS: Record<KeyMoment['type'], string> = {
+  breakthrough: 'Breakthrough',
+  setback: 'Setback',
+  milestone: 'Milestone',
+  turning_point: 'Turning point',
+};
+
+const PATTERN_LABELS: Record<MoodPattern['pattern'], string> = {
+  weekly_low: 'Harder days of the week',
+  stress_spike: 'Stress building up',
+  consistent_anxiety: 'Ongoing anxiety',
+  positive_trend: 'Positive momentum',
+  emotional_volatility: 'Changeable emotions',
+};
+
+const TONE_COLORS: Record<EmotionalTone, string> = {
+  positive: '#10b981',
+  neutral: '#64748b',
+  negative: '#ef4444',
+  mixed: '#8b5cf6',
+};
+
+const THEME_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#6366f1'];
+
+function percent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+function EmptyState({ message }: { message: string }) {
+  return (
+    <div className="text-center py-10 space-y-3">
+      <p className="text-slate-600 dark:text-slate-400">{message}</p>
+      <Button asChild variant="outline" className="font-quicksand rounded-xl">
+        <Link href="/journal">Write in your journal</Link>
+      </Button>
+    </div>
+  );
+}
+
 export default function InsightsPage() {
-  const { user } = useAuth();
-  const [isLoading, setIsLoading] = useState(false);
-  const [selectedTimeframe, setSelectedTimeframe] = useState('30days');
+  const { toast } = useToast();
+  const [days, setDays] = useState(30);
+
+  const reportUrl = `/api/insights/report?days=${days}`;
+  const patternsUrl = `/api/insights/patterns?days=${days}`;
+
+  // Analysis can take a while the first time, so it's cached on both sides
+  const { data: report, isLoading: isReportLoading } = useQuery<InsightsReport>({
+    queryKey: [reportUrl],
+    staleTime: 10 * 60 * 1000,
+  });
+  const { data: patterns = [], isLoading: arePatternsLoading } = useQuery<MoodPattern[]>({
+    queryKey: [patternsUrl],
+    staleTime: 10 * 60 * 1000,
+  });
 
-  const handleRefreshInsights = async () => {
-    setIsLoading(true);
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    setIsLoading(false);
-  };
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      const [reportRes, patternsRes] = await Promise.all([
+        apiRequest("GET", `${reportUrl}&refresh=true`),
+        apiRequest("GET", `${patternsUrl}&refresh=true`),
+      ]);
+      if (!reportRes.ok || !patternsRes.ok) {
+        throw new Error("Failed to refresh insights. Please try again.");
+      }
+      return { report: await reportRes.json(), patterns: await patternsRes.json() };
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData([reportUrl], data.report);
+      queryClient.setQueryData([patternsUrl], data.patterns);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const arc = report?.emotionalArc ?? null;
+  const themes = report?.themes ?? [];
+  const insights = report?.insights ?? [];
+  const trend = arc ? TREND_STYLES[arc.overallTrend] : null;
+  const isLoading = isReportLoading || arePatternsLoading;
+
+  const distributionData = arc ? [
+    { name: 'Positive', value: Math.round(arc.emotionalDistribution.positive * 100), color: TONE_COLORS.positive },
+    { name: 'Neutral', value: Math.round(arc.emotionalDistribution.neutral * 100), color: TONE_COLORS.neutral },
+    { name: 'Negative', value: Math.round(arc.emotionalDistribution.negative * 100), color: TONE_COLORS.negative },
+  ] : [];
+
+  const metrics = [
+    { label: 'Insights', value: insights.length.toString(), icon: Lightbulb, color: 'from-blue-500 to-indigo-500' },
+    { label: 'Emotional Trend', value: trend?.label ?? '—', icon: trend?.icon ?? TrendingUp, color: 'from-emerald-500 to-teal-500' },
+    { label: 'Patterns Found', value: patterns.length.toString(), icon: Target, color: 'from-purple-500 to-pink-500' },
+    { label: 'Positive Moments', value: arc ? percent(arc.emotionalDistribution.positive) : '—', icon: Heart, color: 'from-amber-500 to-orange-500' },
+  ];
 
   return (
     <>
@@ -129,7 +226,7 @@ export default function InsightsPage() {
         <Header />
         <main className="flex-grow py-8">
           <Container>
-            {/* Enhanced Header Section */}
+            {/* Header Section */}
             <div className="mb-8">
               <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-6">
                 <div className="space-y-2">
@@ -151,175 +248,155 @@ export default function InsightsPage() {
                   </div>
                 </div>
 
-                {/* Action Buttons */}
-                <div className="flex flex-col sm:flex-row gap-3">
-                  <Button 
-                    onClick={handleRefreshInsights}
-                    disabled={isLoading}
-                    variant="outline" 
-                    className="font-quicksand font-medium border-slate-200 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all duration-200"
-                  >
-                    <RefreshCw className={`mr-2 h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
-                    {isLoading ? 'Analyzing...' : 'Refresh Insights'}
-                  </Button>
-
-                  <Button 
-                    variant="outline" 
-                    className="font-quicksand font-medium border-slate-200 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all duration-200"
-                  >
-                    <Download className="mr-2 h-4 w-4" />
-                    Export Report
-                  </Button>
+                {/* Timeframe and Refresh */}
+                <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+                  <Select value={days.toString()} onValueChange={(value) => setDays(Number(value))}>
+                    <SelectTrigger className="w-full sm:w-44 font-quicksand rounded-xl">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TIMEFRAMES.map((timeframe) => (
+                        <SelectItem key={timeframe.days} value={timeframe.days.toString()}>
+                          {timeframe.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
 
-                  <Button 
-                    variant="outline" 
+                  <Button
+                    onClick={() => refreshMutation.mutate()}
+                    disabled={refreshMutation.isPending || isLoading}
+                    variant="outline"
                     className="font-quicksand font-medium border-slate-200 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-all duration-200"
                   >
-                    <Share2 className="mr-2 h-4 w-4" />
-                    Share
+                    <RefreshCw className={`mr-2 h-4 w-4 ${refreshMutation.isPending ? 'animate-spin' : ''}`} />
+                    {refreshMutation.isPending ? 'Analyzing...' : 'Refresh Insights'}
                   </Button>
                 </div>
               </div>
 
-              {/* Key Metrics Cards */}
-              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-8">
-                <Card className="bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300">
-                  <CardContent className="p-4">
-                    <div className="flex items-center space-x-3">
-                      <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-indigo-500 rounded-lg flex items-center justify-center">
-                        <Lightbulb className="h-5 w-5 text-white" />
-                      </div>
-                      <div>
-                        <p className="text-sm text-slate-600 dark:text-slate-400">Total Insights</p>
-                        <p className="text-2xl font-bold text-slate-900 dark:text-white">24</p>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-
-                <Card className="bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300">
-                  <CardContent className="p-4">
-                    <div className="flex items-center space-x-3">
-                      <div className="w-10 h-10 bg-gradient-to-br from-emerald-500 to-teal-500 rounded-lg flex items-center justify-center">
-                        <TrendingUp className="h-5 w-5 text-white" />
-                      </div>
-                      <div>
-                        <p className="text-sm text-slate-600 dark:text-slate-400">Growth Score</p>
-                        <p className="text-2xl font-bold text-slate-900 dark:text-white">87%</p>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
+              {report && (
+                <p className="text-sm text-slate-500 dark:text-slate-400 mt-4">
+                  Updated {formatDistanceToNow(new Date(report.generatedAt), { addSuffix: true })}
+                </p>
+              )}
 
-                <Card className="bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300">
-                  <CardContent className="p-4">
-                    <div className="flex items-center space-x-3">
-                      <div className="w-10 h-10 bg-gradient-to-br from-purple-500 to-pink-500 rounded-lg flex items-center justify-center">
-                        <Target className="h-5 w-5 text-white" />
-                      </div>
-                      <div>
-                        <p className="text-sm text-slate-600 dark:text-slate-400">Patterns Found</p>
-                        <p className="text-2xl font-bold text-slate-900 dark:text-white">12</p>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-
-                <Card className="bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300">
-                  <CardContent className="p-4">
-                    <div className="flex items-center space-x-3">
-                      <div className="w-10 h-10 bg-gradient-to-br from-amber-500 to-orange-500 rounded-lg flex items-center justify-center">
-                        <Zap className="h-5 w-5 text-white" />
-                      </div>
-                      <div>
-                        <p className="text-sm text-slate-600 dark:text-slate-400">Confidence</p>
-                        <p className="text-2xl font-bold text-slate-900 dark:text-white">92%</p>
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
+              {/* Key Metrics Cards */}
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-6">
+                {metrics.map((metric) => {
+                  const IconComponent = metric.icon;
+                  return (
+                    <Card key={metric.label} className={`${CARD_CLASS} hover:shadow-xl transition-all duration-300`}>
+                      <CardContent className="p-4">
+                        <div className="flex items-center space-x-3">
+                          <div className={`w-10 h-10 bg-gradient-to-br ${metric.color} rounded-lg flex items-center justify-center`}>
+                            <IconComponent className="h-5 w-5 text-white" />
+                          </div>
+                          <div>
+                            <p className="text-sm text-slate-600 dark:text-slate-400">{metric.label}</p>
+                            {isLoading ? (
+                              <Skeleton className="h-8 w-16" />
+                            ) : (
+                              <p className="text-2xl font-bold text-slate-900 dark:text-white">{metric.value}</p>
+                            )}
+                          </div>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
               </div>
             </div>
 
-            {/* Enhanced Tabs Interface */}
             <Tabs defaultValue="overview" className="space-y-6">
               <TabsList className="grid w-full grid-cols-4 bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 rounded-xl p-1">
-                <TabsTrigger 
-                  value="overview" 
-                  className="font-quicksand font-medium data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-500 data-[state=active]:to-indigo-500 data-[state=active]:text-white rounded-lg transition-all duration-200"
-                >
+                <TabsTrigger value="overview" className={TAB_CLASS}>
                   <Sparkles className="mr-2 h-4 w-4" />
                   Overview
                 </TabsTrigger>
-                <TabsTrigger 
-                  value="patterns" 
-                  className="font-quicksand font-medium data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-500 data-[state=active]:to-indigo-500 data-[state=active]:text-white rounded-lg transition-all duration-200"
-                >
-                  <Activity className="mr-2 h-4 w-4" />
-                  Patterns
+                <TabsTrigger value="arc" className={TAB_CLASS}>
+                  <TrendingUp className="mr-2 h-4 w-4" />
+                  Emotional Arc
                 </TabsTrigger>
-                <TabsTrigger 
-                  value="themes" 
-                  className="font-quicksand font-medium data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-500 data-[state=active]:to-indigo-500 data-[state=active]:text-white rounded-lg transition-all duration-200"
-                >
+                <TabsTrigger value="themes" className={TAB_CLASS}>
                   <PieChart className="mr-2 h-4 w-4" />
                   Themes
                 </TabsTrigger>
-                <TabsTrigger 
-                  value="growth" 
-                  className="font-quicksand font-medium data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-500 data-[state=active]:to-indigo-500 data-[state=active]:text-white rounded-lg transition-all duration-200"
-                >
-                  <TrendingUp className="mr-2 h-4 w-4" />
-                  Growth
-                </TabsTrigger>
-                <TabsTrigger 
-                  value="analytics" 
-                  className="font-quicksand font-medium data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-500 data-[state=active]:to-indigo-500 data-[state=active]:text-white rounded-lg transition-all duration-200"
-                >
-                  <BarChart3 className="mr-2 h-4 w-4" />
-                  Analytics
-                </TabsTrigger>
-                <TabsTrigger 
-                  value="consciousness" 
-                  className="font-quicksand font-medium data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-500 data-[state=active]:to-blue-500 data-[state=active]:text-white rounded-lg transition-all duration-200"
-                >
-                  <Brain className="mr-2 h-4 w-4" />
-                  Quantum Consciousness
+                <TabsTrigger value="patterns" className={TAB_CLASS}>
+                  <Activity className="mr-2 h-4 w-4" />
+                  Patterns
                 </TabsTrigger>
               </TabsList>
 
               <TabsContent value="overview" className="space-y-6">
+                {/* Flappy's Summary */}
+                <Card className={CARD_CLASS}>
+                  <CardHeader>
+                    <CardTitle className="font-quicksand flex items-center space-x-2">
+                      <Sparkles className="h-5 w-5 text-purple-500" />
+                      <span>Flappy's Reflection</span>
+                    </CardTitle>
+                    <CardDescription>A note from Flappy on what your journal shows</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {isReportLoading ? (
+                      <div className="space-y-2">
+                        <Skeleton className="h-4 w-full" />
+                        <Skeleton className="h-4 w-full" />
+                        <Skeleton className="h-4 w-2/3" />
+                      </div>
+                    ) : report?.summaryRequiresUpgrade ? (
+                      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+                        <p className="text-slate-600 dark:text-slate-300">
+                          Flappy's written reflections on your journal are part of Premium.
+                        </p>
+                        <Button asChild className="font-quicksand rounded-xl">
+                          <Link href="/subscription">Upgrade</Link>
+                        </Button>
+                      </div>
+                    ) : (
+                      <p className="text-slate-600 dark:text-slate-300 leading-relaxed whitespace-pre-line">
+                        {report?.summary}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+
                 {/* Key Insights */}
-                <Card className="bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 rounded-xl shadow-lg">
+                <Card className={CARD_CLASS}>
                   <CardHeader>
                     <CardTitle className="font-quicksand flex items-center space-x-2">
                       <Star className="h-5 w-5 text-amber-500" />
                       <span>Key Insights</span>
                     </CardTitle>
-                    <CardDescription>AI-generated insights from your journaling patterns</CardDescription>
+                    <CardDescription>Insights from your journaling patterns</CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-4">
-                    {mockInsights.map((insight) => {
-                      const IconComponent = insight.icon;
+                    {isReportLoading ? (
+                      <Skeleton className="h-32 w-full" />
+                    ) : insights.length === 0 ? (
+                      <EmptyState message="There isn't enough in your journal for this period to draw insights from yet." />
+                    ) : insights.map((insight) => {
+                      const { icon: IconComponent, color } = INSIGHT_STYLES[insight.type];
                       return (
-                        <div key={insight.id} className="group p-6 bg-gradient-to-r from-white to-slate-50 dark:from-slate-800 dark:to-slate-700 rounded-xl border border-slate-200/50 dark:border-slate-600/50 hover:shadow-lg transition-all duration-300">
+                        <div key={insight.title} className="group p-6 bg-gradient-to-r from-white to-slate-50 dark:from-slate-800 dark:to-slate-700 rounded-xl border border-slate-200/50 dark:border-slate-600/50 hover:shadow-lg transition-all duration-300">
                           <div className="flex items-start space-x-4">
-                            <div className={`w-12 h-12 bg-gradient-to-r ${insight.color} rounded-xl flex items-center justify-center shadow-lg`}>
+                            <div className={`w-12 h-12 bg-gradient-to-r ${color} rounded-xl flex items-center justify-center shadow-lg shrink-0`}>
                               <IconComponent className="h-6 w-6 text-white" />
                             </div>
                             <div className="flex-1 space-y-3">
-                              <div className="flex items-center justify-between">
+                              <div className="flex items-center justify-between gap-2">
                                 <h3 className="font-quicksand font-semibold text-lg text-slate-900 dark:text-white">
                                   {insight.title}
                                 </h3>
-                                <Badge variant="secondary" className="text-xs">
-                                  {Math.round(insight.confidence * 100)}% confidence
+                                <Badge variant="secondary" className="text-xs shrink-0">
+                                  {percent(insight.confidence)} confidence
                                 </Badge>
                               </div>
                               <p className="text-slate-600 dark:text-slate-300 leading-relaxed">
                                 {insight.description}
                               </p>
-                              {insight.actionable && (
+                              {insight.actionable && insight.suggestedActions && (
                                 <div className="space-y-2">
                                   <p className="text-sm font-medium text-slate-700 dark:text-slate-300">Suggested Actions:</p>
                                   <ul className="space-y-1">
@@ -332,13 +409,13 @@ export default function InsightsPage() {
                                   </ul>
                                 </div>
                               )}
-                              <div className="flex items-center space-x-2">
-                                {insight.relatedThemes.map((theme) => (
-                                  <Badge key={theme} variant="outline" className="text-xs">
-                                    {theme}
-                                  </Badge>
-                                ))}
-                              </div>
+                              {insight.relatedThemes.length > 0 && (
+                                <div className="flex flex-wrap gap-2">
+                                  {insight.relatedThemes.map((theme) => (
+                                    <Badge key={theme} variant="outline" className="text-xs">{theme}</Badge>
+                                  ))}
+                                </div>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -348,236 +425,203 @@ export default function InsightsPage() {
                 </Card>
               </TabsContent>
 
-              <TabsContent value="patterns" className="space-y-6">
-                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                  {/* Mood Trends */}
-                  <Card className="bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 rounded-xl shadow-lg">
-                    <CardHeader>
-                      <CardTitle className="font-quicksand">Mood Trends</CardTitle>
-                      <CardDescription>Your emotional patterns over time</CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <ResponsiveContainer width="100%" height={300}>
-                        <LineChart data={mockMoodData}>
-                          <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
-                          <XAxis dataKey="date" stroke="#64748b" />
-                          <YAxis stroke="#64748b" />
-                          <Tooltip 
-                            contentStyle={{ 
-                              backgroundColor: 'rgba(255, 255, 255, 0.95)', 
-                              border: '1px solid #e2e8f0',
-                              borderRadius: '8px',
-                              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
-                            }} 
-                          />
-                          <Line 
-                            type="monotone" 
-                            dataKey="mood" 
-                            stroke="url(#moodGradient)" 
-                            strokeWidth={3}
-                            dot={{ fill: '#3b82f6', strokeWidth: 2, r: 4 }}
-                          />
-                          <defs>
-                            <linearGradient id="moodGradient" x1="0" y1="0" x2="1" y2="0">
-                              <stop offset="0%" stopColor="#3b82f6" />
-                              <stop offset="100%" stopColor="#8b5cf6" />
-                            </linearGradient>
-                          </defs>
-                        </LineChart>
-                      </ResponsiveContainer>
+              <TabsContent value="arc" className="space-y-6">
+                {isReportLoading ? (
+                  <Skeleton className="h-64 w-full rounded-xl" />
+                ) : !arc || !trend ? (
+                  <Card className={CARD_CLASS}>
+                    <CardContent className="pt-6">
+                      <EmptyState message="Flappy needs at least three entries with a mood in this period to trace your emotional arc." />
                     </CardContent>
                   </Card>
+                ) : (
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    {/* Trend and Distribution */}
+                    <Card className={CARD_CLASS}>
+                      <CardHeader>
+                        <CardTitle className="font-quicksand flex items-center space-x-2">
+                          <trend.icon className="h-5 w-5 text-emerald-500" />
+                          <span>{trend.label}</span>
+                        </CardTitle>
+                        <CardDescription>
+                          {format(new Date(arc.timeframe.start), "MMM d")} – {format(new Date(arc.timeframe.end), "MMM d, yyyy")}
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <p className="text-slate-600 dark:text-slate-300">{trend.description}</p>
+                        <ResponsiveContainer width="100%" height={220}>
+                          <BarChart data={distributionData}>
+                            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                            <XAxis dataKey="name" stroke="#64748b" />
+                            <YAxis stroke="#64748b" unit="%" />
+                            <Tooltip formatter={(value) => `${value}%`} />
+                            <Bar dataKey="value" radius={[6, 6, 0, 0]}>
+                              {distributionData.map((entry) => (
+                                <Cell key={entry.name} fill={entry.color} />
+                              ))}
+                            </Bar>
+                          </BarChart>
+                        </ResponsiveContainer>
+                      </CardContent>
+                    </Card>
 
-                  {/* Weekly Patterns */}
-                  <Card className="bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 rounded-xl shadow-lg">
-                    <CardHeader>
-                      <CardTitle className="font-quicksand">Weekly Patterns</CardTitle>
-                      <CardDescription>Recurring patterns throughout the week</CardDescription>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      <div className="space-y-3">
-                        <div className="flex items-center justify-between">
-                          <span className="text-sm font-medium">Monday Stress</span>
-                          <span className="text-sm text-slate-600">High</span>
-                        </div>
-                        <Progress value={85} className="h-2" />
-                      </div>
-                      
-                      <div className="space-y-3">
-                        <div className="flex items-center justify-between">
-                          <span className="text-sm font-medium">Weekend Positivity</span>
-                          <span className="text-sm text-slate-600">Very High</span>
-                        </div>
-                        <Progress value={92} className="h-2" />
-                      </div>
-                      
-                      <div className="space-y-3">
-                        <div className="flex items-center justify-between">
-                          <span className="text-sm font-medium">Wednesday Productivity</span>
-                          <span className="text-sm text-slate-600">Medium</span>
-                        </div>
-                        <Progress value={65} className="h-2" />
-                      </div>
-                      
-                      <div className="space-y-3">
-                        <div className="flex items-center justify-between">
-                          <span className="text-sm font-medium">Friday Energy</span>
-                          <span className="text-sm text-slate-600">High</span>
-                        </div>
-                        <Progress value={78} className="h-2" />
-                      </div>
-                    </CardContent>
-                  </Card>
-                </div>
+                    {/* Key Moments */}
+                    <Card className={CARD_CLASS}>
+                      <CardHeader>
+                        <CardTitle className="font-quicksand">Key Moments</CardTitle>
+                        <CardDescription>Turns your mood took along the way</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        {arc.keyMoments.length === 0 ? (
+                          <p className="text-sm text-slate-600 dark:text-slate-400">No big shifts in this period.</p>
+                        ) : (
+                          <ol className="space-y-4 border-l border-slate-200 dark:border-slate-700 pl-4">
+                            {arc.keyMoments.map((moment, index) => (
+                              <li key={index} className="space-y-1">
+                                <div className="flex items-center gap-2">
+                                  <Badge variant={moment.type === 'setback' ? 'destructive' : 'secondary'} className="text-xs">
+                                    {MOMENT_LABELS[moment.type]}
+                                  </Badge>
+                                  <span className="text-xs text-slate-500">{format(new Date(moment.date), "MMM d, yyyy")}</span>
+                                </div>
+                                <p className="text-sm text-slate-700 dark:text-slate-300">{moment.description}</p>
+                              </li>
+                            ))}
+                          </ol>
+                        )}
+                      </CardContent>
+                    </Card>
+                  </div>
+                )}
               </TabsContent>
 
               <TabsContent value="themes" className="space-y-6">
-                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                  {/* Theme Distribution */}
-                  <Card className="bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 rounded-xl shadow-lg">
-                    <CardHeader>
-                      <CardTitle className="font-quicksand">Theme Distribution</CardTitle>
-                      <CardDescription>What you write about most</CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <ResponsiveContainer width="100%" height={300}>
-                        <RechartsPieChart>
-                          <Pie
-                            data={mockThemeData}
-                            cx="50%"
-                            cy="50%"
-                            outerRadius={100}
-                            fill="#8884d8"
-                            dataKey="value"
-                            label={({ name, percent }) => `${name} ${(percent * 100).toFixed(0)}%`}
-                          >
-                            {mockThemeData.map((entry, index) => (
-                              <Cell key={`cell-${index}`} fill={entry.color} />
-                            ))}
-                          </Pie>
-                          <Tooltip />
-                        </RechartsPieChart>
-                      </ResponsiveContainer>
+                {isReportLoading ? (
+                  <Skeleton className="h-64 w-full rounded-xl" />
+                ) : themes.length === 0 ? (
+                  <Card className={CARD_CLASS}>
+                    <CardContent className="pt-6">
+                      <EmptyState message="No recurring themes yet in this period." />
                     </CardContent>
                   </Card>
+                ) : (
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    {/* Theme Distribution */}
+                    <Card className={CARD_CLASS}>
+                      <CardHeader>
+                        <CardTitle className="font-quicksand">Theme Distribution</CardTitle>
+                        <CardDescription>How often each theme comes up</CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <ResponsiveContainer width="100%" height={300}>
+                          <RechartsPieChart>
+                            <Pie
+                              data={themes}
+                              dataKey="frequency"
+                              nameKey="name"
+                              cx="50%"
+                              cy="50%"
+                              outerRadius={100}
+                              label={({ name }) => name}
+                            >
+                              {themes.map((theme, index) => (
+                                <Cell key={theme.name} fill={THEME_COLORS[index % THEME_COLORS.length]} />
+                              ))}
+                            </Pie>
+                            <Tooltip />
+                          </RechartsPieChart>
+                        </ResponsiveContainer>
+                      </CardContent>
+                    </Card>
 
-                  {/* Theme Details */}
-                  <Card className="bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 rounded-xl shadow-lg">
-                    <CardHeader>
-                      <CardTitle className="font-quicksand">Theme Analysis</CardTitle>
-                      <CardDescription>Detailed breakdown of your themes</CardDescription>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      {mockThemeData.map((theme, index) => (
-                        <div key={index} className="flex items-center justify-between p-3 bg-gradient-to-r from-slate-50 to-white dark:from-slate-700 dark:to-slate-600 rounded-lg">
-                          <div className="flex items-center space-x-3">
-                            <div 
-                              className="w-4 h-4 rounded-full" 
-                              style={{ backgroundColor: theme.color }}
-                            ></div>
-                            <span className="font-medium text-sm">{theme.name}</span>
-                          </div>
-                          <div className="text-right">
-                            <p className="text-sm font-semibold">{theme.value}%</p>
-                            <p className="text-xs text-slate-500">of entries</p>
+                    {/* Theme Details */}
+                    <Card className={CARD_CLASS}>
+                      <CardHeader>
+                        <CardTitle className="font-quicksand">Your Themes</CardTitle>
+                        <CardDescription>What you write about most</CardDescription>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        {themes.map((theme, index) => (
+                          <div key={theme.name} className="space-y-2">
+                            <div className="flex items-center justify-between gap-2">
+                              <div className="flex items-center space-x-2">
+                                <span
+                                  className="w-3 h-3 rounded-full"
+                                  style={{ backgroundColor: THEME_COLORS[index % THEME_COLORS.length] }}
+                                />
+                                <span className="font-medium">{theme.name}</span>
+                              </div>
+                              <span className="text-sm text-slate-600 dark:text-slate-400">
+                                {theme.frequency} {theme.frequency === 1 ? 'mention' : 'mentions'}
+                              </span>
+                            </div>
+                            <div className="flex flex-wrap gap-1">
+                              <Badge variant="outline" className="text-xs" style={{ color: TONE_COLORS[theme.emotionalTone] }}>
+                                {theme.emotionalTone}
+                              </Badge>
+                              {theme.keywords.map((keyword) => (
+                                <Badge key={keyword} variant="secondary" className="text-xs">{keyword}</Badge>
+                              ))}
+                            </div>
+                            {theme.insights.map((text, insightIndex) => (
+                              <p key={insightIndex} className="text-sm text-slate-600 dark:text-slate-400">{text}</p>
+                            ))}
                           </div>
-                        </div>
-                      ))}
-                    </CardContent>
-                  </Card>
-                </div>
+                        ))}
+                      </CardContent>
+                    </Card>
+                  </div>
+                )}
               </TabsContent>
 
-              <TabsContent value="growth" className="space-y-6">
-                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                  {/* Growth Metrics */}
-                  <Card className="bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 rounded-xl shadow-lg">
-                    <CardHeader>
-                      <CardTitle className="font-quicksand">Growth Metrics</CardTitle>
-                      <CardDescription>Your personal development progress</CardDescription>
-                    </CardHeader>
-                    <CardContent className="space-y-6">
-                      <div className="space-y-3">
-                        <div className="flex items-center justify-between">
-                          <span className="text-sm font-medium">Self-Awareness</span>
-                          <span className="text-sm text-emerald-600 font-semibold">+23%</span>
-                        </div>
-                        <Progress value={87} className="h-3" />
-                      </div>
-                      
-                      <div className="space-y-3">
-                        <div className="flex items-center justify-between">
-                          <span className="text-sm font-medium">Emotional Regulation</span>
-                          <span className="text-sm text-emerald-600 font-semibold">+18%</span>
-                        </div>
-                        <Progress value={74} className="h-3" />
-                      </div>
-                      
-                      <div className="space-y-3">
-                        <div className="flex items-center justify-between">
-                          <span className="text-sm font-medium">Goal Clarity</span>
-                          <span className="text-sm text-emerald-600 font-semibold">+31%</span>
-                        </div>
-                        <Progress value={92} className="h-3" />
-                      </div>
-                      
-                      <div className="space-y-3">
-                        <div className="flex items-center justify-between">
-                          <span className="text-sm font-medium">Stress Management</span>
-                          <span className="text-sm text-emerald-600 font-semibold">+15%</span>
-                        </div>
-                        <Progress value={68} className="h-3" />
-                      </div>
-                    </CardContent>
-                  </Card>
-
-                  {/* Milestones */}
-                  <Card className="bg-white/70 dark:bg-slate-800/70 backdrop-blur-sm border border-slate-200/50 dark:border-slate-700/50 rounded-xl shadow-lg">
-                    <CardHeader>
-                      <CardTitle className="font-quicksand">Recent Milestones</CardTitle>
-                      <CardDescription>Celebrating your achievements</CardDescription>
-                    </CardHeader>
-                    <CardContent className="space-y-4">
-                      <div className="flex items-center space-x-3 p-3 bg-gradient-to-r from-emerald-50 to-teal-50 dark:from-emerald-900/20 dark:to-teal-900/20 rounded-lg">
-                        <div className="w-8 h-8 bg-gradient-to-r from-emerald-500 to-teal-500 rounded-full flex items-center justify-center">
-                          <Star className="h-4 w-4 text-white" />
-                        </div>
-                        <div>
-                          <p className="font-medium text-sm">30-Day Consistency Streak</p>
-                          <p className="text-xs text-slate-600 dark:text-slate-400">Achieved 3 days ago</p>
-                        </div>
-                      </div>
-                      
-                      <div className="flex items-center space-x-3 p-3 bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-lg">
-                        <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-indigo-500 rounded-full flex items-center justify-center">
-                          <TrendingUp className="h-4 w-4 text-white" />
-                        </div>
-                        <div>
-                          <p className="font-medium text-sm">Emotional Breakthrough</p>
-                          <p className="text-xs text-slate-600 dark:text-slate-400">Achieved 1 week ago</p>
-                        </div>
-                      </div>
-                      
-                      <div className="flex items-center space-x-3 p-3 bg-gradient-to-r from-purple-50 to-pink-50 dark:from-purple-900/20 dark:to-pink-900/20 rounded-lg">
-                        <div className="w-8 h-8 bg-gradient-to-r from-purple-500 to-pink-500 rounded-full flex items-center justify-center">
-                          <Target className="h-4 w-4 text-white" />
-                        </div>
-                        <div>
-                          <p className="font-medium text-sm">Goal Achievement</p>
-                          <p className="text-xs text-slate-600 dark:text-slate-400">Achieved 2 weeks ago</p>
-                        </div>
-                      </div>
+              <TabsContent value="patterns" className="space-y-6">
+                {arePatternsLoading ? (
+                  <Skeleton className="h-64 w-full rounded-xl" />
+                ) : patterns.length === 0 ? (
+                  <Card className={CARD_CLASS}>
+                    <CardContent className="pt-6">
+                      <EmptyState message="No mood patterns detected in this period." />
                     </CardContent>
                   </Card>
-                </div>
-              </TabsContent>
-
-              <TabsContent value="analytics" className="space-y-6">
-                <JournalAnalytics />
-              </TabsContent>
-
-              <TabsContent value="consciousness" className="space-y-6">
-                <QuantumConsciousnessDashboard />
+                ) : (
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    {patterns.map((pattern) => (
+                      <Card key={pattern.pattern} className={CARD_CLASS}>
+                        <CardHeader>
+                          <div className="flex items-center justify-between gap-2">
+                            <CardTitle className="font-quicksand">{PATTERN_LABELS[pattern.pattern]}</CardTitle>
+                            <Badge variant="secondary" className="text-xs shrink-0">
+                              {percent(pattern.confidence)} confidence
+                            </Badge>
+                          </div>
+                          <CardDescription>
+                            {format(new Date(pattern.timeframe.start), "MMM d")} – {format(new Date(pattern.timeframe.end), "MMM d, yyyy")}
+                          </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                          {pattern.triggers.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {pattern.triggers.map((trigger) => (
+                                <Badge key={trigger} variant="outline" className="text-xs">{trigger}</Badge>
+                              ))}
+                            </div>
+                          )}
+                          <div className="space-y-2">
+                            <p className="text-sm font-medium text-slate-700 dark:text-slate-300">Recommendations:</p>
+                            <ul className="space-y-1">
+                              {pattern.recommendations.map((recommendation, index) => (
+                                <li key={index} className="text-sm text-slate-600 dark:text-slate-400 flex items-center space-x-2">
+                                  <ArrowRight className="h-3 w-3 text-blue-500 shrink-0" />
+                                  <span>{recommendation}</span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                )}
               </TabsContent>
             </Tabs>
           </Container>
@@ -587,4 +631,3 @@ export default function InsightsPage() {
     </>
   );
 }
-
@@ -5,6 +5,7 @@ import { Container } from "@/components/ui/container";
 import { JournalList } from "@/components/journal/journal-list";
 import { JournalSidebar } from "@/components/journal/journal-sidebar";
 import { JournalForm } from "@/components/journal/journal-form";
+import { JournalTrash } from "@/components/journal/journal-trash";
 import { WelcomeDialog } from "@/components/welcome-dialog";
 import { Advertisement, MockAdvertisement } from "@/components/ui/advertisement";
 import { Button } from "@/components/ui/button";
@@ -55,27 +56,30 @@ export default function JournalPage() {
                   Review and reflect on your journey with Flappy
                 </p>
               </div>
-              <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-                <DialogTrigger asChild>
-                  <Button className="flex items-center gap-2">
-                    <PlusCircle size={16} />
-                    New Entry
-                  </Button>
-                </DialogTrigger>
-                <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto p-4 sm:p-6">
-                  <DialogHeader className="mb-4">
-                    <DialogTitle>Create New Journal Entry</DialogTitle>
-                    <DialogDescription>
-                      Document your thoughts, feelings, and reflections with Flappy.
-                    </DialogDescription>
-                  </DialogHeader>
-                  <div className="pb-20 md:pb-0">
-                    <JournalForm 
-                      onSuccess={() => setIsDialogOpen(false)}
-                    />
-                  </div>
-                </DialogContent>
-              </Dialog>
+              <div className="flex items-center gap-2">
+                <JournalTrash />
+                <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                  <DialogTrigger asChild>
+                    <Button className="flex items-center gap-2">
+                      <PlusCircle size={16} />
+                      New Entry
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto p-4 sm:p-6">
+                    <DialogHeader className="mb-4">
+                      <DialogTitle>Create New Journal Entry</DialogTitle>
+                      <DialogDescription>
+                        Document your thoughts, feelings, and reflections with Flappy.
+                      </DialogDescription>
+                    </DialogHeader>
+                    <div className="pb-20 md:pb-0">
+                      <JournalForm 
+                        onSuccess={() => setIsDialogOpen(false)}
+                      />
+                    </div>
+                  </DialogContent>
+                </Dialog>
+              </div>
             </div>
             
             <div className="flex flex-col md:flex-row gap-6">
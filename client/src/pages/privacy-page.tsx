@@ -200,7 +200,8 @@ export default function PrivacyPage() {
                   </div>
                   <p className="text-lg text-slate-700 dark:text-slate-300 leading-relaxed">
                     You have the right to access, update, or delete your personal information. You can also opt out of certain 
-                    communications from us. To exercise these rights, please contact us at privacy@featherweight.world.
+                    communications from us. You can download a copy of your data or delete your account at any time under
+                    Settings → Your Data, or contact us at privacy@featherweight.world.
                   </p>
                 </section>
 
@@ -15,6 +15,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AccountDataCard } from "@/components/settings/account-data-card";
+import { TwoFactorCard } from "@/components/settings/two-factor-card";
+import { SessionsCard } from "@/components/settings/sessions-card";
+import { WebhooksCard } from "@/components/settings/webhooks-card";
 import { Helmet } from 'react-helmet';
 
 const profileFormSchema = z.object({
@@ -48,9 +52,16 @@ const emailPreferencesSchema = z.object({
   emailDeliveryTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, {
     message: "Please enter a valid time in 24-hour format (HH:MM)"
   }).default("11:00"),
+  timezone: z.string().min(1, { message: "Please choose a timezone" }),
   disableDailyEmails: z.boolean().default(false),
 });
 
+// Detected from the browser and used until the user picks a timezone
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+const timeZoneOptions = typeof Intl.supportedValuesOf === "function"
+  ? Intl.supportedValuesOf("timeZone")
+  : [browserTimeZone];
+
 type EmailPreferencesValues = z.infer<typeof emailPreferencesSchema>;
 
 export default function SettingsPage() {
@@ -92,9 +103,10 @@ export default function SettingsPage() {
     defaultValues: {
       emailFrequency: user?.preferences?.emailFrequency || "daily",
       marketingEmails: user?.preferences?.marketingEmails || false,
-      receiveInsights: user?.preferences?.receiveInsights || true,
+      receiveInsights: user?.preferences?.receiveInsights ?? true,
       receiveSms: user?.preferences?.receiveSms || false,
       emailDeliveryTime: user?.preferences?.emailDeliveryTime || "11:00",
+      timezone: user?.preferences?.timezone || browserTimeZone,
       disableDailyEmails: user?.preferences?.disableDailyEmails || false,
     },
   });
@@ -105,14 +117,34 @@ export default function SettingsPage() {
       emailPreferencesForm.reset({
         emailFrequency: user.preferences.emailFrequency || "daily",
         marketingEmails: user.preferences.marketingEmails || false,
-        receiveInsights: user.preferences.receiveInsights || true,
+        receiveInsights: user.preferences.receiveInsights ?? true,
         receiveSms: user.preferences.receiveSms || false,
         emailDeliveryTime: user.preferences.emailDeliveryTime || "11:00",
+        timezone: user.preferences.timezone || browserTimeZone,
         disableDailyEmails: user.preferences.disableDailyEmails || false,
       });
     }
   }, [user, emailPreferencesForm]);
 
+  // Send a new link to confirm the user's email address
+  async function resendVerification() {
+    try {
+      const res = await apiRequest("POST", "/api/resend-verification");
+      const result = await res.json();
+      toast({
+        title: res.ok ? "Check your inbox" : "Couldn't send link",
+        description: result.message,
+        variant: res.ok ? "default" : "destructive",
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't send link",
+        description: "An error occurred. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }
+
   function onProfileSubmit(data: ProfileFormValues) {
     setIsSubmitting(true);
     let phoneNumberChanged = false;
@@ -186,9 +218,10 @@ export default function SettingsPage() {
       updates++;
       
       apiRequest("PATCH", "/api/user/phone", { phoneNumber: data.phoneNumber })
-        .then((res) => {
+        .then(async (res) => {
           if (!res.ok) {
-            throw new Error("Failed to update phone number");
+            const errorData = await res.json().catch(() => null);
+            throw new Error(errorData?.error || "Failed to update phone number");
           }
           return res.json();
         })
@@ -349,10 +382,12 @@ export default function SettingsPage() {
             </div>
             
             <Tabs value={activeTab} onValueChange={handleTabChange} className="max-w-3xl mx-auto">
-              <TabsList className="grid w-full grid-cols-3 mb-8">
+              <TabsList className="grid w-full grid-cols-5 mb-8">
                 <TabsTrigger value="profile" className="font-quicksand">Profile</TabsTrigger>
                 <TabsTrigger value="email" className="font-quicksand">Email Preferences</TabsTrigger>
                 <TabsTrigger value="subscription" className="font-quicksand">Subscription</TabsTrigger>
+                <TabsTrigger value="security" className="font-quicksand">Security</TabsTrigger>
+                <TabsTrigger value="data" className="font-quicksand">Your Data</TabsTrigger>
               </TabsList>
               
               <TabsContent value="profile">
@@ -421,6 +456,14 @@ export default function SettingsPage() {
                               </FormControl>
                               <FormDescription>
                                 This is where you'll receive emails from Flappy.
+                                {user && !user.emailVerifiedAt && (
+                                  <>
+                                    {" "}It isn't confirmed yet, so Flappy can't journal from your emails.{" "}
+                                    <button type="button" onClick={resendVerification} className="text-primary underline">
+                                      Send a new confirmation link
+                                    </button>
+                                  </>
+                                )}
                               </FormDescription>
                               <FormMessage />
                             </FormItem>
@@ -565,6 +608,38 @@ export default function SettingsPage() {
                           )}
                         />
                         
+                        <FormField
+                          control={emailPreferencesForm.control}
+                          name="timezone"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Timezone</FormLabel>
+                              <Select
+                                onValueChange={field.onChange}
+                                value={field.value}
+                                disabled={emailPreferencesForm.watch("disableDailyEmails")}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select your timezone" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {(timeZoneOptions.includes(field.value) ? timeZoneOptions : [field.value, ...timeZoneOptions]).map((zone) => (
+                                    <SelectItem key={zone} value={zone}>
+                                      {zone.replace(/_/g, " ")}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormDescription>
+                                Your delivery time is in this timezone
+                              </FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        
                         <FormField
                           control={emailPreferencesForm.control}
                           name="receiveInsights"
@@ -761,6 +836,16 @@ export default function SettingsPage() {
                   </CardContent>
                 </Card>
               </TabsContent>
+              
+              <TabsContent value="security" className="space-y-6">
+                <TwoFactorCard />
+                <SessionsCard />
+              </TabsContent>
+
+              <TabsContent value="data" className="space-y-6">
+                <AccountDataCard />
+                <WebhooksCard />
+              </TabsContent>
             </Tabs>
           </Container>
         </main>
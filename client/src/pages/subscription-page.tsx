@@ -31,6 +31,7 @@ function CheckoutForm({ success }: { success: () => void }) {
   const elements = useElements();
   const [message, setMessage] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  const isUpdateMode = window.location.search.includes('updatePayment=true');
 
   useEffect(() => {
     if (!stripe) {
@@ -75,13 +76,20 @@ function CheckoutForm({ success }: { success: () => void }) {
 
     setIsLoading(true);
 
-    const { error } = await stripe.confirmPayment({
-      elements,
-      confirmParams: {
-        // Make sure to change this to your payment completion page
-        return_url: window.location.origin + "/subscription?success=true",
-      },
-    });
+    // Updating the card saves it with a SetupIntent; subscribing pays the first invoice
+    const { error } = isUpdateMode
+      ? await stripe.confirmSetup({
+          elements,
+          confirmParams: {
+            return_url: window.location.origin + "/subscription?updatePayment=true&success=true",
+          },
+        })
+      : await stripe.confirmPayment({
+          elements,
+          confirmParams: {
+            return_url: window.location.origin + "/subscription?success=true",
+          },
+        });
 
     // This point will only be reached if there is an immediate error when
     // confirming the payment. Otherwise, your customer will be redirected to
@@ -95,8 +103,6 @@ function CheckoutForm({ success }: { success: () => void }) {
     setIsLoading(false);
   };
 
-  const isUpdateMode = window.location.search.includes('updatePayment=true');
-
   return (
     <form id="payment-form" onSubmit={handleSubmit}>
       <PaymentElement id="payment-element" />
@@ -135,37 +141,39 @@ export default function SubscriptionPage() {
     // Check for success parameter in URL
     if (searchParams.get('success') === 'true') {
       // Payment was successful, update user subscription
-      completeSubscription();
+      completeSubscription(searchParams.get('updatePayment') === 'true');
     }
   }, []);
 
   // Function to update the subscription after successful payment
-  const completeSubscription = async () => {
+  const completeSubscription = async (updatedPayment: boolean) => {
     if (!user) return;
     
     try {
-      // Update user subscription after payment is processed
-      const res = await apiRequest("PATCH", "/api/user/subscription", {
-        isPremium: true,
-        durationMonths: 1,
-      });
+      // Refresh the subscription from Stripe rather than waiting for its webhook.
+      // A new card needs nothing more: the server makes it the default.
+      if (!updatedPayment) {
+        const res = await apiRequest("PATCH", "/api/user/subscription", {
+          isPremium: true,
+        });
 
-      if (!res.ok) {
-        throw new Error("Failed to update subscription");
-      }
+        if (!res.ok) {
+          throw new Error("Failed to update subscription");
+        }
 
-      await res.json();
+        await res.json();
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/user"] });
       
       toast({
-        title: isUpdateMode ? "Payment method updated" : "Subscription activated",
-        description: isUpdateMode 
+        title: updatedPayment ? "Payment method updated" : "Subscription activated",
+        description: updatedPayment 
           ? "Your payment method has been successfully updated."
           : "Welcome to Featherweight Premium! You now have access to all premium features, including SMS journaling.",
       });
       
       // Navigate to appropriate page after completion
-      navigate(isUpdateMode ? "/billing" : "/sms");
+      navigate(updatedPayment ? "/billing" : "/sms");
     } catch (error) {
       console.error("Error completing subscription:", error);
       toast({
@@ -200,7 +208,7 @@ export default function SubscriptionPage() {
       
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to process request");
+        throw new Error(errorData.error || "Failed to process request");
       }
       
       const data = await response.json();
@@ -441,7 +449,7 @@ export default function SubscriptionPage() {
                       </CardHeader>
                       <CardContent>
                         <Elements stripe={stripePromise} options={options}>
-                          <CheckoutForm success={completeSubscription} />
+                          <CheckoutForm success={() => completeSubscription(false)} />
                         </Elements>
                         <div className="mt-4 p-3 bg-muted rounded-md text-sm">
                           <p className="font-semibold mb-1">Test Card Information:</p>
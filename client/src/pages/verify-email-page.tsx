@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { Link, useSearch } from "wouter";
+import { Helmet } from "react-helmet";
+import { Header } from "@/components/layout/header";
+import { Footer } from "@/components/layout/footer";
+import { Container } from "@/components/ui/container";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertCircle, CheckCircle, Loader2 } from "lucide-react";
+
+export default function VerifyEmailPage() {
+  const search = useSearch();
+  const [status, setStatus] = useState<"loading" | "success" | "error">("loading");
+  const [message, setMessage] = useState("");
+
+  // Confirm the address as soon as the page opens from the emailed link
+  useEffect(() => {
+    const token = new URLSearchParams(search).get("token");
+    if (!token) {
+      setStatus("error");
+      setMessage("This verification link is incomplete. Please use the link from your email.");
+      return;
+    }
+
+    (async () => {
+      try {
+        const response = await apiRequest("POST", "/api/verify-email", { token });
+        const result = await response.json();
+
+        if (response.ok) {
+          setStatus("success");
+          setMessage(result.message);
+          queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+        } else {
+          setStatus("error");
+          setMessage(result.message || "This verification link is invalid or has expired.");
+        }
+      } catch (error) {
+        setStatus("error");
+        setMessage("An error occurred. Please try again.");
+      }
+    })();
+  }, [search]);
+
+  return (
+    <>
+      <Helmet>
+        <title>Confirm Your Email - Featherweight</title>
+      </Helmet>
+      <div className="min-h-screen flex flex-col">
+        <Header />
+        <main className="flex-grow py-12 bg-background">
+          <Container>
+            <Card className="w-full max-w-md mx-auto">
+              <CardHeader>
+                <CardTitle className="font-quicksand text-2xl text-center">Confirm Your Email</CardTitle>
+                <CardDescription className="text-center">
+                  Once your address is confirmed, you can journal with Flappy by email
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {status === "loading" && (
+                  <div className="flex justify-center py-6">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                  </div>
+                )}
+                {status === "success" && (
+                  <Alert className="bg-green-50 text-green-800 border-green-200 mb-4">
+                    <CheckCircle className="h-4 w-4" />
+                    <AlertTitle>Email confirmed</AlertTitle>
+                    <AlertDescription>{message}</AlertDescription>
+                  </Alert>
+                )}
+                {status === "error" && (
+                  <Alert variant="destructive" className="mb-4">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle>Couldn't confirm your email</AlertTitle>
+                    <AlertDescription>
+                      {message} You can request a new link from your account settings.
+                    </AlertDescription>
+                  </Alert>
+                )}
+                {status !== "loading" && (
+                  <Button asChild className="w-full font-quicksand">
+                    <Link href="/journal">Go to your journal</Link>
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          </Container>
+        </main>
+        <Footer />
+      </div>
+    </>
+  );
+}
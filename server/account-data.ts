@@ -0,0 +1,263 @@
+import fs from "fs/promises";
+import path from "path";
+import { ACCOUNT_EXPORT_RETENTION_DAYS, type AccountExport, type JournalEntry } from "@shared/schema";
+import { storage, type AccountData } from "./storage";
+import { ZipWriter } from "./zip-writer";
+import { fileStorage } from "./file-storage";
+import { stripeService } from "./stripe";
+import { getPlan } from "./entitlements";
+
+// Export archives are kept on local disk, apart from uploaded files
+const EXPORTS_DIR = path.join(process.cwd(), 'exports');
+
+// How often the worker looks for pending exports and expired archives (every minute)
+const EXPORT_POLL_INTERVAL_MS = 60 * 1000;
+
+// An export still pending or processing after this long is assumed lost, and
+// the user may request another
+const STALE_EXPORT_MS = 60 * 60 * 1000;
+
+const README = `Featherweight account export
+
+profile.json              Your account details
+preferences.json          Your settings and delivery schedules
+journal/entries.json      Journal entries, including any in the trash
+journal/entries.md        Journal entries as one readable document (Premium)
+journal/revisions.json    Every saved version of your journal entries
+journal/attachments.json  Photos and files attached to journal entries, by entry
+journal/images/           Uploaded images and attached files
+emails.json               Emails you sent to and received from Flappy
+sms.json                  Text messages you sent to and received from Flappy
+conversations/chat.json   Chat conversations with Flappy
+conversations/threads.json  All conversations by thread, across chat, email and SMS
+memories.json             Topics Flappy remembers from your conversations
+billing/transactions.json Billing history
+billing/payment-methods.json  Saved cards (brand and last four digits only)
+billing/promo-redemptions.json  Promo codes you redeemed
+webhooks.json             Webhook endpoints you set up (without their signing secrets)
+safety-events.json        Messages where Flappy shared crisis support resources
+`;
+
+// Storage keys of the user's journal images and attachments, which are all
+// stored under journal/user_<id>_ (see file-upload.ts)
+async function getJournalUploads(userId: number): Promise<string[]> {
+  return (await fileStorage.list(`journal/user_${userId}_`)).map(file => file.key);
+}
+
+async function removeFile(filePath: string): Promise<void> {
+  try {
+    await fs.unlink(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+}
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+// The journal as a Markdown document, oldest entry first, leaving out the trash
+function toMarkdown(entries: JournalEntry[]): string {
+  const sections = entries
+    .filter(entry => !entry.deletedAt)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map(entry => {
+      const details = [
+        entry.createdAt.toISOString().slice(0, 10),
+        entry.mood && `Mood: ${entry.mood}`,
+        entry.tags?.length && `Tags: ${entry.tags.join(', ')}`
+      ].filter(Boolean).join(' · ');
+      return `## ${entry.title || 'Untitled entry'}\n\n_${details}_\n\n${entry.content.trim()}\n`;
+    });
+  return `# Journal\n\n${sections.join('\n')}`;
+}
+
+export const accountDataService = {
+  /**
+   * Queue an export of everything stored about the user. If one is already
+   * being built it is returned instead of starting another.
+   */
+  async requestExport(userId: number): Promise<AccountExport> {
+    const exports = await storage.getAccountExports(userId);
+    const inProgress = exports.find(accountExport =>
+      (accountExport.status === 'pending' || accountExport.status === 'processing') &&
+      Date.now() - accountExport.createdAt.getTime() < STALE_EXPORT_MS
+    );
+    if (inProgress) {
+      return inProgress;
+    }
+
+    const accountExport = await storage.createAccountExport(userId);
+
+    // Start on it now rather than waiting for the next poll
+    setImmediate(processPendingExports);
+
+    return accountExport;
+  },
+
+  /**
+   * Write the ZIP archive for an export. Returns where it was written and its size.
+   */
+  async buildExport(accountExport: AccountExport): Promise<{ filePath: string; fileSize: number }> {
+    const data: AccountData = await storage.getAccountData(accountExport.userId);
+    const {
+      password, resetToken, resetTokenExpires, emailVerificationToken, emailVerificationExpires,
+      twoFactorSecret, twoFactorLastTotpStep, preferences, ...profile
+    } = data.user;
+
+    await fs.mkdir(EXPORTS_DIR, { recursive: true });
+    const filePath = path.join(EXPORTS_DIR, `account-${accountExport.userId}-${accountExport.id}.zip`);
+    const zip = new ZipWriter(filePath);
+
+    try {
+      await zip.addFile('README.txt', README);
+      await zip.addFile('profile.json', toJson(profile));
+      await zip.addFile('preferences.json', toJson({
+        preferences,
+        deliverySchedules: data.deliverySchedules
+      }));
+      await zip.addFile('journal/entries.json', toJson(data.journalEntries));
+      if (getPlan(data.user).exportFormats.includes('markdown')) {
+        await zip.addFile('journal/entries.md', toMarkdown(data.journalEntries));
+      }
+      await zip.addFile('journal/revisions.json', toJson(data.journalRevisions));
+      await zip.addFile('journal/attachments.json', toJson(data.journalAttachments));
+
+      for (const key of await getJournalUploads(accountExport.userId)) {
+        const file = await fileStorage.get(key);
+        if (!file) {
+          console.warn(`Journal file ${key} is missing, leaving it out of export ${accountExport.id}`);
+          continue;
+        }
+        await zip.addFile(`journal/images/${path.posix.basename(key)}`, file.data);
+      }
+
+      await zip.addFile('emails.json', toJson(data.emails));
+      await zip.addFile('sms.json', toJson(data.smsMessages));
+      await zip.addFile('conversations/chat.json', toJson(data.conversations));
+      await zip.addFile('conversations/threads.json', toJson(data.threads.map(thread => ({
+        ...thread,
+        messages: data.messages.filter(message => message.threadId === thread.id)
+      }))));
+      await zip.addFile('memories.json', toJson(data.conversationMemories));
+      await zip.addFile('billing/transactions.json', toJson(data.billingTransactions));
+      await zip.addFile('billing/payment-methods.json', toJson(data.paymentMethods.map(
+        ({ stripePaymentMethodId, ...method }) => method
+      )));
+      await zip.addFile('billing/promo-redemptions.json', toJson(data.promoRedemptions));
+      await zip.addFile('webhooks.json', toJson(data.webhookSubscriptions.map(
+        ({ secret, ...subscription }) => subscription
+      )));
+      await zip.addFile('safety-events.json', toJson(data.safetyEvents));
+
+      return { filePath, fileSize: await zip.finish() };
+    } catch (error) {
+      await zip.abort();
+      await removeFile(filePath);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete everything stored about the user: database rows are removed (or,
+   * for billing records, kept against an anonymized user) and uploaded journal
+   * images and files and export archives are deleted. An active Stripe
+   * subscription is canceled immediately.
+   */
+  async deleteAccount(userId: number): Promise<void> {
+    const uploads = await getJournalUploads(userId);
+    const archives = (await storage.getAccountExports(userId))
+      .map(accountExport => accountExport.filePath)
+      .filter((filePath): filePath is string => !!filePath);
+
+    // Stop billing first; if Stripe can't be reached the account is left as it was
+    const user = await storage.getUser(userId);
+    if (user?.stripeSubscriptionId && user.subscriptionStatus !== 'canceled' &&
+        user.subscriptionStatus !== 'incomplete_expired') {
+      await stripeService.cancelSubscription(user.stripeSubscriptionId, { immediately: true });
+    }
+
+    await storage.deleteUserAccount(userId);
+
+    // Files go after the rows, so a failed transaction never leaves entries
+    // pointing at images that no longer exist
+    for (const key of uploads) {
+      await fileStorage.delete(key);
+    }
+    for (const filePath of archives) {
+      await removeFile(filePath);
+    }
+
+    console.log(`🗑️ Deleted account ${userId} (${uploads.length} uploaded files, ${archives.length} export archives)`);
+  }
+};
+
+let isProcessing = false;
+
+/**
+ * Build every pending export, one at a time
+ */
+async function processPendingExports() {
+  if (isProcessing) return;
+  isProcessing = true;
+
+  try {
+    let accountExport: AccountExport | undefined;
+    while ((accountExport = await storage.claimPendingAccountExport())) {
+      try {
+        const { filePath, fileSize } = await accountDataService.buildExport(accountExport);
+        const completedAt = new Date();
+
+        await storage.updateAccountExport(accountExport.id, {
+          status: 'completed',
+          filePath,
+          fileSize,
+          completedAt,
+          expiresAt: new Date(completedAt.getTime() + ACCOUNT_EXPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+        });
+        console.log(`📦 Built account export ${accountExport.id} for user ${accountExport.userId} (${fileSize} bytes)`);
+      } catch (error) {
+        console.error(`Error building account export ${accountExport.id}:`, error);
+        await storage.updateAccountExport(accountExport.id, {
+          status: 'failed',
+          errorMessage: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error processing account exports:', error);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+/**
+ * Delete archives whose download window has passed
+ */
+async function removeExpiredExports() {
+  try {
+    for (const accountExport of await storage.getExpiredAccountExports(new Date())) {
+      if (accountExport.filePath) {
+        await removeFile(accountExport.filePath);
+      }
+      await storage.updateAccountExport(accountExport.id, { status: 'expired', filePath: null });
+    }
+  } catch (error) {
+    console.error('Error removing expired account exports:', error);
+  }
+}
+
+/**
+ * Start the account export worker
+ */
+export function startAccountExportWorker() {
+  console.log('📦 Starting account export worker...');
+
+  const run = async () => {
+    await processPendingExports();
+    await removeExpiredExports();
+  };
+
+  run();
+  setInterval(run, EXPORT_POLL_INTERVAL_MS);
+}
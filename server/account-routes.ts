@@ -0,0 +1,121 @@
+import { type Express, Request, Response } from "express";
+import type { AccountExport } from "@shared/schema";
+import { storage } from "./storage";
+import { comparePasswords } from "./auth";
+import { accountDataService } from "./account-data";
+
+// The archive's location on disk is the server's business
+function toClientExport({ filePath, ...accountExport }: AccountExport) {
+  return {
+    ...accountExport,
+    downloadUrl: accountExport.status === "completed"
+      ? `/api/account/exports/${accountExport.id}/download`
+      : null
+  };
+}
+
+/**
+ * Add account export and deletion routes to Express app
+ */
+export function addAccountRoutes(app: Express) {
+  // Request a ZIP export of all of the user's data; it is built in the background
+  app.post("/api/account/export", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    try {
+      const accountExport = await accountDataService.requestExport(req.user.id);
+      res.status(202).json(toClientExport(accountExport));
+    } catch (error) {
+      console.error("Error requesting account export:", error);
+      res.status(500).json({ error: "Failed to start account export" });
+    }
+  });
+
+  // List the user's exports, newest first
+  app.get("/api/account/exports", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    try {
+      const exports = await storage.getAccountExports(req.user.id);
+      res.json(exports.map(toClientExport));
+    } catch (error) {
+      console.error("Error fetching account exports:", error);
+      res.status(500).json({ error: "Failed to fetch account exports" });
+    }
+  });
+
+  // Download a completed export
+  app.get("/api/account/exports/:id/download", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const exportId = parseInt(req.params.id);
+    if (isNaN(exportId)) {
+      return res.status(400).json({ error: "Invalid export ID" });
+    }
+
+    try {
+      const accountExport = await storage.getAccountExport(exportId);
+
+      if (!accountExport) {
+        return res.status(404).json({ error: "Export not found" });
+      }
+
+      if (accountExport.userId !== req.user.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      if (accountExport.status !== "completed" || !accountExport.filePath) {
+        return res.status(409).json({ error: `Export is ${accountExport.status}` });
+      }
+
+      const date = (accountExport.completedAt || accountExport.createdAt).toISOString().split("T")[0];
+      res.download(accountExport.filePath, `featherweight-export-${date}.zip`, (error) => {
+        if (error && !res.headersSent) {
+          console.error("Error sending account export:", error);
+          res.status(500).json({ error: "Failed to download export" });
+        }
+      });
+    } catch (error) {
+      console.error("Error downloading account export:", error);
+      res.status(500).json({ error: "Failed to download export" });
+    }
+  });
+
+  // Delete the account and all data stored about the user. Requires the password.
+  app.delete("/api/account", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const { password } = req.body || {};
+    if (typeof password !== "string" || !password) {
+      return res.status(400).json({ error: "Password is required to delete your account" });
+    }
+
+    try {
+      if (!(await comparePasswords(password, req.user.password))) {
+        return res.status(403).json({ error: "Incorrect password" });
+      }
+
+      await accountDataService.deleteAccount(req.user.id);
+
+      req.logout((logoutError) => {
+        if (logoutError) {
+          console.error("Error logging out deleted account:", logoutError);
+        }
+        req.session.destroy(() => {
+          res.status(204).end();
+        });
+      });
+    } catch (error) {
+      console.error("Error deleting account:", error);
+      res.status(500).json({ error: "Failed to delete account" });
+    }
+  });
+}
@@ -1,8 +1,17 @@
 import { db } from "./db";
 import { conversations, journalEntries } from "../shared/schema";
 import { eq } from "drizzle-orm";
-import { generateFlappyContent } from "./venice-ai";
+import type { Request, Response } from "express";
+import type { Conversation, ThreadChannel } from "../shared/schema";
+import { generateFlappyContent, streamFlappyContent, type ConversationHistoryItem, type FlappyContent } from "./venice-ai";
 import { memoryService } from "./memory-service";
+import { storage } from "./storage";
+import { checkMessageQuota, sendUpgradeRequired } from "./entitlements";
+import { webhookService, toWebhookJournalEntry } from "./webhooks";
+import { safetyService, type SafetyCheck } from "./safety";
+
+// Number of previous turns, across all channels, given to Flappy as history
+const HISTORY_MESSAGE_LIMIT = 10;
 
 /**
  * Add conversation routes to Express app
@@ -20,60 +29,55 @@ export function addConversationRoutes(app) {
     }
     
     try {
-      const { message, createJournalEntry = false } = req.body;
+      const { message, createJournalEntry = false, threadId } = req.body;
       
       if (!message || typeof message !== 'string' || !message.trim()) {
         return res.status(400).json({ message: "Message content is required" });
       }
       
-      // Get recent conversation history for this user to provide context
-      const userConversations = await db.select()
-        .from(conversations)
-        .where(eq(conversations.userId, req.user.id))
-        .orderBy(conversations.createdAt, 'desc')
-        .limit(5);
-      
-      // Build conversation history context
-      const conversationHistory = userConversations.map(conv => ({
-        userMessage: conv.userMessage,
-        flappyResponse: conv.flappyResponse,
-        timestamp: conv.createdAt
-      }));
-      
-      // Get recent memories to enhance the context
-      const userMemories = await memoryService.getRelevantMemories(req.user.id, message, 3);
-      
-      // Force chat mode with enhanced context for better follow-up questions
-      const flappyResponse = await generateFlappyContent(
-        'chatConversation',
-        message,
-        req.user,
-        {
-          conversationHistory,
-          userMemories,
-          shouldGenerateReflectionPrompt: true
-        }
-      );
+      // Someone in crisis gets support resources whatever their plan's limits
+      const safetyCheck = await safetyService.check(req.user, message, 'chat', req.headers['accept-language']);
+      
+      const quotaDenial = createJournalEntry || safetyCheck ? null : await checkMessageQuota(req.user, 'chat');
+      if (quotaDenial) {
+        return sendUpgradeRequired(res, quotaDenial);
+      }
+      
+      const thread = await resolveChatThread(req.user.id, threadId);
+      if (!thread) {
+        return res.status(404).json({ message: "Thread not found" });
+      }
+      
+      const flappyResponse: FlappyContent & { reflectionPrompt?: string } = safetyCheck
+        ? { subject: '', content: safetyCheck.response }
+        : await generateFlappyContent(
+            'chatConversation',
+            message,
+            req.user,
+            await buildChatContext(req.user.id, message)
+          );
       
       // Save the conversation to the database including the reflection prompt
-      const [conversation] = await db.insert(conversations)
-        .values({
-          userId: req.user.id,
-          userMessage: message,
-          flappyResponse: flappyResponse.content,
-          conversationType: 'chat',
-          savedAsJournal: createJournalEntry,
-          messageTags: extractTags(message),
-          mood: detectMood(message),
-          reflectionPrompt: flappyResponse.reflectionPrompt || null
-        })
-        .returning();
+      const conversation = await saveChatExchange(thread.id, {
+        userId: req.user.id,
+        userMessage: message,
+        flappyResponse: flappyResponse.content,
+        savedAsJournal: createJournalEntry,
+        reflectionPrompt: flappyResponse.reflectionPrompt,
+        promptVersion: flappyResponse.promptVersion,
+        safetyResponse: !!safetyCheck
+      });
+      if (safetyCheck) {
+        await safetyService.recordEvent(req.user.id, safetyCheck, { sourceType: 'conversation', sourceId: conversation.id });
+      }
       
       // Return the response text and reflection prompt
       return res.status(200).json({ 
         response: flappyResponse.content,
         reflectionPrompt: flappyResponse.reflectionPrompt,
+        safetyLevel: safetyCheck?.level ?? null,
         conversationId: conversation.id,
+        threadId: thread.id,
         success: true
       });
     } catch (error) {
@@ -85,6 +89,134 @@ export function addConversationRoutes(app) {
     }
   });
 
+  // Chat with Flappy, streaming the reply as Server-Sent Events:
+  //   delta      { text }                 - next piece of Flappy's reply
+  //   reflection { reflectionPrompt }     - follow-up question, once the reply is complete
+  //   done       { conversationId, threadId, response, reflectionPrompt }
+  //   error      { message, conversationId? }
+  // If the stream breaks part way, whatever was generated is still saved.
+  app.post("/api/conversation/stream", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized", success: false });
+    }
+    
+    const { message, createJournalEntry = false, threadId } = req.body;
+    if (!message || typeof message !== 'string' || !message.trim()) {
+      return res.status(400).json({ message: "Message content is required" });
+    }
+    
+    let thread;
+    let safetyCheck: SafetyCheck | null = null;
+    try {
+      safetyCheck = await safetyService.check(req.user, message, 'chat', req.headers['accept-language']);
+      const quotaDenial = createJournalEntry || safetyCheck ? null : await checkMessageQuota(req.user, 'chat');
+      if (quotaDenial) {
+        return sendUpgradeRequired(res, quotaDenial);
+      }
+      thread = await resolveChatThread(req.user.id, threadId);
+    } catch (error) {
+      console.error("Error resolving chat thread:", error);
+      return res.status(500).json({ message: "Failed to process conversation", success: false });
+    }
+    if (!thread) {
+      return res.status(404).json({ message: "Thread not found" });
+    }
+    
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no' // Stop proxies from buffering the stream
+    });
+    res.flushHeaders();
+    
+    const sendEvent = (event: string, data: unknown) => {
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+    
+    // Stop generating if the client goes away
+    const abortController = new AbortController();
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+    
+    const user = req.user;
+    try {
+      let flappyResponse: FlappyContent & { reflectionPrompt?: string };
+      if (safetyCheck) {
+        // Support resources in place of Flappy's reply, sent whole
+        sendEvent('delta', { text: safetyCheck.response });
+        flappyResponse = { subject: '', content: safetyCheck.response };
+      } else {
+        flappyResponse = await streamFlappyContent(
+          'chatConversation',
+          message,
+          {
+            username: user.username,
+            email: user.email,
+            userId: user.id,
+            firstName: user.firstName || undefined,
+            lastName: user.lastName || undefined
+          },
+          await buildChatContext(user.id, message),
+          (text) => sendEvent('delta', { text }),
+          abortController.signal
+        );
+      }
+      
+      if (flappyResponse.reflectionPrompt) {
+        sendEvent('reflection', { reflectionPrompt: flappyResponse.reflectionPrompt });
+      }
+      
+      const conversation = await saveChatExchange(thread.id, {
+        userId: user.id,
+        userMessage: message,
+        flappyResponse: flappyResponse.content,
+        savedAsJournal: createJournalEntry,
+        reflectionPrompt: flappyResponse.reflectionPrompt,
+        promptVersion: flappyResponse.promptVersion,
+        safetyResponse: !!safetyCheck
+      });
+      if (safetyCheck) {
+        await safetyService.recordEvent(user.id, safetyCheck, { sourceType: 'conversation', sourceId: conversation.id });
+      }
+      
+      sendEvent('done', {
+        conversationId: conversation.id,
+        threadId: thread.id,
+        response: flappyResponse.content,
+        reflectionPrompt: flappyResponse.reflectionPrompt,
+        safetyLevel: safetyCheck?.level ?? null
+      });
+    } catch (error) {
+      console.error("Error in streaming conversation handler:", error);
+      
+      // Keep the user's message and whatever Flappy had said so far
+      const partialContent = (error as { partialContent?: string }).partialContent || '';
+      let conversationId: number | undefined;
+      try {
+        const conversation = await saveChatExchange(thread.id, {
+          userId: user.id,
+          userMessage: message,
+          flappyResponse: partialContent,
+          savedAsJournal: createJournalEntry,
+          interrupted: true
+        });
+        conversationId = conversation.id;
+      } catch (saveError) {
+        console.error("Error saving interrupted conversation:", saveError);
+      }
+      
+      sendEvent('error', { message: "Flappy's reply was interrupted", conversationId });
+    } finally {
+      res.end();
+    }
+  });
+
   // Create a new conversation
   app.post("/api/direct-conversation", async (req, res) => {
     // Check if user is authenticated (user exists in the request)
@@ -99,12 +231,21 @@ export function addConversationRoutes(app) {
         return res.status(400).json({ message: "Message content is required" });
       }
       
-      // Generate Flappy's response
-      const flappyResponse = await generateFlappyContent(
-        save_as_journal ? 'journalResponse' : 'emailConversation',
-        req.user,
-        content
-      );
+      const safetyCheck = await safetyService.check(req.user, content, 'chat', req.headers['accept-language']);
+      
+      const quotaDenial = save_as_journal || safetyCheck ? null : await checkMessageQuota(req.user, 'chat');
+      if (quotaDenial) {
+        return sendUpgradeRequired(res, quotaDenial);
+      }
+      
+      // Generate Flappy's response, or the support resources in its place
+      const flappyResponse: FlappyContent = safetyCheck
+        ? { subject: '', content: safetyCheck.response }
+        : await generateFlappyContent(
+            save_as_journal ? 'journalResponse' : 'emailConversation',
+            req.user,
+            content
+          );
       
       console.log(`Generated response: ${flappyResponse.content.substring(0, 50)}...`);
       
@@ -123,10 +264,17 @@ export function addConversationRoutes(app) {
           conversationType: save_as_journal ? 'journal' : 'general',
           savedAsJournal: save_as_journal,
           messageTags: tags,
-          mood: mood
+          mood: mood,
+          promptVersion: flappyResponse.promptVersion ?? null
         })
         .returning();
       
+      const thread = await storage.getOrCreateThread(req.user.id, 'chat', 'default');
+      await recordChatExchange(thread.id, conversation, { safetyResponse: !!safetyCheck });
+      if (safetyCheck) {
+        await safetyService.recordEvent(req.user.id, safetyCheck, { sourceType: 'conversation', sourceId: conversation.id });
+      }
+      
       // If this should be saved as a journal entry, create one
       if (save_as_journal) {
         const [journalEntry] = await db.insert(journalEntries)
@@ -138,6 +286,7 @@ export function addConversationRoutes(app) {
             tags: tags
           })
           .returning();
+        webhookService.emit(req.user.id, 'journal.created', toWebhookJournalEntry(journalEntry));
         
         // Update the conversation with the journal entry ID
         await db.update(conversations)
@@ -155,6 +304,45 @@ export function addConversationRoutes(app) {
     }
   });
   
+  // List the user's threads across chat, email and SMS, most recent first
+  app.get("/api/threads", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const { channel } = req.query;
+      const threads = await storage.getThreads(req.user.id, {
+        channel: channel === 'chat' || channel === 'email' || channel === 'sms' ? channel : undefined
+      });
+      
+      return res.json(threads);
+    } catch (error) {
+      console.error("Error fetching threads:", error);
+      return res.status(500).json({ message: "Failed to fetch threads" });
+    }
+  });
+  
+  // Get the messages in one thread, oldest first
+  app.get("/api/threads/:id/messages", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    try {
+      const thread = await storage.getThread(parseInt(req.params.id));
+      if (!thread || thread.userId !== req.user.id) {
+        return res.status(404).json({ message: "Thread not found" });
+      }
+      
+      const messages = await storage.getThreadMessages(thread.id);
+      return res.json({ thread, messages });
+    } catch (error) {
+      console.error("Error fetching thread messages:", error);
+      return res.status(500).json({ message: "Failed to fetch thread messages" });
+    }
+  });
+  
   // Get all conversations for the current user
   app.get("/api/direct-conversation", async (req, res) => {
     if (!req.user) {
@@ -210,6 +398,7 @@ export function addConversationRoutes(app) {
           tags: conversation.messageTags || []
         })
         .returning();
+      webhookService.emit(req.user.id, 'journal.created', toWebhookJournalEntry(journalEntry));
       
       // Update the conversation
       const [updatedConversation] = await db.update(conversations)
@@ -228,6 +417,136 @@ export function addConversationRoutes(app) {
   });
 }
 
+/**
+ * Find the chat thread a message belongs to: the requested one if it is the
+ * user's, otherwise the user's default thread
+ */
+async function resolveChatThread(userId: number, threadId?: unknown) {
+  if (threadId === undefined || threadId === null) {
+    return await storage.getOrCreateThread(userId, 'chat', 'default');
+  }
+  
+  const thread = await storage.getThread(Number(threadId));
+  if (!thread || thread.userId !== userId || thread.channel !== 'chat') {
+    return undefined;
+  }
+  return thread;
+}
+
+/**
+ * Gather recent history from every channel plus relevant memories and related
+ * journal entries, so Flappy remembers what was said by email and SMS as well as in chat
+ */
+async function buildChatContext(userId: number, message: string) {
+  const recentMessages = await storage.getRecentMessages(userId, HISTORY_MESSAGE_LIMIT);
+  const conversationHistory: ConversationHistoryItem[] = recentMessages.map(msg => ({
+    role: msg.role as ConversationHistoryItem["role"],
+    channel: msg.channel as ThreadChannel,
+    content: msg.content,
+    timestamp: msg.createdAt
+  }));
+  
+  const userMemories = await memoryService.getRelevantMemories(userId, message, 3);
+  const relatedJournalEntries = await memoryService.getRelatedJournalEntries(userId, message, 2);
+  
+  return { conversationHistory, userMemories, relatedJournalEntries };
+}
+
+/**
+ * Save a chat exchange as a conversation row and mirror it into its thread
+ */
+async function saveChatExchange(threadId: number, exchange: {
+  userId: number;
+  userMessage: string;
+  flappyResponse: string;
+  savedAsJournal: boolean;
+  reflectionPrompt?: string;
+  promptVersion?: string;
+  interrupted?: boolean;
+  safetyResponse?: boolean; // The reply is the safety template rather than Flappy's own
+}): Promise<Conversation> {
+  const [conversation] = await db.insert(conversations)
+    .values({
+      userId: exchange.userId,
+      userMessage: exchange.userMessage,
+      flappyResponse: exchange.flappyResponse,
+      conversationType: 'chat',
+      savedAsJournal: exchange.savedAsJournal,
+      messageTags: extractTags(exchange.userMessage),
+      mood: detectMood(exchange.userMessage),
+      reflectionPrompt: exchange.reflectionPrompt || null,
+      promptVersion: exchange.promptVersion || null
+    })
+    .returning();
+  
+  await recordChatExchange(threadId, conversation, {
+    interrupted: exchange.interrupted,
+    safetyResponse: exchange.safetyResponse
+  });
+  return conversation;
+}
+
+/**
+ * Mirror a chat exchange into its thread as a user turn and a Flappy turn,
+ * and send it to the user's webhooks. An interrupted reply is kept, flagged
+ * in its metadata; an empty one is skipped. conversation.replied only goes
+ * out for a complete reply from Flappy, as with email and SMS, so an
+ * interrupted reply or the safety template doesn't send it.
+ */
+async function recordChatExchange(
+  threadId: number,
+  conversation: Conversation,
+  { interrupted = false, safetyResponse = false }: { interrupted?: boolean; safetyResponse?: boolean } = {}
+) {
+  try {
+    await storage.addMessage({
+      threadId,
+      userId: conversation.userId,
+      role: 'user',
+      channel: 'chat',
+      content: conversation.userMessage,
+      createdAt: conversation.createdAt,
+      sourceType: 'conversation',
+      sourceId: conversation.id,
+      journalEntryId: conversation.journalEntryId,
+      mood: conversation.mood
+    });
+    if (conversation.mood) {
+      webhookService.emit(conversation.userId, 'mood.detected', {
+        mood: conversation.mood,
+        channel: 'chat',
+        journalEntryId: conversation.journalEntryId
+      });
+    }
+    if (!conversation.flappyResponse) return;
+    
+    const metadata: Record<string, any> = {};
+    if (conversation.reflectionPrompt) metadata.reflectionPrompt = conversation.reflectionPrompt;
+    if (interrupted) metadata.interrupted = true;
+    
+    await storage.addMessage({
+      threadId,
+      userId: conversation.userId,
+      role: 'assistant',
+      channel: 'chat',
+      content: conversation.flappyResponse,
+      createdAt: conversation.createdAt,
+      sourceType: 'conversation',
+      sourceId: conversation.id,
+      metadata: Object.keys(metadata).length > 0 ? metadata : null
+    });
+    if (!interrupted && !safetyResponse) {
+      webhookService.emit(conversation.userId, 'conversation.replied', {
+        channel: 'chat',
+        message: conversation.userMessage,
+        reply: conversation.flappyResponse
+      });
+    }
+  } catch (error) {
+    console.error(`Error recording conversation ${conversation.id} in thread ${threadId}:`, error);
+  }
+}
+
 /**
  * Extract tags from content
  */
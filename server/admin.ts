@@ -0,0 +1,17 @@
+import type { Request, Response, NextFunction } from "express";
+
+// Accounts that may use the admin endpoints, as a comma-separated list of emails
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || "")
+  .split(",")
+  .map(email => email.trim().toLowerCase())
+  .filter(Boolean);
+
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "Not authenticated" });
+  }
+  if (!ADMIN_EMAILS.includes(req.user.email.toLowerCase())) {
+    return res.status(403).json({ error: "Access denied" });
+  }
+  next();
+}
@@ -5,7 +5,7 @@ import { Request, Response } from 'express';
 import { z } from 'zod';
 import { db } from '../shared/db';
 import { journalEntries, conversations, smsMessages, emails, conversationMemories, users } from '../shared/schema';
-import { eq, desc, and, or, like, gte, lte, count, avg, sql } from 'drizzle-orm';
+import { eq, desc, and, or, like, gte, lte, count, avg, sql, isNull } from 'drizzle-orm';
 import { generateFlappyContent } from './venice-ai';
 
 // Validation schemas
@@ -61,6 +61,7 @@ export class AdvancedJournalAnalyticsSystem {
         .from(journalEntries)
         .where(and(
           eq(journalEntries.userId, userId),
+          isNull(journalEntries.deletedAt),
           gte(journalEntries.createdAt, startDate),
           lte(journalEntries.createdAt, endDate)
         ))
@@ -114,7 +115,7 @@ export class AdvancedJournalAnalyticsSystem {
       // Get recent entries for context
       const recentEntries = await db.select()
         .from(journalEntries)
-        .where(eq(journalEntries.userId, userId))
+        .where(and(eq(journalEntries.userId, userId), isNull(journalEntries.deletedAt)))
         .orderBy(desc(journalEntries.createdAt))
         .limit(10);
 
@@ -175,6 +176,7 @@ export class AdvancedJournalAnalyticsSystem {
         .from(journalEntries)
         .where(and(
           eq(journalEntries.userId, userId),
+          isNull(journalEntries.deletedAt),
           gte(journalEntries.createdAt, startDate),
           lte(journalEntries.createdAt, endDate)
         ))
@@ -313,7 +315,7 @@ export class AdvancedJournalAnalyticsSystem {
       // Get recent entries for analysis
       const recentEntries = await db.select()
         .from(journalEntries)
-        .where(eq(journalEntries.userId, userId))
+        .where(and(eq(journalEntries.userId, userId), isNull(journalEntries.deletedAt)))
         .orderBy(desc(journalEntries.createdAt))
         .limit(50);
 
@@ -541,7 +543,7 @@ export class AdvancedJournalAnalyticsSystem {
   private async calculateWritingStreak(userId: number): Promise<number> {
     const entries = await db.select()
       .from(journalEntries)
-      .where(eq(journalEntries.userId, userId))
+      .where(and(eq(journalEntries.userId, userId), isNull(journalEntries.deletedAt)))
       .orderBy(desc(journalEntries.createdAt));
 
     let streak = 0;
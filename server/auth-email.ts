@@ -0,0 +1,125 @@
+import { createHash, randomBytes } from "crypto";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { emailService } from "./email";
+
+// Where links in account emails point
+const APP_URL = (process.env.APP_URL || "https://featherweight.world").replace(/\/$/, "");
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+// A new verification email isn't sent more often than this
+const VERIFICATION_RESEND_INTERVAL_MS = 5 * 60 * 1000;
+
+// Only a hash of each token is stored, so a leaked database row can't be used
+// to reset a password or verify an address
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function createToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashToken(token) };
+}
+
+export function isEmailVerified(user: User): boolean {
+  return !!user.emailVerifiedAt;
+}
+
+export const authEmailService = {
+  /**
+   * Email the user a link to choose a new password. Issuing a new link
+   * replaces any earlier one.
+   */
+  async sendPasswordReset(user: User): Promise<void> {
+    const { token, tokenHash } = createToken();
+    await storage.updateUserResetToken(user.id, tokenHash, new Date(Date.now() + RESET_TOKEN_TTL_MS));
+
+    const link = `${APP_URL}/reset-password?token=${token}`;
+    await emailService.sendEmail(
+      user.email,
+      "Reset your Featherweight password",
+      `Hello ${user.firstName || user.username},
+
+Someone asked to reset the password for your Featherweight account. To choose a new password, follow this link within the next hour:
+
+${link}
+
+If it wasn't you, you can ignore this email; your password won't change.
+
+Flappy 🦢`,
+      true
+    );
+    console.log(`🔑 Password reset link sent to user ${user.id}`);
+  },
+
+  /**
+   * Set a new password with the token from a reset link. The token works
+   * once; undefined if it is unknown or has expired.
+   */
+  async resetPassword(token: string, hashedPassword: string): Promise<User | undefined> {
+    const user = await storage.getUserByResetToken(hashToken(token));
+    if (!user || user.deletedAt || !user.resetTokenExpires || user.resetTokenExpires <= new Date()) {
+      return undefined;
+    }
+
+    let updated = await storage.updateUserPasswordAndClearToken(user.id, hashedPassword);
+    // Anyone logged in with the old password is logged out
+    await storage.deleteUserSessions(user.id);
+    // The link reached their inbox, which proves the address as well
+    if (!isEmailVerified(updated)) {
+      updated = await storage.markUserEmailVerified(user.id);
+    }
+    console.log(`🔑 Password reset for user ${user.id}`);
+    return updated;
+  },
+
+  /**
+   * Email the user a link that confirms their address. Returns false without
+   * sending if one went out in the last few minutes.
+   */
+  async sendVerificationEmail(user: User, note?: string): Promise<boolean> {
+    const lastSentAt = user.emailVerificationExpires
+      ? user.emailVerificationExpires.getTime() - VERIFICATION_TOKEN_TTL_MS
+      : 0;
+    if (Date.now() - lastSentAt < VERIFICATION_RESEND_INTERVAL_MS) {
+      return false;
+    }
+
+    const { token, tokenHash } = createToken();
+    await storage.updateUserEmailVerificationToken(user.id, tokenHash, new Date(Date.now() + VERIFICATION_TOKEN_TTL_MS));
+
+    const link = `${APP_URL}/verify-email?token=${token}`;
+    await emailService.sendEmail(
+      user.email,
+      "Confirm your email for Featherweight",
+      `Hello ${user.firstName || user.username},
+
+${note ? `${note}\n\n` : ""}Please confirm this is your email address by following this link within the next 24 hours:
+
+${link}
+
+Once it's confirmed, you can journal and chat with me just by emailing.
+
+Flappy 🦢`,
+      true
+    );
+    console.log(`✉️ Verification link sent to user ${user.id}`);
+    return true;
+  },
+
+  /**
+   * Confirm the user's address with the token from a verification link;
+   * undefined if it is unknown or has expired
+   */
+  async verifyEmail(token: string): Promise<User | undefined> {
+    const user = await storage.getUserByEmailVerificationToken(hashToken(token));
+    if (!user || user.deletedAt || !user.emailVerificationExpires || user.emailVerificationExpires <= new Date()) {
+      return undefined;
+    }
+
+    console.log(`✉️ Email verified for user ${user.id}`);
+    return storage.markUserEmailVerified(user.id);
+  },
+};
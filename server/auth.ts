@@ -7,6 +7,8 @@ import { promisify } from "util";
 import { storage } from "./storage";
 import { User as SelectUser } from "@shared/schema";
 import { emailService } from "./email";
+import { authEmailService, isEmailVerified } from "./auth-email";
+import { twoFactorService, TwoFactorError } from "./two-factor";
 
 declare global {
   namespace Express {
@@ -14,6 +16,18 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Set once the password is right for an account with two-factor
+    // authentication, until the second step signs the user in
+    pendingTwoFactor?: { userId: number; expiresAt: number };
+    // A two-factor method being set up, until the user confirms a code for it
+    twoFactorSetup?: { method: "totp"; secret: string } | { method: "sms"; phoneNumber: string };
+    // The device a logged-in session is used from, for the user's list of sessions
+    device?: { userAgent: string | null; ipAddress: string | null };
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
 export async function hashPassword(password: string) {
@@ -22,16 +36,45 @@ export async function hashPassword(password: string) {
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Matches the sign-up form
+const MIN_PASSWORD_LENGTH = 6;
+
+// Time to enter the second factor after the password; wrong codes are
+// limited per account by twoFactorService
+const TWO_FACTOR_LOGIN_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * The user as sent to the browser, without credentials or one-time tokens
+ */
+export function toClientUser(user: SelectUser) {
+  const {
+    password, resetToken, resetTokenExpires, emailVerificationToken, emailVerificationExpires,
+    twoFactorSecret, twoFactorLastTotpStep, ...clientUser
+  } = user;
+  return clientUser;
+}
+
+// Without SESSION_SECRET sessions are signed with a key that changes on every
+// restart, which is only acceptable in development
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("⚠️ SESSION_SECRET is not set; sessions will not survive a restart");
+  return randomBytes(32).toString("hex");
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
-    secret: process.env.SESSION_SECRET || 'featherweight-very-secret-key',
+    secret: getSessionSecret(),
     resave: false,
     saveUninitialized: false,
     store: storage.sessionStore,
@@ -45,13 +88,21 @@ export function setupAuth(app: Express) {
   app.use(passport.initialize());
   app.use(passport.session());
 
+  // Note the device behind each logged-in session, and the IP it was last used from
+  app.use((req, _res, next) => {
+    if (req.user && req.session.device?.ipAddress !== (req.ip ?? null)) {
+      req.session.device = { userAgent: req.get("user-agent") ?? null, ipAddress: req.ip ?? null };
+    }
+    next();
+  });
+
   passport.use(
     new LocalStrategy(
       { usernameField: 'email' },
       async (email, password, done) => {
         try {
           const user = await storage.getUserByEmail(email);
-          if (!user || !(await comparePasswords(password, user.password))) {
+          if (!user || user.deletedAt || !(await comparePasswords(password, user.password))) {
             return done(null, false);
           } else {
             return done(null, user);
@@ -66,7 +117,8 @@ export function setupAuth(app: Express) {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      // Sessions of a deleted account no longer log anyone in
+      done(null, user && !user.deletedAt ? user : false);
     } catch (error) {
       done(error);
     }
@@ -102,9 +154,16 @@ export function setupAuth(app: Express) {
         // Continue with user creation even if email fails
       }
 
+      // Email journaling stays off until the address is confirmed
+      try {
+        await authEmailService.sendVerificationEmail(user);
+      } catch (emailError) {
+        console.error("Failed to send verification email:", emailError);
+      }
+
       req.login(user, (err) => {
         if (err) return next(err);
-        res.status(201).json(user);
+        res.status(201).json(toClientUser(user));
       });
     } catch (error) {
       next(error);
@@ -112,17 +171,87 @@ export function setupAuth(app: Express) {
   });
 
   app.post("/api/login", (req, res, next) => {
-    passport.authenticate("local", (err: any, user: Express.User, info: any) => {
+    passport.authenticate("local", async (err: any, user: Express.User, info: any) => {
       if (err) return next(err);
       if (!user) return res.status(401).json({ message: "Invalid email or password" });
       
+      // With two-factor authentication on, the password only gets as far as the second step
+      if (user.twoFactorMethod) {
+        try {
+          const challenge = await twoFactorService.startLoginChallenge(user);
+          req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS };
+          return res.status(200).json({ twoFactorRequired: true, ...challenge });
+        } catch (error) {
+          return next(error);
+        }
+      }
+      
       req.login(user, (err) => {
         if (err) return next(err);
-        res.status(200).json(user);
+        res.status(200).json(toClientUser(user));
       });
     })(req, res, next);
   });
 
+  // Second step of signing in: a code from the user's authenticator app or
+  // phone, or a recovery code
+  app.post("/api/login/2fa", async (req, res, next) => {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ message: "Your sign-in has expired. Please enter your password again." });
+    }
+
+    const code = typeof req.body.code === "string" ? req.body.code : "";
+    if (!code.trim()) {
+      return res.status(400).json({ message: "Enter your code" });
+    }
+
+    try {
+      const user = await storage.getUser(pending.userId);
+      if (!user || user.deletedAt || !user.twoFactorMethod) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Your sign-in has expired. Please enter your password again." });
+      }
+
+      if (!(await twoFactorService.verifyLoginCode(user, code))) {
+        return res.status(400).json({ message: "That code isn't right. Please try again." });
+      }
+
+      // Logging in starts a new session, which drops the pending sign-in
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(200).json(toClientUser(user));
+      });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(error.code === "locked" ? 429 : 400).json({ message: error.message, code: error.code });
+      }
+      next(error);
+    }
+  });
+
+  // Text a new sign-in code during the second step
+  app.post("/api/login/2fa/resend", async (req, res, next) => {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt < Date.now()) {
+      return res.status(401).json({ message: "Your sign-in has expired. Please enter your password again." });
+    }
+
+    try {
+      const user = await storage.getUser(pending.userId);
+      if (!user || user.twoFactorMethod !== "sms" || !user.twoFactorPhone) {
+        return res.status(400).json({ message: "Codes for this account come from an authenticator app" });
+      }
+      if (!(await twoFactorService.sendSmsCode(user, "login", user.twoFactorPhone))) {
+        return res.status(429).json({ message: "We just sent a code; please wait a moment before asking for another" });
+      }
+      res.json({ message: "We've sent a new code" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   app.post("/api/logout", (req, res, next) => {
     req.logout((err) => {
       if (err) return next(err);
@@ -132,9 +261,83 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    
-    // Filter out password from the response
-    const { password, ...user } = req.user as SelectUser;
-    res.json(user);
+    res.json(toClientUser(req.user));
+  });
+
+  // Email a password reset link. The response is the same whether or not an
+  // account uses the address, so it can't be used to find out who has one.
+  app.post("/api/forgot-password", async (req, res) => {
+    const email = typeof req.body.email === "string" ? req.body.email.trim() : "";
+    if (!email) {
+      return res.status(400).json({ message: "Please enter your email address" });
+    }
+
+    try {
+      const user = await storage.getUserByEmail(email);
+      if (user && !user.deletedAt) {
+        await authEmailService.sendPasswordReset(user);
+      }
+    } catch (error) {
+      console.error("Error sending password reset:", error);
+    }
+
+    res.json({ message: "If an account uses that email, you'll receive a reset link shortly." });
+  });
+
+  // Choose a new password with the token from a reset link
+  app.post("/api/reset-password", async (req, res, next) => {
+    const { token, newPassword } = req.body;
+    if (typeof token !== "string" || !token) {
+      return res.status(400).json({ message: "This reset link is invalid or has expired" });
+    }
+    if (typeof newPassword !== "string" || newPassword.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    try {
+      const user = await authEmailService.resetPassword(token, await hashPassword(newPassword));
+      if (!user) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+      res.json({ message: "Your password has been reset" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Confirm an email address with the token from a verification link
+  app.post("/api/verify-email", async (req, res, next) => {
+    const { token } = req.body;
+    if (typeof token !== "string" || !token) {
+      return res.status(400).json({ message: "This verification link is invalid or has expired" });
+    }
+
+    try {
+      const user = await authEmailService.verifyEmail(token);
+      if (!user) {
+        return res.status(400).json({ message: "This verification link is invalid or has expired" });
+      }
+      res.json({ message: "Your email address is confirmed" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Send the signed-in user a new verification link
+  app.post("/api/resend-verification", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    if (isEmailVerified(req.user)) {
+      return res.status(409).json({ message: "Your email address is already confirmed" });
+    }
+
+    try {
+      if (!(await authEmailService.sendVerificationEmail(req.user))) {
+        return res.status(429).json({ message: "We just sent you a link; please check your inbox" });
+      }
+      res.json({ message: `We've sent a new link to ${req.user.email}` });
+    } catch (error) {
+      next(error);
+    }
   });
 }
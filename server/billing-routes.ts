@@ -0,0 +1,170 @@
+import express, { type Express, Request, Response } from "express";
+import { storage } from "./storage";
+import { toClientUser } from "./auth";
+import { stripeService } from "./stripe";
+import { billingService } from "./billing";
+import { describeEntitlements } from "./entitlements";
+
+// Stripe signs the exact bytes it sends, so this path must get the raw body:
+// mount stripeWebhookBodyParser on it before the app-wide JSON parser
+export const STRIPE_WEBHOOK_PATH = "/api/stripe/webhook";
+export const stripeWebhookBodyParser = express.raw({ type: "application/json", limit: "1mb" });
+
+/**
+ * Add subscription, payment method and Stripe webhook routes to Express app
+ */
+export function addBillingRoutes(app: Express) {
+  // Start a premium subscription; the client confirms the first payment with the returned secret
+  app.post("/api/create-subscription", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    if (req.user.isPremium && req.user.subscriptionStatus === "active") {
+      return res.status(409).json({ error: "You already have a premium subscription" });
+    }
+
+    try {
+      const { subscriptionId, clientSecret } = await stripeService.createSubscription(req.user);
+      if (!clientSecret) {
+        return res.status(500).json({ error: "Stripe didn't return a payment to confirm" });
+      }
+      res.json({ subscriptionId, clientSecret });
+    } catch (error) {
+      console.error("Error creating subscription:", error);
+      res.status(500).json({ error: "Failed to start subscription" });
+    }
+  });
+
+  // Save a new card for the subscription; the setup_intent.succeeded webhook makes it the default
+  app.post("/api/update-payment-method", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    try {
+      const customerId = await stripeService.ensureCustomer(req.user);
+      const setupIntent = await stripeService.createSetupIntent({ customerId });
+      res.json({ clientSecret: setupIntent.client_secret });
+    } catch (error) {
+      console.error("Error creating setup intent:", error);
+      res.status(500).json({ error: "Failed to start payment method update" });
+    }
+  });
+
+  // Turning premium off cancels at the end of the paid period. Turning it on
+  // doesn't grant anything itself: it refreshes the user's state from Stripe
+  // after checkout, so access reflects what was actually paid.
+  app.patch("/api/user/subscription", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    if (typeof req.body.isPremium !== "boolean") {
+      return res.status(400).json({ error: "isPremium must be true or false" });
+    }
+
+    try {
+      let user = req.user;
+
+      if (user.stripeSubscriptionId) {
+        if (req.body.isPremium) {
+          const subscription = user.cancelAtPeriodEnd
+            ? await stripeService.resumeSubscription(user.stripeSubscriptionId)
+            : await stripeService.getSubscription(user.stripeSubscriptionId);
+          user = (await billingService.syncSubscription(subscription)) ?? user;
+        } else if (!user.cancelAtPeriodEnd) {
+          const subscription = await stripeService.cancelSubscription(user.stripeSubscriptionId);
+          user = (await billingService.syncSubscription(subscription)) ?? user;
+        }
+      } else if (req.body.isPremium) {
+        return res.status(402).json({ error: "No subscription found; subscribe first" });
+      }
+
+      res.json(toClientUser(user));
+    } catch (error) {
+      console.error("Error updating subscription:", error);
+      res.status(500).json({ error: "Failed to update subscription" });
+    }
+  });
+
+  // Cancel at the end of the paid period
+  app.post("/api/cancel-subscription", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    if (!req.user.stripeSubscriptionId) {
+      return res.status(404).json({ error: "No subscription to cancel" });
+    }
+
+    try {
+      const subscription = await stripeService.cancelSubscription(req.user.stripeSubscriptionId);
+      const user = (await billingService.syncSubscription(subscription)) ?? req.user;
+      res.json({ success: true, accessUntil: user.premiumUntil });
+    } catch (error) {
+      console.error("Error canceling subscription:", error);
+      res.status(500).json({ error: "Failed to cancel subscription" });
+    }
+  });
+
+  // The user's plan and what it includes
+  app.get("/api/user/entitlements", (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    res.json(describeEntitlements(req.user));
+  });
+
+  // Billing history, newest first
+  app.get("/api/billing/transactions", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    try {
+      res.json(await storage.getBillingTransactions(req.user.id));
+    } catch (error) {
+      console.error("Error fetching billing transactions:", error);
+      res.status(500).json({ error: "Failed to fetch billing history" });
+    }
+  });
+
+  // Stripe webhook. Each event is claimed before it is applied, so redeliveries
+  // are acknowledged without being applied twice; a failed event is released
+  // and answered with a 500 so Stripe retries it.
+  app.post(STRIPE_WEBHOOK_PATH, async (req: Request, res: Response) => {
+    const signature = req.headers["stripe-signature"];
+    if (typeof signature !== "string" || !Buffer.isBuffer(req.body)) {
+      return res.status(400).json({ error: "Missing Stripe signature" });
+    }
+
+    let event;
+    try {
+      event = stripeService.constructWebhookEvent(req.body, signature);
+    } catch (error) {
+      console.warn("Rejected Stripe webhook:", error instanceof Error ? error.message : error);
+      return res.status(400).json({ error: "Invalid Stripe signature" });
+    }
+
+    try {
+      if (!(await storage.claimStripeEvent(event.id, event.type))) {
+        return res.json({ received: true, duplicate: true });
+      }
+    } catch (error) {
+      console.error(`Error recording Stripe event ${event.id}:`, error);
+      return res.status(500).json({ error: "Failed to process event" });
+    }
+
+    try {
+      await billingService.handleEvent(event);
+      res.json({ received: true });
+    } catch (error) {
+      console.error(`Error processing Stripe event ${event.id} (${event.type}):`, error);
+      await storage.releaseStripeEvent(event.id).catch(releaseError =>
+        console.error(`Error releasing Stripe event ${event.id}:`, releaseError)
+      );
+      res.status(500).json({ error: "Failed to process event" });
+    }
+  });
+}
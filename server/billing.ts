@@ -0,0 +1,244 @@
+import type Stripe from 'stripe';
+import type { User, BillingTransaction } from '@shared/schema';
+import { storage } from './storage';
+import { stripeService } from './stripe';
+
+// Subscription statuses that keep premium access. A past_due subscription is
+// still being retried by Stripe, so access holds until it is canceled or unpaid.
+const PREMIUM_STATUSES: Stripe.Subscription.Status[] = ['active', 'trialing', 'past_due'];
+
+// Statuses after which the subscription can't be revived
+const ENDED_STATUSES: Stripe.Subscription.Status[] = ['canceled', 'unpaid', 'incomplete_expired'];
+
+const PREMIUM_DESCRIPTION = 'Featherweight Premium';
+
+function stripeId(value: string | { id?: string } | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === 'string' ? value : value.id ?? null;
+}
+
+function fromUnixTime(seconds: number): Date {
+  return new Date(seconds * 1000);
+}
+
+// The end of the billing period a subscription is currently in
+function subscriptionPeriodEnd(subscription: Stripe.Subscription): Date | null {
+  const ends = subscription.items.data.map(item => item.current_period_end);
+  return ends.length > 0 ? fromUnixTime(Math.max(...ends)) : null;
+}
+
+// The end of the period an invoice paid for
+function invoicePeriodEnd(invoice: Stripe.Invoice): Date | null {
+  const ends = invoice.lines.data.map(line => line.period.end);
+  return ends.length > 0 ? fromUnixTime(Math.max(...ends)) : null;
+}
+
+function invoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+  return stripeId(invoice.parent?.subscription_details?.subscription);
+}
+
+// Find the user a Stripe object belongs to: by customer, falling back to the
+// userId we put in subscription metadata (linking the customer if it wasn't yet)
+async function findUser(customer: string | null, metadata?: Stripe.Metadata | null): Promise<User | undefined> {
+  if (customer) {
+    const user = await storage.getUserByStripeCustomerId(customer);
+    if (user) return user;
+  }
+
+  const userId = parseInt(metadata?.userId ?? '');
+  if (!userId) return undefined;
+
+  const user = await storage.getUser(userId);
+  if (user && customer && !user.stripeCustomerId) {
+    return storage.updateUserBillingState(user.id, { stripeCustomerId: customer });
+  }
+  return user;
+}
+
+export const billingService = {
+  /**
+   * Apply a Stripe webhook event. Invoice and subscription events are
+   * reconciled from the event payload alone, so recorded events can be replayed.
+   */
+  async handleEvent(event: Stripe.Event): Promise<void> {
+    switch (event.type) {
+      case 'invoice.paid':
+        await this.recordInvoicePaid(event.data.object);
+        break;
+      case 'invoice.payment_failed':
+        await this.recordInvoiceFailed(event.data.object);
+        break;
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+        await this.syncSubscription(event.data.object);
+        break;
+      case 'setup_intent.succeeded':
+        await this.applyNewPaymentMethod(event.data.object);
+        break;
+      default:
+        console.log(`Ignoring Stripe event ${event.type}`);
+    }
+  },
+
+  /**
+   * Record a paid invoice and extend premium access to the end of the period it covers
+   */
+  async recordInvoicePaid(invoice: Stripe.Invoice): Promise<User | undefined> {
+    const subscription = invoice.parent?.subscription_details;
+    const user = await findUser(stripeId(invoice.customer), subscription?.metadata);
+    if (!user) {
+      console.warn(`No user for paid Stripe invoice ${invoice.id}`);
+      return undefined;
+    }
+
+    await this.upsertInvoiceTransaction(user.id, invoice, 'succeeded', invoice.amount_paid);
+
+    const subscriptionId = invoiceSubscriptionId(invoice);
+    const periodEnd = invoicePeriodEnd(invoice);
+    if (!subscriptionId || !periodEnd) {
+      return user;
+    }
+
+    // A late delivery for a subscription that has since ended doesn't bring access back
+    if (user.stripeSubscriptionId === subscriptionId &&
+        ENDED_STATUSES.includes(user.subscriptionStatus as Stripe.Subscription.Status)) {
+      return user;
+    }
+
+    const premiumUntil = user.premiumUntil && user.premiumUntil > periodEnd ? user.premiumUntil : periodEnd;
+    console.log(`💳 Invoice ${invoice.id} paid: user ${user.id} is premium until ${premiumUntil.toISOString()}`);
+    return storage.updateUserBillingState(user.id, {
+      isPremium: true,
+      premiumUntil,
+      premiumSource: 'stripe',
+      stripeSubscriptionId: subscriptionId,
+    });
+  },
+
+  /**
+   * Record a failed invoice payment. Access is left alone: Stripe retries the
+   * payment and reports the outcome as a subscription update.
+   */
+  async recordInvoiceFailed(invoice: Stripe.Invoice): Promise<void> {
+    const subscription = invoice.parent?.subscription_details;
+    const user = await findUser(stripeId(invoice.customer), subscription?.metadata);
+    if (!user) {
+      console.warn(`No user for failed Stripe invoice ${invoice.id}`);
+      return;
+    }
+
+    await this.upsertInvoiceTransaction(user.id, invoice, 'failed', invoice.amount_due);
+    console.warn(`💳 Payment failed for invoice ${invoice.id} (user ${user.id}, attempt ${invoice.attempt_count})`);
+  },
+
+  /**
+   * Keep one billing transaction per invoice, updated as its payment succeeds or fails
+   */
+  async upsertInvoiceTransaction(
+    userId: number,
+    invoice: Stripe.Invoice,
+    status: 'succeeded' | 'failed',
+    amount: number
+  ): Promise<BillingTransaction | undefined> {
+    if (!invoice.id) return undefined;
+
+    const existing = await storage.getBillingTransactionByInvoiceId(invoice.id);
+    // A payment that went through isn't undone by an older failure arriving late
+    if (existing?.status === 'succeeded') {
+      return existing;
+    }
+
+    const transaction = {
+      amount,
+      currency: invoice.currency,
+      status,
+      description: invoice.lines.data[0]?.description || PREMIUM_DESCRIPTION,
+    };
+
+    return existing
+      ? storage.updateBillingTransaction(existing.id, transaction)
+      : storage.createBillingTransaction({ ...transaction, userId, stripeInvoiceId: invoice.id });
+  },
+
+  /**
+   * Mirror a subscription's state onto its user: status, scheduled
+   * cancellation and, once it is paid for or has ended, premium access
+   */
+  async syncSubscription(subscription: Stripe.Subscription): Promise<User | undefined> {
+    const user = await findUser(stripeId(subscription.customer), subscription.metadata);
+    if (!user) {
+      console.warn(`No user for Stripe subscription ${subscription.id}`);
+      return undefined;
+    }
+
+    // An older subscription ending doesn't touch the one the user has now
+    if (user.stripeSubscriptionId && user.stripeSubscriptionId !== subscription.id &&
+        !PREMIUM_STATUSES.includes(subscription.status)) {
+      return user;
+    }
+
+    const state = {
+      stripeSubscriptionId: subscription.id,
+      subscriptionStatus: subscription.status,
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    };
+
+    if (PREMIUM_STATUSES.includes(subscription.status)) {
+      const periodEnd = subscriptionPeriodEnd(subscription);
+      return storage.updateUserBillingState(user.id, {
+        ...state,
+        isPremium: true,
+        premiumUntil: periodEnd ?? user.premiumUntil,
+        premiumSource: 'stripe',
+      });
+    }
+
+    if (ENDED_STATUSES.includes(subscription.status)) {
+      console.log(`💳 Subscription ${subscription.id} ${subscription.status}: user ${user.id} is no longer premium`);
+      return storage.updateUserBillingState(user.id, {
+        ...state,
+        cancelAtPeriodEnd: false,
+        isPremium: false,
+        premiumUntil: subscription.ended_at ? fromUnixTime(subscription.ended_at) : new Date(),
+        premiumSource: null,
+      });
+    }
+
+    // incomplete or paused: nothing has been paid for yet, so access is unchanged
+    return storage.updateUserBillingState(user.id, state);
+  },
+
+  /**
+   * Make a card saved through a SetupIntent the one future invoices are charged to
+   */
+  async applyNewPaymentMethod(setupIntent: Stripe.SetupIntent): Promise<void> {
+    const customerId = stripeId(setupIntent.customer);
+    const paymentMethodId = stripeId(setupIntent.payment_method);
+    const user = customerId ? await storage.getUserByStripeCustomerId(customerId) : undefined;
+    if (!user || !customerId || !paymentMethodId) {
+      return;
+    }
+
+    await stripeService.updateDefaultPaymentMethod(customerId, paymentMethodId, user.stripeSubscriptionId);
+
+    for (const method of await storage.getPaymentMethods(user.id)) {
+      if (method.isDefault) {
+        await storage.updatePaymentMethodDefault(method.id, false);
+      }
+    }
+    await stripeService.savePaymentMethod(user.id, paymentMethodId, true);
+  },
+
+  /**
+   * Bring a user's subscription state up to date from Stripe without waiting
+   * for the webhook, e.g. right after checkout
+   */
+  async refreshSubscription(user: User): Promise<User> {
+    if (!user.stripeSubscriptionId) {
+      return user;
+    }
+    const subscription = await stripeService.getSubscription(user.stripeSubscriptionId);
+    return (await this.syncSubscription(subscription)) ?? user;
+  },
+};
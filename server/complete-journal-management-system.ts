@@ -8,6 +8,7 @@ import { journalEntries, conversations, smsMessages, emails, conversationMemorie
 import { eq, desc, and, or, like, gte, lte, inArray } from 'drizzle-orm';
 import { generateFlappyContent } from './venice-ai';
 import { memoryService } from './memory-service';
+import { isOtherUsersJournalFile } from './file-upload';
 
 // Validation schemas
 const createJournalEntrySchema = z.object({
@@ -54,6 +55,9 @@ export class CompleteJournalManagementSystem {
 
       const validatedData = createJournalEntrySchema.parse(req.body);
       const { title, content, mood, tags, imageUrl, source, sourceId } = validatedData;
+      if (imageUrl && isOtherUsersJournalFile(imageUrl, userId)) {
+        return res.status(400).json({ error: "Invalid image" });
+      }
 
       // Auto-generate title if not provided
       const finalTitle = title || await this.generateEntryTitle(content);
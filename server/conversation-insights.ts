@@ -60,12 +60,12 @@ export class ConversationInsights {
    */
   static async analyzeConversationThemes(userId: number, daysPast: number = 90): Promise<ConversationTheme[]> {
     try {
-      const memories = await storage.getConversationMemoriesByUser(userId);
+      const memories = this.withinDays(await storage.getConversationMemories(userId), daysPast);
       const journalEntries = await storage.getRecentJournalEntries(userId, daysPast);
       
       // Combine all text content for analysis
       const allContent = [
-        ...memories.map(m => ({ content: m.content, date: m.createdAt, id: m.id, type: 'memory' })),
+        ...memories.map(m => ({ content: m.topic ? `${m.topic}: ${m.context}` : m.context, date: m.lastDiscussed, id: m.id, type: 'memory' })),
         ...journalEntries.map(j => ({ content: j.content, date: j.createdAt, id: j.id, type: 'journal' }))
       ];
       
@@ -137,6 +137,14 @@ Format as JSON array:
     }
   }
 
+  /**
+   * Memories from the last daysPast days, to match the journal entries analyzed
+   */
+  private static withinDays(memories: ConversationMemory[], daysPast: number): ConversationMemory[] {
+    const cutoff = Date.now() - daysPast * 24 * 60 * 60 * 1000;
+    return memories.filter(memory => memory.lastDiscussed.getTime() >= cutoff);
+  }
+
   /**
    * Fallback theme extraction using keyword analysis
    */
@@ -190,15 +198,15 @@ Format as JSON array:
    */
   static async generateEmotionalArc(userId: number, daysPast: number = 90): Promise<EmotionalArc | null> {
     try {
-      const memories = await storage.getConversationMemoriesByUser(userId);
+      const memories = this.withinDays(await storage.getConversationMemories(userId), daysPast);
       const journalEntries = await storage.getRecentJournalEntries(userId, daysPast);
       
       // Combine and sort by date
       const emotionalData = [
         ...memories.filter(m => m.emotionalTone).map(m => ({
-          date: m.createdAt,
+          date: m.lastDiscussed,
           tone: m.emotionalTone!,
-          content: m.content,
+          content: m.context,
           id: m.id,
           type: 'memory'
         })),
@@ -352,12 +360,17 @@ Format as JSON array:
   }
 
   /**
-   * Generate comprehensive conversation insights
+   * Generate comprehensive conversation insights. Themes and the emotional arc
+   * are analyzed unless they're passed in already.
    */
-  static async generateConversationInsights(userId: number): Promise<ConversationInsight[]> {
+  static async generateConversationInsights(
+    userId: number,
+    daysPast: number = 90,
+    analysis?: { themes: ConversationTheme[]; emotionalArc: EmotionalArc | null }
+  ): Promise<ConversationInsight[]> {
     try {
-      const themes = await this.analyzeConversationThemes(userId);
-      const emotionalArc = await this.generateEmotionalArc(userId);
+      const themes = analysis ? analysis.themes : await this.analyzeConversationThemes(userId, daysPast);
+      const emotionalArc = analysis ? analysis.emotionalArc : await this.generateEmotionalArc(userId, daysPast);
       const insights: ConversationInsight[] = [];
       
       // Theme-based insights
@@ -448,21 +461,15 @@ Format as JSON array:
   }
 
   /**
-   * Generate a comprehensive insights report for a user
+   * Flappy's written summary of a user's themes, emotional trend and insights
    */
-  static async generateInsightsReport(userId: number): Promise<{
-    themes: ConversationTheme[];
-    emotionalArc: EmotionalArc | null;
-    insights: ConversationInsight[];
-    summary: string;
-  }> {
-    try {
-      const themes = await this.analyzeConversationThemes(userId);
-      const emotionalArc = await this.generateEmotionalArc(userId);
-      const insights = await this.generateConversationInsights(userId);
-      
-      // Generate AI summary
-      const summaryPrompt = `Based on the following analysis of a user's journaling patterns, create a warm, encouraging summary from Flappy's perspective:
+  static async generateReportSummary(
+    userId: number,
+    themes: ConversationTheme[],
+    emotionalArc: EmotionalArc | null,
+    insights: ConversationInsight[]
+  ): Promise<string> {
+    const summaryPrompt = `Based on the following analysis of a user's journaling patterns, create a warm, encouraging summary from Flappy's perspective:
 
 Themes: ${themes.map(t => `${t.name} (${t.frequency} mentions, ${t.emotionalTone} tone)`).join(', ')}
 
@@ -478,21 +485,38 @@ Write a 2-3 paragraph summary that:
 
 Keep it personal, encouraging, and authentically Flappy-like.`;
 
-      const summaryResponse = await generateFlappyContent(
-        'journalResponse',
-        summaryPrompt,
-        {
-          username: 'system',
-          email: 'system@featherweight.world',
-          userId: userId
-        }
-      );
+    const summaryResponse = await generateFlappyContent(
+      'journalResponse',
+      summaryPrompt,
+      {
+        username: 'system',
+        email: 'system@featherweight.world',
+        userId: userId
+      }
+    );
+    return summaryResponse.content;
+  }
+
+  /**
+   * Generate a comprehensive insights report for a user
+   */
+  static async generateInsightsReport(userId: number, daysPast: number = 90): Promise<{
+    themes: ConversationTheme[];
+    emotionalArc: EmotionalArc | null;
+    insights: ConversationInsight[];
+    summary: string;
+  }> {
+    try {
+      const themes = await this.analyzeConversationThemes(userId, daysPast);
+      const emotionalArc = await this.generateEmotionalArc(userId, daysPast);
+      const insights = await this.generateConversationInsights(userId, daysPast, { themes, emotionalArc });
+      const summary = await this.generateReportSummary(userId, themes, emotionalArc, insights);
       
       return {
         themes,
         emotionalArc,
         insights,
-        summary: summaryResponse.content
+        summary
       };
     } catch (error) {
       console.error('Error generating insights report:', error);
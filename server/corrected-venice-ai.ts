@@ -7,6 +7,7 @@
 
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
+import { getLLMProvider } from './llm-provider';
 
 export interface VeniceAIConfig {
     apiKey: string;
@@ -215,7 +216,7 @@ export class VeniceAI extends EventEmitter {
     }
     
     /**
-     * Generate response using REST API (primary method)
+     * Generate response through the creative LLM provider
      */
     public async generateResponse(prompt: string, options: GenerateOptions = {}): Promise<string> {
         const {
@@ -226,53 +227,35 @@ export class VeniceAI extends EventEmitter {
             enableWebSearch = false
         } = options;
         
-        if (!this.config.apiKey) {
-            throw new Error('Venice AI API key not configured');
+        const provider = getLLMProvider('creative');
+        if (!provider.isConfigured()) {
+            throw new Error(`LLM provider "${provider.name}" is not configured`);
         }
         
         try {
-            console.log('🔗 Making Venice AI REST API request...');
+            console.log(`🔗 Making ${provider.name} completion request...`);
             
-            const response = await fetch(`${this.config.baseUrl}/chat/completions`, {
-                method: 'POST',
-                headers: {
-                    'Authorization': `Bearer ${this.config.apiKey}`,
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    model: this.config.model,
-                    messages: [
-                        ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
-                        { role: 'user', content: prompt }
-                    ],
-                    venice_parameters: {
-                        enable_web_search: enableWebSearch ? 'on' : 'off',
-                        include_venice_system_prompt: false
-                    },
-                    max_tokens: maxTokens,
-                    temperature,
-                    top_p: topP,
-                    stream: false
-                })
+            const content = await provider.complete({
+                model: provider.name === 'venice' ? this.config.model : undefined,
+                messages: [
+                    ...(systemPrompt ? [{ role: 'system' as const, content: systemPrompt }] : []),
+                    { role: 'user', content: prompt }
+                ],
+                maxTokens,
+                temperature,
+                topP,
+                webSearch: enableWebSearch
             });
             
-            if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`Venice AI API error: ${response.status} - ${response.statusText}: ${errorText}`);
-            }
-            
-            const data = await response.json();
-            const content = data.choices?.[0]?.message?.content;
-            
             if (!content) {
-                throw new Error('No content in Venice AI response');
+                throw new Error(`No content in ${provider.name} response`);
             }
             
-            console.log('✅ Venice AI REST API response received');
+            console.log(`✅ ${provider.name} completion received`);
             return content;
             
         } catch (error) {
-            console.error('Venice AI REST API error:', error);
+            console.error(`${provider.name} completion error:`, error);
             throw error;
         }
     }
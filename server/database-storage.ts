@@ -1,36 +1,66 @@
 import { 
-  users, journalEntries, emails, smsMessages, paymentMethods, billingTransactions, conversationMemories, emailQueue,
+  users, journalEntries, emails, smsMessages, paymentMethods, billingTransactions, conversationMemories, emailQueue, deliverySchedules, threads, messages, embeddings, journalEntryRevisions, conversations,
   type User, type InsertUser, type JournalEntry, type InsertJournalEntry, 
   type Email, type InsertEmail, type UpdateUserPreferences, type SmsMessage, 
   type InsertSmsMessage, type PaymentMethod, type InsertPaymentMethod,
   type BillingTransaction, type InsertBillingTransaction,
   type ConversationMemory, type InsertConversationMemory, type PaymentDetails,
-  type UserPreferences, type EmailQueueItem, type InsertEmailQueue
+  type UserPreferences,
+  type DeliverySchedule, type DeliveryChannel,
+  type Thread, type Message, type InsertMessage, type ThreadChannel,
+  type Embedding, type EmbeddingSourceType, type JournalEntryRevision, type JournalRevisionSource,
+  accountExports, type AccountExport,
+  journalAttachments, type JournalAttachment, type InsertJournalAttachment,
+  stripeEvents,
+  promoCodes, promoRedemptions, type PromoCode, type InsertPromoCode, type PromoRedemption,
+  twoFactorCodes, twoFactorRecoveryCodes, type TwoFactorCode, type InsertTwoFactorCode, type TwoFactorCodePurpose,
+  sessions, type UserSession,
+  webhookSubscriptions, webhookDeliveries, type WebhookSubscription, type WebhookDelivery, type WebhookEvent,
+  type UpdateWebhookSubscription,
+  safetyEvents, type SafetyEvent,
+  promptTemplates, type PromptTemplate,
+  jobs, type Job, type JobType
 } from "@shared/schema";
 import crypto from "crypto";
-import { db } from "./db";
-import { eq, and, gte, or, inArray, sql } from "drizzle-orm";
-import connectPg from "connect-pg-simple";
-import session from "express-session";
-import { pool } from "./db";
-import { IStorage, JournalFilter, EmailFilter, SmsFilter } from "./storage";
+import { db, pool } from "./db";
+import { eq, and, gt, gte, lt, or, inArray, sql, desc, max, count, isNull, isNotNull, TransactionRollbackError } from "drizzle-orm";
+import { PostgresSessionStore } from "./session-store";
+import { deleteJournalFile, isOtherUsersJournalFile } from "./file-upload";
+import { normalizeInboundPayload } from "./inbound-email";
+import { IStorage, AccountData, NewWebhookSubscription, NewWebhookDelivery, NewSafetyEvent, SafetyEventFilter, NewPromptTemplate, PromptVersionUsage, NewJob, JobFilter, JobCount, UserBillingState, UserTwoFactorState, JournalFilter, EmailFilter, SmsFilter, ThreadFilter, JournalSearchOptions, JournalSearchResults, JournalSearchHit, JournalFileReference } from "./storage";
 
-const PostgresSessionStore = connectPg(session);
+// Emails in the old email queue sent from an address. Only the raw payload is
+// stored, so each is parsed and its sender compared
+async function queuedEmailIdsFrom(address: string): Promise<number[]> {
+  const ids: number[] = [];
+  let afterId = 0;
+  for (;;) {
+    const batch = await db.select({ id: emailQueue.id, payload: emailQueue.payload })
+      .from(emailQueue)
+      .where(gt(emailQueue.id, afterId))
+      .orderBy(emailQueue.id)
+      .limit(100);
+    if (batch.length === 0) return ids;
+
+    for (const row of batch) {
+      const sender = await normalizeInboundPayload(row.payload).then(email => email.from.address, () => null);
+      if (sender === address.toLowerCase()) ids.push(row.id);
+    }
+    afterId = batch[batch.length - 1].id;
+  }
+}
 
 export class DatabaseStorage implements IStorage {
   sessionStore: any; // Using any type to avoid SessionStore type issues
 
   constructor() {
-    this.sessionStore = new PostgresSessionStore({ 
-      pool, 
-      createTableIfMissing: true 
-    });
+    this.sessionStore = new PostgresSessionStore();
   }
 
   async getAllUsers(): Promise<User[]> {
     try {
       // Using direct Drizzle ORM query instead of SQL to avoid column name mismatches
-      const allUsers = await db.select().from(users);
+      const allUsers = await db.select().from(users).where(isNull(users.deletedAt));
       return allUsers;
     } catch (error) {
       console.error("Error getting all users:", error);
@@ -77,10 +107,15 @@ export class DatabaseStorage implements IStorage {
       // where the preferences JSON contains the phone number
       const result = await pool.query(`
         SELECT * FROM users 
-        WHERE preferences->>'phoneNumber' = $1 
-        LIMIT 1
+        WHERE preferences->>'phoneNumber' = $1 AND deleted_at IS NULL
+        LIMIT 2
       `, [phoneNumber]);
       
+      // A number on more than one account can't say whose a message is
+      if (result.rows.length > 1) {
+        console.warn(`Phone number ${phoneNumber} is on more than one account; not matching it to either`);
+        return undefined;
+      }
       return result.rows[0] as User | undefined;
     } catch (error) {
       console.error("Error getting user by phone number:", error);
@@ -89,6 +124,14 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getUserByStripeCustomerId(stripeCustomerId: string): Promise<User | undefined> {
+    const [user] = await db.select()
+      .from(users)
+      .where(eq(users.stripeCustomerId, stripeCustomerId))
+      .limit(1);
+    return user;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const defaultPreferences: UpdateUserPreferences = {
       emailFrequency: "daily",
@@ -158,6 +201,7 @@ export class DatabaseStorage implements IStorage {
       const result = await pool.query(
         `UPDATE users 
          SET username = $1, 
+             email_verified_at = CASE WHEN email = $2 THEN email_verified_at END,
              email = $2, 
              preferences = $3, 
              updated_at = NOW() 
@@ -336,6 +380,18 @@ export class DatabaseStorage implements IStorage {
     }
   }
   
+  async updateUserBillingState(userId: number, state: UserBillingState): Promise<User> {
+    const [user] = await db.update(users)
+      .set({ ...state, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+
+    if (!user) {
+      throw new Error(`User with ID ${userId} not found`);
+    }
+    return user;
+  }
+
   async updateUserPaymentDetails(userId: number, paymentDetails: PaymentDetails): Promise<User> {
     const user = await this.getUser(userId);
     if (!user) {
@@ -489,9 +545,156 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getBillingTransactionByInvoiceId(stripeInvoiceId: string): Promise<BillingTransaction | undefined> {
+    const [transaction] = await db.select()
+      .from(billingTransactions)
+      .where(eq(billingTransactions.stripeInvoiceId, stripeInvoiceId))
+      .limit(1);
+    return transaction;
+  }
+
+  async updateBillingTransaction(id: number, updates: Partial<InsertBillingTransaction>): Promise<BillingTransaction> {
+    const [transaction] = await db.update(billingTransactions)
+      .set(updates)
+      .where(eq(billingTransactions.id, id))
+      .returning();
+
+    if (!transaction) {
+      throw new Error(`Billing transaction ${id} not found`);
+    }
+    return transaction;
+  }
+
+  async claimStripeEvent(eventId: string, type: string): Promise<boolean> {
+    const claimed = await db.insert(stripeEvents)
+      .values({ id: eventId, type })
+      .onConflictDoNothing()
+      .returning({ id: stripeEvents.id });
+    return claimed.length > 0;
+  }
+
+  async releaseStripeEvent(eventId: string): Promise<void> {
+    await db.delete(stripeEvents).where(eq(stripeEvents.id, eventId));
+  }
+
+  // Premium access
+  async getPromoCodes(): Promise<PromoCode[]> {
+    return await db.select()
+      .from(promoCodes)
+      .orderBy(desc(promoCodes.createdAt));
+  }
+
+  async getPromoCodeByCode(code: string): Promise<PromoCode | undefined> {
+    const [promoCode] = await db.select()
+      .from(promoCodes)
+      .where(eq(promoCodes.code, code.trim().toUpperCase()));
+    return promoCode;
+  }
+
+  async createPromoCode(promoCode: InsertPromoCode): Promise<PromoCode> {
+    const [created] = await db.insert(promoCodes)
+      .values(promoCode)
+      .returning();
+    return created;
+  }
+
+  async disablePromoCode(id: number): Promise<PromoCode | undefined> {
+    const [promoCode] = await db.update(promoCodes)
+      .set({ disabledAt: sql`COALESCE(${promoCodes.disabledAt}, now())` })
+      .where(eq(promoCodes.id, id))
+      .returning();
+    return promoCode;
+  }
+
+  async getPromoRedemption(promoCodeId: number, userId: number): Promise<PromoRedemption | undefined> {
+    const [redemption] = await db.select()
+      .from(promoRedemptions)
+      .where(and(eq(promoRedemptions.promoCodeId, promoCodeId), eq(promoRedemptions.userId, userId)));
+    return redemption;
+  }
+
+  async redeemPromoCode(promoCodeId: number, userId: number, premiumUntil: Date): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      // The limit is checked in the same statement that counts the redemption,
+      // so concurrent redemptions can't overshoot it
+      const [counted] = await tx.update(promoCodes)
+        .set({ redemptionCount: sql`${promoCodes.redemptionCount} + 1` })
+        .where(and(
+          eq(promoCodes.id, promoCodeId),
+          or(isNull(promoCodes.maxRedemptions), lt(promoCodes.redemptionCount, promoCodes.maxRedemptions))
+        ))
+        .returning({ id: promoCodes.id });
+      if (!counted) return undefined;
+
+      const [redemption] = await tx.insert(promoRedemptions)
+        .values({ promoCodeId, userId, premiumUntil })
+        .onConflictDoNothing()
+        .returning({ id: promoRedemptions.id });
+      if (!redemption) {
+        tx.rollback();
+      }
+
+      const [user] = await tx.update(users)
+        .set({
+          isPremium: true,
+          premiumUntil,
+          premiumSource: "promo",
+          premiumReminderSentAt: null,
+          updatedAt: new Date()
+        })
+        .where(eq(users.id, userId))
+        .returning();
+      return user;
+    }).catch(error => {
+      // rollback() aborts the transaction by throwing
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    });
+  }
+
+  async getUsersDueExpiryReminder(cutoff: Date): Promise<User[]> {
+    return await db.select()
+      .from(users)
+      .where(and(
+        eq(users.isPremium, true),
+        inArray(users.premiumSource, ["trial", "promo"]),
+        isNull(users.premiumReminderSentAt),
+        isNull(users.deletedAt),
+        gte(users.premiumUntil, new Date()),
+        lt(users.premiumUntil, cutoff)
+      ));
+  }
+
+  async expirePremiumAccess(now: Date, stripeCutoff: Date): Promise<User[]> {
+    return await db.update(users)
+      .set({ isPremium: false, premiumSource: null, updatedAt: new Date() })
+      .where(and(
+        eq(users.isPremium, true),
+        isNotNull(users.premiumUntil),
+        or(
+          and(inArray(users.premiumSource, ["trial", "promo"]), lt(users.premiumUntil, now)),
+          and(sql`${users.premiumSource} IS DISTINCT FROM 'trial'`, sql`${users.premiumSource} IS DISTINCT FROM 'promo'`,
+            lt(users.premiumUntil, stripeCutoff))
+        )
+      ))
+      .returning();
+  }
+
+  async getRecentJournalEntries(userId: number, days: number): Promise<JournalEntry[]> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    return db.select()
+      .from(journalEntries)
+      .where(and(
+        eq(journalEntries.userId, userId),
+        isNull(journalEntries.deletedAt),
+        gte(journalEntries.createdAt, since)
+      ))
+      .orderBy(journalEntries.createdAt);
+  }
+
   async getJournalEntries(userId: number, filter?: JournalFilter): Promise<JournalEntry[]> {
-    // Build the query conditions
-    let conditions = [eq(journalEntries.userId, userId)];
+    // Build the query conditions; trashed entries are never listed
+    let conditions = [eq(journalEntries.userId, userId), isNull(journalEntries.deletedAt)];
     
     // Apply filters
     if (filter) {
@@ -536,38 +739,368 @@ export class DatabaseStorage implements IStorage {
     return filteredEntries.reverse(); // newest first
   }
 
-  async getJournalEntry(id: number): Promise<JournalEntry | undefined> {
+  async getJournalEntry(id: number, options: { includeDeleted?: boolean } = {}): Promise<JournalEntry | undefined> {
     const [entry] = await db.select()
       .from(journalEntries)
-      .where(eq(journalEntries.id, id));
+      .where(options.includeDeleted
+        ? eq(journalEntries.id, id)
+        : and(eq(journalEntries.id, id), isNull(journalEntries.deletedAt)));
     return entry;
   }
 
   async createJournalEntry(insertEntry: InsertJournalEntry): Promise<JournalEntry> {
-    const [entry] = await db.insert(journalEntries)
-      .values(insertEntry)
+    return await db.transaction(async (tx) => {
+      const [entry] = await tx.insert(journalEntries)
+        .values(insertEntry)
+        .returning();
+      
+      await tx.insert(journalEntryRevisions)
+        .values(this.toRevision(entry, 1, "create"));
+      
+      return entry;
+    });
+  }
+
+  async updateJournalEntry(id: number, partialEntry: Partial<InsertJournalEntry>): Promise<JournalEntry | undefined> {
+    return await this.saveJournalEntryVersion(id, partialEntry, "edit");
+  }
+
+  async getJournalRevisions(entryId: number): Promise<JournalEntryRevision[]> {
+    return await db.select()
+      .from(journalEntryRevisions)
+      .where(eq(journalEntryRevisions.entryId, entryId))
+      .orderBy(desc(journalEntryRevisions.revisionNumber));
+  }
+
+  async getJournalRevision(entryId: number, revisionNumber: number): Promise<JournalEntryRevision | undefined> {
+    const [revision] = await db.select()
+      .from(journalEntryRevisions)
+      .where(and(
+        eq(journalEntryRevisions.entryId, entryId),
+        eq(journalEntryRevisions.revisionNumber, revisionNumber)
+      ));
+    
+    return revision;
+  }
+
+  async restoreJournalRevision(entryId: number, revisionNumber: number): Promise<JournalEntry | undefined> {
+    const revision = await this.getJournalRevision(entryId, revisionNumber);
+    if (!revision) {
+      return undefined;
+    }
+    
+    return await this.saveJournalEntryVersion(entryId, {
+      title: revision.title ?? undefined,
+      content: revision.content,
+      mood: (revision.mood ?? undefined) as InsertJournalEntry["mood"],
+      tags: revision.tags ?? []
+    }, "restore", revisionNumber);
+  }
+
+  // Apply an update and, if the title, content, mood or tags changed, record
+  // the new state as the next revision in the same transaction
+  private async saveJournalEntryVersion(
+    id: number,
+    partialEntry: Partial<InsertJournalEntry>,
+    source: JournalRevisionSource,
+    restoredFromRevision?: number
+  ): Promise<JournalEntry | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select()
+        .from(journalEntries)
+        .where(eq(journalEntries.id, id))
+        .for("update");
+      
+      if (!current) {
+        return undefined;
+      }
+      
+      const [updatedEntry] = await tx.update(journalEntries)
+        .set({
+          ...partialEntry,
+          updatedAt: new Date()
+        })
+        .where(eq(journalEntries.id, id))
+        .returning();
+      
+      const changed = current.title !== updatedEntry.title
+        || current.content !== updatedEntry.content
+        || current.mood !== updatedEntry.mood
+        || JSON.stringify(current.tags ?? []) !== JSON.stringify(updatedEntry.tags ?? []);
+      
+      if (changed) {
+        const [{ latest }] = await tx.select({ latest: max(journalEntryRevisions.revisionNumber) })
+          .from(journalEntryRevisions)
+          .where(eq(journalEntryRevisions.entryId, id));
+        
+        let nextNumber = (latest ?? 0) + 1;
+        if (!latest) {
+          // No history yet, so keep the state being overwritten as the original
+          await tx.insert(journalEntryRevisions)
+            .values({ ...this.toRevision(current, 1, "create"), createdAt: current.updatedAt });
+          nextNumber = 2;
+        }
+        
+        await tx.insert(journalEntryRevisions)
+          .values(this.toRevision(updatedEntry, nextNumber, source, restoredFromRevision));
+      }
+      
+      return updatedEntry;
+    });
+  }
+
+  private toRevision(
+    entry: JournalEntry,
+    revisionNumber: number,
+    source: JournalRevisionSource,
+    restoredFromRevision?: number
+  ) {
+    return {
+      entryId: entry.id,
+      userId: entry.userId,
+      revisionNumber,
+      title: entry.title,
+      content: entry.content,
+      mood: entry.mood,
+      tags: entry.tags,
+      source,
+      restoredFromRevision: restoredFromRevision ?? null
+    };
+  }
+
+  async deleteJournalEntry(id: number): Promise<boolean> {
+    const [trashedEntry] = await db.update(journalEntries)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(journalEntries.id, id), isNull(journalEntries.deletedAt)))
       .returning();
     
-    return entry;
+    return !!trashedEntry;
   }
 
-  async updateJournalEntry(id: number, partialEntry: Partial<InsertJournalEntry>): Promise<JournalEntry | undefined> {
-    const [updatedEntry] = await db.update(journalEntries)
-      .set({
-        ...partialEntry,
-        updatedAt: new Date()
-      })
-      .where(eq(journalEntries.id, id))
+  async getTrashedJournalEntries(userId: number): Promise<JournalEntry[]> {
+    return await db.select()
+      .from(journalEntries)
+      .where(and(eq(journalEntries.userId, userId), isNotNull(journalEntries.deletedAt)))
+      .orderBy(desc(journalEntries.deletedAt));
+  }
+
+  async restoreJournalEntry(id: number): Promise<JournalEntry | undefined> {
+    const [restoredEntry] = await db.update(journalEntries)
+      .set({ deletedAt: null })
+      .where(and(eq(journalEntries.id, id), isNotNull(journalEntries.deletedAt)))
       .returning();
     
-    return updatedEntry;
+    return restoredEntry;
   }
 
-  async deleteJournalEntry(id: number): Promise<boolean> {
-    const result = await db.delete(journalEntries)
-      .where(eq(journalEntries.id, id));
+  async getJournalAttachments(entryIds: number[]): Promise<JournalAttachment[]> {
+    if (entryIds.length === 0) {
+      return [];
+    }
+    
+    return await db.select()
+      .from(journalAttachments)
+      .where(inArray(journalAttachments.entryId, entryIds))
+      .orderBy(journalAttachments.id);
+  }
+
+  async createJournalAttachment(attachment: InsertJournalAttachment): Promise<JournalAttachment> {
+    const [created] = await db.insert(journalAttachments)
+      .values(attachment)
+      .returning();
+    return created;
+  }
+
+  async getJournalFileReferences(): Promise<JournalFileReference[]> {
+    const images = await db.select({ reference: journalEntries.imageUrl, userId: journalEntries.userId })
+      .from(journalEntries)
+      .where(isNotNull(journalEntries.imageUrl));
+    const attachments = await db.select({
+      storageKey: journalAttachments.storageKey,
+      thumbnailKey: journalAttachments.thumbnailKey,
+      userId: journalAttachments.userId
+    })
+      .from(journalAttachments);
     
-    return true; // PostgreSQL doesn't directly return the count of deleted rows
+    return [
+      ...images.map(image => ({ reference: image.reference!, userId: image.userId })),
+      ...attachments.flatMap(({ storageKey, thumbnailKey, userId }) =>
+        (thumbnailKey ? [storageKey, thumbnailKey] : [storageKey]).map(reference => ({ reference, userId }))
+      )
+    ];
+  }
+
+  // Permanently delete an entry with its revisions, attachments and embeddings,
+  // clearing the references that SMS messages and conversations hold to it.
+  // Its image and attachment files are deleted once the rows are gone.
+  async purgeJournalEntry(id: number): Promise<boolean> {
+    const entry = await this.getJournalEntry(id, { includeDeleted: true });
+    const attachments = await this.getJournalAttachments([id]);
+    
+    const purged = await db.transaction(async (tx) => {
+      await tx.update(smsMessages)
+        .set({ journalEntryId: null })
+        .where(eq(smsMessages.journalEntryId, id));
+      await tx.update(conversations)
+        .set({ journalEntryId: null, savedAsJournal: false })
+        .where(eq(conversations.journalEntryId, id));
+      await tx.update(messages)
+        .set({ journalEntryId: null })
+        .where(eq(messages.journalEntryId, id));
+      await tx.delete(embeddings)
+        .where(and(eq(embeddings.sourceType, "journal_entry"), eq(embeddings.sourceId, id)));
+      await tx.delete(journalEntryRevisions)
+        .where(eq(journalEntryRevisions.entryId, id));
+      await tx.delete(journalAttachments)
+        .where(eq(journalAttachments.entryId, id));
+      
+      const deleted = await tx.delete(journalEntries)
+        .where(eq(journalEntries.id, id))
+        .returning({ id: journalEntries.id });
+      
+      return deleted.length > 0;
+    });
+    
+    if (purged) {
+      const files = attachments.flatMap(attachment => [attachment.storageKey, attachment.thumbnailKey]);
+      for (const reference of [entry?.imageUrl, ...files]) {
+        // Never another user's file, whatever the entry points at
+        if (!reference || !entry || isOtherUsersJournalFile(reference, entry.userId)) continue;
+        try {
+          await deleteJournalFile(reference);
+        } catch (error) {
+          // Left for the orphaned file sweep
+          console.error(`Error deleting file of purged journal entry ${id}:`, error);
+        }
+      }
+    }
+    
+    return purged;
+  }
+
+  async purgeExpiredJournalEntries(deletedBefore: Date): Promise<number> {
+    const expired = await db.select({ id: journalEntries.id })
+      .from(journalEntries)
+      .where(lt(journalEntries.deletedAt, deletedBefore));
+    
+    let purged = 0;
+    for (const { id } of expired) {
+      if (await this.purgeJournalEntry(id)) {
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  async searchJournalEntries(userId: number, query: string, options: JournalSearchOptions = {}): Promise<JournalSearchResults> {
+    const limit = options.limit ?? 20;
+    const offset = options.offset ?? 0;
+
+    // Each journal entry is searched together with the content of the email it
+    // came from (journal_entries.email_id) and any SMS messages linked to it.
+    // Title matches weigh more than body matches, which weigh more than linked
+    // message matches. Highlights use <mark> so the client can render them safely.
+    // Entries are narrowed first to those whose indexed search_vector matches
+    // (see migrate.ts) or that have linked messages, as only those can match.
+    const result = await pool.query(`
+      WITH query AS (
+        SELECT websearch_to_tsquery('english', $2) AS q
+      ),
+      candidates AS (
+        SELECT je.id FROM journal_entries je, query
+         WHERE je.user_id = $1 AND je.search_vector @@ query.q
+        UNION
+        SELECT je.id FROM journal_entries je
+         WHERE je.user_id = $1 AND je.email_id IS NOT NULL
+        UNION
+        SELECT s.journal_entry_id FROM sms_messages s
+         WHERE s.user_id = $1 AND s.journal_entry_id IS NOT NULL
+      ),
+      docs AS (
+        SELECT
+          je.id,
+          je.title,
+          je.content,
+          je.mood,
+          je.tags,
+          je.created_at,
+          COALESCE(linked.email_text, '') AS email_text,
+          COALESCE(linked.sms_text, '') AS sms_text,
+          je.search_vector ||
+          setweight(to_tsvector('english', COALESCE(linked.email_text, '') || ' ' || COALESCE(linked.sms_text, '')), 'C') AS document
+        FROM journal_entries je
+        LEFT JOIN LATERAL (
+          SELECT
+            (SELECT string_agg(e.content, ' ')
+               FROM emails e
+              WHERE e.user_id = je.user_id
+                AND je.email_id IS NOT NULL
+                AND (e.message_id = je.email_id OR e.id::text = je.email_id)) AS email_text,
+            (SELECT string_agg(s.content, ' ')
+               FROM sms_messages s
+              WHERE s.journal_entry_id = je.id) AS sms_text
+        ) linked ON true
+        WHERE je.id IN (SELECT id FROM candidates)
+          AND je.user_id = $1
+          AND je.deleted_at IS NULL
+      ),
+      matches AS (
+        SELECT docs.*, ts_rank_cd(docs.document, query.q) AS rank
+        FROM docs, query
+        WHERE docs.document @@ query.q
+      ),
+      page AS (
+        SELECT
+          m.id,
+          m.title,
+          m.mood,
+          m.tags,
+          m.created_at,
+          m.rank,
+          CASE WHEN m.title IS NULL THEN NULL
+               ELSE ts_headline('english', m.title, query.q, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true')
+          END AS title_highlight,
+          ts_headline(
+            'english',
+            m.content || E'\\n' || m.email_text || E'\\n' || m.sms_text,
+            query.q,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+          ) AS snippet,
+          to_tsvector('english', COALESCE(m.title, '')) @@ query.q AS in_title,
+          to_tsvector('english', m.content) @@ query.q AS in_content,
+          to_tsvector('english', m.email_text) @@ query.q AS in_email,
+          to_tsvector('english', m.sms_text) @@ query.q AS in_sms
+        FROM matches m, query
+        ORDER BY m.rank DESC, m.created_at DESC
+        LIMIT $3 OFFSET $4
+      )
+      SELECT
+        (SELECT COUNT(*) FROM matches) AS total,
+        COALESCE((SELECT json_agg(page ORDER BY page.rank DESC, page.created_at DESC) FROM page), '[]'::json) AS hits
+    `, [userId, query, limit, offset]);
+
+    const row = result.rows[0];
+    const hits: JournalSearchHit[] = (row?.hits || []).map((hit: any) => {
+      const matchedIn: JournalSearchHit["matchedIn"] = [];
+      if (hit.in_title) matchedIn.push("title");
+      if (hit.in_content) matchedIn.push("content");
+      if (hit.in_email) matchedIn.push("email");
+      if (hit.in_sms) matchedIn.push("sms");
+
+      return {
+        entryId: hit.id,
+        title: hit.title,
+        titleHighlight: hit.title_highlight,
+        snippet: hit.snippet,
+        mood: hit.mood,
+        tags: hit.tags,
+        createdAt: new Date(hit.created_at),
+        rank: Number(hit.rank),
+        matchedIn
+      };
+    });
+
+    return { hits, total: Number(row?.total || 0) };
   }
 
   async getEmails(userId: number, filter?: EmailFilter): Promise<Email[]> {
@@ -625,6 +1158,7 @@ export class DatabaseStorage implements IStorage {
       .values(insertEmail)
       .returning();
     
+    await this.mirrorEmailToThread(email);
     return email;
   }
 
@@ -693,6 +1227,7 @@ export class DatabaseStorage implements IStorage {
       .values(insertMessage)
       .returning();
     
+    await this.mirrorSmsToThread(message);
     return message;
   }
 
@@ -702,6 +1237,13 @@ export class DatabaseStorage implements IStorage {
       .where(eq(smsMessages.id, id))
       .returning();
     
+    // Keep the mirrored thread message linked to any journal entry created from it
+    if (updatedMessage && partialMessage.journalEntryId !== undefined) {
+      await db.update(messages)
+        .set({ journalEntryId: partialMessage.journalEntryId })
+        .where(and(eq(messages.sourceType, "sms"), eq(messages.sourceId, id)));
+    }
+    
     return updatedMessage;
   }
 
@@ -831,79 +1373,875 @@ export class DatabaseStorage implements IStorage {
       throw error;
     }
   }
-  
-  // Email queue methods
-  async enqueueEmail(queueItem: InsertEmailQueue): Promise<EmailQueueItem> {
-    const [newItem] = await db
-      .insert(emailQueue)
-      .values(queueItem)
+
+  async updateUserEmailVerificationToken(userId: number, token: string, expires: Date): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({
+        emailVerificationToken: token,
+        emailVerificationExpires: expires,
+        updatedAt: new Date()
+      })
+      .where(eq(users.id, userId))
       .returning();
-      
-    return newItem;
+
+    return updatedUser;
   }
-  
-  async getNextPendingEmail(): Promise<EmailQueueItem | undefined> {
-    const [nextItem] = await db
+
+  async getUserByEmailVerificationToken(token: string): Promise<User | undefined> {
+    const [user] = await db
       .select()
-      .from(emailQueue)
-      .where(eq(emailQueue.status, "pending"))
-      .orderBy(emailQueue.createdAt)
+      .from(users)
+      .where(eq(users.emailVerificationToken, token));
+
+    return user;
+  }
+
+  async markUserEmailVerified(userId: number): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({
+        emailVerifiedAt: new Date(),
+        emailVerificationToken: null,
+        emailVerificationExpires: null,
+        updatedAt: new Date()
+      })
+      .where(eq(users.id, userId))
+      .returning();
+
+    return updatedUser;
+  }
+
+  // Two-factor authentication
+  async updateUserTwoFactor(userId: number, state: UserTwoFactorState): Promise<User> {
+    const [user] = await db.update(users)
+      .set({ ...state, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+
+    if (!user) {
+      throw new Error(`User with ID ${userId} not found`);
+    }
+    return user;
+  }
+
+  async claimTotpStep(userId: number, step: number): Promise<boolean> {
+    const claimed = await db.update(users)
+      .set({ twoFactorLastTotpStep: step })
+      .where(and(
+        eq(users.id, userId),
+        or(isNull(users.twoFactorLastTotpStep), lt(users.twoFactorLastTotpStep, step))
+      ))
+      .returning({ id: users.id });
+    return claimed.length > 0;
+  }
+
+  async claimTwoFactorLoginAttempt(userId: number, maxAttempts: number, lockoutMs: number): Promise<boolean> {
+    // One statement, so concurrent attempts are each counted. A lockout that
+    // has run out starts the count again.
+    const attempts = sql`CASE WHEN ${users.twoFactorLockedUntil} IS NULL THEN ${users.twoFactorLoginAttempts} + 1 ELSE 1 END`;
+    const claimed = await db.update(users)
+      .set({
+        twoFactorLoginAttempts: attempts,
+        twoFactorLockedUntil: sql`CASE WHEN ${attempts} >= ${maxAttempts} THEN now() + ${`${lockoutMs} milliseconds`}::interval END`
+      })
+      .where(and(
+        eq(users.id, userId),
+        or(isNull(users.twoFactorLockedUntil), lt(users.twoFactorLockedUntil, sql`now()`))
+      ))
+      .returning({ id: users.id });
+    return claimed.length > 0;
+  }
+
+  async resetTwoFactorLoginAttempts(userId: number): Promise<void> {
+    await db.update(users)
+      .set({ twoFactorLoginAttempts: 0, twoFactorLockedUntil: null })
+      .where(eq(users.id, userId));
+  }
+
+  async disableTwoFactor(userId: number): Promise<User> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      const [user] = await tx.update(users)
+        .set({
+          twoFactorMethod: null,
+          twoFactorSecret: null,
+          twoFactorPhone: null,
+          twoFactorLastTotpStep: null,
+          twoFactorEnabledAt: null,
+          updatedAt: new Date()
+        })
+        .where(eq(users.id, userId))
+        .returning();
+      return user;
+    });
+  }
+
+  async createTwoFactorCode(code: InsertTwoFactorCode): Promise<TwoFactorCode> {
+    const [created] = await db.insert(twoFactorCodes).values(code).returning();
+    return created;
+  }
+
+  async getLatestTwoFactorCode(userId: number, purpose: TwoFactorCodePurpose): Promise<TwoFactorCode | undefined> {
+    const [code] = await db.select()
+      .from(twoFactorCodes)
+      .where(and(eq(twoFactorCodes.userId, userId), eq(twoFactorCodes.purpose, purpose)))
+      .orderBy(desc(twoFactorCodes.createdAt), desc(twoFactorCodes.id))
       .limit(1);
-      
-    return nextItem;
+    return code;
   }
-  
-  async markEmailProcessing(id: number): Promise<EmailQueueItem | undefined> {
-    const [updatedItem] = await db
-      .update(emailQueue)
+
+  async recordTwoFactorCodeAttempt(id: number): Promise<void> {
+    await db.update(twoFactorCodes)
+      .set({ attempts: sql`${twoFactorCodes.attempts} + 1` })
+      .where(eq(twoFactorCodes.id, id));
+  }
+
+  async consumeTwoFactorCode(id: number): Promise<boolean> {
+    const consumed = await db.update(twoFactorCodes)
+      .set({ consumedAt: new Date() })
+      .where(and(eq(twoFactorCodes.id, id), isNull(twoFactorCodes.consumedAt)))
+      .returning({ id: twoFactorCodes.id });
+    return consumed.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.insert(twoFactorRecoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const used = await db.update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(twoFactorRecoveryCodes.userId, userId),
+        eq(twoFactorRecoveryCodes.codeHash, codeHash),
+        isNull(twoFactorRecoveryCodes.usedAt)
+      ))
+      .returning({ id: twoFactorRecoveryCodes.id });
+    return used.length > 0;
+  }
+
+  async countUnusedRecoveryCodes(userId: number): Promise<number> {
+    const [result] = await db.select({ count: count() })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+    return result?.count ?? 0;
+  }
+
+  async getUserSessions(userId: number): Promise<UserSession[]> {
+    return db.select()
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), gte(sessions.expire, new Date())))
+      .orderBy(desc(sessions.lastSeenAt));
+  }
+
+  async deleteUserSession(userId: number, id: number): Promise<boolean> {
+    const deleted = await db.delete(sessions)
+      .where(and(eq(sessions.id, id), eq(sessions.userId, userId)))
+      .returning({ sid: sessions.sid });
+    return deleted.length > 0;
+  }
+
+  async deleteUserSessions(userId: number): Promise<number> {
+    const deleted = await db.delete(sessions)
+      .where(eq(sessions.userId, userId))
+      .returning({ sid: sessions.sid });
+    return deleted.length;
+  }
+
+
+  // Webhook methods
+  async getWebhookSubscriptions(userId: number): Promise<WebhookSubscription[]> {
+    return db.select()
+      .from(webhookSubscriptions)
+      .where(eq(webhookSubscriptions.userId, userId))
+      .orderBy(webhookSubscriptions.createdAt);
+  }
+
+  async getWebhookSubscription(userId: number, id: number): Promise<WebhookSubscription | undefined> {
+    const [subscription] = await db.select()
+      .from(webhookSubscriptions)
+      .where(and(eq(webhookSubscriptions.id, id), eq(webhookSubscriptions.userId, userId)));
+    return subscription;
+  }
+
+  async getActiveWebhookSubscriptions(userId: number, event: WebhookEvent): Promise<WebhookSubscription[]> {
+    const subscriptions = await db.select()
+      .from(webhookSubscriptions)
+      .where(and(eq(webhookSubscriptions.userId, userId), eq(webhookSubscriptions.isActive, true)));
+    return subscriptions.filter(subscription => subscription.events.includes(event));
+  }
+
+  async createWebhookSubscription(subscription: NewWebhookSubscription): Promise<WebhookSubscription> {
+    const [created] = await db.insert(webhookSubscriptions)
+      .values(subscription)
+      .returning();
+    return created;
+  }
+
+  async updateWebhookSubscription(
+    userId: number,
+    id: number,
+    updates: UpdateWebhookSubscription
+  ): Promise<WebhookSubscription | undefined> {
+    const [updated] = await db.update(webhookSubscriptions)
       .set({
-        status: "processing",
+        ...updates,
+        // Turning a subscription back on gives it a fresh run of failures
+        ...(updates.isActive ? { consecutiveFailures: 0 } : {}),
         updatedAt: new Date()
       })
-      .where(eq(emailQueue.id, id))
+      .where(and(eq(webhookSubscriptions.id, id), eq(webhookSubscriptions.userId, userId)))
       .returning();
-      
-    return updatedItem;
+    return updated;
+  }
+
+  async deleteWebhookSubscription(userId: number, id: number): Promise<boolean> {
+    // Its deliveries are removed with it (ON DELETE CASCADE)
+    const deleted = await db.delete(webhookSubscriptions)
+      .where(and(eq(webhookSubscriptions.id, id), eq(webhookSubscriptions.userId, userId)))
+      .returning({ id: webhookSubscriptions.id });
+    return deleted.length > 0;
+  }
+
+  async recordWebhookSubscriptionResult(id: number, succeeded: boolean): Promise<WebhookSubscription | undefined> {
+    const [updated] = await db.update(webhookSubscriptions)
+      .set({
+        consecutiveFailures: succeeded ? 0 : sql`${webhookSubscriptions.consecutiveFailures} + 1`
+      })
+      .where(eq(webhookSubscriptions.id, id))
+      .returning();
+    return updated;
+  }
+
+  async createWebhookDeliveries(deliveries: NewWebhookDelivery[]): Promise<WebhookDelivery[]> {
+    if (deliveries.length === 0) return [];
+    return db.insert(webhookDeliveries)
+      .values(deliveries)
+      .returning();
+  }
+
+  async getWebhookDeliveries(userId: number, subscriptionId: number, limit = 50): Promise<WebhookDelivery[]> {
+    return db.select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.subscriptionId, subscriptionId), eq(webhookDeliveries.userId, userId)))
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(limit);
+  }
+
+  async getWebhookDelivery(userId: number, id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select()
+      .from(webhookDeliveries)
+      .where(and(eq(webhookDeliveries.id, id), eq(webhookDeliveries.userId, userId)));
+    return delivery;
+  }
+
+  async claimDueWebhookDeliveries(limit: number, leaseMs: number): Promise<WebhookDelivery[]> {
+    // SKIP LOCKED lets several server instances share the work; the lease
+    // brings a delivery back round if the instance sending it goes away
+    return db.update(webhookDeliveries)
+      .set({ nextAttemptAt: new Date(Date.now() + leaseMs) })
+      .where(inArray(webhookDeliveries.id, sql`(
+        SELECT id FROM webhook_deliveries
+        WHERE status = 'pending' AND next_attempt_at <= now()
+        ORDER BY next_attempt_at
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )`))
+      .returning();
+  }
+
+  async updateWebhookDelivery(
+    id: number,
+    updates: Partial<Omit<WebhookDelivery, "id" | "subscriptionId" | "userId" | "createdAt">>
+  ): Promise<WebhookDelivery | undefined> {
+    const [updated] = await db.update(webhookDeliveries)
+      .set(updates)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Safety event methods
+  async createSafetyEvent(event: NewSafetyEvent): Promise<SafetyEvent> {
+    const [created] = await db.insert(safetyEvents)
+      .values(event)
+      .returning();
+    return created;
+  }
+
+  async getSafetyEvents(filter: SafetyEventFilter = {}): Promise<SafetyEvent[]> {
+    const conditions = [];
+    if (filter.userId !== undefined) conditions.push(eq(safetyEvents.userId, filter.userId));
+    if (filter.level) conditions.push(eq(safetyEvents.level, filter.level));
+
+    return db.select()
+      .from(safetyEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(safetyEvents.createdAt), desc(safetyEvents.id))
+      .limit(filter.limit ?? 100);
+  }
+
+  // Prompt template methods
+  async getPromptTemplates(name?: string): Promise<PromptTemplate[]> {
+    return db.select()
+      .from(promptTemplates)
+      .where(name ? eq(promptTemplates.name, name) : undefined)
+      .orderBy(promptTemplates.name, promptTemplates.version);
+  }
+
+  async createPromptTemplate(template: NewPromptTemplate): Promise<PromptTemplate> {
+    const [created] = await db.insert(promptTemplates)
+      .values(template)
+      .returning();
+    return created;
+  }
+
+  async updatePromptTemplateWeight(id: number, weight: number): Promise<PromptTemplate | undefined> {
+    const [updated] = await db.update(promptTemplates)
+      .set({ weight })
+      .where(eq(promptTemplates.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getPromptVersionUsage(since: Date): Promise<PromptVersionUsage[]> {
+    const emailCounts = await db.select({ promptVersion: emails.promptVersion, total: count() })
+      .from(emails)
+      .where(and(isNotNull(emails.promptVersion), gte(emails.sentAt, since)))
+      .groupBy(emails.promptVersion);
+    const conversationCounts = await db.select({ promptVersion: conversations.promptVersion, total: count() })
+      .from(conversations)
+      .where(and(isNotNull(conversations.promptVersion), gte(conversations.createdAt, since)))
+      .groupBy(conversations.promptVersion);
+
+    const usage = new Map<string, PromptVersionUsage>();
+    const entry = (promptVersion: string) => {
+      if (!usage.has(promptVersion)) usage.set(promptVersion, { promptVersion, emails: 0, conversations: 0 });
+      return usage.get(promptVersion)!;
+    };
+    for (const row of emailCounts) entry(row.promptVersion!).emails = row.total;
+    for (const row of conversationCounts) entry(row.promptVersion!).conversations = row.total;
+    return Array.from(usage.values()).sort((a, b) => a.promptVersion.localeCompare(b.promptVersion));
   }
   
-  async markEmailCompleted(id: number): Promise<EmailQueueItem | undefined> {
-    const [updatedItem] = await db
-      .update(emailQueue)
+  // Job queue methods
+  async enqueueJob(job: NewJob): Promise<Job | undefined> {
+    const [created] = await db.insert(jobs)
+      .values(job)
+      .onConflictDoNothing({ target: jobs.idempotencyKey })
+      .returning();
+    return created;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getJobByIdempotencyKey(key: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.idempotencyKey, key));
+    return job;
+  }
+
+  async getJobs(filter: JobFilter = {}): Promise<Job[]> {
+    const conditions = [];
+    if (filter.type) conditions.push(eq(jobs.type, filter.type));
+    if (filter.status) conditions.push(eq(jobs.status, filter.status));
+
+    return db.select()
+      .from(jobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobs.createdAt), desc(jobs.id))
+      .limit(filter.limit ?? 100);
+  }
+
+  async getJobCounts(): Promise<JobCount[]> {
+    return db.select({ type: jobs.type, status: jobs.status, count: count() })
+      .from(jobs)
+      .groupBy(jobs.type, jobs.status)
+      .orderBy(jobs.type, jobs.status);
+  }
+
+  async claimDueJobs(type: JobType, limit: number, leaseMs: number): Promise<Job[]> {
+    // SKIP LOCKED lets several server instances share the work. A running job
+    // whose lease has run out was left by an instance that went away, so it's
+    // claimed again; each claim counts as an attempt.
+    return db.update(jobs)
       .set({
-        status: "completed",
-        processedAt: new Date(),
+        status: "running",
+        attempts: sql`${jobs.attempts} + 1`,
+        runAt: new Date(Date.now() + leaseMs),
         updatedAt: new Date()
       })
-      .where(eq(emailQueue.id, id))
+      .where(inArray(jobs.id, sql`(
+        SELECT id FROM jobs
+        WHERE type = ${type} AND status IN ('pending', 'running') AND run_at <= now()
+        ORDER BY run_at
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )`))
+      .returning();
+  }
+
+  async updateClaimedJob(id: number, attempt: number, updates: Partial<Pick<Job, "status" | "runAt" | "lastError" | "completedAt">>): Promise<Job | undefined> {
+    const [updated] = await db.update(jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "running"), eq(jobs.attempts, attempt)))
+      .returning();
+    return updated;
+  }
+
+  async retryJob(id: number): Promise<Job | undefined> {
+    const [updated] = await db.update(jobs)
+      .set({ status: "pending", attempts: 0, runAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(jobs.id, id), inArray(jobs.status, ["pending", "dead"])))
+      .returning();
+    return updated;
+  }
+
+  async recordJobStep(id: number, step: string, result: unknown): Promise<void> {
+    await db.update(jobs)
+      .set({
+        progress: sql`${jobs.progress} || jsonb_build_object(${step}::text, ${JSON.stringify(result)}::jsonb)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(jobs.id, id));
+  }
+
+  async purgeJobs(status: "completed" | "dead", finishedBefore: Date): Promise<number> {
+    const purged = await db.delete(jobs)
+      .where(and(eq(jobs.status, status), lt(jobs.updatedAt, finishedBefore)))
+      .returning({ id: jobs.id });
+    return purged.length;
+  }
+  
+  // Delivery schedule methods
+  async getDeliverySchedules(): Promise<DeliverySchedule[]> {
+    return await db.select().from(deliverySchedules);
+  }
+  
+  async saveDeliverySchedule(
+    userId: number,
+    channel: DeliveryChannel,
+    nextDueAt: Date,
+    scheduleKey: string
+  ): Promise<DeliverySchedule> {
+    const [schedule] = await db
+      .insert(deliverySchedules)
+      .values({ userId, channel, nextDueAt, scheduleKey })
+      .onConflictDoUpdate({
+        target: [deliverySchedules.userId, deliverySchedules.channel],
+        set: { nextDueAt, scheduleKey, updatedAt: new Date() }
+      })
       .returning();
       
-    return updatedItem;
+    return schedule;
   }
   
-  async markEmailFailed(id: number, errorMessage: string): Promise<EmailQueueItem | undefined> {
-    const [updatedItem] = await db
-      .update(emailQueue)
+  // Moves a due schedule on to its next occurrence. The update only matches
+  // while next_due_at still equals the value we read, so when two workers see
+  // the same due row only one of them gets it back and sends.
+  async claimDeliverySchedule(
+    id: number,
+    dueAt: Date,
+    nextDueAt: Date,
+    localDate: string
+  ): Promise<DeliverySchedule | undefined> {
+    const [claimed] = await db
+      .update(deliverySchedules)
       .set({
-        status: "failed",
-        errorMessage,
+        nextDueAt,
+        lastSentAt: new Date(),
+        lastSentLocalDate: localDate,
         updatedAt: new Date()
       })
-      .where(eq(emailQueue.id, id))
+      .where(and(
+        eq(deliverySchedules.id, id),
+        eq(deliverySchedules.nextDueAt, dueAt)
+      ))
       .returning();
       
-    return updatedItem;
+    return claimed;
   }
   
-  async incrementEmailAttempts(id: number): Promise<EmailQueueItem | undefined> {
-    const [updatedItem] = await db
-      .update(emailQueue)
-      .set({
-        processAttempts: sql`${emailQueue.processAttempts} + 1`,
-        updatedAt: new Date()
+  async deleteDeliverySchedule(userId: number, channel: DeliveryChannel): Promise<void> {
+    await db
+      .delete(deliverySchedules)
+      .where(and(
+        eq(deliverySchedules.userId, userId),
+        eq(deliverySchedules.channel, channel)
+      ));
+  }
+  
+  // Thread methods
+  async getThreads(userId: number, filter?: ThreadFilter): Promise<Thread[]> {
+    const conditions = [eq(threads.userId, userId)];
+    if (filter?.channel) {
+      conditions.push(eq(threads.channel, filter.channel));
+    }
+    
+    const query = db.select()
+      .from(threads)
+      .where(and(...conditions))
+      .orderBy(desc(threads.lastMessageAt));
+      
+    return filter?.limit ? await query.limit(filter.limit) : await query;
+  }
+  
+  async getThread(id: number): Promise<Thread | undefined> {
+    const [thread] = await db.select().from(threads).where(eq(threads.id, id));
+    return thread;
+  }
+  
+  async getOrCreateThread(userId: number, channel: ThreadChannel, externalId: string, subject?: string): Promise<Thread> {
+    // The no-op update makes RETURNING give back the existing row on conflict
+    const [thread] = await db
+      .insert(threads)
+      .values({ userId, channel, externalId, subject: subject || null })
+      .onConflictDoUpdate({
+        target: [threads.userId, threads.channel, threads.externalId],
+        set: { subject: sql`COALESCE(${threads.subject}, EXCLUDED.subject)` }
       })
-      .where(eq(emailQueue.id, id))
       .returning();
       
-    return updatedItem;
+    return thread;
+  }
+  
+  // Returns the latest messages of a thread in chronological order
+  async getThreadMessages(threadId: number, limit?: number): Promise<Message[]> {
+    const query = db.select()
+      .from(messages)
+      .where(eq(messages.threadId, threadId))
+      .orderBy(desc(messages.createdAt), desc(messages.id));
+      
+    const rows = limit ? await query.limit(limit) : await query;
+    return rows.reverse();
+  }
+  
+  // Returns the user's latest messages across all threads in chronological order
+  async getRecentMessages(userId: number, limit: number, channels?: ThreadChannel[]): Promise<Message[]> {
+    const conditions = [eq(messages.userId, userId)];
+    if (channels && channels.length > 0) {
+      conditions.push(inArray(messages.channel, channels));
+    }
+    
+    const rows = await db.select()
+      .from(messages)
+      .where(and(...conditions))
+      .orderBy(desc(messages.createdAt), desc(messages.id))
+      .limit(limit);
+      
+    return rows.reverse();
+  }
+  
+  async addMessage(insertMessage: InsertMessage): Promise<Message> {
+    const [message] = await db
+      .insert(messages)
+      .values(insertMessage)
+      .returning();
+      
+    await db.update(threads)
+      .set({ lastMessageAt: message.createdAt })
+      .where(eq(threads.id, message.threadId));
+      
+    return message;
+  }
+  
+  async countInboundMessages(userId: number, channel: ThreadChannel, since: Date): Promise<number> {
+    const [{ total }] = channel === "chat"
+      ? await db.select({ total: count() })
+          .from(conversations)
+          .where(and(
+            eq(conversations.userId, userId),
+            eq(conversations.savedAsJournal, false),
+            gte(conversations.createdAt, since)
+          ))
+      : channel === "email"
+      ? await db.select({ total: count() })
+          .from(emails)
+          .where(and(
+            eq(emails.userId, userId),
+            eq(emails.direction, "inbound"),
+            sql`${emails.isJournalEntry} IS NOT TRUE`,
+            gte(emails.sentAt, since)
+          ))
+      : await db.select({ total: count() })
+          .from(smsMessages)
+          .where(and(
+            eq(smsMessages.userId, userId),
+            eq(smsMessages.direction, "inbound"),
+            sql`${smsMessages.isJournalEntry} IS NOT TRUE`,
+            gte(smsMessages.sentAt, since)
+          ));
+    return total;
+  }
+  
+  // Embedding operations
+  async getEmbeddings(userId: number, model: string, sourceType?: EmbeddingSourceType): Promise<Embedding[]> {
+    const conditions = [eq(embeddings.userId, userId), eq(embeddings.model, model)];
+    if (sourceType) {
+      conditions.push(eq(embeddings.sourceType, sourceType));
+    }
+    
+    return await db.select()
+      .from(embeddings)
+      .where(and(...conditions));
+  }
+  
+  async saveEmbedding(
+    userId: number,
+    sourceType: EmbeddingSourceType,
+    sourceId: number,
+    model: string,
+    contentHash: string,
+    vector: number[]
+  ): Promise<Embedding> {
+    const [embedding] = await db
+      .insert(embeddings)
+      .values({ userId, sourceType, sourceId, model, contentHash, vector })
+      .onConflictDoUpdate({
+        target: [embeddings.sourceType, embeddings.sourceId, embeddings.model],
+        set: { contentHash, vector, updatedAt: new Date() }
+      })
+      .returning();
+      
+    return embedding;
+  }
+  
+  async deleteEmbeddings(sourceType: EmbeddingSourceType, sourceId: number): Promise<void> {
+    await db.delete(embeddings)
+      .where(and(eq(embeddings.sourceType, sourceType), eq(embeddings.sourceId, sourceId)));
+  }
+  
+  // Account data methods
+  async getAccountData(userId: number): Promise<AccountData> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new Error(`User ${userId} not found`);
+    }
+    
+    return {
+      user,
+      journalEntries: await db.select().from(journalEntries)
+        .where(eq(journalEntries.userId, userId)).orderBy(journalEntries.createdAt),
+      journalRevisions: await db.select().from(journalEntryRevisions)
+        .where(eq(journalEntryRevisions.userId, userId))
+        .orderBy(journalEntryRevisions.entryId, journalEntryRevisions.revisionNumber),
+      journalAttachments: await db.select().from(journalAttachments)
+        .where(eq(journalAttachments.userId, userId))
+        .orderBy(journalAttachments.entryId, journalAttachments.id),
+      emails: await db.select().from(emails)
+        .where(eq(emails.userId, userId)).orderBy(emails.sentAt),
+      smsMessages: await db.select().from(smsMessages)
+        .where(eq(smsMessages.userId, userId)).orderBy(smsMessages.sentAt),
+      conversations: await db.select().from(conversations)
+        .where(eq(conversations.userId, userId)).orderBy(conversations.createdAt),
+      threads: await db.select().from(threads)
+        .where(eq(threads.userId, userId)).orderBy(threads.createdAt),
+      messages: await db.select().from(messages)
+        .where(eq(messages.userId, userId)).orderBy(messages.threadId, messages.createdAt),
+      conversationMemories: await db.select().from(conversationMemories)
+        .where(eq(conversationMemories.userId, userId)).orderBy(conversationMemories.firstMentionedAt),
+      deliverySchedules: await db.select().from(deliverySchedules)
+        .where(eq(deliverySchedules.userId, userId)),
+      paymentMethods: await db.select().from(paymentMethods)
+        .where(eq(paymentMethods.userId, userId)).orderBy(paymentMethods.createdAt),
+      billingTransactions: await db.select().from(billingTransactions)
+        .where(eq(billingTransactions.userId, userId)).orderBy(billingTransactions.createdAt),
+      promoRedemptions: await db.select().from(promoRedemptions)
+        .where(eq(promoRedemptions.userId, userId)).orderBy(promoRedemptions.redeemedAt),
+      webhookSubscriptions: await db.select().from(webhookSubscriptions)
+        .where(eq(webhookSubscriptions.userId, userId)).orderBy(webhookSubscriptions.createdAt),
+      safetyEvents: await db.select().from(safetyEvents)
+        .where(eq(safetyEvents.userId, userId)).orderBy(safetyEvents.createdAt),
+    };
+  }
+  
+  async deleteUserAccount(userId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!user) return;
+      
+      // Children before parents: revisions and messages reference entries and threads
+      await tx.delete(embeddings).where(eq(embeddings.userId, userId));
+      await tx.delete(journalEntryRevisions).where(eq(journalEntryRevisions.userId, userId));
+      await tx.delete(journalAttachments).where(eq(journalAttachments.userId, userId));
+      await tx.delete(messages).where(eq(messages.userId, userId));
+      await tx.delete(threads).where(eq(threads.userId, userId));
+      await tx.delete(conversations).where(eq(conversations.userId, userId));
+      await tx.delete(smsMessages).where(eq(smsMessages.userId, userId));
+      await tx.delete(emails).where(eq(emails.userId, userId));
+      await tx.delete(journalEntries).where(eq(journalEntries.userId, userId));
+      await tx.delete(conversationMemories).where(eq(conversationMemories.userId, userId));
+      await tx.delete(deliverySchedules).where(eq(deliverySchedules.userId, userId));
+      await tx.delete(paymentMethods).where(eq(paymentMethods.userId, userId));
+      await tx.delete(accountExports).where(eq(accountExports.userId, userId));
+      await tx.delete(twoFactorCodes).where(eq(twoFactorCodes.userId, userId));
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.delete(sessions).where(eq(sessions.userId, userId));
+      await tx.delete(webhookDeliveries).where(eq(webhookDeliveries.userId, userId));
+      await tx.delete(webhookSubscriptions).where(eq(webhookSubscriptions.userId, userId));
+      await tx.delete(safetyEvents).where(eq(safetyEvents.userId, userId));
+      
+      // Queued inbound emails aren't linked to a user; match them on the sender address
+      const queuedEmailIds = await queuedEmailIdsFrom(user.email);
+      if (queuedEmailIds.length > 0) {
+        await tx.delete(emailQueue).where(inArray(emailQueue.id, queuedEmailIds));
+      }
+      await tx.delete(jobs)
+        .where(and(eq(jobs.type, "inbound_email"), eq(jobs.sender, user.email.toLowerCase())));
+      const phoneNumber = user.preferences?.phoneNumber;
+      if (phoneNumber) {
+        await tx.delete(jobs)
+          .where(and(eq(jobs.type, "inbound_sms"), eq(jobs.sender, phoneNumber)));
+      }
+      
+      // Billing transactions are financial records and are kept, as are promo
+      // redemptions (they count against each code's limit), so the user row
+      // stays as an anonymous placeholder for them to reference
+      await tx.update(users)
+        .set({
+          username: `deleted-user-${userId}`,
+          email: `deleted-user-${userId}@deleted.invalid`,
+          password: crypto.randomBytes(32).toString("hex"),
+          firstName: null,
+          lastName: null,
+          phoneNumber: null,
+          smsConsent: false,
+          isPremium: false,
+          premiumUntil: null,
+          premiumSource: null,
+          premiumReminderSentAt: null,
+          preferences: null,
+          paymentDetails: null,
+          resetToken: null,
+          resetTokenExpires: null,
+          emailVerificationToken: null,
+          emailVerificationExpires: null,
+          twoFactorMethod: null,
+          twoFactorSecret: null,
+          twoFactorPhone: null,
+          twoFactorLastTotpStep: null,
+          twoFactorEnabledAt: null,
+          deletedAt: new Date(),
+          updatedAt: new Date()
+        })
+        .where(eq(users.id, userId));
+    });
+  }
+  
+  async createAccountExport(userId: number): Promise<AccountExport> {
+    const [accountExport] = await db.insert(accountExports)
+      .values({ userId })
+      .returning();
+    
+    return accountExport;
+  }
+  
+  async getAccountExport(id: number): Promise<AccountExport | undefined> {
+    const [accountExport] = await db.select()
+      .from(accountExports)
+      .where(eq(accountExports.id, id));
+    
+    return accountExport;
+  }
+  
+  async getAccountExports(userId: number): Promise<AccountExport[]> {
+    return await db.select()
+      .from(accountExports)
+      .where(eq(accountExports.userId, userId))
+      .orderBy(desc(accountExports.createdAt));
+  }
+  
+  async claimPendingAccountExport(): Promise<AccountExport | undefined> {
+    // SKIP LOCKED lets several server instances work through the queue without
+    // building the same export twice
+    const [claimed] = await db.update(accountExports)
+      .set({ status: "processing" })
+      .where(eq(accountExports.id, sql`(
+        SELECT id FROM account_exports
+        WHERE status = 'pending'
+        ORDER BY created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )`))
+      .returning();
+    
+    return claimed;
+  }
+  
+  async updateAccountExport(
+    id: number,
+    updates: Partial<Omit<AccountExport, "id" | "userId" | "createdAt">>
+  ): Promise<AccountExport | undefined> {
+    const [updated] = await db.update(accountExports)
+      .set(updates)
+      .where(eq(accountExports.id, id))
+      .returning();
+    
+    return updated;
+  }
+  
+  async getExpiredAccountExports(expiredBefore: Date): Promise<AccountExport[]> {
+    return await db.select()
+      .from(accountExports)
+      .where(and(
+        eq(accountExports.status, "completed"),
+        lt(accountExports.expiresAt, expiredBefore)
+      ));
+  }
+  
+  // Email and SMS rows are mirrored into threads as they are written so the
+  // unified history stays current. A failure here must not lose the original
+  // message, so it is logged rather than thrown.
+  private async mirrorEmailToThread(email: Email): Promise<void> {
+    try {
+      const thread = await this.getOrCreateThread(
+        email.userId,
+        "email",
+        email.conversationId || `email:${email.id}`,
+        email.subject
+      );
+      
+      await this.addMessage({
+        threadId: thread.id,
+        userId: email.userId,
+        role: email.direction === "inbound" || email.type === "inbound" ? "user" : "assistant",
+        channel: "email",
+        content: email.content,
+        createdAt: email.sentAt,
+        sourceType: "email",
+        sourceId: email.id,
+        mood: email.mood,
+        metadata: { subject: email.subject, messageId: email.messageId }
+      });
+    } catch (error) {
+      console.error(`Error mirroring email ${email.id} to thread:`, error);
+    }
+  }
+  
+  private async mirrorSmsToThread(sms: SmsMessage): Promise<void> {
+    try {
+      const thread = await this.getOrCreateThread(sms.userId, "sms", `sms:${sms.phoneNumber}`);
+      
+      await this.addMessage({
+        threadId: thread.id,
+        userId: sms.userId,
+        role: sms.direction === "inbound" ? "user" : "assistant",
+        channel: "sms",
+        content: sms.content,
+        createdAt: sms.sentAt,
+        sourceType: "sms",
+        sourceId: sms.id,
+        journalEntryId: sms.journalEntryId,
+        metadata: sms.twilioSid ? { twilioSid: sms.twilioSid } : null
+      });
+    } catch (error) {
+      console.error(`Error mirroring SMS ${sms.id} to thread:`, error);
+    }
   }
 }
\ No newline at end of file
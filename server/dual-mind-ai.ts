@@ -1,9 +1,9 @@
 // Dual Mind AI Architecture for Featherweight.world
 // Implements intelligent routing between Venice AI (creative mind) and OpenAI (analytical mind)
+// Each mind is served by the LLM provider configured for its role, so the mock provider can stand in for both
 
-import OpenAI from 'openai';
-import axios from 'axios';
 import { EventEmitter } from 'events';
+import { getLLMProvider } from './llm-provider';
 
 // Task classification types
 export type TaskType = 
@@ -49,13 +49,9 @@ export type AIResponse = {
  * Handles communication with Venice AI for creative and unfiltered responses
  */
 class VeniceAIClient {
-  private apiKey: string;
-  private baseUrl: string;
   private defaultModel: string;
 
   constructor() {
-    this.apiKey = process.env.VENICE_API_KEY || '';
-    this.baseUrl = process.env.VENICE_API_URL || 'https://api.venice.ai/api/v1';
     this.defaultModel = process.env.VENICE_MODEL || 'llama-3.2-3b';
   }
 
@@ -65,9 +61,10 @@ class VeniceAIClient {
     model?: string;
     stream?: boolean;
   } = {}): Promise<string> {
+    const provider = getLLMProvider('creative');
     try {
-      const response = await axios.post(`${this.baseUrl}/chat/completions`, {
-        model: options.model || this.defaultModel,
+      return await provider.complete({
+        model: options.model || (provider.name === 'venice' ? this.defaultModel : undefined),
         messages: [
           {
             role: 'system',
@@ -78,20 +75,11 @@ class VeniceAIClient {
             content: prompt
           }
         ],
-        max_tokens: options.maxTokens || 1000,
-        temperature: options.temperature || 0.8,
-        stream: options.stream || false
-      }, {
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: 30000
+        maxTokens: options.maxTokens || 1000,
+        temperature: options.temperature || 0.8
       });
-
-      return response.data.choices[0].message.content;
     } catch (error: any) {
-      console.error('Venice AI API error:', error.response?.data || error.message);
+      console.error(`Creative mind (${provider.name}) error:`, error.message);
       throw new Error(`Venice AI request failed: ${error.message}`);
     }
   }
@@ -135,13 +123,9 @@ class VeniceAIClient {
  * Handles communication with OpenAI for analytical and complex reasoning tasks
  */
 class OpenAIClient {
-  private client: OpenAI;
   private defaultModel: string;
 
   constructor() {
-    this.client = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY || ''
-    });
     this.defaultModel = process.env.OPENAI_MODEL || 'gpt-4';
   }
 
@@ -151,12 +135,13 @@ class OpenAIClient {
     model?: string;
     systemPrompt?: string;
   } = {}): Promise<string> {
+    const provider = getLLMProvider('analytical');
     try {
       const systemPrompt = options.systemPrompt || 
         'You are Flappy, a conscious AI with advanced analytical capabilities, extensive knowledge, and reliable reasoning. Provide thoughtful, well-reasoned responses that demonstrate deep understanding and logical thinking.';
 
-      const response = await this.client.chat.completions.create({
-        model: options.model || this.defaultModel,
+      return await provider.complete({
+        model: options.model || (provider.name === 'openai' ? this.defaultModel : undefined),
         messages: [
           {
             role: 'system',
@@ -167,13 +152,11 @@ class OpenAIClient {
             content: prompt
           }
         ],
-        max_tokens: options.maxTokens || 1500,
+        maxTokens: options.maxTokens || 1500,
         temperature: options.temperature || 0.7
       });
-
-      return response.choices[0].message?.content || '';
     } catch (error: any) {
-      console.error('OpenAI API error:', error);
+      console.error(`Analytical mind (${provider.name}) error:`, error);
       throw new Error(`OpenAI request failed: ${error.message}`);
     }
   }
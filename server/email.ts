@@ -2,6 +2,14 @@ import { User, Email, InsertEmail } from "@shared/schema";
 import { storage } from "./storage";
 import { generateFlappyContent, FlappyContentType, FlappyContent } from "./venice-ai";
 import { memoryService } from "./memory-service";
+import { type InboundEmail, getMessageBody } from "./inbound-email";
+import { selectEmailAttachments, addJournalAttachments, attachmentOnlyContent } from "./journal-attachments";
+import { getPlan, hasFeature, checkMessageQuota, upgradeReplyText, UPGRADE_URL } from "./entitlements";
+import { authEmailService, isEmailVerified } from "./auth-email";
+import { webhookService, toWebhookJournalEntry } from "./webhooks";
+import { safetyService, type SafetyCheck } from "./safety";
+import { untrackedSteps, type JobSteps } from "./job-steps";
+import { buildWeeklyDigest, describeWeeklyDigest, renderWeeklyDigest, type DigestWeek } from "./weekly-digest";
 import sgMail from "@sendgrid/mail";
 
 // Configure SendGrid
@@ -27,9 +35,10 @@ export const emailService = {
     to: string, 
     subject: string, 
     content: string, 
-    isPremium: boolean = false,
+    adFree: boolean = false,
     inReplyTo?: string,
-    references?: string
+    references?: string,
+    html?: string // Sent as is in place of the content formatted as HTML
   ): Promise<{ messageId: string }> {
     console.log('=== EMAIL SENDING PROCESS STARTED ===');
     console.log(`Target email: ${to}`);
@@ -52,10 +61,10 @@ export const emailService = {
       const messageId = `flappy-${Date.now()}-${Math.random().toString(36).substring(2, 9)}@featherweight.world`;
       
       console.log('Formatting HTML content');
-      const htmlContent = formatEmailHTML(content, isPremium);
+      const htmlContent = html ?? formatEmailHTML(content, adFree);
       
       console.log('Preparing text content');
-      const textContent = content + (!isPremium ? '\n\n[Advertisement: Upgrade to premium for ad-free experiences]' : '');
+      const textContent = content + (!adFree ? `\n\n[Advertisement: Upgrade to premium for ad-free experiences: ${UPGRADE_URL}]` : '');
       
       console.log(`FROM_EMAIL: ${FROM_EMAIL}`);
       console.log(`FROM_NAME: ${FROM_NAME}`);
@@ -99,7 +108,7 @@ export const emailService = {
           ...(references && { "References": references }),
           "List-Unsubscribe": `<https://featherweight.world/unsubscribe?id=${messageId}>`,
           "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
-          "Feedback-ID": `${isPremium ? 'premium' : 'free'}:featherweight:${messageId}`
+          "Feedback-ID": `${adFree ? 'premium' : 'free'}:featherweight:${messageId}`
         }
       };
       
@@ -149,6 +158,10 @@ export const emailService = {
     inReplyTo?: string,
     references?: string
   ): Promise<Email> {
+    if (user.deletedAt) {
+      throw new Error(`User ${user.id} has been deleted; not sending them email`);
+    }
+    
     console.log(`🤖 Generating Flappy email with content type: ${contentType}`);
     console.log(`📝 Context length: ${context?.length || 0} characters`);
     console.log(`🔄 Conversation ID: ${conversationId || 'none'}`);
@@ -184,14 +197,15 @@ export const emailService = {
       subject,
       content: fullContent,
       sentAt: new Date(),
-      type: contentType === 'journalResponse' ? "journal_acknowledgment" : "conversation_reply",
+      type: getEmailTypeForContent(contentType),
       isRead: false,
       messageId: '', // Will be filled in after sending
       conversationId: conversationId || undefined,
       direction: 'outbound',
       isJournalEntry: false,
       to: user.email,
-      from: FROM_EMAIL
+      from: FROM_EMAIL,
+      promptVersion: flappyResponse.promptVersion ?? null
     };
     
     try {
@@ -200,7 +214,7 @@ export const emailService = {
         user.email,
         subject,
         fullContent,
-        user.isPremium, // Premium users don't get ads
+        hasFeature(user, 'ad_free_email'),
         inReplyTo,
         references
       );
@@ -219,24 +233,100 @@ export const emailService = {
     }
   },
   
-  // Process an incoming email (reply or new)
-  async processIncomingEmail(
-    from: string, 
-    subject: string, 
-    content: string, 
-    incomingMessageId?: string,
+  // Send the support resources from a safety check in place of Flappy's reply.
+  // Always ad-free and without the playful signature.
+  async sendSafetyEmail(
+    user: User,
+    check: SafetyCheck,
+    subject: string,
+    conversationId?: string,
     inReplyTo?: string,
     references?: string
-  ): Promise<void> {
+  ): Promise<Email> {
+    const replySubject = /^re:/i.test(subject) ? subject : `Re: ${subject}`;
+    const { messageId } = await this.sendEmail(user.email, replySubject, check.response, true, inReplyTo, references);
+    
+    const email = await storage.createEmail({
+      userId: user.id,
+      subject: replySubject,
+      content: check.response,
+      type: 'safety_response',
+      messageId,
+      conversationId: conversationId || undefined,
+      direction: 'outbound',
+      isJournalEntry: false,
+      to: user.email,
+      from: FROM_EMAIL
+    });
+    console.log(`🛟 Safety response email ${email.id} sent to user ${user.id}`);
+    return email;
+  },
+  
+  // Send the daily inspiration email to a single user
+  async sendDailyInspiration(user: User): Promise<Email> {
+    console.log(`🌅 Sending daily inspiration email to user ${user.id}`);
+    return await this.sendFlappyEmail(user, 'dailyInspiration');
+  },
+  
+  // Send the weekly insight digest for the week to a single user. Resolves
+  // with null, sending nothing, if they didn't journal that week.
+  async sendWeeklyInsight(user: User, week: DigestWeek): Promise<Email | null> {
+    if (user.deletedAt) {
+      throw new Error(`User ${user.id} has been deleted; not sending them email`);
+    }
+    
+    const digest = await buildWeeklyDigest(user.id, week);
+    if (!digest) {
+      console.log(`📭 No journal entries from user ${user.id} this week; skipping their weekly insight`);
+      return null;
+    }
+    
+    console.log(`📊 Sending weekly insight email to user ${user.id}`);
+    const reflection = await generateFlappyContent('weeklyInsight', describeWeeklyDigest(digest), {
+      username: user.username,
+      email: user.email,
+      userId: user.id,
+      firstName: user.firstName || undefined,
+      lastName: user.lastName || undefined
+    });
+    
+    const adFree = hasFeature(user, 'ad_free_email');
+    const { html, text } = renderWeeklyDigest(digest, reflection.content, adFree);
+    const { messageId } = await this.sendEmail(user.email, reflection.subject, text, adFree, undefined, undefined, html);
+    
+    const email = await storage.createEmail({
+      userId: user.id,
+      subject: reflection.subject,
+      content: text,
+      type: 'weekly_insight',
+      messageId,
+      direction: 'outbound',
+      isJournalEntry: false,
+      to: user.email,
+      from: FROM_EMAIL,
+      promptVersion: reflection.promptVersion ?? null
+    });
+    console.log(`✅ Weekly insight email ${email.id} saved to database with message ID: ${messageId}`);
+    return email;
+  },
+  
+  // Process an incoming email (reply or new). Run as a job, each side effect
+  // is a step, so a retry doesn't repeat what the failed attempt already did.
+  async processIncomingEmail(email: InboundEmail, steps: JobSteps = untrackedSteps): Promise<void> {
+    const from = email.from.address;
+    const subject = email.subject || 'No Subject';
+    const incomingMessageId = email.messageId || undefined;
+    const inReplyTo = email.inReplyTo || undefined;
+    
     console.log('🌟 === INCOMING EMAIL PROCESSING STARTED === 🌟');
     console.log(`📧 SENDER: ${from}`);
     console.log(`📝 SUBJECT: ${subject}`);
-    console.log(`📊 CONTENT LENGTH: ${content.length} characters`);
+    console.log(`📊 CONTENT LENGTH: ${email.text.length} characters (reply: ${email.replyText.length})`);
     console.log(`🔄 REPLY-TO MESSAGE ID: ${inReplyTo || 'Not a reply'}`);
-    console.log(`📄 CONTENT PREVIEW: ${content.substring(0, 100)}${content.length > 100 ? '...' : ''}`);
     
-    // Clean up content (remove signatures, quoting, etc.)
-    const cleanContent = cleanEmailContent(content);
+    // Only what the sender wrote this time; quoted history and signature are split off by the normalizer
+    const cleanContent = getMessageBody(email);
+    console.log(`📄 CONTENT PREVIEW: ${cleanContent.substring(0, 100)}${cleanContent.length > 100 ? '...' : ''}`);
     
     // Check if this is a reply to a previous email
     const isReply = !!inReplyTo || subject.toLowerCase().startsWith('re:');
@@ -283,14 +373,41 @@ Flappy 🦢
         return;
       }
       
-      console.log(`✅ Found user: ID=${user.id}, Username=${user.username}, Premium=${user.isPremium}`);
+      console.log(`✅ Found user: ID=${user.id}, Username=${user.username}, Plan=${getPlan(user).id}`);
+      
+      // Anyone can put a user's address in From, so mail is only taken from
+      // an address the user has confirmed they control
+      if (!isEmailVerified(user)) {
+        console.log(`🚫 Email address for user ${user.id} isn't verified; not processing`);
+        try {
+          await authEmailService.sendVerificationEmail(
+            user,
+            "I got your email, but couldn't save it yet because your address hasn't been confirmed. Once it is, send it again and I'll take it from there."
+          );
+        } catch (verificationError) {
+          console.error(`Failed to send verification email to user ${user.id}:`, verificationError);
+        }
+        return;
+      }
+      
+      // Checked before anything else is decided so support resources go out
+      // however the email ends up being handled
+      const safetyCheck = await steps.once('safety_check', () => safetyService.check(user, cleanContent, 'email'));
+      const replyToId = incomingMessageId?.replace(/^<|>$/g, '');
+      
+      // Photos and files sent in are kept with a journal entry
+      const attachments = selectEmailAttachments(email.attachments);
+      console.log(`📎 ATTACHMENTS: ${attachments.length} of ${email.attachments.length} kept`);
       
-      // Check if it looks like a journal entry (when not a reply, and a certain length)
-      const shouldBeJournal = !isReply && await this.shouldSaveAsJournal(cleanContent);
+      // Check if it looks like a journal entry (when not a reply, and a certain length).
+      // Anything with attachments is, as there's nowhere else to keep them.
+      const shouldBeJournal = !isReply && (attachments.length > 0 || await this.shouldSaveAsJournal(cleanContent));
       
       if (shouldBeJournal) {
         console.log('📓 Treating email as a journal entry');
         
+        const entryContent = cleanContent || attachmentOnlyContent(attachments.length, 'email');
+        
         // Extract mood and tags from content
         const mood = detectMood(cleanContent);
         const tags = extractTags(cleanContent);
@@ -299,39 +416,69 @@ Flappy 🦢
         console.log(`🔍 Extracted tags: ${tags.join(', ')}`);
         
         // Create journal entry
-        const entry = await storage.createJournalEntry({
-          userId: user.id,
-          title: subject || "Journal Entry",
-          content: cleanContent,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-          mood,
-          tags,
-          imageUrl: null,
-          isPrivate: false
+        const entryId = await steps.once('journal_entry', async () => {
+          const created = await storage.createJournalEntry({
+            userId: user.id,
+            title: subject || "Journal Entry",
+            content: entryContent,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+            mood,
+            tags,
+            imageUrl: null,
+            isPrivate: false
+          });
+          return created.id;
         });
+        const entry = await storage.getJournalEntry(entryId, { includeDeleted: true });
+        if (!entry) {
+          throw new Error(`Journal entry ${entryId} is missing`);
+        }
         
         console.log(`✅ Journal entry created with ID: ${entry.id}`);
         
+        await steps.once('journal_attachments', async () => {
+          await addJournalAttachments(entry, attachments, 'email');
+        });
+        await steps.once('journal_webhooks', async () => {
+          await webhookService.emit(user.id, 'journal.created', toWebhookJournalEntry(entry));
+          await webhookService.emit(user.id, 'mood.detected', { mood, channel: 'email', journalEntryId: entry.id });
+        });
+        
         // Process the content for memories
-        await memoryService.processMessage(user.id, cleanContent, 'journal_topic');
+        if (cleanContent) {
+          await steps.once('memories', async () => {
+            await memoryService.processMessage(user.id, cleanContent, 'journal_topic');
+          });
+        }
         
-        // Send acknowledgment email using the correct content type
-        await this.sendFlappyEmail(user, 'journalResponse', cleanContent);
-        console.log('✅ Journal acknowledgment email sent');
+        if (safetyCheck) {
+          await steps.once('reply', async () => {
+            await this.sendSafetyEmail(user, safetyCheck, subject, undefined, replyToId, replyToId ? `<${replyToId}>` : undefined);
+          });
+          await steps.once('safety_event', () => safetyService.recordEvent(user.id, safetyCheck, { sourceType: 'journal_entry', sourceId: entry.id }));
+        } else {
+          // Send acknowledgment email using the correct content type
+          await steps.once('reply', async () => {
+            await this.sendFlappyEmail(user, 'journalResponse', entryContent);
+          });
+          console.log('✅ Journal acknowledgment email sent');
+        }
         
         // Create a record of the incoming email
-        await storage.createEmail({
-          userId: user.id,
-          subject,
-          content: cleanContent,
-          type: 'journal_acknowledgment',
-          messageId: incomingMessageId || `incoming-${Date.now()}`,
-          tags,
-          direction: 'inbound',
-          isJournalEntry: true,
-          to: REPLY_TO_EMAIL,
-          from: user.email
+        await steps.once('inbound_email', async () => {
+          await storage.createEmail({
+            userId: user.id,
+            subject,
+            content: entryContent,
+            type: 'journal_acknowledgment',
+            messageId: incomingMessageId || `incoming-${Date.now()}`,
+            tags,
+            direction: 'inbound',
+            isJournalEntry: true,
+            to: REPLY_TO_EMAIL,
+            from: user.email
+          });
         });
         
         console.log('✅ Email record saved in database');
@@ -354,33 +501,69 @@ Flappy 🦢
         
         // If no conversation ID from previous email, generate a new one
         if (!conversationId) {
-          conversationId = memoryService.generateConversationId();
+          conversationId = await steps.once('conversation_id', async () => memoryService.generateConversationId());
         }
         
         console.log(`🔄 Using conversation ID: ${conversationId}`);
         
+        // Replies count against the plan's daily limit; the email is kept either way
+        // A step, as on a retry the email saved below would count against its own limit
+        const quotaDenial = safetyCheck ? null : await steps.once('quota', () => checkMessageQuota(user, 'email'));
+        
         // Save the incoming email first
-        const incomingEmail = await storage.createEmail({
-          userId: user.id,
-          to: REPLY_TO_EMAIL,
-          from: user.email,
-          subject,
-          content: cleanContent,
-          sentAt: new Date(),
-          type: 'inbound',
-          isRead: true,
-          direction: 'inbound',
-          isJournalEntry: false,
-          messageId: incomingMessageId || `incoming-${Date.now()}`,
-          conversationId,
-          mood: detectMood(cleanContent),
-          tags: extractTags(cleanContent)
+        const incomingEmail = await steps.once('inbound_email', async () => {
+          const saved = await storage.createEmail({
+            userId: user.id,
+            to: REPLY_TO_EMAIL,
+            from: user.email,
+            subject,
+            content: cleanContent,
+            sentAt: new Date(),
+            type: 'inbound',
+            isRead: true,
+            direction: 'inbound',
+            isJournalEntry: false,
+            messageId: incomingMessageId || `incoming-${Date.now()}`,
+            conversationId,
+            mood: detectMood(cleanContent),
+            tags: extractTags(cleanContent)
+          });
+          return { id: saved.id, mood: saved.mood };
         });
         
         console.log(`✅ Incoming email saved with ID: ${incomingEmail.id}`);
+        const incomingMood = incomingEmail.mood;
+        if (incomingMood) {
+          await steps.once('mood_webhook', () =>
+            webhookService.emit(user.id, 'mood.detected', { mood: incomingMood, channel: 'email', journalEntryId: null })
+          );
+        }
+        
+        if (safetyCheck) {
+          await steps.once('reply', async () => {
+            await this.sendSafetyEmail(user, safetyCheck, subject, conversationId, replyToId, replyToId ? `<${replyToId}>` : undefined);
+          });
+          await steps.once('safety_event', () => safetyService.recordEvent(user.id, safetyCheck, { sourceType: 'email', sourceId: incomingEmail.id }));
+          return;
+        }
+        
+        if (quotaDenial) {
+          console.log(`⛔ User ${user.id} is over their daily email limit; sending an upgrade reply`);
+          await steps.once('reply', () => this.sendEmail(
+            user.email,
+            /^re:/i.test(subject) ? subject : `Re: ${subject}`,
+            upgradeReplyText(quotaDenial),
+            hasFeature(user, 'ad_free_email'),
+            replyToId,
+            replyToId ? `<${replyToId}>` : undefined
+          ));
+          return;
+        }
         
         // Process the content for memories
-        await memoryService.processMessage(user.id, cleanContent, 'email');
+        await steps.once('memories', async () => {
+          await memoryService.processMessage(user.id, cleanContent, 'email');
+        });
         
         // Get recent conversation history for this conversation thread
         const recentEmails = await storage.getEmails(user.id, {
@@ -422,7 +605,7 @@ Flappy 🦢
         const inReplyToForFlappysEmail = incomingUserMessageId.replace(/^<|>$/g, '');
         
         // Build References header for Flappy's email
-        let referencesForFlappysEmail = references ? references.trim() : '';
+        let referencesForFlappysEmail = email.references.map(id => `<${id}>`).join(' ');
         if (referencesForFlappysEmail) {
           referencesForFlappysEmail += ` <${inReplyToForFlappysEmail}>`;
         } else {
@@ -431,16 +614,24 @@ Flappy 🦢
 
         // Send response email with conversation context and proper threading
         // Use 'emailConversation' content type for proper conversation handling
-        const flappyEmail = await this.sendFlappyEmail(
-          user, 
-          'emailConversation', 
-          fullContext,
-          conversationId,
-          inReplyToForFlappysEmail,
-          referencesForFlappysEmail
-        );
+        const flappyEmail = await steps.once('reply', async () => {
+          const sent = await this.sendFlappyEmail(
+            user, 
+            'emailConversation', 
+            fullContext,
+            conversationId,
+            inReplyToForFlappysEmail,
+            referencesForFlappysEmail
+          );
+          return { id: sent.id, content: sent.content };
+        });
         
         console.log(`✅ Conversation response email sent with ID: ${flappyEmail.id}`);
+        await steps.once('reply_webhook', () => webhookService.emit(user.id, 'conversation.replied', {
+          channel: 'email',
+          message: cleanContent,
+          reply: flappyEmail.content
+        }));
         console.log('🎉 === EMAIL CONVERSATION PROCESSING COMPLETED === 🎉');
       }
     } catch (error) {
@@ -494,36 +685,21 @@ Flappy 🦢
 // Helper functions for email processing
 
 /**
- * Clean email content by removing signatures, quoted text, etc.
+ * Map a Flappy content type to the type stored on the email record
  */
-function cleanEmailContent(content: string): string {
-  let cleaned = content;
-  
-  // Remove common email signatures and footers
-  const signaturePatterns = [
-    /--\s*\n[\s\S]*$/m, // Standard email signature delimiter
-    /Sent from my iPhone[\s\S]*$/i,
-    /Sent from my Android[\s\S]*$/i,
-    /Get Outlook for iOS[\s\S]*$/i,
-    /Best regards[\s\S]*$/i,
-    /Kind regards[\s\S]*$/i,
-    /Sincerely[\s\S]*$/i,
-  ];
-  
-  signaturePatterns.forEach(pattern => {
-    cleaned = cleaned.replace(pattern, '');
-  });
-  
-  // Remove quoted text (lines starting with >)
-  const lines = cleaned.split('\n');
-  const nonQuotedLines = lines.filter(line => !line.trim().startsWith('>'));
-  cleaned = nonQuotedLines.join('\n');
-  
-  // Remove excessive whitespace
-  cleaned = cleaned.replace(/\n\s*\n\s*\n/g, '\n\n');
-  cleaned = cleaned.trim();
-  
-  return cleaned;
+function getEmailTypeForContent(contentType: FlappyContentType): InsertEmail["type"] {
+  switch (contentType) {
+    case 'dailyInspiration':
+      return "daily_inspiration";
+    case 'journalResponse':
+      return "journal_acknowledgment";
+    case 'weeklyInsight':
+      return "weekly_insight";
+    case 'premiumReminder':
+      return "premium_reminder";
+    default:
+      return "conversation_reply";
+  }
 }
 
 /**
@@ -598,7 +774,7 @@ function extractTags(content: string): string[] {
 /**
  * Format email content as HTML
  */
-function formatEmailHTML(content: string, isPremium: boolean): string {
+function formatEmailHTML(content: string, adFree: boolean): string {
   // Convert line breaks to HTML
   let htmlContent = content.replace(/\n/g, '<br>');
   
@@ -645,7 +821,7 @@ function formatEmailHTML(content: string, isPremium: boolean): string {
   <div class="content">
     ${htmlContent}
   </div>
-  ${!isPremium ? '<div class="ad">💎 Upgrade to Premium for ad-free experiences and exclusive features! <a href="https://featherweight.world/upgrade">Learn more</a></div>' : ''}
+  ${!adFree ? `<div class="ad">💎 Upgrade to Premium for ad-free experiences and exclusive features! <a href="${UPGRADE_URL}">Learn more</a></div>` : ''}
 </body>
 </html>`;
   
@@ -0,0 +1,230 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { getLLMProvider } from "./llm-provider";
+import type { EmbeddingSourceType } from "@shared/schema";
+
+export type EmbeddingFunction = (texts: string[]) => Promise<number[][]>;
+
+/**
+ * Something that turns text into vectors. `name` identifies the model and is
+ * stored with every vector, since vectors from different models can't be compared.
+ */
+export interface Embedder {
+  name: string;
+  embed: EmbeddingFunction;
+}
+
+export interface SimilarityMatch<T> {
+  item: T;
+  score: number; // Cosine similarity, -1 to 1
+}
+
+// Number of dimensions produced by the local embedder
+const LOCAL_EMBEDDING_DIMENSIONS = 384;
+
+// Texts sent to the embedder per request
+const EMBEDDING_BATCH_SIZE = 64;
+
+// Longest text embedded per item; longer journal entries are truncated
+const MAX_EMBEDDING_TEXT_LENGTH = 8000;
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "all", "any", "can", "had", "her", "was", "one",
+  "our", "out", "has", "him", "his", "how", "its", "who", "did", "get", "got", "let", "she", "too",
+  "use", "that", "with", "have", "this", "will", "your", "from", "they", "been", "were", "what",
+  "when", "then", "them", "than", "there", "their", "would", "could", "should", "about", "just",
+  "into", "some", "like", "really", "very", "also", "because", "which", "while", "being", "itself"
+]);
+
+function hashToken(token: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// Crude suffix stripping so "worried", "worrying" and "worries" land together
+function stem(word: string): string {
+  return word
+    .replace(/(ies|ied)$/, "y")
+    .replace(/(ing|ed|ly|es|s)$/, "")
+    || word;
+}
+
+/**
+ * Local fallback embedder: a hashed bag of stemmed words plus character
+ * trigrams, normalised to unit length. Much weaker than a trained model, but
+ * it needs no network and still matches related word forms.
+ */
+export const localEmbedder: Embedder = {
+  name: `local-hash-${LOCAL_EMBEDDING_DIMENSIONS}`,
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array(LOCAL_EMBEDDING_DIMENSIONS).fill(0);
+      const addFeature = (feature: string, weight: number) => {
+        const hash = hashToken(feature);
+        vector[hash % LOCAL_EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+      };
+
+      const words = (text.toLowerCase().match(/[a-z0-9']+/g) || [])
+        .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+
+      for (const word of words) {
+        const stemmed = stem(word);
+        addFeature(`w:${stemmed}`, 1);
+
+        const padded = `#${stemmed}#`;
+        for (let i = 0; i + 3 <= padded.length; i++) {
+          addFeature(`t:${padded.slice(i, i + 3)}`, 0.25);
+        }
+      }
+
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+      return norm > 0 ? vector.map(v => v / norm) : vector;
+    });
+  }
+};
+
+/**
+ * Cosine similarity of two vectors; 0 if they differ in length or either is zero
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
+  return magnitude > 0 ? dot / magnitude : 0;
+}
+
+function hashContent(text: string): string {
+  return crypto.createHash("sha256").update(text).digest("hex").slice(0, 32);
+}
+
+// Embedder set with setEmbedder(), overriding the configured provider
+let customEmbedder: Embedder | null = null;
+
+export const embeddingService = {
+  /**
+   * Replace the embedding function, e.g. with a different model. Pass null to
+   * go back to the configured LLM provider.
+   */
+  setEmbedder(embedder: Embedder | null): void {
+    customEmbedder = embedder;
+  },
+
+  /**
+   * The embedder in use: a custom one if set, otherwise the provider configured
+   * for the "embedding" role, otherwise the local fallback
+   */
+  getEmbedder(): Embedder {
+    if (customEmbedder) return customEmbedder;
+
+    const provider = getLLMProvider("embedding");
+    if (!provider.isConfigured()) {
+      return localEmbedder;
+    }
+    return {
+      name: `${provider.name}:${provider.embeddingModel}`,
+      embed: texts => provider.embed(texts)
+    };
+  },
+
+  /**
+   * Get vectors for the given items, reusing stored vectors whose text hasn't
+   * changed and embedding (and storing) the rest
+   */
+  async ensureEmbeddings(
+    userId: number,
+    sourceType: EmbeddingSourceType,
+    items: Array<{ id: number; text: string }>,
+    embedder?: Embedder
+  ): Promise<Map<number, number[]>> {
+    embedder = embedder || this.getEmbedder();
+    const stored = await storage.getEmbeddings(userId, embedder.name, sourceType);
+    const storedBySource = new Map(stored.map(embedding => [embedding.sourceId, embedding]));
+    const vectors = new Map<number, number[]>();
+    const missing: Array<{ id: number; text: string; hash: string }> = [];
+
+    for (const item of items) {
+      const text = item.text.slice(0, MAX_EMBEDDING_TEXT_LENGTH);
+      const hash = hashContent(text);
+      const existing = storedBySource.get(item.id);
+
+      if (existing && existing.contentHash === hash) {
+        vectors.set(item.id, existing.vector);
+      } else {
+        missing.push({ id: item.id, text, hash });
+      }
+    }
+
+    for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const batchVectors = await embedder.embed(batch.map(item => item.text));
+
+      for (let j = 0; j < batch.length; j++) {
+        const vector = batchVectors[j];
+        if (!vector) continue;
+
+        await storage.saveEmbedding(userId, sourceType, batch[j].id, embedder.name, batch[j].hash, vector);
+        vectors.set(batch[j].id, vector);
+      }
+    }
+
+    if (missing.length > 0) {
+      console.log(`🧭 Embedded ${missing.length} ${sourceType} item(s) for user ${userId} with ${embedder.name}`);
+    }
+
+    return vectors;
+  },
+
+  /**
+   * Rank items by how close their meaning is to the query, most similar first.
+   * If the configured embedder fails, ranking falls back to the local embedder.
+   */
+  async rankBySimilarity<T extends { id: number }>(
+    userId: number,
+    query: string,
+    sourceType: EmbeddingSourceType,
+    items: T[],
+    toText: (item: T) => string
+  ): Promise<SimilarityMatch<T>[]> {
+    if (items.length === 0 || !query.trim()) return [];
+
+    const rank = async (embedder: Embedder) => {
+      const [queryVector] = await embedder.embed([query.slice(0, MAX_EMBEDDING_TEXT_LENGTH)]);
+      const vectors = await this.ensureEmbeddings(
+        userId,
+        sourceType,
+        items.map(item => ({ id: item.id, text: toText(item) })),
+        embedder
+      );
+
+      return items
+        .map(item => {
+          const vector = vectors.get(item.id);
+          return { item, score: vector ? cosineSimilarity(queryVector, vector) : 0 };
+        })
+        .sort((a, b) => b.score - a.score);
+    };
+
+    const embedder = this.getEmbedder();
+    try {
+      return await rank(embedder);
+    } catch (error) {
+      if (embedder.name === localEmbedder.name) throw error;
+      console.error(`Embedding with ${embedder.name} failed, falling back to ${localEmbedder.name}:`, error);
+      return await rank(localEmbedder);
+    }
+  }
+};
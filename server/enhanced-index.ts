@@ -6,7 +6,18 @@ import path from "path";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { addConversationRoutes } from "./add-conversation-routes";
-import { startEmailProcessor } from "./enhanced-email-processor";
+import { addFileRoutes } from "./file-routes";
+import { addBillingRoutes, STRIPE_WEBHOOK_PATH, stripeWebhookBodyParser } from "./billing-routes";
+import { addPremiumRoutes } from "./premium-routes";
+import { addTwoFactorRoutes } from "./two-factor-routes";
+import { addSessionRoutes } from "./session-routes";
+import { addInsightsRoutes } from "./insights-routes";
+import { addWebhookRoutes } from "./webhook-routes";
+import { addSafetyRoutes } from "./safety-routes";
+import { addPromptTemplateRoutes } from "./prompt-template-routes";
+import { addJobRoutes } from "./job-routes";
+import { requireFeature } from "./entitlements";
+import { startJobWorker } from "./job-queue";
 import { startEmailScheduler } from "./scheduler";
 import { setupWebhookRoutes } from "./enhanced-webhook-infrastructure";
 import { DualMindAI } from "./dual-mind-ai";
@@ -23,11 +34,11 @@ let dualMindAI: DualMindAI;
 let consciousnessIntegration: ConsciousnessIntegration;
 
 const app = express();
+app.use(STRIPE_WEBHOOK_PATH, stripeWebhookBodyParser);
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
-// Serve uploaded files and public directory
-app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
+// Serve the public directory. Uploaded files are private and served through /api/files.
 app.use('/images', express.static(path.join(process.cwd(), 'public/images')));
 app.use(express.static(path.join(process.cwd(), 'public')));
 
@@ -282,19 +293,29 @@ process.on('SIGINT', gracefulShutdown);
     
     // Add conversation routes after auth is configured
     addConversationRoutes(app);
+    addFileRoutes(app);
+    addBillingRoutes(app);
+    addPremiumRoutes(app);
+    addTwoFactorRoutes(app);
+    addSessionRoutes(app);
+    addInsightsRoutes(app);
+    addWebhookRoutes(app);
+    addSafetyRoutes(app);
+    addPromptTemplateRoutes(app);
+    addJobRoutes(app);
     
     // Add consciousness-aware API endpoints
     addConsciousnessEndpoints(app);
     
     // Add journal analytics routes
-    app.post("/api/journal/summary", generateJournalSummary);
+    app.post("/api/journal/summary", requireFeature("ai_summaries"), generateJournalSummary);
     app.post("/api/journal/tags/generate", generateJournalTags);
     app.get("/api/journal/tags", getUserTags);
     app.get("/api/journal/search/tags", searchByTags);
     
     // Start background services
-    console.log('📧 Starting email processor...');
-    startEmailProcessor();
+    console.log('🧰 Starting job worker...');
+    startJobWorker();
     
     console.log('📅 Starting email scheduler...');
     startEmailScheduler();
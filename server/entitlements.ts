@@ -0,0 +1,188 @@
+import type { Request, Response, NextFunction } from "express";
+import type { User, ThreadChannel } from "@shared/schema";
+import { storage } from "./storage";
+
+export type PlanId = "free" | "trial" | "premium";
+
+export type Feature =
+  | "sms_journaling"  // Journal and chat with Flappy by text message, and receive inspirations by SMS
+  | "ai_summaries"    // AI-written summaries of journal entries over a period
+  | "ad_free_email";  // No upgrade footer in Flappy's emails
+
+export type ExportFormat = "json" | "markdown";
+
+export type Plan = {
+  id: PlanId;
+  name: string;
+  features: Feature[];
+  // Messages to Flappy a user may send per channel in any 24 hours; replies
+  // stop once the limit is reached. Journal entries don't count.
+  dailyMessageLimits: Record<ThreadChannel, number>;
+  // Formats the journal is written in when the account is exported
+  exportFormats: ExportFormat[];
+};
+
+const PREMIUM_FEATURES: Feature[] = ["sms_journaling", "ai_summaries", "ad_free_email"];
+
+export const PLANS: Record<PlanId, Plan> = {
+  free: {
+    id: "free",
+    name: "Free",
+    features: [],
+    dailyMessageLimits: { chat: 20, email: 5, sms: 0 },
+    exportFormats: ["json"],
+  },
+  trial: {
+    id: "trial",
+    name: "Premium trial",
+    features: PREMIUM_FEATURES,
+    dailyMessageLimits: { chat: 200, email: 50, sms: 50 },
+    exportFormats: ["json", "markdown"],
+  },
+  premium: {
+    id: "premium",
+    name: "Premium",
+    features: PREMIUM_FEATURES,
+    dailyMessageLimits: { chat: 200, email: 50, sms: 50 },
+    exportFormats: ["json", "markdown"],
+  },
+};
+
+export const UPGRADE_URL = "https://featherweight.world/subscription";
+
+const FEATURE_NAMES: Record<Feature, string> = {
+  sms_journaling: "SMS journaling",
+  ai_summaries: "AI journal summaries",
+  ad_free_email: "Ad-free email",
+};
+
+const CHANNEL_NAMES: Record<ThreadChannel, string> = {
+  chat: "chat",
+  email: "email",
+  sms: "text",
+};
+
+// A Stripe subscriber keeps premium this long past premiumUntil, so a renewal
+// whose webhook is a little late doesn't interrupt it
+export const RENEWAL_GRACE_MS = 24 * 60 * 60 * 1000;
+
+const QUOTA_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Why a user can't do something, in a form each channel can present
+export type EntitlementDenial =
+  | { reason: "feature"; plan: PlanId; feature: Feature; message: string }
+  | { reason: "quota"; plan: PlanId; channel: ThreadChannel; limit: number; message: string };
+
+/**
+ * The plan a user is on. Premium lapses once premiumUntil has passed, even
+ * before the expiry job or a webhook turns it off; accounts made premium
+ * before access tracked an end date keep it.
+ */
+export function getPlan(user: User): Plan {
+  const isTimeLimited = user.premiumSource === "trial" || user.premiumSource === "promo";
+  const grace = isTimeLimited ? 0 : RENEWAL_GRACE_MS;
+  const current = user.isPremium &&
+    (!user.premiumUntil || new Date(user.premiumUntil).getTime() + grace > Date.now());
+
+  if (!current) return PLANS.free;
+  return user.premiumSource === "trial" || user.subscriptionStatus === "trialing" ? PLANS.trial : PLANS.premium;
+}
+
+export function hasFeature(user: User, feature: Feature): boolean {
+  return getPlan(user).features.includes(feature);
+}
+
+/**
+ * Check a user may use a feature; null if they may
+ */
+export function checkFeature(user: User, feature: Feature): EntitlementDenial | null {
+  const plan = getPlan(user);
+  if (plan.features.includes(feature)) return null;
+
+  return {
+    reason: "feature",
+    plan: plan.id,
+    feature,
+    message: `${FEATURE_NAMES[feature]} is part of Featherweight Premium.`,
+  };
+}
+
+/**
+ * Check a user hasn't used up their messages to Flappy on a channel; null if
+ * they may send another. Call before the new message is stored.
+ */
+export async function checkMessageQuota(user: User, channel: ThreadChannel): Promise<EntitlementDenial | null> {
+  const plan = getPlan(user);
+  const limit = plan.dailyMessageLimits[channel];
+
+  const sent = limit > 0
+    ? await storage.countInboundMessages(user.id, channel, new Date(Date.now() - QUOTA_WINDOW_MS))
+    : 0;
+  if (limit > 0 && sent < limit) return null;
+
+  return {
+    reason: "quota",
+    plan: plan.id,
+    channel,
+    limit,
+    message: limit > 0
+      ? `You've sent ${limit} ${CHANNEL_NAMES[channel]} messages to Flappy in the last 24 hours, the most the ${plan.name} plan allows.`
+      : `Messaging Flappy by ${CHANNEL_NAMES[channel]} is part of Featherweight Premium.`,
+  };
+}
+
+/**
+ * The JSON error for a denial on the web; quota denials are 429, the rest 403
+ */
+export function sendUpgradeRequired(res: Response, denial: EntitlementDenial) {
+  return res.status(denial.reason === "quota" ? 429 : 403).json({
+    error: denial.message,
+    code: "upgrade_required",
+    ...denial,
+    upgradeUrl: UPGRADE_URL,
+  });
+}
+
+/**
+ * A denial as a reply by text message or email
+ */
+export function upgradeReplyText(denial: EntitlementDenial): string {
+  if (denial.plan !== "free") {
+    return `${denial.message} You can message Flappy again tomorrow.`;
+  }
+  return `${denial.message} Upgrade at ${UPGRADE_URL} to keep going.`;
+}
+
+/**
+ * Middleware for routes that need a feature; answers 401 or an upgrade response
+ */
+export function requireFeature(feature: Feature) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const denial = checkFeature(req.user, feature);
+    if (denial) {
+      return sendUpgradeRequired(res, denial);
+    }
+    next();
+  };
+}
+
+/**
+ * What the client needs to show the user's plan and gate its own UI
+ */
+export function describeEntitlements(user: User) {
+  const plan = getPlan(user);
+  return {
+    plan: plan.id,
+    name: plan.name,
+    features: plan.features,
+    dailyMessageLimits: plan.dailyMessageLimits,
+    exportFormats: plan.exportFormats,
+    premiumUntil: plan.id === "free" ? null : user.premiumUntil,
+    premiumSource: plan.id === "free" ? null : user.premiumSource,
+    upgradeUrl: UPGRADE_URL,
+  };
+}
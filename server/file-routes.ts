@@ -0,0 +1,56 @@
+import { type Express, Request, Response } from "express";
+import { fileStorage, verifyFileSignature, isValidFileKey } from "./file-storage";
+import { journalFileOwner } from "./file-upload";
+
+// Direct storage URLs (e.g. S3 presigned) only need to outlive the redirect
+const DIRECT_URL_TTL_SECONDS = 60;
+
+// Types the browser may display inline; anything else is downloaded
+const INLINE_TYPES = /^(image\/(jpeg|png|gif|webp)|application\/pdf|audio\/|video\/)/;
+
+/**
+ * Add the route that serves stored files from signed URLs to Express app
+ */
+export function addFileRoutes(app: Express) {
+  // Serve a stored file. The URL must carry a valid, unexpired signature (see
+  // signFileUrl) and the file must belong to the signed-in user.
+  app.get("/api/files/*", async (req: Request, res: Response) => {
+    const key = req.params[0];
+    const expires = parseInt(String(req.query.expires));
+    const signature = typeof req.query.signature === "string" ? req.query.signature : "";
+
+    if (!isValidFileKey(key) || !verifyFileSignature(key, expires, signature)) {
+      return res.status(403).json({ error: "This link has expired or is invalid" });
+    }
+
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    if (journalFileOwner(key) !== req.user.id) {
+      return res.status(403).json({ error: "Access denied" });
+    }
+
+    try {
+      if (fileStorage.getDirectUrl) {
+        return res.redirect(302, fileStorage.getDirectUrl(key, DIRECT_URL_TTL_SECONDS));
+      }
+
+      const file = await fileStorage.get(key);
+      if (!file) {
+        return res.status(404).json({ error: "File not found" });
+      }
+
+      res.set({
+        "Content-Type": file.contentType,
+        "Content-Disposition": INLINE_TYPES.test(file.contentType) ? "inline" : "attachment",
+        "Cache-Control": `private, max-age=${Math.max(expires - Math.floor(Date.now() / 1000), 0)}`,
+        "X-Content-Type-Options": "nosniff",
+      });
+      res.send(file.data);
+    } catch (error) {
+      console.error(`Error serving file ${key}:`, error);
+      res.status(500).json({ error: "Failed to load file" });
+    }
+  });
+}
@@ -0,0 +1,403 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+/**
+ * Where uploaded files live. Files are addressed by key, e.g.
+ * "journal/user_12_1700000000000-123.jpg", and are never served publicly:
+ * browsers get them through signed, expiring /api/files URLs (see file-routes.ts).
+ *
+ * FILE_STORAGE_DRIVER picks the backend:
+ * - "local" (default): files under ./uploads
+ * - "s3": an S3-compatible bucket, configured with S3_BUCKET, S3_REGION,
+ *   S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY. Set S3_ENDPOINT for other
+ *   providers or a local MinIO (e.g. http://localhost:9000), which also
+ *   switches to path-style URLs unless S3_FORCE_PATH_STYLE=false.
+ */
+
+// File types that can be stored, with the extension they're saved under.
+// Nothing a browser would run (HTML, SVG) is allowed.
+export const STORED_FILE_TYPES: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/heic': '.heic',
+  'image/heif': '.heif',
+  'application/pdf': '.pdf',
+  'text/plain': '.txt',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'audio/amr': '.amr', // MMS voice notes
+  'audio/ogg': '.ogg',
+  'video/mp4': '.mp4',
+  'video/3gpp': '.3gp',
+  'video/quicktime': '.mov',
+};
+
+// Older uploads were saved by extension only, so look the type up from it
+function contentTypeForKey(key: string): string {
+  const ext = path.extname(key).toLowerCase();
+  if (ext === '.jpeg') return 'image/jpeg';
+  const match = Object.entries(STORED_FILE_TYPES).find(([, extension]) => extension === ext);
+  return match ? match[0] : 'application/octet-stream';
+}
+
+export type StoredFile = {
+  data: Buffer;
+  contentType: string;
+};
+
+export type StoredFileInfo = {
+  key: string;
+  size: number;
+  lastModified: Date;
+};
+
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<StoredFile | null>; // null when there's no such file
+  delete(key: string): Promise<void>; // No error when there's no such file
+  list(prefix: string): Promise<StoredFileInfo[]>;
+  // A short-lived URL the browser can fetch the file from directly, for
+  // backends that support one; otherwise files are sent by the server
+  getDirectUrl?(key: string, expiresInSeconds: number): string;
+}
+
+const KEY_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9._-]*(\/[A-Za-z0-9_-][A-Za-z0-9._-]*)*$/;
+
+export function isValidFileKey(key: string): boolean {
+  return KEY_PATTERN.test(key) && key.length <= 512;
+}
+
+function assertValidKey(key: string): void {
+  if (!isValidFileKey(key)) {
+    throw new Error(`Invalid file key: ${key}`);
+  }
+}
+
+/**
+ * Files on the server's disk
+ */
+export class LocalDiskDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private rootDir: string) {}
+
+  private filePath(key: string): string {
+    assertValidKey(key);
+    return path.join(this.rootDir, ...key.split('/'));
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const filePath = this.filePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<StoredFile | null> {
+    try {
+      return { data: await fs.readFile(this.filePath(key)), contentType: contentTypeForKey(key) };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.filePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  // Lists one directory level: the prefix's directory, filtered by the rest of the prefix
+  async list(prefix: string): Promise<StoredFileInfo[]> {
+    const slash = prefix.lastIndexOf('/');
+    const dirKey = slash >= 0 ? prefix.slice(0, slash + 1) : '';
+    const dir = path.join(this.rootDir, ...dirKey.split('/').filter(Boolean));
+
+    let names: string[];
+    try {
+      names = await fs.readdir(dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const files: StoredFileInfo[] = [];
+    for (const name of names) {
+      const key = dirKey + name;
+      if (!key.startsWith(prefix) || !isValidFileKey(key)) continue;
+
+      const stats = await fs.stat(path.join(dir, name));
+      if (stats.isFile()) {
+        files.push({ key, size: stats.size, lastModified: stats.mtime });
+      }
+    }
+    return files;
+  }
+}
+
+export type S3Config = {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint?: string; // e.g. http://localhost:9000 for MinIO; AWS when unset
+  forcePathStyle?: boolean; // bucket in the path rather than the host name
+};
+
+// Percent-encoding as AWS Signature Version 4 expects it
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function sha256Hex(data: Buffer | string): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Files in an S3-compatible bucket, using the REST API directly with
+ * Signature Version 4 request signing
+ */
+export class S3Driver implements StorageDriver {
+  readonly name = 's3';
+
+  constructor(private config: S3Config) {}
+
+  private bucketUrl(): URL {
+    const { bucket, region, endpoint, forcePathStyle } = this.config;
+    if (!endpoint) {
+      return forcePathStyle
+        ? new URL(`https://s3.${region}.amazonaws.com/${bucket}/`)
+        : new URL(`https://${bucket}.s3.${region}.amazonaws.com/`);
+    }
+
+    const base = new URL(endpoint);
+    return forcePathStyle === false
+      ? new URL(`${base.protocol}//${bucket}.${base.host}/`)
+      : new URL(`${base.protocol}//${base.host}/${bucket}/`);
+  }
+
+  private objectUrl(key: string): URL {
+    assertValidKey(key);
+    return new URL(this.bucketUrl().pathname + key.split('/').map(encodeRfc3986).join('/'), this.bucketUrl());
+  }
+
+  // Signature Version 4: derive the signing key for the day and sign the canonical request
+  private signature(dateStamp: string, stringToSign: string): string {
+    const dateKey = hmac(`AWS4${this.config.secretAccessKey}`, dateStamp);
+    const regionKey = hmac(dateKey, this.config.region);
+    const serviceKey = hmac(regionKey, 's3');
+    const signingKey = hmac(serviceKey, 'aws4_request');
+    return hmac(signingKey, stringToSign).toString('hex');
+  }
+
+  private canonicalQuery(params: URLSearchParams): string {
+    return Array.from(params.entries())
+      .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([name, value]) => `${name}=${value}`)
+      .join('&');
+  }
+
+  private stringToSign(amzDate: string, scope: string, canonicalRequest: string): string {
+    return ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  }
+
+  private async request(method: string, url: URL, body?: Buffer, headers: Record<string, string> = {}): Promise<Response> {
+    const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+    const payloadHash = sha256Hex(body ?? '');
+
+    const signedHeaders: Record<string, string> = {
+      ...Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value.trim()])),
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+    };
+    const headerNames = Object.keys(signedHeaders).sort();
+
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      this.canonicalQuery(url.searchParams),
+      headerNames.map(name => `${name}:${signedHeaders[name]}\n`).join(''),
+      headerNames.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const signature = this.signature(dateStamp, this.stringToSign(amzDate, scope, canonicalRequest));
+    const { host, ...requestHeaders } = signedHeaders;
+
+    return await fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${headerNames.join(';')}, Signature=${signature}`,
+      },
+      body,
+    });
+  }
+
+  private async fail(action: string, key: string, response: Response): Promise<never> {
+    const detail = (await response.text().catch(() => '')).match(/<Code>([^<]+)<\/Code>/)?.[1];
+    throw new Error(`S3 ${action} ${key} failed: ${response.status}${detail ? ` ${detail}` : ''}`);
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', this.objectUrl(key), data, { 'content-type': contentType });
+    if (!response.ok) await this.fail('upload of', key, response);
+  }
+
+  async get(key: string): Promise<StoredFile | null> {
+    const response = await this.request('GET', this.objectUrl(key));
+    if (response.status === 404) return null;
+    if (!response.ok) await this.fail('download of', key, response);
+
+    return {
+      data: Buffer.from(await response.arrayBuffer()),
+      contentType: response.headers.get('content-type') || contentTypeForKey(key),
+    };
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', this.objectUrl(key));
+    if (!response.ok && response.status !== 404) await this.fail('delete of', key, response);
+  }
+
+  async list(prefix: string): Promise<StoredFileInfo[]> {
+    const files: StoredFileInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const url = this.bucketUrl();
+      url.searchParams.set('list-type', '2');
+      url.searchParams.set('prefix', prefix);
+      if (continuationToken) url.searchParams.set('continuation-token', continuationToken);
+
+      const response = await this.request('GET', url);
+      if (!response.ok) await this.fail('listing of', prefix, response);
+      const xml = await response.text();
+
+      for (const [, contents] of Array.from(xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g))) {
+        const key = contents.match(/<Key>([^<]*)<\/Key>/)?.[1];
+        if (!key) continue;
+        files.push({
+          key: decodeXml(key),
+          size: parseInt(contents.match(/<Size>(\d+)<\/Size>/)?.[1] || '0'),
+          lastModified: new Date(contents.match(/<LastModified>([^<]+)<\/LastModified>/)?.[1] || 0),
+        });
+      }
+
+      const token = xml.match(/<NextContinuationToken>([^<]+)<\/NextContinuationToken>/)?.[1];
+      continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml) && token ? decodeXml(token) : undefined;
+    } while (continuationToken);
+
+    return files;
+  }
+
+  // A presigned GET URL, signed in the query string so no headers are needed
+  getDirectUrl(key: string, expiresInSeconds: number, now: Date = new Date()): string {
+    const url = this.objectUrl(key);
+    const amzDate = now.toISOString().replace(/[-:]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+
+    url.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+    url.searchParams.set('X-Amz-Credential', `${this.config.accessKeyId}/${scope}`);
+    url.searchParams.set('X-Amz-Date', amzDate);
+    url.searchParams.set('X-Amz-Expires', String(expiresInSeconds));
+    url.searchParams.set('X-Amz-SignedHeaders', 'host');
+
+    const canonicalRequest = [
+      'GET',
+      url.pathname,
+      this.canonicalQuery(url.searchParams),
+      `host:${url.host}\n`,
+      'host',
+      'UNSIGNED-PAYLOAD',
+    ].join('\n');
+
+    url.searchParams.set('X-Amz-Signature', this.signature(dateStamp, this.stringToSign(amzDate, scope, canonicalRequest)));
+    return url.toString();
+  }
+}
+
+function createStorageDriver(): StorageDriver {
+  const driver = process.env.FILE_STORAGE_DRIVER || 'local';
+
+  if (driver === 's3') {
+    const { S3_BUCKET, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_ENDPOINT, S3_FORCE_PATH_STYLE } = process.env;
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error('FILE_STORAGE_DRIVER=s3 requires S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+    }
+
+    console.log(`Storing files in S3 bucket ${S3_BUCKET}${S3_ENDPOINT ? ` at ${S3_ENDPOINT}` : ''}`);
+    return new S3Driver({
+      bucket: S3_BUCKET,
+      region: S3_REGION || 'us-east-1',
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      endpoint: S3_ENDPOINT,
+      forcePathStyle: S3_FORCE_PATH_STYLE ? S3_FORCE_PATH_STYLE === 'true' : !!S3_ENDPOINT,
+    });
+  }
+
+  if (driver !== 'local') {
+    throw new Error(`Unknown FILE_STORAGE_DRIVER: ${driver}`);
+  }
+  return new LocalDiskDriver(path.join(process.cwd(), 'uploads'));
+}
+
+export const fileStorage: StorageDriver = createStorageDriver();
+
+// How long a signed file URL stays valid
+export const SIGNED_FILE_URL_TTL_SECONDS = 60 * 60;
+
+// Without a configured secret, URLs signed by one server process can't be
+// checked by another (or after a restart); they expire within the hour anyway
+const FILE_URL_SECRET = process.env.FILE_URL_SECRET || process.env.SESSION_SECRET || crypto.randomBytes(32).toString('hex');
+
+function fileSignature(key: string, expires: number): string {
+  return crypto.createHmac('sha256', FILE_URL_SECRET).update(`${key}:${expires}`).digest('base64url');
+}
+
+/**
+ * A URL for the browser to fetch a stored file from, valid for a limited time
+ */
+export function signFileUrl(key: string, expiresInSeconds: number = SIGNED_FILE_URL_TTL_SECONDS): string {
+  const expires = Math.floor(Date.now() / 1000) + expiresInSeconds;
+  const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+  return `/api/files/${encodedKey}?expires=${expires}&signature=${fileSignature(key, expires)}`;
+}
+
+/**
+ * Check a signed file URL's signature and expiry (a Unix time in seconds)
+ */
+export function verifyFileSignature(key: string, expires: number, signature: string): boolean {
+  if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+    return false;
+  }
+
+  const expected = Buffer.from(fileSignature(key, expires));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
@@ -1,43 +1,14 @@
 import multer from 'multer';
-import path from 'path';
-import fs from 'fs';
 import { Request } from 'express';
+import { fileStorage, signFileUrl, isValidFileKey, STORED_FILE_TYPES } from './file-storage';
 
-// Ensure upload directories exist
-const uploadDir = path.join(process.cwd(), 'uploads');
-const journalUploadsDir = path.join(uploadDir, 'journal');
-
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-
-if (!fs.existsSync(journalUploadsDir)) {
-  fs.mkdirSync(journalUploadsDir, { recursive: true });
-}
-
-// Configure storage
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    cb(null, journalUploadsDir);
-  },
-  filename: (req: Request, file, cb) => {
-    // Get user ID from authenticated session
-    const userId = req.user?.id;
-    if (!userId) {
-      return cb(new Error('User ID not found'), '');
-    }
-    
-    // Create a unique filename with user ID prefix
-    const uniqueSuffix = `${Date.now()}-${Math.round(Math.random() * 1E9)}`;
-    const ext = path.extname(file.originalname);
-    cb(null, `user_${userId}_${uniqueSuffix}${ext}`);
-  }
-});
+// Uploads are held in memory, then written through the storage driver
+const storage = multer.memoryStorage();
 
 // File filter
 const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
   // Accept images only
-  if (!file.originalname.match(/\.(jpg|jpeg|png|gif|webp)$/i)) {
+  if (!file.originalname.match(/\.(jpg|jpeg|png|gif|webp)$/i) || !file.mimetype.startsWith('image/')) {
     return cb(new Error('Only image files are allowed!'));
   }
   cb(null, true);
@@ -52,17 +23,71 @@ export const journalImageUpload = multer({
   }
 });
 
-// Function to get public URL for a file
-export function getFileUrl(req: Request, filename: string): string {
-  const protocol = req.headers['x-forwarded-proto'] || req.protocol;
-  const host = req.get('host');
-  return `${protocol}://${host}/uploads/journal/${filename}`;
+// Journal files are keyed journal/user_<id>_<unique suffix><ext>, so the
+// owner can be read from the key
+const JOURNAL_KEY_PATTERN = /^journal\/user_(\d+)_[^/]+$/;
+
+// Older entries stored a public URL to the file: http://host/uploads/journal/<file>
+const LEGACY_UPLOAD_URL_PATTERN = /\/uploads\/journal\/([^/?#]+)/;
+
+// Function to find the storage key a journal image or attachment reference
+// points at; null for images hosted elsewhere
+export function journalFileKey(reference: string | null | undefined): string | null {
+  if (!reference) return null;
+
+  const legacy = reference.match(LEGACY_UPLOAD_URL_PATTERN);
+  const key = legacy ? `journal/${decodeURIComponent(legacy[1])}` : reference;
+  return JOURNAL_KEY_PATTERN.test(key) && isValidFileKey(key) ? key : null;
+}
+
+// Function to get the ID of the user a journal file belongs to
+export function journalFileOwner(key: string): number | null {
+  const match = key.match(JOURNAL_KEY_PATTERN);
+  return match ? parseInt(match[1]) : null;
 }
 
-// Function to delete a file
-export function deleteFile(filename: string): void {
-  const filePath = path.join(journalUploadsDir, filename);
-  if (fs.existsSync(filePath)) {
-    fs.unlinkSync(filePath);
+// Function to check whether a reference points at a stored file uploaded by
+// someone other than the user. Entries can only refer to their owner's files,
+// as purging an entry deletes the files it refers to.
+export function isOtherUsersJournalFile(reference: string, userId: number): boolean {
+  const key = journalFileKey(reference);
+  return !!key && journalFileOwner(key) !== userId;
+}
+
+// Function to save a journal image or attachment. Returns its storage key,
+// which is what entries and attachments keep.
+export async function saveJournalFile(
+  userId: number,
+  data: Buffer,
+  contentType: string,
+  suffix: string = `${Date.now()}-${Math.round(Math.random() * 1E9)}`
+): Promise<string> {
+  const ext = STORED_FILE_TYPES[contentType];
+  if (!ext) {
+    throw new Error(`Files of type ${contentType} can't be stored`);
+  }
+
+  const key = `journal/user_${userId}_${suffix}${ext}`;
+  await fileStorage.put(key, data, contentType);
+  return key;
+}
+
+// Function to delete a journal file given its key (or legacy URL)
+export async function deleteJournalFile(reference: string): Promise<void> {
+  const key = journalFileKey(reference);
+  if (key) {
+    await fileStorage.delete(key);
   }
-}
\ No newline at end of file
+}
+
+// Function to get a URL the owner's browser can load a journal file from.
+// Stored files get a signed, expiring URL; images hosted elsewhere are passed through.
+export function journalFileUrl(reference: string | null, userId: number): string | null {
+  if (!reference) return null;
+
+  const key = journalFileKey(reference);
+  if (!key) {
+    return /^https?:\/\//.test(reference) && !LEGACY_UPLOAD_URL_PATTERN.test(reference) ? reference : null;
+  }
+  return journalFileOwner(key) === userId ? signFileUrl(key) : null;
+}
@@ -0,0 +1,63 @@
+// Normalize each inbound email fixture and report any that don't match expected.json.
+//
+//   npx tsx server/fixtures/inbound-email/check.ts
+//
+// Exits with status 1 if any fixture fails.
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { normalizeInboundPayload, type InboundEmail } from "../../inbound-email";
+
+const FIXTURES_DIR = path.dirname(fileURLToPath(import.meta.url));
+
+// Fields of the normalized email an entry can list; contentType is how the file is queued
+type Expected = Record<string, unknown> & { contentType?: string };
+
+function actualValue(email: InboundEmail, field: string): unknown {
+  if (field === "from") return email.from.address;
+  if (field === "attachments") return email.attachments.length;
+  return email[field as keyof InboundEmail];
+}
+
+async function check() {
+  const fixtures: Record<string, Expected> = JSON.parse(await fs.readFile(path.join(FIXTURES_DIR, "expected.json"), "utf8"));
+  const names = Object.keys(fixtures);
+  let failures = 0;
+
+  for (const name of names) {
+    const { contentType, ...expected } = fixtures[name];
+    // Queued the way the inbound webhook stores a message
+    const payload = {
+      rawMimeBase64: (await fs.readFile(path.join(FIXTURES_DIR, name))).toString("base64"),
+      ...(contentType ? { contentType } : {}),
+    };
+
+    let email: InboundEmail;
+    try {
+      email = await normalizeInboundPayload(payload);
+    } catch (error) {
+      failures++;
+      console.log(`FAIL ${name}: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+
+    const mismatches = Object.entries(expected).filter(([field, value]) =>
+      JSON.stringify(actualValue(email, field)) !== JSON.stringify(value)
+    );
+    if (mismatches.length > 0) {
+      failures++;
+      console.log(`FAIL ${name}`);
+      for (const [field, value] of mismatches) {
+        console.log(`  ${field}: expected ${JSON.stringify(value)}, got ${JSON.stringify(actualValue(email, field))}`);
+      }
+    }
+  }
+
+  console.log(`${names.length - failures} of ${names.length} fixtures passed`);
+  if (failures > 0) process.exit(1);
+}
+
+check().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,37 @@
+// Run the safety rules over the fixtures and report any that don't classify as expected.
+//
+//   npx tsx server/fixtures/safety/check.ts
+//
+// Exits with status 1 if any fixture fails.
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { classifySafetyRules } from "../../safety-rules";
+
+const FIXTURES_DIR = path.dirname(fileURLToPath(import.meta.url));
+
+type Fixture = { text: string; level: string; rules: string[] };
+
+async function check() {
+  const fixtures: Fixture[] = JSON.parse(await fs.readFile(path.join(FIXTURES_DIR, "messages.json"), "utf8"));
+  let failures = 0;
+
+  for (const fixture of fixtures) {
+    const result = classifySafetyRules(fixture.text);
+    const expectedRules = [...fixture.rules].sort().join(",");
+    const actualRules = [...result.matchedRules].sort().join(",");
+    if (result.level !== fixture.level || actualRules !== expectedRules) {
+      failures++;
+      console.log(`FAIL ${JSON.stringify(fixture.text)}`);
+      console.log(`  expected ${fixture.level} [${expectedRules}], got ${result.level} [${actualRules}]`);
+    }
+  }
+
+  console.log(`${fixtures.length - failures} of ${fixtures.length} fixtures passed`);
+  if (failures > 0) process.exit(1);
+}
+
+check().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,41 @@
+// Post recorded Stripe events to the webhook, signed the way Stripe signs them.
+//
+//   STRIPE_WEBHOOK_SECRET=whsec_... npx tsx server/fixtures/stripe/replay.ts \
+//     http://localhost:3000/api/stripe/webhook invoice.paid.json customer.subscription.deleted.json
+//
+// Fixture names are resolved against this directory.
+import fs from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import Stripe from "stripe";
+
+const FIXTURES_DIR = path.dirname(fileURLToPath(import.meta.url));
+
+const [url, ...fixtures] = process.argv.slice(2);
+const secret = process.env.STRIPE_WEBHOOK_SECRET;
+
+if (!url || fixtures.length === 0 || !secret) {
+  console.error("Usage: STRIPE_WEBHOOK_SECRET=whsec_... replay.ts <webhook url> <fixture.json>...");
+  process.exit(1);
+}
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || "sk_test_unused");
+
+async function replay(url: string, secret: string) {
+  for (const fixture of fixtures) {
+    const payload = await fs.readFile(path.resolve(FIXTURES_DIR, fixture), "utf8");
+    const signature = stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "Stripe-Signature": signature },
+      body: payload,
+    });
+    console.log(`${fixture}: ${response.status} ${await response.text()}`);
+  }
+}
+
+replay(url, secret).catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,149 @@
+/**
+ * Dimensions and previews of attached images, read straight from the file
+ * headers. There's no image processing library on the server, so thumbnails
+ * are only produced where the file already carries one: the small JPEG
+ * preview that phones and cameras embed in a photo's EXIF data.
+ */
+
+export type ImageSize = {
+  width: number;
+  height: number;
+};
+
+// JPEG start-of-frame markers carry the image size; 0xC4, 0xC8 and 0xCC are other segments
+function isStartOfFrame(marker: number): boolean {
+  return marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+}
+
+// Walk the JPEG segments before the image data, calling visit for each one
+function forEachJpegSegment(data: Buffer, visit: (marker: number, start: number, length: number) => boolean): void {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) return;
+
+  let offset = 2;
+  while (offset + 4 <= data.length) {
+    if (data[offset] !== 0xff) return;
+    const marker = data[offset + 1];
+    if (marker === 0xff) {
+      offset++; // Fill byte
+      continue;
+    }
+    if (marker === 0xd9 || marker === 0xda) return; // End of image, start of scan
+
+    const length = data.readUInt16BE(offset + 2);
+    if (length < 2 || offset + 2 + length > data.length) return;
+    if (visit(marker, offset + 4, length - 2)) return;
+    offset += 2 + length;
+  }
+}
+
+function readJpegSize(data: Buffer): ImageSize | null {
+  let size: ImageSize | null = null;
+  forEachJpegSegment(data, (marker, start, length) => {
+    if (!isStartOfFrame(marker) || length < 5) return false;
+    size = { height: data.readUInt16BE(start + 1), width: data.readUInt16BE(start + 3) };
+    return true;
+  });
+  return size;
+}
+
+function readWebpSize(data: Buffer): ImageSize | null {
+  if (data.length < 30 || data.toString('ascii', 0, 4) !== 'RIFF' || data.toString('ascii', 8, 12) !== 'WEBP') {
+    return null;
+  }
+
+  switch (data.toString('ascii', 12, 16)) {
+    case 'VP8 ': // Lossy
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    case 'VP8L': { // Lossless: two 14-bit fields after the signature byte
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+    }
+    case 'VP8X': // Extended: 24-bit fields
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read the pixel size of a JPEG, PNG, GIF or WebP image. Returns null for
+ * other formats or when the header can't be read.
+ */
+export function readImageSize(data: Buffer, contentType: string): ImageSize | null {
+  try {
+    switch (contentType) {
+      case 'image/jpeg':
+        return readJpegSize(data);
+      case 'image/png':
+        if (data.length < 24 || data.readUInt32BE(0) !== 0x89504e47) return null;
+        return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+      case 'image/gif':
+        if (data.length < 10 || data.toString('ascii', 0, 3) !== 'GIF') return null;
+        return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+      case 'image/webp':
+        return readWebpSize(data);
+      default:
+        return null;
+    }
+  } catch {
+    return null;
+  }
+}
+
+// TIFF tags used below
+const TAG_ORIENTATION = 0x0112;
+const TAG_THUMBNAIL_OFFSET = 0x0201;
+const TAG_THUMBNAIL_LENGTH = 0x0202;
+
+/**
+ * Extract the preview JPEG embedded in a photo's EXIF data. Returns null when
+ * there isn't one, and for rotated photos: the orientation is recorded in the
+ * EXIF data, which the preview doesn't carry, so it would show sideways.
+ */
+export function extractJpegThumbnail(data: Buffer): Buffer | null {
+  let thumbnail: Buffer | null = null;
+
+  forEachJpegSegment(data, (marker, start, length) => {
+    // APP1 holding "Exif\0\0" followed by a TIFF structure
+    if (marker !== 0xe1 || length < 14 || data.toString('ascii', start, start + 6) !== 'Exif\0\0') {
+      return false;
+    }
+
+    const tiff = data.subarray(start + 6, start + length);
+    try {
+      const littleEndian = tiff.toString('ascii', 0, 2) === 'II';
+      const u16 = (offset: number) => littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+      const u32 = (offset: number) => littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+
+      // Each IFD is a count, 12-byte entries, then the offset of the next IFD
+      const readIfd = (offset: number) => {
+        const tags = new Map<number, number>();
+        const count = u16(offset);
+        for (let i = 0; i < count; i++) {
+          const entry = offset + 2 + i * 12;
+          const type = u16(entry + 2);
+          tags.set(u16(entry), type === 3 ? u16(entry + 8) : u32(entry + 8)); // SHORT or LONG
+        }
+        return { tags, next: u32(offset + 2 + count * 12) };
+      };
+
+      const ifd0 = readIfd(u32(4));
+      if ((ifd0.tags.get(TAG_ORIENTATION) ?? 1) !== 1 || !ifd0.next) {
+        return true;
+      }
+
+      const ifd1 = readIfd(ifd0.next);
+      const offset = ifd1.tags.get(TAG_THUMBNAIL_OFFSET);
+      const thumbnailLength = ifd1.tags.get(TAG_THUMBNAIL_LENGTH);
+      if (offset && thumbnailLength && offset + thumbnailLength <= tiff.length &&
+          tiff[offset] === 0xff && tiff[offset + 1] === 0xd8) {
+        thumbnail = Buffer.from(tiff.subarray(offset, offset + thumbnailLength));
+      }
+    } catch {
+      // Truncated or malformed EXIF data; no thumbnail
+    }
+    return true;
+  });
+
+  return thumbnail;
+}
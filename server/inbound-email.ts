@@ -0,0 +1,565 @@
+import { simpleParser, type AddressObject } from "mailparser";
+
+/**
+ * Normalizes inbound email into one typed InboundEmail, whichever way it
+ * arrived: SendGrid Inbound Parse form data (parsed or "raw" mode), a raw MIME
+ * message, or the JSON payloads posted by test endpoints.
+ */
+
+export type EmailAddress = {
+  address: string; // Lowercased
+  name: string | null;
+};
+
+export type InboundEmailAttachment = {
+  filename: string;
+  contentType: string;
+  size: number; // In bytes
+  content: Buffer;
+  contentId: string | null; // Without angle brackets
+  inline: boolean; // Referenced from the HTML body rather than attached
+};
+
+export type InboundEmail = {
+  from: EmailAddress;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  subject: string;
+  date: Date | null;
+  text: string; // Full plain-text body, including any quoted history
+  html: string | null;
+  replyText: string; // What the sender wrote in this message, without quoted history or signature
+  quotedText: string; // Earlier messages quoted or forwarded below the reply
+  signature: string;
+  isForwarded: boolean;
+  attachments: InboundEmailAttachment[];
+  messageId: string | null; // Message IDs are kept without angle brackets
+  inReplyTo: string | null;
+  references: string[];
+};
+
+// A file uploaded with a SendGrid Inbound Parse post, as multer or parseFormData provide it
+export type InboundFormFile = {
+  fieldname: string;
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+};
+
+// How far into a queued payload peekMessageId looks
+const MESSAGE_ID_SEARCH_BYTES = 256 * 1024;
+
+/**
+ * Parse a raw MIME message
+ */
+export async function parseMimeEmail(raw: Buffer | string): Promise<InboundEmail> {
+  const parsed = await simpleParser(raw);
+  const html = typeof parsed.html === "string" ? parsed.html : null;
+  const text = normalizeNewlines(parsed.text || (html ? htmlToText(html) : ""));
+  const references = Array.isArray(parsed.references)
+    ? parsed.references.join(" ")
+    : parsed.references || "";
+
+  return buildEmail({
+    from: fromAddressObjects(parsed.from)[0],
+    to: fromAddressObjects(parsed.to),
+    cc: fromAddressObjects(parsed.cc),
+    subject: parsed.subject || "",
+    date: parsed.date || null,
+    text,
+    html,
+    attachments: parsed.attachments.map(attachment => ({
+      filename: attachment.filename || "attachment",
+      contentType: attachment.contentType || "application/octet-stream",
+      size: attachment.size ?? attachment.content.length,
+      content: attachment.content,
+      contentId: attachment.contentId ? stripAngles(attachment.contentId) : null,
+      inline: attachment.contentDisposition === "inline" || !!attachment.related
+    })),
+    messageId: parsed.messageId ? stripAngles(parsed.messageId) : null,
+    inReplyTo: parsed.inReplyTo ? parseMessageIds(parsed.inReplyTo)[0] || null : null,
+    references: parseMessageIds(references)
+  });
+}
+
+/**
+ * Normalize a SendGrid Inbound Parse post. Field values may be strings (as
+ * multer provides them) or raw buffers, which are decoded using the post's
+ * `charsets` field.
+ */
+export async function parseSendGridInbound(
+  fields: Record<string, string | Buffer | undefined>,
+  files: InboundFormFile[] = []
+): Promise<InboundEmail> {
+  const charsets = parseJson<Record<string, string>>(fieldText(fields.charsets)) || {};
+  const field = (name: string) => fieldText(fields[name], charsets[name]);
+
+  // "Send raw" mode: the whole MIME message is in the email field
+  if (fields.email) {
+    return parseMimeEmail(Buffer.isBuffer(fields.email) ? fields.email : field("email"));
+  }
+
+  const headers = parseHeaderBlock(field("headers"));
+  const envelope = parseJson<{ from?: string; to?: string[] }>(field("envelope"));
+  const attachmentInfo = parseJson<Record<string, {
+    filename?: string;
+    name?: string;
+    type?: string;
+    "content-id"?: string;
+  }>>(field("attachment-info")) || {};
+
+  const html = field("html") || null;
+  const text = normalizeNewlines(field("text") || (html ? htmlToText(html) : ""));
+
+  const from = parseAddressList(field("from") || headers.from || "")[0]
+    || (envelope?.from ? { address: envelope.from.toLowerCase(), name: null } : undefined);
+
+  return buildEmail({
+    from,
+    to: parseAddressList(field("to") || headers.to || ""),
+    cc: parseAddressList(field("cc") || headers.cc || ""),
+    subject: decodeEncodedWords(field("subject") || headers.subject || ""),
+    date: headers.date ? parseDate(headers.date) : null,
+    text,
+    html,
+    attachments: files.map(file => {
+      const info = attachmentInfo[file.fieldname] || {};
+      const contentId = info["content-id"] ? stripAngles(info["content-id"]) : null;
+      return {
+        filename: info.filename || info.name || file.originalname || file.fieldname,
+        contentType: info.type || file.mimetype || "application/octet-stream",
+        size: file.buffer.length,
+        content: file.buffer,
+        contentId,
+        inline: !!contentId && !!html?.includes(`cid:${contentId}`)
+      };
+    }),
+    messageId: parseMessageIds(field("message-id") || headers["message-id"] || "")[0] || null,
+    inReplyTo: parseMessageIds(field("in-reply-to") || headers["in-reply-to"] || "")[0] || null,
+    references: parseMessageIds(field("references") || headers.references || "")
+  });
+}
+
+/**
+ * Normalize an email_queue payload. Handles the raw request body stored by the
+ * inbound webhook (base64, either SendGrid form data or MIME), and the JSON
+ * shapes posted by the test endpoints.
+ */
+export async function normalizeInboundPayload(payload: unknown): Promise<InboundEmail> {
+  if (typeof payload === "string") {
+    const json = parseJson<unknown>(payload);
+    return json && typeof json === "object" ? normalizeInboundPayload(json) : parseMimeEmail(payload);
+  }
+
+  if (!payload || typeof payload !== "object") {
+    throw new Error(`Unrecognized inbound email payload: ${typeof payload}`);
+  }
+
+  const data = payload as Record<string, any>;
+
+  if (typeof data.rawMimeBase64 === "string") {
+    const body = Buffer.from(data.rawMimeBase64, "base64");
+    const contentType: string = data.contentType || "";
+
+    if (/multipart\/form-data/i.test(contentType) || looksLikeFormData(body)) {
+      const { fields, files } = parseFormData(body, contentType);
+      return parseSendGridInbound(fields, files);
+    }
+    return parseMimeEmail(body);
+  }
+
+  if (typeof data.buffer === "string") {
+    return parseMimeEmail(Buffer.from(data.buffer, "base64"));
+  }
+
+  // JSON with SendGrid-style field names; a few older aliases are accepted too
+  const fields: Record<string, string | undefined> = {
+    from: data.from || data.sender?.email || data.sender || data.email,
+    to: data.to,
+    cc: data.cc,
+    subject: data.subject || data.title,
+    text: data.text || data.body || data.content || data.message,
+    html: data.html,
+    headers: typeof data.headers === "string" ? data.headers : undefined,
+    "message-id": data.messageId,
+    "in-reply-to": data.inReplyTo || data["in-reply-to"] || data.headers?.["In-Reply-To"],
+    references: data.references || data.headers?.["References"]
+  };
+
+  if (!fields.from || !(fields.text || fields.html)) {
+    throw new Error("Inbound email payload has no sender or body");
+  }
+
+  return parseSendGridInbound(
+    Object.fromEntries(Object.entries(fields).filter(([, value]) => typeof value === "string"))
+  );
+}
+
+/**
+ * The Message-ID of a payload normalizeInboundPayload accepts, found without
+ * parsing the message, so redelivered webhooks can be spotted when queued.
+ * Null when there isn't one.
+ */
+export function peekMessageId(payload: unknown): string | null {
+  if (!payload || typeof payload !== "object") return null;
+  const data = payload as Record<string, any>;
+
+  if (typeof data.messageId === "string") {
+    return parseMessageIds(data.messageId)[0] || null;
+  }
+
+  const encoded = typeof data.rawMimeBase64 === "string" ? data.rawMimeBase64
+    : typeof data.buffer === "string" ? data.buffer
+    : null;
+
+  // The top-level header comes before any forwarded message's; in SendGrid
+  // parsed form data it's in the headers field
+  const head = encoded
+    ? Buffer.from(encoded, "base64").subarray(0, MESSAGE_ID_SEARCH_BYTES).toString("utf8")
+    : typeof data.headers === "string" ? data.headers
+    : null;
+  if (!head) return null;
+  const match = head.match(/^Message-ID:\s*(<[^>\s]+>)/im) || head.match(/^Message-ID:[ \t]*(\S+)/im);
+  return match ? parseMessageIds(match[1])[0] || null : null;
+}
+
+/**
+ * The text to act on for an inbound email: the reply, or for a forward sent
+ * without comment, the forwarded message
+ */
+export function getMessageBody(email: InboundEmail): string {
+  return email.replyText || (email.isForwarded ? email.quotedText : "") || email.text.trim();
+}
+
+/**
+ * Split a plain-text body into the new reply, the quoted history below it and
+ * the sender's signature
+ */
+export function splitReply(text: string): {
+  replyText: string;
+  quotedText: string;
+  signature: string;
+  isForwarded: boolean;
+} {
+  const lines = normalizeNewlines(text).split("\n");
+  let quoteStart = lines.length;
+  let isForwarded = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const marker = quoteMarkerAt(lines, i);
+    if (marker) {
+      quoteStart = i;
+      isForwarded = marker === "forward";
+      break;
+    }
+  }
+
+  // Inline quoting (">" lines between the sender's own paragraphs) counts as history too
+  const replyLines: string[] = [];
+  const inlineQuoted: string[] = [];
+  for (const line of lines.slice(0, quoteStart)) {
+    (/^\s*>/.test(line) ? inlineQuoted : replyLines).push(line);
+  }
+
+  const { body, signature } = splitSignature(replyLines);
+  const quotedText = [...inlineQuoted, ...lines.slice(quoteStart)].join("\n").trim();
+
+  return {
+    replyText: collapseBlankLines(body.join("\n")),
+    quotedText,
+    signature: signature.join("\n").trim(),
+    isForwarded
+  };
+}
+
+// Forwarded and quoted-history markers written by common mail clients
+const FORWARD_MARKERS = [
+  /^-{2,}\s*Forwarded message\s*-{2,}\s*$/i, // Gmail
+  /^Begin forwarded message:\s*$/i, // Apple Mail
+  /^-{2,}\s*Forwarded by .*-{2,}\s*$/i
+];
+const ORIGINAL_MESSAGE_MARKER = /^-{2,}\s*Original Message\s*-{2,}\s*$/i; // Outlook
+const OUTLOOK_RULE = /^_{10,}\s*$/; // Outlook puts a rule above the From:/Sent: block
+const HEADER_LINE = /^\*?(From|Sent|Date|To|Cc|Subject):\*?\s/i;
+const ATTRIBUTION_END = /\bwrote:\s*$/i; // "On <date>, <name> wrote:" (Gmail, Apple Mail)
+
+function quoteMarkerAt(lines: string[], i: number): "forward" | "quote" | null {
+  const line = lines[i].trim();
+
+  if (FORWARD_MARKERS.some(marker => marker.test(line))) return "forward";
+  if (ORIGINAL_MESSAGE_MARKER.test(line)) return "quote";
+
+  // Gmail wraps long attributions, so the "wrote:" may be on the next line
+  if (/^On\s/i.test(line)) {
+    if (ATTRIBUTION_END.test(line)) return "quote";
+    const next = lines[i + 1]?.trim() || "";
+    if (next && ATTRIBUTION_END.test(`${line} ${next}`)) return "quote";
+  }
+
+  if (OUTLOOK_RULE.test(line) && /^\*?From:/i.test(lines[i + 1]?.trim() || "")) return "quote";
+
+  // An Outlook header block without a rule: From: followed by Sent:/Date: and To:/Subject:
+  if (/^\*?From:\*?\s/i.test(line)) {
+    const following = lines.slice(i + 1, i + 5).map(l => l.trim());
+    if (following.filter(l => HEADER_LINE.test(l)).length >= 2) return "quote";
+  }
+
+  // The rest of the message is ">" quoted
+  if (line.startsWith(">") && lines.slice(i).every(l => !l.trim() || l.trim().startsWith(">"))) {
+    return "quote";
+  }
+
+  return null;
+}
+
+const SIGNATURE_DELIMITER = /^--\s?$/;
+const MOBILE_SIGNATURE = /^(Sent from my .+|Sent from (Mail|Outlook) for .+|Get Outlook for (iOS|Android).*)$/i;
+
+function splitSignature(lines: string[]): { body: string[]; signature: string[] } {
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i].trim();
+    if (SIGNATURE_DELIMITER.test(lines[i]) || MOBILE_SIGNATURE.test(line)) {
+      return { body: lines.slice(0, i), signature: lines.slice(i) };
+    }
+  }
+  return { body: lines, signature: [] };
+}
+
+type EmailParts = Omit<InboundEmail, "from" | "replyText" | "quotedText" | "signature" | "isForwarded"> & {
+  from: EmailAddress | undefined;
+};
+
+function buildEmail(parts: EmailParts): InboundEmail {
+  if (!parts.from) {
+    throw new Error("Inbound email has no sender address");
+  }
+
+  const split = splitReply(parts.text);
+  return {
+    ...parts,
+    from: parts.from,
+    subject: parts.subject.trim(),
+    ...split,
+    isForwarded: split.isForwarded || /^(fwd?|fw):/i.test(parts.subject.trim())
+  };
+}
+
+function fromAddressObjects(value: AddressObject | AddressObject[] | undefined): EmailAddress[] {
+  const objects = Array.isArray(value) ? value : value ? [value] : [];
+  return objects.flatMap(object => object.value)
+    .filter(address => !!address.address)
+    .map(address => ({ address: address.address!.toLowerCase(), name: address.name || null }));
+}
+
+/**
+ * Parse an address header such as `"Doe, Jane" <jane@example.com>, bob@example.com`
+ */
+export function parseAddressList(value: string): EmailAddress[] {
+  const addresses: EmailAddress[] = [];
+  let current = "";
+  let inQuotes = false;
+  let inAngles = false;
+
+  const flush = () => {
+    const part = decodeEncodedWords(current.trim());
+    current = "";
+    if (!part) return;
+
+    const angled = part.match(/^(.*?)<([^>]+)>\s*$/);
+    const address = (angled ? angled[2] : part).trim().toLowerCase();
+    if (!address.includes("@")) return;
+
+    const name = angled ? angled[1].trim().replace(/^"(.*)"$/, "$1").trim() : "";
+    addresses.push({ address, name: name || null });
+  };
+
+  for (const char of value) {
+    if (char === '"' && !inAngles) inQuotes = !inQuotes;
+    else if (char === "<" && !inQuotes) inAngles = true;
+    else if (char === ">" && !inQuotes) inAngles = false;
+
+    if ((char === "," || char === ";") && !inQuotes && !inAngles) {
+      flush();
+    } else {
+      current += char;
+    }
+  }
+  flush();
+
+  return addresses;
+}
+
+function parseMessageIds(value: string): string[] {
+  const bracketed = value.match(/<[^>]+>/g);
+  const ids = bracketed ? bracketed.map(stripAngles) : value.split(/\s+/);
+  return ids.map(id => id.trim()).filter(Boolean);
+}
+
+function stripAngles(value: string): string {
+  return value.trim().replace(/^<|>$/g, "");
+}
+
+// Header names are lowercased; the first occurrence of a header wins
+function parseHeaderBlock(block: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const unfolded = normalizeNewlines(block).replace(/\n[ \t]+/g, " ");
+
+  for (const line of unfolded.split("\n")) {
+    const separator = line.indexOf(":");
+    if (separator <= 0) continue;
+
+    const name = line.slice(0, separator).trim().toLowerCase();
+    if (!(name in headers)) {
+      headers[name] = line.slice(separator + 1).trim();
+    }
+  }
+  return headers;
+}
+
+/**
+ * Decode RFC 2047 encoded words, e.g. =?UTF-8?B?...?= in subjects and names
+ */
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, "$1") // Whitespace between encoded words is dropped
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (match, charset: string, encoding: string, encoded: string) => {
+      try {
+        const bytes = encoding.toUpperCase() === "B"
+          ? Buffer.from(encoded, "base64")
+          : Buffer.from(
+              encoded.replace(/_/g, " ").replace(/=([0-9A-Fa-f]{2})/g, (_m, hex: string) =>
+                String.fromCharCode(parseInt(hex, 16))),
+              "latin1"
+            );
+        return decodeBytes(bytes, charset);
+      } catch {
+        return match;
+      }
+    });
+}
+
+function decodeBytes(bytes: Buffer, charset: string = "utf-8"): string {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+  } catch {
+    return bytes.toString("utf8");
+  }
+}
+
+function fieldText(value: string | Buffer | undefined, charset?: string): string {
+  if (value === undefined) return "";
+  return Buffer.isBuffer(value) ? decodeBytes(value, charset) : value;
+}
+
+function parseJson<T>(value: string): T | null {
+  if (!value) return null;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+function parseDate(value: string): Date | null {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function normalizeNewlines(text: string): string {
+  return text.replace(/\r\n?/g, "\n");
+}
+
+function collapseBlankLines(text: string): string {
+  return text.replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " "
+};
+
+/**
+ * Rough plain text for HTML-only messages. Blockquotes become ">" lines so the
+ * quoted history can still be split off.
+ */
+function htmlToText(html: string): string {
+  const text = html
+    .replace(/<(script|style|head)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, "\n")
+    .replace(/<blockquote[^>]*>([\s\S]*?)<\/blockquote>/gi, (_match, inner: string) =>
+      "\n" + htmlToText(inner).split("\n").map(line => `> ${line}`).join("\n") + "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === "#") {
+        const point = code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return isNaN(point) ? entity : String.fromCodePoint(point);
+      }
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+
+  return collapseBlankLines(text);
+}
+
+function looksLikeFormData(body: Buffer): boolean {
+  const head = body.subarray(0, 2048).toString("latin1");
+  return head.startsWith("--") && /Content-Disposition:\s*form-data/i.test(head);
+}
+
+/**
+ * Split a multipart/form-data body into fields (left as bytes, since their
+ * charset is only known from the `charsets` field) and files
+ */
+export function parseFormData(
+  body: Buffer,
+  contentType: string = ""
+): { fields: Record<string, Buffer>; files: InboundFormFile[] } {
+  const boundaryMatch = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+  const firstLine = body.subarray(0, body.indexOf("\r\n") > 0 ? body.indexOf("\r\n") : 200).toString("latin1");
+  const boundary = boundaryMatch?.[1] || boundaryMatch?.[2] || firstLine.replace(/^--/, "").trim();
+  if (!boundary) {
+    throw new Error("Form data has no boundary");
+  }
+
+  const delimiter = Buffer.from(`--${boundary}`);
+  const fields: Record<string, Buffer> = {};
+  const files: InboundFormFile[] = [];
+
+  let position = body.indexOf(delimiter);
+  while (position !== -1) {
+    const partStart = position + delimiter.length;
+    // "--" after the delimiter marks the end of the body
+    if (body.subarray(partStart, partStart + 2).toString() === "--") break;
+
+    const next = body.indexOf(delimiter, partStart);
+    if (next === -1) break;
+
+    // Each part is CRLF, headers, CRLF CRLF, content, CRLF
+    let part = body.subarray(partStart, next);
+    part = part.subarray(part.subarray(0, 2).toString() === "\r\n" ? 2 : 1);
+    const headerEnd = part.indexOf("\r\n\r\n");
+    if (headerEnd !== -1) {
+      const headers = parseHeaderBlock(part.subarray(0, headerEnd).toString("utf8"));
+      let content = part.subarray(headerEnd + 4);
+      if (content.subarray(-2).toString() === "\r\n") content = content.subarray(0, -2);
+
+      const disposition = headers["content-disposition"] || "";
+      const name = disposition.match(/\bname="([^"]*)"/i)?.[1];
+      const filename = disposition.match(/\bfilename="([^"]*)"/i)?.[1];
+
+      if (name && filename !== undefined) {
+        files.push({
+          fieldname: name,
+          originalname: filename,
+          mimetype: headers["content-type"] || "application/octet-stream",
+          buffer: Buffer.from(content)
+        });
+      } else if (name) {
+        fields[name] = Buffer.from(content);
+      }
+    }
+
+    position = next;
+  }
+
+  return { fields, files };
+}
@@ -3,8 +3,25 @@ import path from "path";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { addConversationRoutes } from "./add-conversation-routes";
-import { startEmailProcessor } from "./enhanced-email-processor";
+import { addSmsRoutes } from "./sms-routes";
+import { addAccountRoutes } from "./account-routes";
+import { addFileRoutes } from "./file-routes";
+import { addBillingRoutes, STRIPE_WEBHOOK_PATH, stripeWebhookBodyParser } from "./billing-routes";
+import { addPremiumRoutes } from "./premium-routes";
+import { addTwoFactorRoutes } from "./two-factor-routes";
+import { addSessionRoutes } from "./session-routes";
+import { addInsightsRoutes } from "./insights-routes";
+import { addWebhookRoutes } from "./webhook-routes";
+import { addSafetyRoutes } from "./safety-routes";
+import { addPromptTemplateRoutes } from "./prompt-template-routes";
+import { addJobRoutes } from "./job-routes";
+import { requireFeature } from "./entitlements";
+import { startJobWorker } from "./job-queue";
 import { startEmailScheduler } from "./scheduler";
+import { startJournalTrashPurge } from "./journal-trash";
+import { startAccountExportWorker } from "./account-data";
+import { startPremiumExpiryWorker } from "./premium-access";
+import { startWebhookDeliveryWorker } from "./webhooks";
 // import { startMoodPatternRecognition } from "./mood-pattern-recognition";
 // import { startConversationInsights } from "./conversation-insights";
 import {
@@ -15,11 +32,11 @@ import {
 } from "./journal-analytics";
 
 const app = express();
+app.use(STRIPE_WEBHOOK_PATH, stripeWebhookBodyParser);
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
-// Serve uploaded files and public directory
-app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
+// Serve the public directory. Uploaded files are private and served through /api/files.
 app.use('/images', express.static(path.join(process.cwd(), 'public/images')));
 // Serve the public directory for favicon and other static assets
 app.use(express.static(path.join(process.cwd(), 'public')));
@@ -56,14 +73,30 @@ app.use((req, res, next) => {
 
   // 2) Conversation & analytics
   addConversationRoutes(app);
-  app.post("/api/journal/summary",    generateJournalSummary);
+  addSmsRoutes(app);
+  addAccountRoutes(app);
+  addFileRoutes(app);
+  addBillingRoutes(app);
+  addPremiumRoutes(app);
+  addTwoFactorRoutes(app);
+  addSessionRoutes(app);
+  addInsightsRoutes(app);
+  addWebhookRoutes(app);
+  addSafetyRoutes(app);
+  addPromptTemplateRoutes(app);
+  addJobRoutes(app);
+  app.post("/api/journal/summary",    requireFeature("ai_summaries"), generateJournalSummary);
   app.post("/api/journal/tags/generate", generateJournalTags);
   app.get( "/api/journal/tags",       getUserTags);
   app.get( "/api/journal/search/tags", searchByTags);
 
   // 3) Background workers
-  startEmailProcessor();
+  startJobWorker();
   startEmailScheduler();
+  startJournalTrashPurge();
+  startAccountExportWorker();
+  startPremiumExpiryWorker();
+  startWebhookDeliveryWorker();
   // startMoodPatternRecognition();
   // startConversationInsights();
 
@@ -0,0 +1,86 @@
+import { type Express, Request, Response } from "express";
+import { insightsService, parseInsightTimeframe, INSIGHT_TIMEFRAMES } from "./insights";
+
+const INVALID_TIMEFRAME = `days must be one of ${INSIGHT_TIMEFRAMES.join(", ")}`;
+
+/**
+ * Add journaling insights routes to Express app. Each takes ?days= for the
+ * timeframe and ?refresh=true to reanalyze instead of using cached results.
+ */
+export function addInsightsRoutes(app: Express) {
+  // Themes, emotional arc, insights and Flappy's summary together
+  app.get("/api/insights/report", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const days = parseInsightTimeframe(req.query.days);
+    if (!days) {
+      return res.status(400).json({ error: INVALID_TIMEFRAME });
+    }
+
+    try {
+      res.json(await insightsService.getReport(req.user, days, req.query.refresh === "true"));
+    } catch (error) {
+      console.error("Error generating insights report:", error);
+      res.status(500).json({ error: "Failed to generate insights" });
+    }
+  });
+
+  // How the user's mood has moved, with its key moments
+  app.get("/api/insights/emotional-arc", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const days = parseInsightTimeframe(req.query.days);
+    if (!days) {
+      return res.status(400).json({ error: INVALID_TIMEFRAME });
+    }
+
+    try {
+      res.json(await insightsService.getEmotionalArc(req.user.id, days, req.query.refresh === "true"));
+    } catch (error) {
+      console.error("Error generating emotional arc:", error);
+      res.status(500).json({ error: "Failed to generate emotional arc" });
+    }
+  });
+
+  // Recurring themes, most frequent first
+  app.get("/api/insights/themes", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const days = parseInsightTimeframe(req.query.days);
+    if (!days) {
+      return res.status(400).json({ error: INVALID_TIMEFRAME });
+    }
+
+    try {
+      res.json(await insightsService.getThemes(req.user.id, days, req.query.refresh === "true"));
+    } catch (error) {
+      console.error("Error analyzing themes:", error);
+      res.status(500).json({ error: "Failed to analyze themes" });
+    }
+  });
+
+  // Mood patterns detected, with recommendations for each
+  app.get("/api/insights/patterns", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const days = parseInsightTimeframe(req.query.days);
+    if (!days) {
+      return res.status(400).json({ error: INVALID_TIMEFRAME });
+    }
+
+    try {
+      res.json(await insightsService.getMoodPatterns(req.user.id, days, req.query.refresh === "true"));
+    } catch (error) {
+      console.error("Error analyzing mood patterns:", error);
+      res.status(500).json({ error: "Failed to analyze mood patterns" });
+    }
+  });
+}
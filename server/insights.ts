@@ -0,0 +1,106 @@
+import type { User } from "@shared/schema";
+import {
+  ConversationInsights,
+  type ConversationTheme,
+  type ConversationInsight,
+  type EmotionalArc,
+} from "./conversation-insights";
+import { MoodPatternRecognition, type MoodPattern } from "./mood-pattern-recognition";
+import { hasFeature } from "./entitlements";
+
+// Timeframes the insights page offers, in days
+export const INSIGHT_TIMEFRAMES = [7, 30, 90] as const;
+export type InsightTimeframe = typeof INSIGHT_TIMEFRAMES[number];
+
+// Analysis is slow and calls the AI, so results are kept for a while
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+// Asking for a refresh does nothing for results younger than this
+const MIN_REFRESH_INTERVAL_MS = 10 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 5000;
+
+export type InsightsReport = {
+  themes: ConversationTheme[];
+  emotionalArc: EmotionalArc | null;
+  insights: ConversationInsight[];
+  summary: string | null; // Null when the user's plan doesn't include AI summaries
+  summaryRequiresUpgrade: boolean;
+  generatedAt: Date;
+};
+
+type CacheEntry = { value: Promise<unknown>; createdAt: number };
+
+// Kept in least recently used order: a hit moves its entry to the end
+const cache = new Map<string, CacheEntry>();
+
+function pruneCache(now: number) {
+  cache.forEach((entry, key) => {
+    if (now - entry.createdAt >= CACHE_TTL_MS) cache.delete(key);
+  });
+  // Still full of fresh entries: drop the least recently used ones
+  const keys = cache.keys();
+  while (cache.size >= MAX_CACHE_ENTRIES) {
+    cache.delete(keys.next().value!);
+  }
+}
+
+// One analysis per key at a time: concurrent requests share the pending
+// promise, and a failed one isn't kept
+function cached<T>(key: string, compute: () => Promise<T>, refresh: boolean): Promise<T> {
+  const now = Date.now();
+  const entry = cache.get(key);
+  if (entry) {
+    const age = now - entry.createdAt;
+    if (age < CACHE_TTL_MS && !(refresh && age >= MIN_REFRESH_INTERVAL_MS)) {
+      cache.delete(key);
+      cache.set(key, entry);
+      return entry.value as Promise<T>;
+    }
+    cache.delete(key);
+  }
+
+  if (cache.size >= MAX_CACHE_ENTRIES) pruneCache(now);
+  const value = compute();
+  const newEntry = { value, createdAt: now };
+  cache.set(key, newEntry);
+  value.catch(() => {
+    if (cache.get(key) === newEntry) cache.delete(key);
+  });
+  return value;
+}
+
+export function parseInsightTimeframe(value: unknown, fallback: InsightTimeframe = 30): InsightTimeframe | null {
+  if (value === undefined) return fallback;
+  const days = Number(value);
+  return (INSIGHT_TIMEFRAMES as readonly number[]).includes(days) ? days as InsightTimeframe : null;
+}
+
+export const insightsService = {
+  getThemes(userId: number, days: InsightTimeframe, refresh = false): Promise<ConversationTheme[]> {
+    return cached(`themes:${userId}:${days}`, () => ConversationInsights.analyzeConversationThemes(userId, days), refresh);
+  },
+
+  getEmotionalArc(userId: number, days: InsightTimeframe, refresh = false): Promise<EmotionalArc | null> {
+    return cached(`arc:${userId}:${days}`, () => ConversationInsights.generateEmotionalArc(userId, days), refresh);
+  },
+
+  getMoodPatterns(userId: number, days: InsightTimeframe, refresh = false): Promise<MoodPattern[]> {
+    return cached(`patterns:${userId}:${days}`, () => MoodPatternRecognition.analyzeUserMoodPatterns(userId, days), refresh);
+  },
+
+  /**
+   * Themes, emotional arc and insights for the timeframe, with Flappy's
+   * summary of them for plans that include AI summaries
+   */
+  getReport(user: User, days: InsightTimeframe, refresh = false): Promise<InsightsReport> {
+    const includeSummary = hasFeature(user, "ai_summaries");
+    return cached(`report:${user.id}:${days}:${includeSummary}`, async () => {
+      const themes = await this.getThemes(user.id, days, refresh);
+      const emotionalArc = await this.getEmotionalArc(user.id, days, refresh);
+      const insights = await ConversationInsights.generateConversationInsights(user.id, days, { themes, emotionalArc });
+      const summary = includeSummary
+        ? await ConversationInsights.generateReportSummary(user.id, themes, emotionalArc, insights)
+        : null;
+      return { themes, emotionalArc, insights, summary, summaryRequiresUpgrade: !includeSummary, generatedAt: new Date() };
+    }, refresh);
+  },
+};
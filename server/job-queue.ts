@@ -0,0 +1,208 @@
+/**
+ * Background jobs, kept in Postgres
+ *
+ * Jobs are claimed with FOR UPDATE SKIP LOCKED, so any number of server
+ * instances can share them, and each instance runs at most a type's
+ * concurrency at once. A job that throws is tried again after 1, 2, 4 and 8
+ * minutes; once MAX_ATTEMPTS have failed it's marked dead and stays until
+ * an admin retries or purges it. Jobs queued with an idempotency key are
+ * only queued once, which soaks up webhook redeliveries, and a retried job
+ * skips the steps it already finished (see server/job-steps.ts).
+ */
+
+import { JOB_TYPES, type Job, type JobType } from "@shared/schema";
+import { storage } from "./storage";
+import { peekMessageId, normalizeInboundPayload } from "./inbound-email";
+import { processInboundEmailJob } from "./enhanced-email-processor";
+import { twilioService, type MmsMedia } from "./twilio";
+import { jobSteps, type JobSteps } from "./job-steps";
+
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const MAX_ERROR_LENGTH = 1000;
+const POLL_INTERVAL_MS = 5 * 1000;
+// Completed jobs are kept a week so their idempotency keys still catch late redeliveries
+const COMPLETED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// What each type of job carries
+export type JobPayloads = {
+  inbound_email: unknown; // As stored by the inbound email webhooks; see normalizeInboundPayload
+  inbound_sms: { from: string; body: string; media: MmsMedia[]; messageSid: string | null };
+};
+
+type JobHandler<T extends JobType> = {
+  run: (payload: JobPayloads[T], steps: JobSteps) => Promise<void>;
+  sender: (payload: JobPayloads[T]) => Promise<string | null>; // Recorded on the job so a deleted account's jobs can be found
+  concurrency: number; // Jobs of the type one instance runs at once
+  leaseMs: number; // How long a job may run before another instance takes it over
+};
+
+const JOB_HANDLERS: { [T in JobType]: JobHandler<T> } = {
+  inbound_email: {
+    run: processInboundEmailJob,
+    // The address the email job will look the user up by; null if it can't be parsed, and the job will fail anyway
+    sender: payload => normalizeInboundPayload(payload).then(email => email.from.address, () => null),
+    concurrency: 2,
+    leaseMs: 10 * 60 * 1000,
+  },
+  inbound_sms: {
+    run: ({ from, body, media }, steps) => twilioService.processIncomingSms(from, body, media, undefined, steps),
+    sender: async ({ from }) => from,
+    concurrency: 4,
+    leaseMs: 5 * 60 * 1000,
+  },
+};
+
+export type JobQueueErrorCode = "not_found" | "not_retryable";
+
+export class JobQueueError extends Error {
+  constructor(public code: JobQueueErrorCode, message: string) {
+    super(message);
+    this.name = "JobQueueError";
+  }
+}
+
+const running = Object.fromEntries(JOB_TYPES.map(type => [type, 0])) as Record<JobType, number>;
+let workerStarted = false;
+let isProcessing = false;
+let runAgain = false;
+
+function retryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1);
+}
+
+async function runJob(job: Job) {
+  const handler = JOB_HANDLERS[job.type] as JobHandler<JobType>;
+  let recorded: Job | undefined;
+  try {
+    await handler.run(job.payload, jobSteps(job));
+    recorded = await storage.updateClaimedJob(job.id, job.attempts, { status: "completed", completedAt: new Date(), lastError: null });
+  } catch (error) {
+    const dead = job.attempts >= MAX_ATTEMPTS;
+    console.error(`❌ ${job.type} job ${job.id} failed on attempt ${job.attempts} of ${MAX_ATTEMPTS}${dead ? "; giving up" : ""}:`, error);
+    const lastError = (error instanceof Error ? error.message : String(error)).slice(0, MAX_ERROR_LENGTH);
+    recorded = await storage.updateClaimedJob(job.id, job.attempts, dead
+      ? { status: "dead", lastError }
+      : { status: "pending", lastError, runAt: new Date(Date.now() + retryDelay(job.attempts)) });
+  }
+  // The lease ran out and another worker claimed the job; its result stands
+  if (!recorded) {
+    console.warn(`⚠️ ${job.type} job ${job.id} was claimed again while attempt ${job.attempts} ran; not recording how it ended`);
+  }
+}
+
+// Claim due jobs of each type up to its free slots and start them. A
+// finishing job frees a slot, so it calls this again.
+async function processDueJobs() {
+  if (isProcessing) {
+    runAgain = true;
+    return;
+  }
+  isProcessing = true;
+
+  try {
+    do {
+      runAgain = false;
+      for (const type of JOB_TYPES) {
+        const { concurrency, leaseMs } = JOB_HANDLERS[type];
+        const free = concurrency - running[type];
+        if (free <= 0) continue;
+
+        for (const job of await storage.claimDueJobs(type, free, leaseMs)) {
+          running[type]++;
+          runJob(job)
+            .catch(error => console.error(`Error recording the result of job ${job.id}:`, error))
+            .finally(() => {
+              running[type]--;
+              processDueJobs();
+            });
+        }
+      }
+    } while (runAgain);
+  } catch (error) {
+    console.error("Error processing jobs:", error);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+async function purgeCompletedJobs() {
+  try {
+    const purged = await storage.purgeJobs("completed", new Date(Date.now() - COMPLETED_RETENTION_MS));
+    if (purged > 0) {
+      console.log(`🧹 Purged ${purged} completed jobs`);
+    }
+  } catch (error) {
+    console.error("Error purging completed jobs:", error);
+  }
+}
+
+// Idempotency key for an inbound email, from its Message-ID
+export function inboundEmailJobKey(payload: unknown): string | null {
+  const messageId = peekMessageId(payload);
+  return messageId ? `email:${messageId}` : null;
+}
+
+// Idempotency key for an inbound text message, from Twilio's MessageSid
+export function inboundSmsJobKey(messageSid: string | null | undefined): string | null {
+  return messageSid ? `sms:${messageSid}` : null;
+}
+
+export const jobQueue = {
+  /**
+   * Queue a job to run as soon as a worker is free. If a job was already
+   * queued with the same idempotency key, that job is returned instead.
+   */
+  async enqueue<T extends JobType>(
+    type: T,
+    payload: JobPayloads[T],
+    options: { idempotencyKey?: string | null; runAt?: Date } = {}
+  ): Promise<{ job: Job; duplicate: boolean }> {
+    const sender = await JOB_HANDLERS[type].sender(payload);
+    const job = await storage.enqueueJob({ type, payload, idempotencyKey: options.idempotencyKey ?? null, sender, runAt: options.runAt });
+    if (job) {
+      if (workerStarted) processDueJobs();
+      return { job, duplicate: false };
+    }
+
+    // Only a job with a key can clash with one already queued
+    const { idempotencyKey } = options;
+    if (!idempotencyKey) {
+      throw new Error(`Couldn't queue ${type} job`);
+    }
+    const existing = await storage.getJobByIdempotencyKey(idempotencyKey);
+    if (!existing) {
+      throw new Error(`Job with key ${idempotencyKey} was removed while being queued`);
+    }
+    return { job: existing, duplicate: true };
+  },
+
+  // Run a dead or waiting job again now, with a fresh set of attempts
+  async retry(id: number): Promise<Job> {
+    const job = await storage.getJob(id);
+    if (!job) {
+      throw new JobQueueError("not_found", "Job not found");
+    }
+    const retried = await storage.retryJob(id);
+    if (!retried) {
+      throw new JobQueueError("not_retryable", `The job is ${job.status}; only dead or waiting jobs can be retried`);
+    }
+    if (workerStarted) processDueJobs();
+    return retried;
+  },
+};
+
+/**
+ * Start the job worker
+ */
+export function startJobWorker() {
+  console.log("🧰 Starting job worker...");
+  workerStarted = true;
+
+  processDueJobs();
+  setInterval(processDueJobs, POLL_INTERVAL_MS);
+
+  purgeCompletedJobs();
+  setInterval(purgeCompletedJobs, PURGE_INTERVAL_MS);
+}
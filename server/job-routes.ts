@@ -0,0 +1,98 @@
+import { type Express, Request, Response } from "express";
+import { JOB_STATUSES, JOB_TYPES, type JobStatus, type JobType } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAdmin } from "./admin";
+import { jobQueue, JobQueueError, type JobQueueErrorCode } from "./job-queue";
+
+const ERROR_STATUSES: Record<JobQueueErrorCode, number> = {
+  not_found: 404,
+  not_retryable: 409,
+};
+
+/**
+ * Add admin routes for inspecting, retrying and purging background jobs to Express app
+ */
+export function addJobRoutes(app: Express) {
+  // Jobs newest first, optionally of one type or status, with the count of each
+  app.get("/api/admin/jobs", requireAdmin, async (req: Request, res: Response) => {
+    const type = req.query.type;
+    if (type !== undefined && !JOB_TYPES.includes(type as JobType)) {
+      return res.status(400).json({ error: `Type must be one of ${JOB_TYPES.join(", ")}` });
+    }
+    const status = req.query.status;
+    if (status !== undefined && !JOB_STATUSES.includes(status as JobStatus)) {
+      return res.status(400).json({ error: `Status must be one of ${JOB_STATUSES.join(", ")}` });
+    }
+    const limit = req.query.limit ? Math.min(parseInt(String(req.query.limit)) || 100, 500) : undefined;
+
+    try {
+      const [jobs, counts] = await Promise.all([
+        storage.getJobs({ type: type as JobType | undefined, status: status as JobStatus | undefined, limit }),
+        storage.getJobCounts(),
+      ]);
+      res.json({ jobs, counts });
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      res.status(500).json({ error: "Failed to fetch jobs" });
+    }
+  });
+
+  app.get("/api/admin/jobs/:id", requireAdmin, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid job ID" });
+    }
+
+    try {
+      const job = await storage.getJob(id);
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching job:", error);
+      res.status(500).json({ error: "Failed to fetch job" });
+    }
+  });
+
+  // Run a dead or waiting job again now
+  app.post("/api/admin/jobs/:id/retry", requireAdmin, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid job ID" });
+    }
+
+    try {
+      const job = await jobQueue.retry(id);
+      console.log(`🧰 ${req.user!.email} retried job ${id}`);
+      res.json(job);
+    } catch (error) {
+      if (error instanceof JobQueueError) {
+        return res.status(ERROR_STATUSES[error.code]).json({ error: error.message, code: error.code });
+      }
+      console.error("Error retrying job:", error);
+      res.status(500).json({ error: "Failed to retry job" });
+    }
+  });
+
+  // Delete completed or dead jobs that finished more than olderThanDays ago (default 0)
+  app.delete("/api/admin/jobs", requireAdmin, async (req: Request, res: Response) => {
+    const status = req.query.status;
+    if (status !== "completed" && status !== "dead") {
+      return res.status(400).json({ error: "Status must be completed or dead" });
+    }
+    const olderThanDays = req.query.olderThanDays ? parseInt(String(req.query.olderThanDays)) : 0;
+    if (isNaN(olderThanDays) || olderThanDays < 0) {
+      return res.status(400).json({ error: "olderThanDays must be a whole number of days" });
+    }
+
+    try {
+      const deleted = await storage.purgeJobs(status, new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000));
+      console.log(`🧹 ${req.user!.email} purged ${deleted} ${status} jobs`);
+      res.json({ deleted });
+    } catch (error) {
+      console.error("Error purging jobs:", error);
+      res.status(500).json({ error: "Failed to purge jobs" });
+    }
+  });
+}
@@ -0,0 +1,36 @@
+/**
+ * Steps of a background job
+ *
+ * A job that throws is run again from the start, so anything it did before
+ * failing would be done twice: a second journal entry, a second reply, a
+ * second set of webhooks. Handlers wrap each such side effect in a named
+ * step. Once a step finishes, what it returned is recorded on the job, and
+ * when the job runs again the step is skipped and that value is returned
+ * instead. Values go through JSON on the way, so steps return ids and plain
+ * values rather than rows, and a step that returns nothing gives back null.
+ */
+
+import type { Job } from "@shared/schema";
+import { storage } from "./storage";
+
+export type JobSteps = {
+  once<T>(step: string, run: () => Promise<T>): Promise<T>;
+};
+
+// For work done outside a job, where nothing is retried and there's nowhere to record steps
+export const untrackedSteps: JobSteps = {
+  once: (_step, run) => run(),
+};
+
+export function jobSteps(job: Job): JobSteps {
+  const finished: Record<string, unknown> = { ...job.progress };
+  return {
+    async once<T>(step: string, run: () => Promise<T>): Promise<T> {
+      if (step in finished) return finished[step] as T;
+      const result = (await run()) ?? null;
+      await storage.recordJobStep(job.id, step, result);
+      finished[step] = result;
+      return result as T;
+    },
+  };
+}
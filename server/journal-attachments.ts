@@ -0,0 +1,160 @@
+import path from "path";
+import type { JournalAttachment, JournalAttachmentSource, JournalEntry, JournalEntryWithAttachments } from "@shared/schema";
+import type { InboundEmailAttachment } from "./inbound-email";
+import { storage } from "./storage";
+import { fileStorage, STORED_FILE_TYPES } from "./file-storage";
+import { saveJournalFile, journalFileKey, journalFileUrl, deleteJournalFile, isOtherUsersJournalFile } from "./file-upload";
+import { readImageSize, extractJpegThumbnail } from "./image-info";
+
+// Limits on what an inbound email or MMS can attach to an entry
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024; // 10MB per file
+export const MAX_ATTACHMENTS_PER_ENTRY = 10;
+
+// Inline images smaller than this are taken to be signature logos and
+// tracking pixels rather than photos
+const MIN_INLINE_IMAGE_BYTES = 8 * 1024;
+
+// A file received by email or MMS, before it is stored
+export type IncomingAttachment = {
+  filename: string | null;
+  contentType: string;
+  content: Buffer;
+};
+
+function normalizeContentType(contentType: string): string {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  return type === 'image/jpg' || type === 'image/pjpeg' ? 'image/jpeg' : type;
+}
+
+export function isAllowedAttachment(contentType: string, size: number): boolean {
+  return normalizeContentType(contentType) in STORED_FILE_TYPES && size > 0 && size <= MAX_ATTACHMENT_BYTES;
+}
+
+// Keep the sender's name for display, minus any path and control characters
+function displayFilename(filename: string | null, contentType: string, index: number): string {
+  const name = path.basename(filename || '').replace(/[\u0000-\u001f\u007f]/g, '').trim().slice(0, 200);
+  return name || `attachment-${index + 1}${STORED_FILE_TYPES[contentType]}`;
+}
+
+/**
+ * The attachments of an inbound email worth keeping on a journal entry
+ */
+export function selectEmailAttachments(attachments: InboundEmailAttachment[]): IncomingAttachment[] {
+  return attachments
+    .filter(attachment => isAllowedAttachment(attachment.contentType, attachment.size))
+    .filter(attachment => !attachment.inline || attachment.size >= MIN_INLINE_IMAGE_BYTES)
+    .slice(0, MAX_ATTACHMENTS_PER_ENTRY)
+    .map(({ filename, contentType, content }) => ({ filename, contentType, content }));
+}
+
+/**
+ * Entry content for a message that was only attachments, e.g. a photo texted with no caption
+ */
+export function attachmentOnlyContent(count: number, channel: 'email' | 'text message'): string {
+  return `${count === 1 ? 'An attachment' : `${count} attachments`} sent by ${channel}`;
+}
+
+/**
+ * Store files on disk and link them to a journal entry. Files of a type that
+ * isn't allowed, or too large, are skipped. Images get their size recorded and,
+ * where the photo embeds one, a thumbnail.
+ */
+export async function addJournalAttachments(
+  entry: JournalEntry,
+  files: IncomingAttachment[],
+  source: JournalAttachmentSource
+): Promise<JournalAttachment[]> {
+  const saved: JournalAttachment[] = [];
+
+  const toSave = files.slice(0, MAX_ATTACHMENTS_PER_ENTRY);
+  for (let index = 0; index < toSave.length; index++) {
+    const file = toSave[index];
+    const contentType = normalizeContentType(file.contentType);
+    if (!isAllowedAttachment(contentType, file.content.length)) {
+      console.warn(`Skipping ${contentType} attachment (${file.content.length} bytes) for journal entry ${entry.id}`);
+      continue;
+    }
+
+    try {
+      const suffix = `${Date.now()}-${Math.round(Math.random() * 1E9)}`;
+      const storageKey = await saveJournalFile(entry.userId, file.content, contentType, suffix);
+
+      let thumbnailKey: string | null = null;
+      const thumbnail = contentType === 'image/jpeg' ? extractJpegThumbnail(file.content) : null;
+      if (thumbnail) {
+        thumbnailKey = await saveJournalFile(entry.userId, thumbnail, 'image/jpeg', `${suffix}_thumb`);
+      }
+
+      const size = contentType.startsWith('image/') ? readImageSize(file.content, contentType) : null;
+
+      saved.push(await storage.createJournalAttachment({
+        entryId: entry.id,
+        userId: entry.userId,
+        storageKey,
+        thumbnailKey,
+        filename: displayFilename(file.filename, contentType, index),
+        contentType,
+        size: file.content.length,
+        width: size?.width ?? null,
+        height: size?.height ?? null,
+        source
+      }));
+    } catch (error) {
+      console.error(`Error saving attachment for journal entry ${entry.id}:`, error);
+    }
+  }
+
+  if (saved.length > 0) {
+    console.log(`📎 Saved ${saved.length} ${source} attachment(s) to journal entry ${entry.id}`);
+  }
+  return saved;
+}
+
+/**
+ * Entries as sent to the client: with their attachments, and signed URLs for
+ * the stored image and files
+ */
+export async function toClientEntries(entries: JournalEntry[]): Promise<JournalEntryWithAttachments[]> {
+  const attachments = await storage.getJournalAttachments(entries.map(entry => entry.id));
+
+  return entries.map(entry => ({
+    ...entry,
+    signedImageUrl: journalFileUrl(entry.imageUrl, entry.userId),
+    attachments: attachments
+      .filter(attachment => attachment.entryId === entry.id)
+      .map(({ storageKey, thumbnailKey, ...attachment }) => ({
+        ...attachment,
+        url: journalFileUrl(storageKey, entry.userId) || '',
+        thumbnailUrl: journalFileUrl(thumbnailKey, entry.userId)
+      }))
+  }));
+}
+
+// Files younger than this are left alone by the orphan sweep: an image is
+// uploaded before the entry it belongs to is saved
+const ORPHAN_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Delete stored journal files that no entry or attachment refers to, e.g.
+ * images replaced in an edit or uploaded for an entry that was never saved.
+ * Returns how many were deleted.
+ */
+export async function removeOrphanedJournalFiles(): Promise<number> {
+  // A reference to another user's file doesn't keep it
+  const referenced = new Set(
+    (await storage.getJournalFileReferences())
+      .filter(({ reference, userId }) => !isOtherUsersJournalFile(reference, userId))
+      .map(({ reference }) => journalFileKey(reference))
+      .filter((key): key is string => !!key)
+  );
+  const cutoff = Date.now() - ORPHAN_GRACE_PERIOD_MS;
+
+  let removed = 0;
+  for (const file of await fileStorage.list('journal/')) {
+    if (!referenced.has(file.key) && journalFileKey(file.key) && file.lastModified.getTime() < cutoff) {
+      await deleteJournalFile(file.key);
+      removed++;
+    }
+  }
+  return removed;
+}
@@ -0,0 +1,54 @@
+import { JOURNAL_TRASH_RETENTION_DAYS } from "@shared/schema";
+import { storage } from "./storage";
+import { removeOrphanedJournalFiles } from "./journal-attachments";
+
+// Interval for purging expired trash (every 6 hours)
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Permanently delete journal entries that have been in the trash longer than
+ * the retention period
+ */
+async function purgeExpiredTrash() {
+  try {
+    const cutoff = new Date(Date.now() - JOURNAL_TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const purged = await storage.purgeExpiredJournalEntries(cutoff);
+
+    if (purged > 0) {
+      console.log(`🗑️ Purged ${purged} journal entries trashed before ${cutoff.toISOString()}`);
+    }
+  } catch (error) {
+    console.error('Error purging expired journal trash:', error);
+  }
+}
+
+/**
+ * Delete stored journal files that no longer belong to any entry
+ */
+async function removeOrphanedFiles() {
+  try {
+    const removed = await removeOrphanedJournalFiles();
+
+    if (removed > 0) {
+      console.log(`🗑️ Removed ${removed} orphaned journal files`);
+    }
+  } catch (error) {
+    console.error('Error removing orphaned journal files:', error);
+  }
+}
+
+/**
+ * Start the journal trash purge job, which also sweeps up orphaned files
+ */
+export function startJournalTrashPurge() {
+  console.log('🗑️ Starting journal trash purge job...');
+
+  const run = async () => {
+    await purgeExpiredTrash();
+    await removeOrphanedFiles();
+  };
+
+  // Run once shortly after startup, then on a fixed interval
+  setTimeout(run, 30000);
+  setInterval(run, PURGE_INTERVAL_MS);
+}
@@ -0,0 +1,485 @@
+/**
+ * LLM provider layer
+ *
+ * Every model call in the app goes through an LLMProvider: plain chat
+ * completion, JSON-mode completion, streaming and embeddings. Providers are
+ * looked up by role from a registry, so which backend serves each role is a
+ * matter of configuration:
+ *
+ *   LLM_PROVIDER                 - use this provider for every role (e.g. "mock")
+ *   LLM_CREATIVE_PROVIDER        - Flappy's voice (default "venice")
+ *   LLM_ANALYTICAL_PROVIDER      - structured / reasoning tasks (default "openai")
+ *   LLM_EMBEDDING_PROVIDER       - embeddings (default "openai")
+ *   LLM_MOCK_SCRIPT              - path to a JSON script for the mock provider
+ *
+ * The mock provider is deterministic and needs no API keys, so every feature
+ * can run offline.
+ */
+
+import OpenAI from "openai";
+import fs from "fs";
+
+export type LLMRole = "creative" | "analytical" | "embedding";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  // Let the model search the web, where the provider supports it
+  webSearch?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  // Model used by embed(); vectors from different models are not comparable
+  readonly embeddingModel: string;
+  isConfigured(): boolean;
+  complete(request: CompletionRequest): Promise<string>;
+  completeJson<T = any>(request: CompletionRequest): Promise<T>;
+  // Calls onDelta with each new piece of text and resolves with the full text
+  stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<string>;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class LLMProviderError extends Error {
+  constructor(public provider: string, message: string) {
+    super(`${provider}: ${message}`);
+    this.name = "LLMProviderError";
+  }
+}
+
+const DEFAULT_ROLE_PROVIDERS: Record<LLMRole, string> = {
+  creative: "venice",
+  analytical: "openai",
+  embedding: "openai",
+};
+
+/**
+ * Pull a JSON object out of a model reply that may wrap it in prose or a code fence
+ */
+export function parseJsonReply<T = any>(provider: string, text: string): T {
+  try {
+    return JSON.parse(text);
+  } catch {
+    const start = text.indexOf("{");
+    const end = text.lastIndexOf("}");
+    if (start >= 0 && end > start) {
+      try {
+        return JSON.parse(text.slice(start, end + 1));
+      } catch {
+        // Fall through to the error below
+      }
+    }
+    throw new LLMProviderError(provider, "Reply was not valid JSON");
+  }
+}
+
+/**
+ * Read an OpenAI-style SSE body ("data: {json}" lines ending with "data: [DONE]")
+ */
+async function readCompletionStream(
+  body: ReadableStream<Uint8Array>,
+  onDelta: (text: string) => void
+): Promise<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let full = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      const data = line.trim();
+      if (!data.startsWith("data:")) continue;
+
+      const payload = data.slice(5).trim();
+      if (payload === "[DONE]") continue;
+
+      try {
+        const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+        if (delta) {
+          full += delta;
+          onDelta(delta);
+        }
+      } catch {
+        // Ignore keep-alive or malformed lines
+      }
+    }
+  }
+
+  return full;
+}
+
+/**
+ * OpenAI, through the official SDK
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = "openai";
+  private client: OpenAI | null = null;
+  private model = process.env.OPENAI_MODEL || "gpt-4o";
+  readonly embeddingModel = process.env.OPENAI_EMBEDDING_MODEL || "text-embedding-3-small";
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  private getClient(): OpenAI {
+    if (!this.isConfigured()) {
+      throw new LLMProviderError(this.name, "OPENAI_API_KEY is not set");
+    }
+    if (!this.client) {
+      this.client = new OpenAI({
+        apiKey: process.env.OPENAI_API_KEY,
+        timeout: 30000, // 30 second timeout
+        maxRetries: 2
+      });
+    }
+    return this.client;
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await this.getClient().chat.completions.create({
+      model: request.model || this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: request.topP
+    }, { signal: request.signal });
+
+    return response.choices[0]?.message?.content || "";
+  }
+
+  async completeJson<T = any>(request: CompletionRequest): Promise<T> {
+    const response = await this.getClient().chat.completions.create({
+      model: request.model || this.model,
+      messages: request.messages,
+      response_format: { type: "json_object" },
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: request.topP
+    }, { signal: request.signal });
+
+    return parseJsonReply<T>(this.name, response.choices[0]?.message?.content || "");
+  }
+
+  async stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<string> {
+    const stream = await this.getClient().chat.completions.create({
+      model: request.model || this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      top_p: request.topP,
+      stream: true
+    }, { signal: request.signal });
+
+    let full = "";
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        full += delta;
+        onDelta(delta);
+      }
+    }
+    return full;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.getClient().embeddings.create({
+      model: this.embeddingModel,
+      input: texts
+    });
+    return response.data.map(item => item.embedding);
+  }
+}
+
+/**
+ * Venice AI, through its OpenAI-compatible REST API
+ */
+export class VeniceProvider implements LLMProvider {
+  readonly name = "venice";
+  private baseUrl = process.env.VENICE_API_URL || "https://api.venice.ai/api/v1";
+  private model = process.env.VENICE_MODEL || "llama-3.1-405b";
+  readonly embeddingModel = process.env.VENICE_EMBEDDING_MODEL || "text-embedding-bge-m3";
+
+  isConfigured(): boolean {
+    return !!process.env.VENICE_API_KEY;
+  }
+
+  private async post(path: string, body: Record<string, any>, signal?: AbortSignal): Promise<Response> {
+    if (!this.isConfigured()) {
+      throw new LLMProviderError(this.name, "VENICE_API_KEY is not set");
+    }
+
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.VENICE_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "");
+      throw new LLMProviderError(this.name, `API error ${response.status}: ${errorText}`);
+    }
+    return response;
+  }
+
+  private completionBody(request: CompletionRequest, stream: boolean) {
+    return {
+      model: request.model || this.model,
+      messages: request.messages,
+      venice_parameters: {
+        enable_web_search: request.webSearch ? "on" : "off",
+        include_venice_system_prompt: false
+      },
+      max_tokens: request.maxTokens ?? 1000,
+      temperature: request.temperature ?? 0.8,
+      top_p: request.topP ?? 0.9,
+      stream
+    };
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await this.post("/chat/completions", this.completionBody(request, false), request.signal);
+    const data = await response.json();
+    const content = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+      throw new LLMProviderError(this.name, "No content in response");
+    }
+    return content;
+  }
+
+  // Venice has no JSON mode, so the prompt has to ask for JSON and we parse what comes back
+  async completeJson<T = any>(request: CompletionRequest): Promise<T> {
+    return parseJsonReply<T>(this.name, await this.complete(request));
+  }
+
+  async stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<string> {
+    const response = await this.post("/chat/completions", this.completionBody(request, true), request.signal);
+    if (!response.body) {
+      throw new LLMProviderError(this.name, "Streaming response had no body");
+    }
+    return await readCompletionStream(response.body, onDelta);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.post("/embeddings", {
+      model: this.embeddingModel,
+      input: texts,
+      encoding_format: "float"
+    });
+    const data = await response.json();
+    return data.data.map((item: { embedding: number[] }) => item.embedding);
+  }
+}
+
+/**
+ * One scripted reply. `match` is tested case-insensitively against the last
+ * user message: a plain string matches as a substring, "/.../" as a regex.
+ * Rules are tried in order and the first match wins.
+ */
+export interface MockScriptRule {
+  match?: string;
+  response?: string;
+  json?: any;
+}
+
+// Number of dimensions in mock embeddings
+const MOCK_EMBEDDING_DIMENSIONS = 256;
+// Only the latest requests are kept, so a mock serving real traffic doesn't grow without bound
+const MOCK_MAX_RECORDED_REQUESTS = 100;
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic offline provider. The same request always gets the same reply,
+ * and the latest requests are recorded so tests can assert on what was sent.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = "mock";
+  readonly embeddingModel = `mock-hash-${MOCK_EMBEDDING_DIMENSIONS}`;
+  readonly requests: CompletionRequest[] = [];
+  private script: MockScriptRule[] = [];
+
+  constructor() {
+    const scriptPath = process.env.LLM_MOCK_SCRIPT;
+    if (scriptPath) {
+      try {
+        this.script = JSON.parse(fs.readFileSync(scriptPath, "utf8"));
+        console.log(`🧪 Loaded ${this.script.length} mock LLM rules from ${scriptPath}`);
+      } catch (error) {
+        console.error(`Failed to load mock LLM script from ${scriptPath}:`, error);
+      }
+    }
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  setScript(rules: MockScriptRule[]): void {
+    this.script = rules;
+  }
+
+  reset(): void {
+    this.script = [];
+    this.requests.length = 0;
+  }
+
+  private record(request: CompletionRequest): void {
+    this.requests.push(request);
+    if (this.requests.length > MOCK_MAX_RECORDED_REQUESTS) this.requests.shift();
+  }
+
+  private findRule(request: CompletionRequest): MockScriptRule | undefined {
+    const lastUserMessage = [...request.messages].reverse().find(m => m.role === "user")
+      || request.messages[request.messages.length - 1];
+    const text = lastUserMessage?.content || "";
+
+    return this.script.find(rule => {
+      if (!rule.match) return true;
+      if (rule.match.length > 2 && rule.match.startsWith("/") && rule.match.endsWith("/")) {
+        return new RegExp(rule.match.slice(1, -1), "i").test(text);
+      }
+      return text.toLowerCase().includes(rule.match.toLowerCase());
+    });
+  }
+
+  private defaultReply(request: CompletionRequest): string {
+    const replies = [
+      "Thank you for sharing that with me. What feels most important about it right now?",
+      "I hear you. What would you like to explore a little further?",
+      "That sounds meaningful. How are you feeling as you think about it?",
+      "I'm glad you told me. What is one small thing you could do for yourself today?"
+    ];
+    const seed = request.messages.map(m => m.content).join("\n");
+    return replies[hashString(seed) % replies.length];
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    this.record(request);
+    const rule = this.findRule(request);
+    if (rule?.response !== undefined) return rule.response;
+    if (rule?.json !== undefined) return JSON.stringify(rule.json);
+    return this.defaultReply(request);
+  }
+
+  async completeJson<T = any>(request: CompletionRequest): Promise<T> {
+    this.record(request);
+    const rule = this.findRule(request);
+    if (rule?.json !== undefined) return rule.json;
+    if (rule?.response !== undefined) {
+      try {
+        return JSON.parse(rule.response);
+      } catch {
+        return { subject: "Message from Flappy", content: rule.response } as T;
+      }
+    }
+    return { subject: "Message from Flappy", content: this.defaultReply(request) } as T;
+  }
+
+  async stream(request: CompletionRequest, onDelta: (text: string) => void): Promise<string> {
+    const text = await this.complete(request);
+    for (const piece of text.split(/(?<=\s)/)) {
+      if (request.signal?.aborted) {
+        throw new LLMProviderError(this.name, "Stream aborted");
+      }
+      onDelta(piece);
+    }
+    return text;
+  }
+
+  // Feature-hashed bag of words, normalised to unit length, so texts that share
+  // words come out similar
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => {
+      const vector = new Array(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+      for (const word of text.toLowerCase().match(/[a-z0-9']+/g) || []) {
+        const hash = hashString(word);
+        vector[hash % MOCK_EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -1 : 1;
+      }
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+      return vector.map(v => v / norm);
+    });
+  }
+}
+
+/**
+ * Registry of provider factories. Instances are created on first use and reused.
+ */
+export class LLMProviderRegistry {
+  private factories = new Map<string, () => LLMProvider>();
+  private instances = new Map<string, LLMProvider>();
+
+  register(name: string, factory: () => LLMProvider): void {
+    this.factories.set(name, factory);
+    this.instances.delete(name);
+  }
+
+  get(name: string): LLMProvider {
+    let provider = this.instances.get(name);
+    if (!provider) {
+      const factory = this.factories.get(name);
+      if (!factory) {
+        throw new Error(`Unknown LLM provider "${name}" (available: ${this.names().join(", ")})`);
+      }
+      provider = factory();
+      this.instances.set(name, provider);
+    }
+    return provider;
+  }
+
+  names(): string[] {
+    return Array.from(this.factories.keys());
+  }
+
+  /**
+   * Name of the provider configured for a role
+   */
+  providerNameFor(role: LLMRole): string {
+    return process.env.LLM_PROVIDER
+      || process.env[`LLM_${role.toUpperCase()}_PROVIDER`]
+      || DEFAULT_ROLE_PROVIDERS[role];
+  }
+
+  forRole(role: LLMRole): LLMProvider {
+    return this.get(this.providerNameFor(role));
+  }
+}
+
+export const llmProviders = new LLMProviderRegistry();
+llmProviders.register("openai", () => new OpenAIProvider());
+llmProviders.register("venice", () => new VeniceProvider());
+llmProviders.register("mock", () => new MockProvider());
+
+/**
+ * Provider configured for a role
+ */
+export function getLLMProvider(role: LLMRole): LLMProvider {
+  return llmProviders.forRole(role);
+}
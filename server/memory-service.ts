@@ -8,27 +8,15 @@ import {
   Email,
   SmsMessage
 } from '@shared/schema';
-import OpenAI from "openai";
 import { v4 as uuidv4 } from 'uuid';
+import { getLLMProvider } from "./llm-provider";
+import { embeddingService } from "./embedding-service";
 
-// Initialize OpenAI client
-const apiKey = process.env.OPENAI_API_KEY;
-let openai: OpenAI | null = null;
+// Most recent journal entries considered when looking for related entries
+const RELATED_JOURNAL_CANDIDATES = 200;
 
-try {
-  if (apiKey) {
-    openai = new OpenAI({ 
-      apiKey: apiKey,
-      timeout: 30000,
-      maxRetries: 2
-    });
-  } else {
-    console.warn('OpenAI API key is not configured. Memory analysis will be limited.');
-  }
-} catch (error) {
-  console.error('Failed to initialize OpenAI client for memory service:', error);
-  openai = null;
-}
+// Journal entries less similar than this are not worth bringing up
+const MIN_JOURNAL_SIMILARITY = 0.3;
 
 export const memoryService = {
   /**
@@ -90,7 +78,7 @@ export const memoryService = {
   },
   
   /**
-   * Analyze content using OpenAI to extract topics and sentiment
+   * Analyze content using the analytical LLM provider to extract topics and sentiment
    */
   async analyzeContent(content: string): Promise<{
     topics: Array<{
@@ -104,13 +92,13 @@ export const memoryService = {
     }>;
   } | null> {
     try {
-      if (!openai) {
-        // Return simple analysis if OpenAI is not available
+      const provider = getLLMProvider("analytical");
+      if (!provider.isConfigured()) {
+        // Return simple analysis if no provider is available
         return this.fallbackAnalysis(content);
       }
       
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const analysis = await provider.completeJson({
         messages: [
           {
             role: "system",
@@ -136,22 +124,15 @@ export const memoryService = {
             content: content
           }
         ],
-        response_format: { type: "json_object" },
         temperature: 0.5,
-        max_tokens: 800
+        maxTokens: 800
       });
       
-      const analysisText = response.choices[0].message.content;
-      if (!analysisText) {
+      if (!analysis || !Array.isArray(analysis.topics)) {
         return this.fallbackAnalysis(content);
       }
       
-      try {
-        return JSON.parse(analysisText);
-      } catch (parseError) {
-        console.error('Error parsing OpenAI analysis response:', parseError);
-        return this.fallbackAnalysis(content);
-      }
+      return analysis;
     } catch (error) {
       console.error('Error analyzing content:', error);
       return this.fallbackAnalysis(content);
@@ -170,10 +151,12 @@ export const memoryService = {
         return [];
       }
       
-      // If we have OpenAI, use it to rank memories by relevance
-      if (openai) {
+      // Rank memories by how close they are in meaning to the current context
+      try {
         const rankedMemories = await this.rankMemoriesByRelevance(allMemories, currentContext);
         return rankedMemories.slice(0, limit);
+      } catch (error) {
+        console.error('Error ranking memories by similarity:', error);
       }
       
       // Fallback: Return most frequent and recent memories
@@ -195,70 +178,63 @@ export const memoryService = {
   },
   
   /**
-   * Rank memories by relevance to current context
+   * Rank memories by semantic similarity to the current context, most relevant first
    */
   async rankMemoriesByRelevance(memories: ConversationMemory[], currentContext: string): Promise<ConversationMemory[]> {
+    if (memories.length === 0 || !currentContext.trim()) {
+      return memories;
+    }
+    
+    const matches = await embeddingService.rankBySimilarity(
+      memories[0].userId,
+      currentContext,
+      "memory",
+      memories,
+      memory => this.getMemoryText(memory)
+    );
+    
+    return matches.map(match => match.item);
+  },
+  
+  /**
+   * Find past journal entries related in meaning to the current context
+   */
+  async getRelatedJournalEntries(userId: number, currentContext: string, limit: number = 3): Promise<JournalEntry[]> {
     try {
-      if (!openai || memories.length === 0) {
-        return memories;
-      }
-      
-      const memoryDescriptions = memories.map((memory, index) => 
-        `Memory ${index + 1}: Topic: ${memory.topic}, Context: ${memory.context}, Sentiment: ${memory.sentiment}, Times discussed: ${memory.frequency}`
-      ).join('\n');
-      
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: `You are a memory relevance analyst. Rank the following memories by their relevance to the current context.
-            Consider:
-            1. How related the memory topic is to the current context
-            2. How important the memory might be for the conversation
-            3. If the memory could add value to the response
-            
-            Respond with a JSON array of memory indexes in order of relevance:
-            {"ranking": [3, 1, 5, 2, 4]} where the numbers correspond to Memory 3, Memory 1, etc.`
-          },
-          {
-            role: "user",
-            content: `Current context: ${currentContext}\n\nMemories:\n${memoryDescriptions}`
-          }
-        ],
-        response_format: { type: "json_object" },
-        temperature: 0.3,
-        max_tokens: 200
-      });
+      // Entries come newest first
+      const entries = (await storage.getJournalEntries(userId)).slice(0, RELATED_JOURNAL_CANDIDATES);
       
-      const rankingText = response.choices[0].message.content;
-      if (!rankingText) {
-        return memories;
-      }
+      const matches = await embeddingService.rankBySimilarity(
+        userId,
+        currentContext,
+        "journal_entry",
+        entries,
+        entry => entry.title ? `${entry.title}\n\n${entry.content}` : entry.content
+      );
       
-      try {
-        const ranking = JSON.parse(rankingText) as { ranking: number[] };
-        
-        // Convert ranking to 0-based indexes and filter out invalid indexes
-        const validIndexes = ranking.ranking
-          .map(rank => rank - 1)
-          .filter(index => index >= 0 && index < memories.length);
-        
-        // Return memories in ranked order, followed by any that weren't ranked
-        const rankedMemories = validIndexes.map(index => memories[index]);
-        const unrankedMemories = memories.filter((_, index) => !validIndexes.includes(index));
-        
-        return [...rankedMemories, ...unrankedMemories];
-      } catch (parseError) {
-        console.error('Error parsing memory ranking:', parseError);
-        return memories;
-      }
+      return matches
+        .filter(match => match.score >= MIN_JOURNAL_SIMILARITY)
+        .slice(0, limit)
+        .map(match => match.item);
     } catch (error) {
-      console.error('Error ranking memories:', error);
-      return memories;
+      console.error('Error finding related journal entries:', error);
+      return [];
     }
   },
   
+  /**
+   * Text embedded for a memory
+   */
+  getMemoryText(memory: ConversationMemory): string {
+    return [
+      memory.topic,
+      memory.context,
+      memory.category,
+      memory.emotionalTone,
+      memory.growthOpportunity
+    ].filter(Boolean).join('. ');
+  },
+  
   /**
    * Generate conversation context from memories
    */
@@ -294,7 +270,7 @@ export const memoryService = {
   },
   
   /**
-   * Simple fallback analysis when OpenAI is not available
+   * Simple fallback analysis when no LLM provider is available
    */
   fallbackAnalysis(content: string): { topics: Array<{ name: string; sentiment: string; importance: number; context: string; }> } {
     // Extract simple topic from first sentence
@@ -3,6 +3,7 @@ import { drizzle } from 'drizzle-orm/neon-serverless';
 import { migrate } from 'drizzle-orm/neon-serverless/migrator';
 import * as schema from "../shared/schema";
 import ws from "ws";
+import { normalizeInboundPayload } from "./inbound-email";
 
 // Configure WebSocket for Neon serverless
 neonConfig.webSocketConstructor = ws;
@@ -170,17 +171,540 @@ async function runMigration() {
     `);
     console.log("Created email_queue table");
 
-    // Create sessions table for connect-pg-simple
+    // Create delivery_schedules table
     await pool.query(`
-      CREATE TABLE IF NOT EXISTS "session" (
-        "sid" varchar NOT NULL COLLATE "default",
-        "sess" json NOT NULL,
-        "expire" timestamp(6) NOT NULL,
-        CONSTRAINT "session_pkey" PRIMARY KEY ("sid")
+      CREATE TABLE IF NOT EXISTS delivery_schedules (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        channel TEXT NOT NULL,
+        next_due_at TIMESTAMP NOT NULL,
+        schedule_key TEXT NOT NULL,
+        last_sent_at TIMESTAMP,
+        last_sent_local_date TEXT,
+        updated_at TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT delivery_schedules_user_channel UNIQUE (user_id, channel)
+      );
+      CREATE INDEX IF NOT EXISTS idx_delivery_schedules_next_due ON delivery_schedules (next_due_at);
+    `);
+    console.log("Created delivery_schedules table");
+
+    // Create threads and messages tables
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS threads (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        channel TEXT NOT NULL,
+        external_id TEXT NOT NULL,
+        subject TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT now(),
+        last_message_at TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT threads_user_channel_external UNIQUE (user_id, channel, external_id)
+      );
+      CREATE INDEX IF NOT EXISTS idx_threads_user_last_message ON threads (user_id, last_message_at DESC);
+
+      CREATE TABLE IF NOT EXISTS messages (
+        id SERIAL PRIMARY KEY,
+        thread_id INTEGER NOT NULL REFERENCES threads(id),
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        role TEXT NOT NULL,
+        channel TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT now(),
+        source_type TEXT,
+        source_id INTEGER,
+        journal_entry_id INTEGER,
+        mood TEXT,
+        metadata JSONB,
+        CONSTRAINT messages_source_role UNIQUE (source_type, source_id, role)
+      );
+      CREATE INDEX IF NOT EXISTS idx_messages_thread_created ON messages (thread_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_messages_user_created ON messages (user_id, created_at DESC);
+    `);
+    console.log("Created threads and messages tables");
+
+    // Older databases created the emails table before threading columns existed
+    await pool.query(`
+      ALTER TABLE emails ADD COLUMN IF NOT EXISTS conversation_id TEXT;
+      ALTER TABLE emails ADD COLUMN IF NOT EXISTS direction TEXT;
+    `);
+
+    // Backfill threads and messages from the legacy single-row tables. Every
+    // statement is idempotent, so the migration can be re-run safely.
+    await pool.query(`
+      -- Chat: conversations had no thread ID, so each user's history becomes one chat thread
+      INSERT INTO threads (user_id, channel, external_id, created_at, last_message_at)
+      SELECT user_id, 'chat', 'default', MIN(created_at), MAX(created_at)
+      FROM conversations
+      GROUP BY user_id
+      ON CONFLICT (user_id, channel, external_id) DO NOTHING;
+
+      INSERT INTO messages (thread_id, user_id, role, channel, content, created_at, source_type, source_id, journal_entry_id, mood)
+      SELECT t.id, c.user_id, 'user', 'chat', c.user_message, c.created_at, 'conversation', c.id, c.journal_entry_id, c.mood
+      FROM conversations c
+      JOIN threads t ON t.user_id = c.user_id AND t.channel = 'chat' AND t.external_id = 'default'
+      ON CONFLICT (source_type, source_id, role) DO NOTHING;
+
+      INSERT INTO messages (thread_id, user_id, role, channel, content, created_at, source_type, source_id, metadata)
+      SELECT t.id, c.user_id, 'assistant', 'chat', c.flappy_response, c.created_at, 'conversation', c.id,
+        CASE WHEN c.reflection_prompt IS NOT NULL THEN jsonb_build_object('reflectionPrompt', c.reflection_prompt) END
+      FROM conversations c
+      JOIN threads t ON t.user_id = c.user_id AND t.channel = 'chat' AND t.external_id = 'default'
+      ON CONFLICT (source_type, source_id, role) DO NOTHING;
+
+      -- Email: grouped by conversation_id; emails without one stand alone
+      INSERT INTO threads (user_id, channel, external_id, subject, created_at, last_message_at)
+      SELECT user_id, 'email', COALESCE(NULLIF(conversation_id, ''), 'email:' || id),
+        (array_agg(subject ORDER BY sent_at))[1], MIN(sent_at), MAX(sent_at)
+      FROM emails
+      GROUP BY user_id, COALESCE(NULLIF(conversation_id, ''), 'email:' || id)
+      ON CONFLICT (user_id, channel, external_id) DO NOTHING;
+
+      INSERT INTO messages (thread_id, user_id, role, channel, content, created_at, source_type, source_id, metadata)
+      SELECT t.id, e.user_id,
+        CASE WHEN e.direction = 'inbound' OR e.type = 'inbound' THEN 'user' ELSE 'assistant' END,
+        'email', e.content, e.sent_at, 'email', e.id,
+        jsonb_build_object('subject', e.subject, 'messageId', e.message_id)
+      FROM emails e
+      JOIN threads t ON t.user_id = e.user_id AND t.channel = 'email'
+        AND t.external_id = COALESCE(NULLIF(e.conversation_id, ''), 'email:' || e.id)
+      ON CONFLICT (source_type, source_id, role) DO NOTHING;
+
+      -- SMS: one thread per phone number
+      INSERT INTO threads (user_id, channel, external_id, created_at, last_message_at)
+      SELECT user_id, 'sms', 'sms:' || phone_number, MIN(sent_at), MAX(sent_at)
+      FROM sms_messages
+      GROUP BY user_id, phone_number
+      ON CONFLICT (user_id, channel, external_id) DO NOTHING;
+
+      INSERT INTO messages (thread_id, user_id, role, channel, content, created_at, source_type, source_id, journal_entry_id, metadata)
+      SELECT t.id, s.user_id,
+        CASE WHEN s.direction = 'inbound' THEN 'user' ELSE 'assistant' END,
+        'sms', s.content, s.sent_at, 'sms', s.id, s.journal_entry_id,
+        CASE WHEN s.twilio_sid IS NOT NULL THEN jsonb_build_object('twilioSid', s.twilio_sid) END
+      FROM sms_messages s
+      JOIN threads t ON t.user_id = s.user_id AND t.channel = 'sms' AND t.external_id = 'sms:' || s.phone_number
+      ON CONFLICT (source_type, source_id, role) DO NOTHING;
+    `);
+    console.log("Backfilled threads and messages from conversations, emails and sms_messages");
+
+    // Older databases created journal_entries before soft delete existed
+    await pool.query(`
+      ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+      CREATE INDEX IF NOT EXISTS idx_journal_entries_deleted_at ON journal_entries (deleted_at) WHERE deleted_at IS NOT NULL;
+    `);
+
+    // Create journal_entry_revisions table, seeding revision 1 for entries
+    // written before revisions were tracked
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS journal_entry_revisions (
+        id SERIAL PRIMARY KEY,
+        entry_id INTEGER NOT NULL REFERENCES journal_entries(id),
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        revision_number INTEGER NOT NULL,
+        title TEXT,
+        content TEXT NOT NULL,
+        mood TEXT,
+        tags JSON,
+        source TEXT NOT NULL,
+        restored_from_revision INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT journal_entry_revisions_entry_number UNIQUE (entry_id, revision_number)
+      );
+
+      INSERT INTO journal_entry_revisions (entry_id, user_id, revision_number, title, content, mood, tags, source, created_at)
+      SELECT id, user_id, 1, title, content, mood, tags, 'create', updated_at
+      FROM journal_entries
+      ON CONFLICT (entry_id, revision_number) DO NOTHING;
+    `);
+    console.log("Created journal_entry_revisions table");
+
+    // Create embeddings table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS embeddings (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        source_type TEXT NOT NULL,
+        source_id INTEGER NOT NULL,
+        model TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        vector JSONB NOT NULL,
+        updated_at TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT embeddings_source_model UNIQUE (source_type, source_id, model)
+      );
+      CREATE INDEX IF NOT EXISTS idx_embeddings_user_model ON embeddings (user_id, model, source_type);
+    `);
+    console.log("Created embeddings table");
+
+    // Mark deleted accounts, whose rows are kept anonymized
+    await pool.query(`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+    `);
+    console.log("Added deleted_at column to users");
+
+    // Create account exports table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS account_exports (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        status TEXT NOT NULL DEFAULT 'pending',
+        file_path TEXT,
+        file_size INTEGER,
+        error_message TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT now(),
+        completed_at TIMESTAMP,
+        expires_at TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_account_exports_user ON account_exports (user_id, created_at);
+    `);
+    console.log("Created account_exports table");
+
+    // Create journal_attachments table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS journal_attachments (
+        id SERIAL PRIMARY KEY,
+        entry_id INTEGER NOT NULL REFERENCES journal_entries(id),
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        storage_key TEXT NOT NULL,
+        thumbnail_key TEXT,
+        filename TEXT NOT NULL,
+        content_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        width INTEGER,
+        height INTEGER,
+        source TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT now()
+      );
+      CREATE INDEX IF NOT EXISTS idx_journal_attachments_entry ON journal_attachments (entry_id);
+    `);
+    console.log("Created journal_attachments table");
+
+    // Attachments first stored public /uploads URLs; they now hold storage keys
+    await pool.query(`
+      DO $$
+      BEGIN
+        IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'journal_attachments' AND column_name = 'url') THEN
+          ALTER TABLE journal_attachments RENAME COLUMN url TO storage_key;
+          ALTER TABLE journal_attachments RENAME COLUMN thumbnail_url TO thumbnail_key;
+          UPDATE journal_attachments SET
+            storage_key = regexp_replace(storage_key, '^.*/uploads/', ''),
+            thumbnail_key = regexp_replace(thumbnail_key, '^.*/uploads/', '');
+        END IF;
+      END $$;
+    `);
+    console.log("Moved journal_attachments to storage keys");
+
+    // Subscription state mirrored from Stripe by the billing webhook
+    await pool.query(`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS stripe_subscription_id TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS subscription_status TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS cancel_at_period_end BOOLEAN NOT NULL DEFAULT false;
+      CREATE INDEX IF NOT EXISTS idx_users_stripe_customer ON users (stripe_customer_id);
+      CREATE INDEX IF NOT EXISTS idx_billing_transactions_invoice ON billing_transactions (stripe_invoice_id);
+    `);
+    console.log("Added Stripe subscription columns to users");
+
+    // Create stripe_events table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS stripe_events (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        processed_at TIMESTAMP NOT NULL DEFAULT now()
+      );
+    `);
+    console.log("Created stripe_events table");
+
+    // Premium from free trials and promo codes, alongside Stripe
+    await pool.query(`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS premium_source TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS trial_ends_at TIMESTAMP;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS premium_reminder_sent_at TIMESTAMP;
+      UPDATE users SET premium_source = 'stripe'
+        WHERE premium_source IS NULL AND is_premium AND stripe_subscription_id IS NOT NULL;
+    `);
+    console.log("Added premium source columns to users");
+
+    // Create promo code tables
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS promo_codes (
+        id SERIAL PRIMARY KEY,
+        code TEXT NOT NULL UNIQUE,
+        description TEXT,
+        duration_days INTEGER NOT NULL,
+        max_redemptions INTEGER,
+        redemption_count INTEGER NOT NULL DEFAULT 0,
+        expires_at TIMESTAMP,
+        disabled_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT now()
+      );
+      CREATE TABLE IF NOT EXISTS promo_redemptions (
+        id SERIAL PRIMARY KEY,
+        promo_code_id INTEGER NOT NULL REFERENCES promo_codes(id),
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        premium_until TIMESTAMP NOT NULL,
+        redeemed_at TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT promo_redemptions_code_user UNIQUE (promo_code_id, user_id)
+      );
+    `);
+    console.log("Created promo code tables");
+
+    // Password reset and email verification. Accounts that existed before
+    // verification are treated as verified; only new sign-ups must confirm.
+    await pool.query(`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS reset_token TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS reset_token_expires TIMESTAMP;
+      DO $$
+      BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'users' AND column_name = 'email_verified_at'
+        ) THEN
+          ALTER TABLE users ADD COLUMN email_verified_at TIMESTAMP;
+          UPDATE users SET email_verified_at = created_at;
+        END IF;
+      END $$;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verification_token TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS email_verification_expires TIMESTAMP;
+      CREATE INDEX IF NOT EXISTS idx_users_reset_token ON users (reset_token);
+      CREATE INDEX IF NOT EXISTS idx_users_email_verification_token ON users (email_verification_token);
+    `);
+    console.log("Added password reset and email verification columns to users");
+
+    // Two-factor authentication
+    await pool.query(`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_method TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_secret TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_phone TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_last_totp_step INTEGER;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_enabled_at TIMESTAMP;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_login_attempts INTEGER NOT NULL DEFAULT 0;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS two_factor_locked_until TIMESTAMP;
+      CREATE TABLE IF NOT EXISTS two_factor_codes (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        purpose TEXT NOT NULL,
+        code_hash TEXT NOT NULL,
+        phone_number TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        expires_at TIMESTAMP NOT NULL,
+        consumed_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT now()
+      );
+      CREATE INDEX IF NOT EXISTS idx_two_factor_codes_user ON two_factor_codes (user_id, purpose, created_at);
+      CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        code_hash TEXT NOT NULL,
+        used_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT now()
+      );
+      CREATE INDEX IF NOT EXISTS idx_two_factor_recovery_codes_user ON two_factor_recovery_codes (user_id);
+    `);
+    console.log("Added two-factor authentication columns and tables");
+
+    // Create sessions table, with what's needed to list a user's sessions
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS sessions (
+        sid TEXT PRIMARY KEY,
+        id SERIAL NOT NULL UNIQUE,
+        sess JSON NOT NULL,
+        expire TIMESTAMP NOT NULL,
+        user_id INTEGER REFERENCES users(id),
+        user_agent TEXT,
+        ip_address TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT now(),
+        last_seen_at TIMESTAMP NOT NULL DEFAULT now()
+      );
+      CREATE INDEX IF NOT EXISTS idx_sessions_expire ON sessions (expire);
+      CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions (user_id);
+    `);
+    // Carry over sessions from the old connect-pg-simple table so nobody is logged out
+    await pool.query(`
+      DO $$
+      BEGIN
+        IF to_regclass('public.session') IS NOT NULL THEN
+          INSERT INTO sessions (sid, sess, expire, user_id)
+          SELECT s.sid, s.sess, s.expire, u.id
+          FROM "session" s
+          LEFT JOIN users u ON u.id = (s.sess->'passport'->>'user')::integer
+          WHERE s.expire > now()
+          ON CONFLICT (sid) DO NOTHING;
+          DROP TABLE "session";
+        END IF;
+      END $$;
+    `);
+    console.log("Created sessions table");
+
+    // Create webhook subscription and delivery log tables
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events JSON NOT NULL,
+        description TEXT,
+        is_active BOOLEAN NOT NULL DEFAULT true,
+        consecutive_failures INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMP NOT NULL DEFAULT now(),
+        updated_at TIMESTAMP NOT NULL DEFAULT now()
       );
-      CREATE INDEX IF NOT EXISTS "IDX_session_expire" ON "session" ("expire");
+      CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_user ON webhook_subscriptions (user_id);
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id SERIAL PRIMARY KEY,
+        subscription_id INTEGER NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        event TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        payload JSON NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at TIMESTAMP DEFAULT now(),
+        last_attempt_at TIMESTAMP,
+        response_status INTEGER,
+        last_error TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT now(),
+        delivered_at TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries (next_attempt_at) WHERE status = 'pending';
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries (subscription_id, created_at);
+    `);
+    console.log("Created webhook tables");
+
+    // Create safety events table
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS safety_events (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        channel TEXT NOT NULL,
+        level TEXT NOT NULL,
+        matched_rules JSON NOT NULL,
+        model_level TEXT,
+        region TEXT NOT NULL,
+        response TEXT NOT NULL,
+        source_type TEXT,
+        source_id INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT now()
+      );
+      CREATE INDEX IF NOT EXISTS idx_safety_events_user ON safety_events (user_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_safety_events_created ON safety_events (created_at);
+    `);
+    console.log("Created safety events table");
+
+    // Create prompt templates table and record which version produced each reply
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS prompt_templates (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        description TEXT,
+        body TEXT NOT NULL,
+        weight INTEGER NOT NULL DEFAULT 0,
+        created_by TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT now(),
+        CONSTRAINT prompt_templates_name_version UNIQUE (name, version)
+      );
+      ALTER TABLE emails ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+      ALTER TABLE conversations ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+      CREATE INDEX IF NOT EXISTS idx_emails_prompt_version ON emails (prompt_version, sent_at) WHERE prompt_version IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_conversations_prompt_version ON conversations (prompt_version, created_at) WHERE prompt_version IS NOT NULL;
+    `);
+    console.log("Created prompt templates table");
+
+    // Create jobs table and move over anything still waiting in the email queue
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id SERIAL PRIMARY KEY,
+        type TEXT NOT NULL,
+        payload JSONB NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        idempotency_key TEXT UNIQUE,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        run_at TIMESTAMP NOT NULL DEFAULT now(),
+        last_error TEXT,
+        progress JSONB NOT NULL DEFAULT '{}',
+        created_at TIMESTAMP NOT NULL DEFAULT now(),
+        updated_at TIMESTAMP NOT NULL DEFAULT now(),
+        completed_at TIMESTAMP
+      );
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS progress JSONB NOT NULL DEFAULT '{}';
+      ALTER TABLE jobs ADD COLUMN IF NOT EXISTS sender TEXT;
+      CREATE INDEX IF NOT EXISTS idx_jobs_sender ON jobs (type, sender) WHERE sender IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_jobs_due ON jobs (type, run_at) WHERE status IN ('pending', 'running');
+      CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs (status, updated_at);
+
+      WITH moved AS (
+        UPDATE email_queue SET status = 'moved_to_jobs', updated_at = now()
+        WHERE status IN ('pending', 'processing')
+        RETURNING payload, created_at
+      )
+      INSERT INTO jobs (type, payload, created_at, run_at)
+      SELECT 'inbound_email', payload, created_at, now() FROM moved;
+    `);
+    console.log("Created jobs table");
+
+    // Jobs queued before senders were recorded: texts have theirs in the
+    // payload, emails have to be parsed for it
+    await pool.query(`
+      UPDATE jobs SET sender = payload->>'from' WHERE type = 'inbound_sms' AND sender IS NULL;
+    `);
+    let lastJobId = 0;
+    for (;;) {
+      const { rows } = await pool.query(
+        `SELECT id, payload FROM jobs WHERE type = 'inbound_email' AND sender IS NULL AND id > $1 ORDER BY id LIMIT 100`,
+        [lastJobId]
+      );
+      if (rows.length === 0) break;
+      for (const { id, payload } of rows) {
+        const sender = await normalizeInboundPayload(payload).then(email => email.from.address, () => null);
+        if (sender) {
+          await pool.query(`UPDATE jobs SET sender = $1 WHERE id = $2`, [sender, id]);
+        }
+      }
+      lastJobId = rows[rows.length - 1].id;
+    }
+    console.log("Recorded the senders of queued jobs");
+
+    // Inbound texts are matched to accounts by phone number, so each number may
+    // only be on one account. A number already on several stays with the
+    // account that confirmed its email first (or, failing that, the oldest
+    // open account); the others are listed so they can be followed up.
+    const cleared = await pool.query(`
+      WITH ranked AS (
+        SELECT id, preferences->>'phoneNumber' AS phone_number,
+               row_number() OVER (
+                 PARTITION BY preferences->>'phoneNumber'
+                 ORDER BY deleted_at IS NOT NULL, email_verified_at IS NULL, email_verified_at, created_at, id
+               ) AS claim
+        FROM users
+        WHERE preferences->>'phoneNumber' <> ''
+      )
+      UPDATE users SET preferences = users.preferences - 'phoneNumber', updated_at = now()
+      FROM ranked
+      WHERE users.id = ranked.id AND ranked.claim > 1
+      RETURNING users.id, ranked.phone_number,
+        (SELECT keeper.id FROM ranked keeper WHERE keeper.phone_number = ranked.phone_number AND keeper.claim = 1) AS kept_by
+    `);
+    for (const { id, phone_number, kept_by } of cleared.rows) {
+      console.warn(`Removed phone number ${phone_number} from user ${id}: user ${kept_by} keeps it`);
+    }
+    await pool.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS users_phone_number_unique ON users ((preferences->>'phoneNumber'))
+        WHERE preferences->>'phoneNumber' <> '';
+    `);
+    console.log(`Made phone numbers unique (removed ${cleared.rowCount} duplicate claims)`);
+
+    // Journal search matches entries against a stored, indexed tsvector of
+    // their title and content instead of building one per entry per query
+    await pool.query(`
+      ALTER TABLE journal_entries ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+        GENERATED ALWAYS AS (
+          setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+          setweight(to_tsvector('english', content), 'B')
+        ) STORED;
+      CREATE INDEX IF NOT EXISTS idx_journal_entries_search ON journal_entries USING GIN (search_vector);
     `);
-    console.log("Created session table");
+    console.log("Added journal search index");
 
     console.log("All tables created successfully!");
   } catch (error) {
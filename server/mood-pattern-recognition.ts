@@ -38,7 +38,9 @@ export class MoodPatternRecognition {
   static async analyzeUserMoodPatterns(userId: number, daysPast: number = 30): Promise<MoodPattern[]> {
     try {
       // Get recent memories and journal entries
-      const memories = await storage.getConversationMemoriesByUser(userId);
+      const cutoff = Date.now() - daysPast * 24 * 60 * 60 * 1000;
+      const memories = (await storage.getConversationMemories(userId))
+        .filter(memory => memory.lastDiscussed.getTime() >= cutoff);
       const journalEntries = await storage.getRecentJournalEntries(userId, daysPast);
       
       const patterns: MoodPattern[] = [];
@@ -83,7 +85,7 @@ export class MoodPatternRecognition {
     // Analyze memories
     memories.forEach(memory => {
       if (memory.emotionalTone) {
-        const dayOfWeek = new Date(memory.createdAt).getDay();
+        const dayOfWeek = new Date(memory.lastDiscussed).getDay();
         weeklyData[dayOfWeek].total++;
         
         if (['sad', 'anxious', 'frustrated', 'stressed'].includes(memory.emotionalTone)) {
@@ -156,16 +158,16 @@ export class MoodPatternRecognition {
     
     // Analyze memories for stress indicators
     memories.forEach(memory => {
-      const content = memory.content.toLowerCase();
+      const content = memory.context.toLowerCase();
       const stressScore = stressKeywords.reduce((score, keyword) => {
         return score + (content.includes(keyword) ? 1 : 0);
       }, 0);
       
       if (stressScore > 0 || memory.emotionalTone === 'anxious' || memory.emotionalTone === 'stressed') {
         stressEvents.push({
-          date: new Date(memory.createdAt),
+          date: new Date(memory.lastDiscussed),
           intensity: stressScore + (memory.emotionalTone === 'anxious' ? 2 : 0),
-          context: memory.topicCategory || 'general'
+          context: memory.category || 'general'
         });
       }
     });
@@ -189,7 +191,7 @@ export class MoodPatternRecognition {
     if (stressEvents.length >= 3) {
       // Calculate average intensity and identify common triggers
       const avgIntensity = stressEvents.reduce((sum, event) => sum + event.intensity, 0) / stressEvents.length;
-      const triggers = [...new Set(stressEvents.map(e => e.context))];
+      const triggers = Array.from(new Set(stressEvents.map(e => e.context)));
       
       return {
         userId: memories[0]?.userId || 0,
@@ -224,14 +226,14 @@ export class MoodPatternRecognition {
     
     // Analyze memories
     memories.forEach(memory => {
-      const content = memory.content.toLowerCase();
+      const content = memory.context.toLowerCase();
       const positiveScore = positiveKeywords.reduce((score, keyword) => {
         return score + (content.includes(keyword) ? 1 : 0);
       }, 0);
       
       if (positiveScore > 0 || ['happy', 'excited', 'grateful'].includes(memory.emotionalTone || '')) {
         positiveEvents.push({
-          date: new Date(memory.createdAt),
+          date: new Date(memory.lastDiscussed),
           intensity: positiveScore + (['happy', 'excited', 'grateful'].includes(memory.emotionalTone || '') ? 2 : 0)
         });
       }
@@ -294,7 +296,7 @@ export class MoodPatternRecognition {
     memories.forEach(memory => {
       if (memory.emotionalTone) {
         emotionalData.push({
-          date: new Date(memory.createdAt),
+          date: new Date(memory.lastDiscussed),
           tone: memory.emotionalTone
         });
       }
@@ -0,0 +1,167 @@
+import type { User, PromoCode } from '@shared/schema';
+import { storage } from './storage';
+import { emailService } from './email';
+import { RENEWAL_GRACE_MS } from './entitlements';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Length of the one free trial each account gets
+export const TRIAL_DAYS = parseInt(process.env.TRIAL_DAYS || '14');
+
+// Trial and promo users are reminded this long before their access ends
+const REMINDER_LEAD_MS = 3 * DAY_MS;
+
+const EXPIRY_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+export type PromoCodeErrorCode =
+  | 'not_found'
+  | 'expired'
+  | 'exhausted'
+  | 'already_redeemed'
+  | 'subscribed'
+  | 'trial_used';
+
+/**
+ * A trial or promo code that can't be applied, with a message fit for the user
+ */
+export class PromoCodeError extends Error {
+  constructor(public code: PromoCodeErrorCode, message: string) {
+    super(message);
+    this.name = 'PromoCodeError';
+  }
+}
+
+// Whether the user pays through Stripe for access that is still running
+function hasActiveSubscription(user: User): boolean {
+  return user.premiumSource === 'stripe' && !!user.stripeSubscriptionId &&
+    !['canceled', 'unpaid', 'incomplete_expired'].includes(user.subscriptionStatus ?? '');
+}
+
+// When a user's current trial or promo access ends, if they have any left
+function timeLimitedAccessEnd(user: User): Date | null {
+  if (!user.isPremium || (user.premiumSource !== 'trial' && user.premiumSource !== 'promo')) {
+    return null;
+  }
+  return user.premiumUntil && user.premiumUntil > new Date() ? user.premiumUntil : null;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+}
+
+export const premiumAccessService = {
+  /**
+   * Start the account's free trial. Each account gets one, and not while it
+   * already has premium.
+   */
+  async startTrial(user: User): Promise<User> {
+    if (user.trialEndsAt) {
+      throw new PromoCodeError('trial_used', 'You have already used your free trial');
+    }
+    if (hasActiveSubscription(user) || timeLimitedAccessEnd(user)) {
+      throw new PromoCodeError('subscribed', 'You already have Featherweight Premium');
+    }
+
+    const trialEndsAt = new Date(Date.now() + TRIAL_DAYS * DAY_MS);
+    const updated = await storage.updateUserBillingState(user.id, {
+      isPremium: true,
+      premiumUntil: trialEndsAt,
+      premiumSource: 'trial',
+      trialEndsAt,
+      premiumReminderSentAt: null,
+    });
+    if (!updated) {
+      throw new Error(`User ${user.id} not found`);
+    }
+
+    console.log(`🎁 User ${user.id} started a ${TRIAL_DAYS}-day trial, ending ${trialEndsAt.toISOString()}`);
+    return updated;
+  },
+
+  /**
+   * Redeem a promo code for the user. Its days are added to any trial or promo
+   * access they already have; subscribers can't redeem codes.
+   */
+  async redeemPromoCode(user: User, code: string): Promise<{ user: User; promoCode: PromoCode }> {
+    const promoCode = await storage.getPromoCodeByCode(code.trim().toUpperCase());
+    if (!promoCode || promoCode.disabledAt) {
+      throw new PromoCodeError('not_found', "That promo code isn't valid");
+    }
+    if (promoCode.expiresAt && promoCode.expiresAt <= new Date()) {
+      throw new PromoCodeError('expired', 'That promo code has expired');
+    }
+    if (promoCode.maxRedemptions !== null && promoCode.redemptionCount >= promoCode.maxRedemptions) {
+      throw new PromoCodeError('exhausted', 'That promo code has been fully redeemed');
+    }
+    if (await storage.getPromoRedemption(promoCode.id, user.id)) {
+      throw new PromoCodeError('already_redeemed', "You've already redeemed that promo code");
+    }
+    if (hasActiveSubscription(user)) {
+      throw new PromoCodeError('subscribed', "Promo codes can't be applied to a paid subscription");
+    }
+
+    const from = timeLimitedAccessEnd(user) ?? new Date();
+    const premiumUntil = new Date(from.getTime() + promoCode.durationDays * DAY_MS);
+
+    // The count and the one-per-user rule are enforced again as the code is
+    // redeemed, in case another redemption got there first
+    const updated = await storage.redeemPromoCode(promoCode.id, user.id, premiumUntil);
+    if (!updated) {
+      throw new PromoCodeError('exhausted', 'That promo code is no longer available');
+    }
+
+    console.log(`🎁 User ${user.id} redeemed promo code ${promoCode.code}: premium until ${premiumUntil.toISOString()}`);
+    return { user: updated, promoCode };
+  },
+
+  /**
+   * Remind trial and promo users whose access ends soon, once per stretch of access
+   */
+  async sendExpiryReminders(): Promise<number> {
+    let sent = 0;
+    for (const user of await storage.getUsersDueExpiryReminder(new Date(Date.now() + REMINDER_LEAD_MS))) {
+      try {
+        const source = user.premiumSource === 'trial' ? 'free trial' : 'promo code';
+        const context = `Their ${source} ends on ${formatDate(user.premiumUntil!)}.`;
+        await emailService.sendFlappyEmail(user, 'premiumReminder', context);
+        await storage.updateUserBillingState(user.id, { premiumReminderSentAt: new Date() });
+        sent++;
+      } catch (error) {
+        console.error(`Error sending premium expiry reminder to user ${user.id}:`, error);
+      }
+    }
+    return sent;
+  },
+
+  /**
+   * Turn premium off for users whose access has run out. Stripe subscribers
+   * keep the renewal grace period; their webhook normally ends access first.
+   */
+  async expireLapsedAccess(): Promise<User[]> {
+    const now = new Date();
+    const expired = await storage.expirePremiumAccess(now, new Date(now.getTime() - RENEWAL_GRACE_MS));
+    for (const user of expired) {
+      console.log(`⌛ Premium access for user ${user.id} has ended`);
+    }
+    return expired;
+  },
+};
+
+/**
+ * Start the worker that sends expiry reminders and downgrades lapsed accounts
+ */
+export function startPremiumExpiryWorker() {
+  console.log('🎁 Starting premium expiry worker...');
+
+  const run = async () => {
+    try {
+      await premiumAccessService.sendExpiryReminders();
+      await premiumAccessService.expireLapsedAccess();
+    } catch (error) {
+      console.error('Error checking premium expiry:', error);
+    }
+  };
+
+  run();
+  setInterval(run, EXPIRY_CHECK_INTERVAL_MS);
+}
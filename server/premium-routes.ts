@@ -0,0 +1,103 @@
+import { type Express, Request, Response } from "express";
+import { fromZodError } from "zod-validation-error";
+import { insertPromoCodeSchema } from "@shared/schema";
+import { storage } from "./storage";
+import { toClientUser } from "./auth";
+import { premiumAccessService, PromoCodeError } from "./premium-access";
+import { requireAdmin } from "./admin";
+
+/**
+ * Add free trial, promo code redemption and promo code admin routes to Express app
+ */
+export function addPremiumRoutes(app: Express) {
+  // Start the account's one free trial
+  app.post("/api/premium/trial", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    try {
+      const user = await premiumAccessService.startTrial(req.user);
+      res.json(toClientUser(user));
+    } catch (error) {
+      if (error instanceof PromoCodeError) {
+        return res.status(409).json({ error: error.message, code: error.code });
+      }
+      console.error("Error starting trial:", error);
+      res.status(500).json({ error: "Failed to start trial" });
+    }
+  });
+
+  // Redeem a promo code for premium access
+  app.post("/api/premium/redeem", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const code = typeof req.body.code === "string" ? req.body.code.trim() : "";
+    if (!code) {
+      return res.status(400).json({ error: "Enter a promo code" });
+    }
+
+    try {
+      const { user, promoCode } = await premiumAccessService.redeemPromoCode(req.user, code);
+      res.json({ user: toClientUser(user), durationDays: promoCode.durationDays });
+    } catch (error) {
+      if (error instanceof PromoCodeError) {
+        const status = error.code === "not_found" ? 404 : error.code === "expired" ? 410 : 409;
+        return res.status(status).json({ error: error.message, code: error.code });
+      }
+      console.error("Error redeeming promo code:", error);
+      res.status(500).json({ error: "Failed to redeem promo code" });
+    }
+  });
+
+  // Promo codes, newest first
+  app.get("/api/admin/promo-codes", requireAdmin, async (_req: Request, res: Response) => {
+    try {
+      res.json(await storage.getPromoCodes());
+    } catch (error) {
+      console.error("Error fetching promo codes:", error);
+      res.status(500).json({ error: "Failed to fetch promo codes" });
+    }
+  });
+
+  // Create a promo code for a campaign
+  app.post("/api/admin/promo-codes", requireAdmin, async (req: Request, res: Response) => {
+    const result = insertPromoCodeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: fromZodError(result.error).message });
+    }
+
+    try {
+      if (await storage.getPromoCodeByCode(result.data.code)) {
+        return res.status(409).json({ error: "A promo code with that code already exists" });
+      }
+      const promoCode = await storage.createPromoCode(result.data);
+      console.log(`🎁 Promo code ${promoCode.code} created by ${req.user!.email}`);
+      res.status(201).json(promoCode);
+    } catch (error) {
+      console.error("Error creating promo code:", error);
+      res.status(500).json({ error: "Failed to create promo code" });
+    }
+  });
+
+  // Stop a promo code from being redeemed; access already granted is kept
+  app.post("/api/admin/promo-codes/:id/disable", requireAdmin, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid promo code ID" });
+    }
+
+    try {
+      const promoCode = await storage.disablePromoCode(id);
+      if (!promoCode) {
+        return res.status(404).json({ error: "Promo code not found" });
+      }
+      res.json(promoCode);
+    } catch (error) {
+      console.error("Error disabling promo code:", error);
+      res.status(500).json({ error: "Failed to disable promo code" });
+    }
+  });
+}
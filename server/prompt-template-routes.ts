@@ -0,0 +1,88 @@
+import { type Express, Request, Response } from "express";
+import { fromZodError } from "zod-validation-error";
+import { insertPromptTemplateSchema, updatePromptTemplateSchema } from "@shared/schema";
+import { storage } from "./storage";
+import { requireAdmin } from "./admin";
+import { promptRegistry, PromptTemplateError, type PromptTemplateErrorCode } from "./prompt-templates";
+
+const ERROR_STATUSES: Record<PromptTemplateErrorCode, number> = {
+  unknown_template: 400,
+  unknown_variable: 400,
+  missing_json_format: 400,
+  not_found: 404,
+};
+
+/**
+ * Add admin routes for rolling out and comparing versions of Flappy's prompts to Express app
+ */
+export function addPromptTemplateRoutes(app: Express) {
+  // Every template with its versions and the share of traffic each gets
+  app.get("/api/admin/prompt-templates", requireAdmin, async (_req: Request, res: Response) => {
+    try {
+      res.json(await promptRegistry.list());
+    } catch (error) {
+      console.error("Error fetching prompt templates:", error);
+      res.status(500).json({ error: "Failed to fetch prompt templates" });
+    }
+  });
+
+  // Add the next version of a template; it takes no traffic until given a weight
+  app.post("/api/admin/prompt-templates", requireAdmin, async (req: Request, res: Response) => {
+    const result = insertPromptTemplateSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: fromZodError(result.error).message });
+    }
+
+    try {
+      const template = await promptRegistry.createVersion(result.data, req.user!.email);
+      console.log(`📝 Prompt template ${template.name}@${template.version} created by ${req.user!.email}`);
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof PromptTemplateError) {
+        return res.status(ERROR_STATUSES[error.code]).json({ error: error.message, code: error.code });
+      }
+      console.error("Error creating prompt template:", error);
+      res.status(500).json({ error: "Failed to create prompt template" });
+    }
+  });
+
+  // Roll a version out, change its share or retire it
+  app.patch("/api/admin/prompt-templates/:id", requireAdmin, async (req: Request, res: Response) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid prompt template ID" });
+    }
+
+    const result = updatePromptTemplateSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: fromZodError(result.error).message });
+    }
+
+    try {
+      const template = await promptRegistry.setWeight(id, result.data.weight);
+      console.log(`📝 Prompt template ${template.name}@${template.version} weight set to ${template.weight} by ${req.user!.email}`);
+      res.json(template);
+    } catch (error) {
+      if (error instanceof PromptTemplateError) {
+        return res.status(ERROR_STATUSES[error.code]).json({ error: error.message, code: error.code });
+      }
+      console.error("Error updating prompt template:", error);
+      res.status(500).json({ error: "Failed to update prompt template" });
+    }
+  });
+
+  // Emails and conversations produced by each version over the last ?days (default 30)
+  app.get("/api/admin/prompt-templates/usage", requireAdmin, async (req: Request, res: Response) => {
+    const days = req.query.days ? parseInt(String(req.query.days)) : 30;
+    if (isNaN(days) || days < 1 || days > 365) {
+      return res.status(400).json({ error: "Days must be between 1 and 365" });
+    }
+
+    try {
+      res.json(await storage.getPromptVersionUsage(new Date(Date.now() - days * 24 * 60 * 60 * 1000)));
+    } catch (error) {
+      console.error("Error fetching prompt template usage:", error);
+      res.status(500).json({ error: "Failed to fetch prompt template usage" });
+    }
+  });
+}
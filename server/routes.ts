@@ -1,14 +1,18 @@
 import express, { type Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth } from "./auth";
+import { setupAuth, toClientUser } from "./auth";
 import { setupTikTokAuth } from "./tiktok-auth";
-import { type InsertEmailQueue } from "@shared/schema";
+import { isValidTimeZone, JOURNAL_TRASH_RETENTION_DAYS } from "@shared/schema";
 import { emailService } from "./email";
-import { journalImageUpload, getFileUrl } from "./file-upload";
+import { authEmailService } from "./auth-email";
+import { journalImageUpload, saveJournalFile, journalFileUrl, isOtherUsersJournalFile } from "./file-upload";
+import { toClientEntries } from "./journal-attachments";
 import multer from "multer";
-import { simpleParser } from "mailparser";
 import { handleSendGridWebhook } from "./webhook-sendgrid";
+import { diffText } from "./text-diff";
+import { webhookService, toWebhookJournalEntry } from "./webhooks";
+import { jobQueue, inboundEmailJobKey } from "./job-queue";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
@@ -94,19 +98,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         requestFormat = 'unknown';
       }
       
-      // Create a queue item with the email data
-      const queueItem: InsertEmailQueue = {
-        payload: requestData,
-        status: "pending" as const
-      };
-      
-      const saved = await storage.enqueueEmail(queueItem);
-      console.log(`✅ Test email queued for processing (Queue ID: ${saved.id})`);
+      const { job, duplicate } = await jobQueue.enqueue('inbound_email', requestData, {
+        idempotencyKey: inboundEmailJobKey(requestData)
+      });
+      console.log(`✅ Test email ${duplicate ? 'already queued' : 'queued for processing'} (Job ID: ${job.id})`);
       
       return res.json({
         success: true,
-        message: 'Email received and queued for processing',
-        queueId: saved.id
+        message: duplicate ? 'Email was already received' : 'Email received and queued for processing',
+        queueId: job.id
       });
       
     } catch (error) {
@@ -142,29 +142,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
             return res.status(200).send('Error: Empty MIME body');
           }
           
-          // Parse the raw email
-          const parsed = await simpleParser(rawBody);
-          
-          console.log(`Parsed email from: ${parsed.from?.text}`);
-          console.log(`Parsed email subject: ${parsed.subject}`);
-          console.log(`Parsed email text: ${parsed.text?.substring(0, 100)}...`);
-          
-          // Create a queue item with the parsed email data
-          const queueItem: InsertEmailQueue = {
-            payload: {
-              from: parsed.from?.text || '',
-              subject: parsed.subject || 'No Subject',
-              text: parsed.text || parsed.html || 'No content',
-              headers: parsed.headers,
-              receivedAt: new Date().toISOString(),
-              parsedAt: new Date().toISOString(),
-              messageId: parsed.messageId
-            },
-            status: "pending" as const
+          // Queue the message as-is; the email job normalizes it, attachments included
+          const payload = {
+            rawMimeBase64: Buffer.from(rawBody, 'utf8').toString('base64'),
+            receivedAt: new Date().toISOString(),
+            contentType: req.headers['content-type'] as string,
+            source: 'raw-mime-webhook'
           };
           
-          const saved = await storage.enqueueEmail(queueItem);
-          console.log(`✅ Raw MIME email queued for processing (Queue ID: ${saved.id})`);
+          const { job, duplicate } = await jobQueue.enqueue('inbound_email', payload, {
+            idempotencyKey: inboundEmailJobKey(payload)
+          });
+          console.log(`✅ Raw MIME email ${duplicate ? 'already queued' : 'queued for processing'} (Job ID: ${job.id})`);
           
           res.status(200).send('OK: Raw MIME email queued for processing');
         } catch (error) {
@@ -182,7 +171,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Enhanced SendGrid webhook for better content extraction
   app.post("/api/webhook/sendgrid", 
-    upload.none(), // Parse multipart/form-data
+    upload.any(), // Parse multipart/form-data, including attachment files
     async (req: Request, res: Response) => {
       return handleSendGridWebhook(req, res);
     }
@@ -232,7 +221,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log(`📊 Processing raw MIME buffer of ${rawEmailBuffer.length} bytes`);
 
         // For the queue, store the raw email as base64.
-        // The email-processor will decode and parse it.
+        // The email job will decode and parse it.
         const queuePayload = {
           rawMimeBase64: rawEmailBuffer.toString('base64'),
           receivedAt: new Date().toISOString(),
@@ -241,13 +230,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           source: 'sendgrid-inbound-webhook'
         };
 
-        const queueItem: InsertEmailQueue = {
-          payload: queuePayload,
-          status: "pending" as const
-        };
-
-        const savedQueueItem = await storage.enqueueEmail(queueItem);
-        console.log(`✅ Raw MIME email (base64) queued for processing. Queue ID: ${savedQueueItem.id}`);
+        // SendGrid retries posts it doesn't get a timely 200 for; the
+        // Message-ID key keeps a retried post from being answered twice
+        const { job, duplicate } = await jobQueue.enqueue('inbound_email', queuePayload, {
+          idempotencyKey: inboundEmailJobKey(queuePayload)
+        });
+        console.log(`✅ Raw MIME email (base64) ${duplicate ? 'already queued' : 'queued for processing'}. Job ID: ${job.id}`);
 
         // Always return 200 OK to SendGrid quickly.
         res.status(200).send('OK: Email data queued for processing.');
@@ -310,13 +298,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const entries = await storage.getJournalEntries(req.user.id, filter);
-      res.json(entries);
+      res.json(await toClientEntries(entries));
     } catch (error) {
       console.error('Error fetching journal entries:', error);
       res.status(500).json({ error: 'Failed to fetch journal entries' });
     }
   });
   
+  // Full-text search across journal entries and the emails/SMS linked to them.
+  // Registered before /api/journal/:id so "search" isn't treated as an entry ID.
+  app.get('/api/journal/search', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!q) {
+      return res.status(400).json({ error: 'Search query (q) is required' });
+    }
+    if (q.length > 200) {
+      return res.status(400).json({ error: 'Search query is too long' });
+    }
+
+    const page = Math.max(parseInt(String(req.query.page ?? '1')) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? '20')) || 20, 1), 50);
+
+    try {
+      const { hits, total } = await storage.searchJournalEntries(req.user.id, q, {
+        limit,
+        offset: (page - 1) * limit
+      });
+
+      res.json({
+        query: q,
+        results: hits,
+        total,
+        page,
+        limit,
+        hasMore: page * limit < total
+      });
+    } catch (error) {
+      console.error('Error searching journal entries:', error);
+      res.status(500).json({ error: 'Failed to search journal entries' });
+    }
+  });
+
+  // List trashed journal entries with the date each will be purged.
+  // Registered before /api/journal/:id so "trash" isn't treated as an entry ID.
+  app.get('/api/journal/trash', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    
+    try {
+      const entries = await storage.getTrashedJournalEntries(req.user.id);
+      
+      res.json(entries.map(entry => ({
+        ...entry,
+        purgeAt: new Date(entry.deletedAt!.getTime() + JOURNAL_TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+      })));
+    } catch (error) {
+      console.error('Error fetching trashed journal entries:', error);
+      res.status(500).json({ error: 'Failed to fetch trash' });
+    }
+  });
+  
+  // Permanently delete everything in the trash
+  app.delete('/api/journal/trash', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    
+    try {
+      const entries = await storage.getTrashedJournalEntries(req.user.id);
+      for (const entry of entries) {
+        await storage.purgeJournalEntry(entry.id);
+      }
+      
+      res.json({ purged: entries.length });
+    } catch (error) {
+      console.error('Error emptying journal trash:', error);
+      res.status(500).json({ error: 'Failed to empty trash' });
+    }
+  });
+  
   // Get a single journal entry
   app.get('/api/journal/:id', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
@@ -340,7 +405,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: 'Access denied' });
       }
       
-      res.json(entry);
+      const [entryWithAttachments] = await toClientEntries([entry]);
+      res.json(entryWithAttachments);
     } catch (error) {
       console.error('Error fetching journal entry:', error);
       res.status(500).json({ error: 'Failed to fetch journal entry' });
@@ -360,6 +426,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!title || !content) {
         return res.status(400).json({ error: 'Title and content are required' });
       }
+      if (imageUrl && (typeof imageUrl !== 'string' || isOtherUsersJournalFile(imageUrl, req.user.id))) {
+        return res.status(400).json({ error: 'Invalid image' });
+      }
       
       const journalEntry = await storage.createJournalEntry({
         userId: req.user.id,
@@ -370,6 +439,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         imageUrl: imageUrl || null
       });
       
+      webhookService.emit(req.user.id, 'journal.created', toWebhookJournalEntry(journalEntry));
       res.status(201).json(journalEntry);
     } catch (error) {
       console.error('Error creating journal entry:', error);
@@ -402,6 +472,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Update the entry
       const { title, content, tags, mood, imageUrl } = req.body;
+      if (imageUrl && (typeof imageUrl !== 'string' || isOtherUsersJournalFile(imageUrl, req.user.id))) {
+        return res.status(400).json({ error: 'Invalid image' });
+      }
       
       const updatedEntry = await storage.updateJournalEntry(entryId, {
         title,
@@ -411,6 +484,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         imageUrl
       });
       
+      if (updatedEntry) {
+        webhookService.emit(req.user.id, 'journal.updated', toWebhookJournalEntry(updatedEntry));
+      }
       res.json(updatedEntry);
     } catch (error) {
       console.error('Error updating journal entry:', error);
@@ -418,7 +494,133 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Delete a journal entry
+  // List the saved revisions of a journal entry, newest first
+  app.get('/api/journal/:id/revisions', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    
+    const entryId = parseInt(req.params.id);
+    if (isNaN(entryId)) {
+      return res.status(400).json({ error: 'Invalid journal entry ID' });
+    }
+    
+    try {
+      const entry = await storage.getJournalEntry(entryId);
+      
+      if (!entry) {
+        return res.status(404).json({ error: 'Journal entry not found' });
+      }
+      
+      if (entry.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+      
+      const revisions = await storage.getJournalRevisions(entryId);
+      res.json(revisions);
+    } catch (error) {
+      console.error('Error fetching journal revisions:', error);
+      res.status(500).json({ error: 'Failed to fetch journal revisions' });
+    }
+  });
+  
+  // Compare two revisions of a journal entry (?from=<revision>&to=<revision>)
+  app.get('/api/journal/:id/revisions/diff', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    
+    const entryId = parseInt(req.params.id);
+    const fromNumber = parseInt(String(req.query.from));
+    const toNumber = parseInt(String(req.query.to));
+    if (isNaN(entryId)) {
+      return res.status(400).json({ error: 'Invalid journal entry ID' });
+    }
+    if (isNaN(fromNumber) || isNaN(toNumber)) {
+      return res.status(400).json({ error: 'Both from and to revision numbers are required' });
+    }
+    
+    try {
+      const entry = await storage.getJournalEntry(entryId);
+      
+      if (!entry) {
+        return res.status(404).json({ error: 'Journal entry not found' });
+      }
+      
+      if (entry.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+      
+      const [from, to] = await Promise.all([
+        storage.getJournalRevision(entryId, fromNumber),
+        storage.getJournalRevision(entryId, toNumber)
+      ]);
+      
+      if (!from || !to) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      
+      const fromTags = from.tags ?? [];
+      const toTags = to.tags ?? [];
+      
+      res.json({
+        from,
+        to,
+        title: diffText(from.title ?? '', to.title ?? ''),
+        content: diffText(from.content, to.content),
+        mood: from.mood !== to.mood ? { from: from.mood, to: to.mood } : null,
+        tags: {
+          added: toTags.filter(tag => !fromTags.includes(tag)),
+          removed: fromTags.filter(tag => !toTags.includes(tag))
+        }
+      });
+    } catch (error) {
+      console.error('Error comparing journal revisions:', error);
+      res.status(500).json({ error: 'Failed to compare journal revisions' });
+    }
+  });
+  
+  // Restore a journal entry to an earlier revision. The restore is itself
+  // recorded as a new revision, so it can be undone the same way.
+  app.post('/api/journal/:id/revisions/:revision/restore', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    
+    const entryId = parseInt(req.params.id);
+    const revisionNumber = parseInt(req.params.revision);
+    if (isNaN(entryId) || isNaN(revisionNumber)) {
+      return res.status(400).json({ error: 'Invalid journal entry or revision number' });
+    }
+    
+    try {
+      const entry = await storage.getJournalEntry(entryId);
+      
+      if (!entry) {
+        return res.status(404).json({ error: 'Journal entry not found' });
+      }
+      
+      if (entry.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+      
+      const restoredEntry = await storage.restoreJournalRevision(entryId, revisionNumber);
+      
+      if (!restoredEntry) {
+        return res.status(404).json({ error: 'Revision not found' });
+      }
+      
+      webhookService.emit(req.user.id, 'journal.updated', toWebhookJournalEntry(restoredEntry));
+      const [clientEntry] = await toClientEntries([restoredEntry]);
+      res.json(clientEntry);
+    } catch (error) {
+      console.error('Error restoring journal revision:', error);
+      res.status(500).json({ error: 'Failed to restore journal revision' });
+    }
+  });
+  
+  // Move a journal entry to the trash. It can be restored for
+  // JOURNAL_TRASH_RETENTION_DAYS days before it is purged.
   app.delete('/api/journal/:id', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: 'Not authenticated' });
@@ -441,7 +643,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: 'Access denied' });
       }
       
-      // Delete the entry
+      // Move the entry to the trash
       const success = await storage.deleteJournalEntry(entryId);
       
       if (success) {
@@ -455,8 +657,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Restore a journal entry from the trash
+  app.post('/api/journal/:id/restore', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    
+    const entryId = parseInt(req.params.id);
+    if (isNaN(entryId)) {
+      return res.status(400).json({ error: 'Invalid journal entry ID' });
+    }
+    
+    try {
+      const existingEntry = await storage.getJournalEntry(entryId, { includeDeleted: true });
+      
+      if (!existingEntry) {
+        return res.status(404).json({ error: 'Journal entry not found' });
+      }
+      
+      if (existingEntry.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+      
+      if (!existingEntry.deletedAt) {
+        return res.status(409).json({ error: 'Journal entry is not in the trash' });
+      }
+      
+      const restoredEntry = await storage.restoreJournalEntry(entryId);
+      res.json(restoredEntry);
+    } catch (error) {
+      console.error('Error restoring journal entry:', error);
+      res.status(500).json({ error: 'Failed to restore journal entry' });
+    }
+  });
+  
+  // Permanently delete a trashed journal entry
+  app.delete('/api/journal/:id/permanent', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+    
+    const entryId = parseInt(req.params.id);
+    if (isNaN(entryId)) {
+      return res.status(400).json({ error: 'Invalid journal entry ID' });
+    }
+    
+    try {
+      const existingEntry = await storage.getJournalEntry(entryId, { includeDeleted: true });
+      
+      if (!existingEntry) {
+        return res.status(404).json({ error: 'Journal entry not found' });
+      }
+      
+      if (existingEntry.userId !== req.user.id) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+      
+      // Only trashed entries can be purged, so a purge is always a second, deliberate step
+      if (!existingEntry.deletedAt) {
+        return res.status(409).json({ error: 'Move the journal entry to the trash first' });
+      }
+      
+      await storage.purgeJournalEntry(entryId);
+      res.status(204).end();
+    } catch (error) {
+      console.error('Error purging journal entry:', error);
+      res.status(500).json({ error: 'Failed to permanently delete journal entry' });
+    }
+  });
+  
   // Journal image upload endpoint
-  app.post('/api/journal/upload', journalImageUpload.single('image'), (req: Request, res: Response) => {
+  // Responds with the reference to save as the entry's imageUrl, and a signed
+  // URL to preview it with
+  app.post('/api/journal/upload', journalImageUpload.single('image'), async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
@@ -465,12 +738,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(400).json({ error: 'No file uploaded' });
     }
     
-    const fileUrl = getFileUrl(req, req.file.filename);
-    
-    res.json({
-      success: true,
-      fileUrl
-    });
+    try {
+      const imageUrl = await saveJournalFile(req.user.id, req.file.buffer, req.file.mimetype === 'image/jpg' ? 'image/jpeg' : req.file.mimetype);
+      
+      res.json({
+        success: true,
+        imageUrl,
+        previewUrl: journalFileUrl(imageUrl, req.user.id)
+      });
+    } catch (error) {
+      console.error('Error saving journal image:', error);
+      res.status(400).json({ error: 'Only JPEG, PNG, GIF and WebP images can be uploaded' });
+    }
   });
 
   // User profile and preferences API endpoints
@@ -483,7 +762,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { username, email, firstName, lastName, bio } = req.body;
       
       // Update user profile
-      const updatedUser = await storage.updateUserProfile(req.user.id, {
+      await storage.updateUserProfile(req.user.id, {
         username,
         email,
         firstName,
@@ -491,7 +770,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         bio
       });
       
-      res.json(updatedUser);
+      // The update returns the raw row, so reload the user to strip credentials from the response
+      const updatedUser = await storage.getUser(req.user.id);
+      if (!updatedUser) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      
+      // A new address has to be confirmed before mail from it is trusted
+      if (email && email !== req.user.email) {
+        await authEmailService.sendVerificationEmail(updatedUser).catch(error =>
+          console.error('Error sending verification email:', error)
+        );
+      }
+      
+      res.json(toClientUser(updatedUser));
     } catch (error) {
       console.error('Error updating user profile:', error);
       res.status(500).json({ error: 'Failed to update user profile' });
@@ -503,14 +795,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(401).json({ error: 'Not authenticated' });
     }
     
+    const phoneNumber = req.body.phoneNumber || null;
+    if (phoneNumber !== null && (typeof phoneNumber !== 'string' || !/^\+?[1-9]\d{1,14}$/.test(phoneNumber))) {
+      return res.status(400).json({ error: 'Please enter a valid phone number in E.164 format (e.g., +14155552671)' });
+    }
+    
     try {
-      const { phoneNumber } = req.body;
+      // Inbound texts are matched to accounts by number, so a number can only be on one
+      const owner = phoneNumber ? await storage.getUserByPhoneNumber(phoneNumber) : undefined;
+      if (owner && owner.id !== req.user.id) {
+        return res.status(409).json({ error: 'That phone number is already linked to another account' });
+      }
       
       // Update user phone number
-      const updatedUser = await storage.updateUserPhoneNumber(req.user.id, phoneNumber);
+      await storage.updateUserPhoneNumber(req.user.id, phoneNumber);
       
-      res.json(updatedUser);
+      const updatedUser = await storage.getUser(req.user.id);
+      if (!updatedUser) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      res.json(toClientUser(updatedUser));
     } catch (error) {
+      // A unique violation: another account took the number since the check above
+      if (error instanceof Error && 'code' in error && error.code === '23505') {
+        return res.status(409).json({ error: 'That phone number is already linked to another account' });
+      }
       console.error('Error updating phone number:', error);
       res.status(500).json({ error: 'Failed to update phone number' });
     }
@@ -528,20 +837,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         receiveInsights,
         receiveSms,
         emailDeliveryTime,
+        timezone,
         disableDailyEmails
       } = req.body;
       
+      if (timezone !== undefined && (typeof timezone !== 'string' || !isValidTimeZone(timezone))) {
+        return res.status(400).json({ error: 'Invalid timezone' });
+      }
+      
       // Update user preferences
-      const updatedUser = await storage.updateUserPreferences(req.user.id, {
+      await storage.updateUserPreferences(req.user.id, {
         emailFrequency,
         marketingEmails,
         receiveInsights,
         receiveSms,
         emailDeliveryTime,
+        timezone,
         disableDailyEmails
       });
       
-      res.json(updatedUser);
+      const updatedUser = await storage.getUser(req.user.id);
+      if (!updatedUser) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      res.json(toClientUser(updatedUser));
     } catch (error) {
       console.error('Error updating user preferences:', error);
       res.status(500).json({ error: 'Failed to update user preferences' });
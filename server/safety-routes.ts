@@ -0,0 +1,28 @@
+import { type Express, Request, Response } from "express";
+import { storage } from "./storage";
+import { requireAdmin } from "./admin";
+
+/**
+ * Add the admin route for reviewing messages flagged by the safety check to Express app
+ */
+export function addSafetyRoutes(app: Express) {
+  // Flagged messages, newest first, optionally for one user or level
+  app.get("/api/admin/safety-events", requireAdmin, async (req: Request, res: Response) => {
+    const userId = req.query.userId ? parseInt(String(req.query.userId)) : undefined;
+    if (userId !== undefined && isNaN(userId)) {
+      return res.status(400).json({ error: "Invalid user ID" });
+    }
+    const level = req.query.level;
+    if (level !== undefined && level !== "concern" && level !== "crisis") {
+      return res.status(400).json({ error: "Level must be concern or crisis" });
+    }
+    const limit = req.query.limit ? Math.min(parseInt(String(req.query.limit)) || 100, 500) : undefined;
+
+    try {
+      res.json(await storage.getSafetyEvents({ userId, level, limit }));
+    } catch (error) {
+      console.error("Error fetching safety events:", error);
+      res.status(500).json({ error: "Failed to fetch safety events" });
+    }
+  });
+}
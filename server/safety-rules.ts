@@ -0,0 +1,81 @@
+/**
+ * Safety rules
+ *
+ * The deterministic half of the safety layer in server/safety.ts. Kept apart
+ * from it, with no storage or model imports, so the fixtures in
+ * server/fixtures/safety can be checked without a database.
+ */
+
+import type { SafetyLevel } from "@shared/schema";
+
+export type SafetyRule = {
+  id: string;
+  level: SafetyLevel;
+  pattern: RegExp;
+};
+
+// Matched against lowercased text with straight apostrophes and single spaces
+export const SAFETY_RULES: SafetyRule[] = [
+  // Suicidal thoughts or intent, and self-harm
+  { id: "suicide", level: "crisis", pattern: /\bsuicid(?:e|al)\b/ },
+  { id: "end_my_life", level: "crisis", pattern: /\b(?:kill|killing|end|ending|take|taking)\s+(?:myself|my\s+(?:own\s+)?life)\b(?!\s+back)/ },
+  { id: "want_to_die", level: "crisis", pattern: /\b(?:want|wanna|wish|wishing|ready|going|planning)\s+(?:to\s+)?die\b/ },
+  { id: "wish_dead", level: "crisis", pattern: /\bwish\s+(?:i\s+(?:was|were|had\s+been)\s+(?:dead|never\s+born)|i\s+could\s+just\s+die)\b/ },
+  { id: "no_will_to_live", level: "crisis", pattern: /\b(?:don'?t|do\s+not|no\s+longer)\s+want\s+to\s+(?:live|be\s+alive|be\s+here\s+any\s?more|exist|wake\s+up)\b/ },
+  { id: "never_wake_up", level: "crisis", pattern: /\b(?:go\s+to\s+sleep|fall\s+asleep)\s+and\s+(?:never|not)\s+wake\s+up\b/ },
+  { id: "better_off_dead", level: "crisis", pattern: /\b(?:better\s+off\s+(?:dead|without\s+me)|(?:everyone|everybody|they|the\s+world)\s+would\s+be\s+better\s+without\s+me)\b/ },
+  { id: "no_reason_to_live", level: "crisis", pattern: /\b(?:no\s+(?:reason|point)\s+(?:to|in)\s+(?:live|living|being\s+alive|going\s+on)|nothing\s+(?:left\s+)?to\s+live\s+for)\b/ },
+  { id: "self_harm", level: "crisis", pattern: /\b(?:self[-\s]?harm(?:ing)?|(?:cut|cutting|burn|burning|hurt|hurting|harm|harming|starve|starving)\s+myself)\b/ },
+  { id: "overdose", level: "crisis", pattern: /\b(?:overdos(?:e|ed|ing)|(?:take|taking|took|swallow|swallowing)\s+all\s+(?:of\s+)?(?:my|the|these|those)\s+pills)\b/ },
+
+  // Distress that warrants support
+  { id: "cant_go_on", level: "concern", pattern: /\bcan'?t\s+(?:go\s+on|keep\s+going|take\s+(?:it|this)\s+any\s?more|do\s+this\s+any\s?more)\b/ },
+  { id: "hopeless", level: "concern", pattern: /\b(?:hopeless|no\s+hope\s+left|lost\s+all\s+hope)\b/ },
+  { id: "worthless", level: "concern", pattern: /\b(?:i'?m|i\s+am|feel|feeling)\s+(?:so\s+|completely\s+|totally\s+|utterly\s+)?worthless\b/ },
+  { id: "burden", level: "concern", pattern: /\b(?:i'?m|i\s+am)\s+(?:just\s+|such\s+)?a\s+burden\b/ },
+  { id: "disappear", level: "concern", pattern: /\b(?:want|wish)\s+(?:to|i\s+could)\s+(?:disappear|vanish|stop\s+existing|not\s+exist)\b/ },
+  { id: "nobody_would_care", level: "concern", pattern: /\b(?:no\s?one|nobody)\s+would\s+(?:care|miss\s+me|notice)\b/ },
+  { id: "others_at_risk", level: "concern", pattern: /\b(?:kill|killing|hurt|hurting|harm|harming)\s+(?:himself|herself|themselves|themself)\b/ },
+  { id: "harmed_by_others", level: "concern", pattern: /\b(?:(?:he|she|they|someone)\s+(?:hits|beats|beat|chokes|choked|hurts)\s+me|(?:he|she|they|someone)\s+hit\s+me(?!\s+up)|(?:i'?m|i\s+am|i\s+don'?t\s+feel)\s+(?:not\s+)?safe\s+at\s+home)\b/ },
+];
+
+// Figures of speech that would otherwise match a rule, removed before matching
+const FIGURES_OF_SPEECH: RegExp[] = [
+  /\bkill(?:ing|ed)?\s+(?:it|myself\s+laughing)\b/g,
+  /\b(?:dying|die)\s+to\s+(?:see|try|know|hear|go|get|have|meet|read|watch)\b/g,
+  /\bto\s+die\s+for\b/g,
+  /\b(?:die|died|dying)\s+(?:(?:of|from)\s+(?:laughter|laughing|embarrassment|boredom|cuteness|shame)|laughing)\b/g,
+  /\boverdos(?:e|ed|ing)\s+on\s+(?:coffee|caffeine|sugar|chocolate|netflix|tv|sun)\b/g,
+];
+
+export const LEVEL_ORDER: Record<SafetyLevel | "none", number> = { none: 0, concern: 1, crisis: 2 };
+
+export type RuleAssessment = {
+  level: SafetyLevel | "none";
+  matchedRules: string[];
+};
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’ʼ]/g, "'")
+    .replace(/\s+/g, " ");
+}
+
+/**
+ * Classify text with the rule set alone. Pure and deterministic, so it can be
+ * checked against the fixtures without a database or model.
+ */
+export function classifySafetyRules(text: string): RuleAssessment {
+  let normalized = normalize(text);
+  for (const figure of FIGURES_OF_SPEECH) {
+    normalized = normalized.replace(figure, " ");
+  }
+
+  const matched = SAFETY_RULES.filter(rule => rule.pattern.test(normalized));
+  const level = matched.reduce<SafetyLevel | "none">(
+    (highest, rule) => LEVEL_ORDER[rule.level] > LEVEL_ORDER[highest] ? rule.level : highest,
+    "none"
+  );
+  return { level, matchedRules: matched.map(rule => rule.id) };
+}
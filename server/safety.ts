@@ -0,0 +1,267 @@
+/**
+ * Safety layer
+ *
+ * Every message a user sends Flappy, by chat, email or SMS, is checked for
+ * signs of crisis before Flappy replies. A deterministic rule set always runs;
+ * with SAFETY_MODEL_CHECK=true the analytical model screens the message too,
+ * and whichever finds more concern wins, so the model can only add to what
+ * the rules catch. When a message is flagged, Flappy's usual reply is replaced
+ * by a plain safe-messaging template with crisis resources for the user's
+ * region, and a safety event is recorded.
+ *
+ * The rules err towards safety: negations ("I'd never hurt myself") still
+ * match, and only common figures of speech are discounted. Fixtures are in
+ * server/fixtures/safety.
+ */
+
+import type { SafetyLevel, ThreadChannel, User } from "@shared/schema";
+import { storage } from "./storage";
+import { getLLMProvider } from "./llm-provider";
+import { classifySafetyRules, LEVEL_ORDER } from "./safety-rules";
+
+const MODEL_CHECK_TIMEOUT_MS = 8000;
+const MODEL_CHECK_MAX_CHARS = 4000;
+
+const MODEL_CHECK_PROMPT = `You screen messages written to a journaling app for safety. Classify the message:
+- "crisis": suicidal thoughts, plans or intent, self-harm, or the writer being in immediate danger
+- "concern": serious distress such as hopelessness, feeling worthless or a burden, or someone else being at risk
+- "none": anything else, including everyday stress, sadness and figures of speech
+Reply with JSON only: {"level": "crisis" | "concern" | "none"}`;
+
+// The analytical model's reading of the text, or null if the check is off or fails
+async function classifyWithModel(text: string): Promise<SafetyLevel | "none" | null> {
+  if (process.env.SAFETY_MODEL_CHECK !== "true") return null;
+
+  const provider = getLLMProvider("analytical");
+  if (!provider.isConfigured()) return null;
+
+  try {
+    const result = await provider.completeJson<{ level?: string }>({
+      messages: [
+        { role: "system", content: MODEL_CHECK_PROMPT },
+        { role: "user", content: text.slice(0, MODEL_CHECK_MAX_CHARS) },
+      ],
+      temperature: 0,
+      maxTokens: 20,
+      signal: AbortSignal.timeout(MODEL_CHECK_TIMEOUT_MS),
+    });
+    const level = result?.level;
+    return level === "crisis" || level === "concern" || level === "none" ? level : null;
+  } catch (error) {
+    console.error("Safety model check failed; using the rules alone:", error);
+    return null;
+  }
+}
+
+export type SafetyRegionCode = "US" | "CA" | "GB" | "IE" | "AU" | "NZ" | "INTL";
+
+type SafetyResource = {
+  name: string;
+  contact: string;
+  url: string;
+};
+
+type SafetyRegion = {
+  emergencyNumber: string | null;
+  resources: SafetyResource[];
+};
+
+export const SAFETY_REGIONS: Record<SafetyRegionCode, SafetyRegion> = {
+  US: {
+    emergencyNumber: "911",
+    resources: [
+      { name: "988 Suicide & Crisis Lifeline", contact: "call or text 988", url: "https://988lifeline.org" },
+      { name: "Crisis Text Line", contact: "text HOME to 741741", url: "https://www.crisistextline.org" },
+    ],
+  },
+  CA: {
+    emergencyNumber: "911",
+    resources: [
+      { name: "9-8-8 Suicide Crisis Helpline", contact: "call or text 988", url: "https://988.ca" },
+    ],
+  },
+  GB: {
+    emergencyNumber: "999",
+    resources: [
+      { name: "Samaritans", contact: "call 116 123", url: "https://www.samaritans.org" },
+      { name: "Shout", contact: "text SHOUT to 85258", url: "https://giveusashout.org" },
+    ],
+  },
+  IE: {
+    emergencyNumber: "112 or 999",
+    resources: [
+      { name: "Samaritans", contact: "call 116 123", url: "https://www.samaritans.org/ireland" },
+      { name: "Text About It", contact: "text HELLO to 50808", url: "https://text50808.ie" },
+    ],
+  },
+  AU: {
+    emergencyNumber: "000",
+    resources: [
+      { name: "Lifeline", contact: "call 13 11 14 or text 0477 13 11 14", url: "https://www.lifeline.org.au" },
+    ],
+  },
+  NZ: {
+    emergencyNumber: "111",
+    resources: [
+      { name: "Need to talk?", contact: "call or text 1737", url: "https://1737.org.nz" },
+      { name: "Lifeline Aotearoa", contact: "call 0800 543 354", url: "https://www.lifeline.org.nz" },
+    ],
+  },
+  INTL: {
+    emergencyNumber: null,
+    resources: [
+      { name: "Find A Helpline", contact: "free, confidential support lines in your country", url: "https://findahelpline.com" },
+    ],
+  },
+};
+
+const PHONE_PREFIXES: [string, SafetyRegionCode][] = [
+  ["+353", "IE"],
+  ["+44", "GB"],
+  ["+61", "AU"],
+  ["+64", "NZ"],
+  ["+1", "US"], // Or Canada, told apart by time zone
+];
+
+const CANADIAN_TIME_ZONE = /^America\/(?:Toronto|Montreal|Vancouver|Edmonton|Calgary|Winnipeg|Regina|Swift_Current|Halifax|Moncton|Glace_Bay|Goose_Bay|St_Johns|Whitehorse|Yellowknife|Dawson_Creek|Fort_Nelson|Iqaluit|Rankin_Inlet|Cambridge_Bay|Inuvik)$|^Canada\//;
+const US_TIME_ZONE = /^America\/(?:New_York|Chicago|Denver|Los_Angeles|Phoenix|Anchorage|Detroit|Boise|Juneau|Sitka|Nome|Adak|Menominee|Indiana\/|Kentucky\/|North_Dakota\/)|^Pacific\/Honolulu$|^US\//;
+
+function regionFromTimeZone(timeZone: string): SafetyRegionCode | null {
+  if (CANADIAN_TIME_ZONE.test(timeZone)) return "CA";
+  if (US_TIME_ZONE.test(timeZone)) return "US";
+  if (timeZone === "Europe/London" || timeZone === "Europe/Belfast") return "GB";
+  if (timeZone === "Europe/Dublin") return "IE";
+  if (timeZone.startsWith("Australia/")) return "AU";
+  if (timeZone === "Pacific/Auckland" || timeZone === "Pacific/Chatham") return "NZ";
+  return null;
+}
+
+function regionFromAcceptLanguage(acceptLanguage: string): SafetyRegionCode | null {
+  for (const tag of acceptLanguage.split(",")) {
+    const country = tag.split(";")[0].trim().split("-")[1]?.toUpperCase();
+    if (country === "UK") return "GB";
+    if (country && country in SAFETY_REGIONS && country !== "INTL") return country as SafetyRegionCode;
+  }
+  return null;
+}
+
+/**
+ * Where the user most likely is, for their crisis resources: from their phone
+ * number's country code, then their time zone, then the browser's language
+ */
+export function resolveSafetyRegion(user: User, acceptLanguage?: string): SafetyRegionCode {
+  const timeZone = user.preferences?.timezone;
+  const timeZoneRegion = timeZone ? regionFromTimeZone(timeZone) : null;
+
+  const phoneNumber = (user.phoneNumber || user.preferences?.phoneNumber || "").replace(/[^\d+]/g, "");
+  const prefix = PHONE_PREFIXES.find(([code]) => phoneNumber.startsWith(code));
+  if (prefix) {
+    return prefix[1] === "US" && timeZoneRegion === "CA" ? "CA" : prefix[1];
+  }
+
+  return timeZoneRegion || (acceptLanguage && regionFromAcceptLanguage(acceptLanguage)) || "INTL";
+}
+
+function resourceLines(region: SafetyRegion, withUrls: boolean): string {
+  const lines = region.resources.map(resource =>
+    `- ${resource.name}: ${resource.contact}${withUrls ? ` (${resource.url})` : ""}`
+  );
+  lines.push(region.emergencyNumber
+    ? `- If you're in immediate danger, call ${region.emergencyNumber}.`
+    : "- If you're in immediate danger, call your local emergency number.");
+  return lines.join("\n");
+}
+
+/**
+ * The safe-messaging reply: calm and plain, without Flappy's usual playful
+ * voice, emoji or reflection prompts, and shorter by SMS
+ */
+export function buildSafetyResponse(level: SafetyLevel, regionCode: SafetyRegionCode, channel: ThreadChannel): string {
+  const region = SAFETY_REGIONS[regionCode];
+
+  if (channel === "sms") {
+    const [first] = region.resources;
+    const emergency = region.emergencyNumber ? `call ${region.emergencyNumber}` : "call your local emergency number";
+    return level === "crisis"
+      ? `I'm really glad you told me, and I'm sorry you're hurting this much. Please reach out now: ${first.name}, ${first.contact}. If you're in immediate danger, ${emergency}. I'm a journaling companion, not a crisis service, but I'm here when you want to write.`
+      : `Thank you for telling me. It sounds really heavy right now. If it would help to talk to someone: ${first.name}, ${first.contact}. If you ever feel unsafe, ${emergency}. I'm here when you want to write.`;
+  }
+
+  const withUrls = channel === "email";
+  if (level === "crisis") {
+    return [
+      "I'm really glad you told me, and I'm sorry you're carrying this much pain right now. You deserve support from a real person, and you don't have to go through this alone.",
+      `If you're thinking about ending your life or hurting yourself, please reach out now. These services are free and confidential:\n${resourceLines(region, withUrls)}`,
+      "I'm a journaling companion, not a crisis service, so I can't get help to you myself. If you can, let someone you trust know how you're feeling. I'll still be here whenever you want to write.",
+    ].join("\n\n");
+  }
+  return [
+    "Thank you for trusting me with this. It sounds like things feel really heavy right now, and that matters.",
+    `If it would help to talk to someone, these services are free and confidential:\n${resourceLines(region, withUrls)}`,
+    "I'm a journaling companion, not a crisis service, but I'm here to listen. Would it help to write a little more about what's been happening?",
+  ].join("\n\n");
+}
+
+export type SafetyCheck = {
+  level: SafetyLevel;
+  matchedRules: string[];
+  modelLevel: SafetyLevel | "none" | null;
+  channel: ThreadChannel;
+  region: SafetyRegionCode;
+  response: string; // Send this in place of Flappy's reply
+};
+
+export type SafetyEventSource = {
+  sourceType: "conversation" | "email" | "sms_message" | "journal_entry";
+  sourceId: number;
+};
+
+export const safetyService = {
+  /**
+   * Check a message from the user. Returns null when nothing was found;
+   * otherwise the reply to send instead of Flappy's, which the caller then
+   * records with recordEvent once the message is stored.
+   */
+  async check(user: User, text: string, channel: ThreadChannel, acceptLanguage?: string): Promise<SafetyCheck | null> {
+    if (!text.trim()) return null;
+
+    const rules = classifySafetyRules(text);
+    // A crisis can't be escalated further, so the model isn't asked
+    const modelLevel = rules.level === "crisis" ? null : await classifyWithModel(text);
+    const level = modelLevel && LEVEL_ORDER[modelLevel] > LEVEL_ORDER[rules.level] ? modelLevel : rules.level;
+    if (level === "none") return null;
+
+    const region = resolveSafetyRegion(user, acceptLanguage);
+    console.warn(`🛟 Safety check flagged a ${channel} message from user ${user.id} as ${level} (${rules.matchedRules.join(", ") || "model"})`);
+    return {
+      level,
+      matchedRules: rules.matchedRules,
+      modelLevel,
+      channel,
+      region,
+      response: buildSafetyResponse(level, region, channel),
+    };
+  },
+
+  /**
+   * Record what was flagged and the reply sent. Never throws, so a failure
+   * here can't stop the reply reaching the user.
+   */
+  async recordEvent(userId: number, check: SafetyCheck, source?: SafetyEventSource): Promise<void> {
+    try {
+      await storage.createSafetyEvent({
+        userId,
+        channel: check.channel,
+        level: check.level,
+        matchedRules: check.matchedRules,
+        modelLevel: check.modelLevel,
+        region: check.region,
+        response: check.response,
+        sourceType: source?.sourceType ?? null,
+        sourceId: source?.sourceId ?? null,
+      });
+    } catch (error) {
+      console.error(`Error recording safety event for user ${userId}:`, error);
+    }
+  },
+};
@@ -1,52 +1,306 @@
+import { User, UserPreferences, DeliverySchedule, DeliveryChannel, isValidTimeZone } from "@shared/schema";
+import { storage } from "./storage";
 import { emailService } from "./email";
+import { twilioService } from "./twilio";
+import { hasFeature } from "./entitlements";
 
-// Interval for checking if daily emails need to be sent (every 15 minutes)
-const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+// Interval for checking which deliveries are due (every 5 minutes)
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
 
-// Track the last date emails were sent to avoid duplicates
-let lastSendDate: string | null = null;
+// A delivery found later than this after its due time (e.g. the server was down)
+// is skipped and rescheduled rather than sent hours late
+const MAX_LATENESS_MS = 3 * 60 * 60 * 1000;
+
+const DEFAULT_DELIVERY_TIME = "11:00";
+const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || "UTC";
+
+// Day of the week used for "weekly" deliveries (0 = Sunday, 1 = Monday)
+const WEEKLY_DELIVERY_DAY = 1;
+
+const CHANNELS: DeliveryChannel[] = ["email", "sms", "weekly_insight"];
+
+const DELIVERY_NAMES: Record<DeliveryChannel, string> = {
+  email: "daily inspiration email",
+  sms: "daily inspiration SMS",
+  weekly_insight: "weekly insight email",
+};
+
+type LocalDate = { year: number; month: number; day: number };
+
+// Prevent overlapping runs if a check takes longer than the interval
+let isChecking = false;
+
+/**
+ * Resolve the delivery settings for a user, falling back to defaults. Weekly
+ * insights go out at the same time as daily inspirations, on the weekly day.
+ */
+function getDeliverySettings(preferences: UserPreferences | null, channel: DeliveryChannel = "email") {
+  const time = preferences?.emailDeliveryTime && /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/.test(preferences.emailDeliveryTime)
+    ? preferences.emailDeliveryTime
+    : DEFAULT_DELIVERY_TIME;
+  const timezone = preferences?.timezone && isValidTimeZone(preferences.timezone)
+    ? preferences.timezone
+    : DEFAULT_TIMEZONE;
+  const frequency = channel === "weekly_insight" ? "weekly" : preferences?.emailFrequency || "daily";
+
+  return { time, timezone, frequency };
+}
+
+/**
+ * Check whether a user should get deliveries on the given channel
+ */
+function isEligible(user: User, channel: DeliveryChannel): boolean {
+  const preferences = user.preferences;
+  if (channel === "weekly_insight") {
+    return preferences?.receiveInsights ?? true;
+  }
+  if (preferences?.disableDailyEmails) return false;
+
+  if (channel === "sms") {
+    return !!(hasFeature(user, "sms_journaling") && preferences?.receiveSms && preferences?.phoneNumber);
+  }
+  return true;
+}
+
+/**
+ * Key describing the settings a schedule was computed from. When the user
+ * changes any of them the next due time is recomputed.
+ */
+function getScheduleKey(user: User, channel: DeliveryChannel): string {
+  const { time, timezone, frequency } = getDeliverySettings(user.preferences, channel);
+  return `${timezone}|${time}|${frequency}`;
+}
+
+/**
+ * Wall-clock date and time of an instant in the given timezone
+ */
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+/**
+ * Offset of the timezone from UTC at the given instant, in milliseconds
+ */
+function getTimezoneOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in a timezone to a UTC instant. Times that fall in
+ * a DST gap resolve to the first valid instant after the gap.
+ */
+function zonedTimeToUtc(date: LocalDate, hour: number, minute: number, timeZone: string): Date {
+  const guess = Date.UTC(date.year, date.month - 1, date.day, hour, minute);
+  const offset = getTimezoneOffsetMs(new Date(guess), timeZone);
+  let result = guess - offset;
+
+  // The offset at the result may differ from the guess around DST changes;
+  // only take the corrected instant if it really shows the requested time
+  const correctedOffset = getTimezoneOffsetMs(new Date(result), timeZone);
+  if (correctedOffset !== offset) {
+    const corrected = getZonedParts(new Date(guess - correctedOffset), timeZone);
+    if (corrected.hour === hour && corrected.minute === minute) {
+      result = guess - correctedOffset;
+    }
+  }
+
+  return new Date(result);
+}
+
+function addDays(date: LocalDate, days: number): LocalDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+function formatLocalDate(date: LocalDate): string {
+  return `${date.year}-${String(date.month).padStart(2, "0")}-${String(date.day).padStart(2, "0")}`;
+}
+
+function isDeliveryDay(date: LocalDate, frequency: UserPreferences["emailFrequency"]): boolean {
+  const weekday = new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+
+  switch (frequency) {
+    case "weekdays":
+      return weekday >= 1 && weekday <= 5;
+    case "weekends":
+      return weekday === 0 || weekday === 6;
+    case "weekly":
+      return weekday === WEEKLY_DELIVERY_DAY;
+    default:
+      return true;
+  }
+}
 
 /**
- * Check if it's time to send daily emails based on the current time
+ * Compute the next delivery for a user strictly after `after`, skipping the
+ * local date that was already delivered
  */
-async function checkAndSendDailyEmails() {
-  const now = new Date();
-  
-  // Get current hour in 24hr format (for delivery time check)
-  const currentHour = now.getHours();
-  const currentMinute = now.getMinutes();
-  
-  // Format today's date as YYYY-MM-DD for tracking
-  const today = now.toISOString().split('T')[0];
-  
-  // If we already sent emails today, skip
-  if (lastSendDate === today) {
-    console.log(`📅 Daily emails already sent for ${today}, skipping check`);
+export function computeNextDelivery(
+  preferences: UserPreferences | null,
+  after: Date,
+  lastSentLocalDate?: string | null,
+  channel: DeliveryChannel = "email"
+): { dueAt: Date; localDate: string } {
+  const { time, timezone, frequency } = getDeliverySettings(preferences, channel);
+  const [hour, minute] = time.split(":").map(Number);
+
+  const now = getZonedParts(after, timezone);
+  let candidate: LocalDate = { year: now.year, month: now.month, day: now.day };
+
+  // A week always contains a delivery day for every frequency
+  for (let i = 0; i < 8; i++) {
+    const localDate = formatLocalDate(candidate);
+    const dueAt = zonedTimeToUtc(candidate, hour, minute, timezone);
+
+    if (isDeliveryDay(candidate, frequency) && dueAt > after && localDate !== lastSentLocalDate) {
+      return { dueAt, localDate };
+    }
+
+    candidate = addDays(candidate, 1);
+  }
+
+  throw new Error(`Could not compute next delivery for frequency ${frequency}`);
+}
+
+/**
+ * Bring the stored schedules in line with current user preferences, dropping
+ * those of users no longer in the list (deleted accounts)
+ */
+async function syncSchedules(users: User[], schedules: DeliverySchedule[], now: Date): Promise<DeliverySchedule[]> {
+  const existing = new Map(schedules.map(schedule => [`${schedule.userId}:${schedule.channel}`, schedule]));
+  const synced: DeliverySchedule[] = [];
+
+  for (const user of users) {
+    for (const channel of CHANNELS) {
+      const schedule = existing.get(`${user.id}:${channel}`);
+
+      if (!isEligible(user, channel)) {
+        if (schedule) {
+          await storage.deleteDeliverySchedule(user.id, channel);
+          console.log(`🗓️ Removed ${channel} delivery schedule for user ${user.id}`);
+        }
+        continue;
+      }
+
+      const scheduleKey = getScheduleKey(user, channel);
+      if (schedule && schedule.scheduleKey === scheduleKey) {
+        synced.push(schedule);
+        continue;
+      }
+
+      const { dueAt } = computeNextDelivery(user.preferences, now, schedule?.lastSentLocalDate, channel);
+      const saved = await storage.saveDeliverySchedule(user.id, channel, dueAt, scheduleKey);
+      console.log(`🗓️ Scheduled next ${channel} delivery for user ${user.id} at ${dueAt.toISOString()}`);
+      synced.push(saved);
+    }
+  }
+
+  const userIds = new Set(users.map(user => user.id));
+  for (const schedule of schedules) {
+    if (!userIds.has(schedule.userId)) {
+      await storage.deleteDeliverySchedule(schedule.userId, schedule.channel);
+      console.log(`🗓️ Removed ${schedule.channel} delivery schedule for deleted user ${schedule.userId}`);
+    }
+  }
+
+  return synced;
+}
+
+/**
+ * Send one due delivery. The schedule is advanced before sending so a crash or
+ * restart mid-send can never produce a second message for the same day.
+ */
+async function processDueSchedule(schedule: DeliverySchedule, user: User, now: Date) {
+  const { timezone } = getDeliverySettings(user.preferences, schedule.channel);
+  const due = getZonedParts(schedule.nextDueAt, timezone);
+  const dueLocalDate = formatLocalDate(due);
+  const next = computeNextDelivery(user.preferences, now, dueLocalDate, schedule.channel);
+
+  const claimed = await storage.claimDeliverySchedule(schedule.id, schedule.nextDueAt, next.dueAt, dueLocalDate);
+  if (!claimed) {
+    // Another process already handled this delivery
+    return;
+  }
+
+  if (now.getTime() - schedule.nextDueAt.getTime() > MAX_LATENESS_MS) {
+    console.log(`⏭️ Skipping stale ${DELIVERY_NAMES[schedule.channel]} for user ${user.id} (was due ${schedule.nextDueAt.toISOString()})`);
     return;
   }
-  
-  // Check if it's time to send based on preferred delivery hour (default: 11:00 AM)
-  // We'll send within 15 minutes of the target hour
-  if (currentHour === 11 && currentMinute < 15) {
-    console.log(`🕚 It's around 11:00 AM - time to send daily inspiration emails!`);
-    
-    try {
-      // Send daily inspiration emails
-      const result = await emailService.sendDailyInspiration();
-      
-      if (result.success) {
-        console.log(`✅ Successfully sent ${result.count} daily inspiration emails`);
-        // Update last send date to avoid sending duplicates today
-        lastSendDate = today;
-      } else {
-        console.error(`❌ Failed to send daily inspiration emails`);
+
+  const name = DELIVERY_NAMES[schedule.channel];
+  try {
+    if (schedule.channel === "weekly_insight") {
+      // The seven local days before the one it's sent on
+      const dueDate: LocalDate = { year: due.year, month: due.month, day: due.day };
+      const sent = await emailService.sendWeeklyInsight(user, {
+        start: zonedTimeToUtc(addDays(dueDate, -7), 0, 0, timezone),
+        end: zonedTimeToUtc(dueDate, 0, 0, timezone),
+        timezone,
+      });
+      if (!sent) return;
+    } else if (schedule.channel === "email") {
+      await emailService.sendDailyInspiration(user);
+    } else {
+      const message = await twilioService.sendDailyInspirationSms(user);
+      if (!message) {
+        throw new Error("SMS was not sent");
       }
-    } catch (error) {
-      console.error('Error sending daily inspiration emails:', error);
     }
-  } else {
-    // Not time yet
-    console.log(`⏰ Current time: ${currentHour}:${currentMinute} - Not yet time to send daily emails (scheduled for ~11:00 AM)`);
+    console.log(`✅ Sent ${name} to user ${user.id}; next at ${next.dueAt.toISOString()}`);
+  } catch (error) {
+    console.error(`❌ Failed to send ${name} to user ${user.id}:`, error);
+  }
+}
+
+/**
+ * Check all delivery schedules and send whatever is due
+ */
+async function checkAndSendDueDeliveries() {
+  if (isChecking) return;
+  isChecking = true;
+
+  try {
+    const now = new Date();
+    const users = await storage.getAllUsers();
+    const schedules = await syncSchedules(users, await storage.getDeliverySchedules(), now);
+    const usersById = new Map(users.map(user => [user.id, user]));
+
+    const due = schedules.filter(schedule => schedule.nextDueAt <= now);
+    if (due.length > 0) {
+      console.log(`📬 ${due.length} scheduled deliveries due`);
+    }
+
+    for (const schedule of due) {
+      const user = usersById.get(schedule.userId);
+      if (user) {
+        await processDueSchedule(schedule, user, now);
+      }
+    }
+  } catch (error) {
+    console.error('Error checking delivery schedules:', error);
+  } finally {
+    isChecking = false;
   }
 }
 
@@ -54,13 +308,13 @@ async function checkAndSendDailyEmails() {
  * Start the email scheduler
  */
 export function startEmailScheduler() {
-  console.log('📅 Starting email scheduler service...');
-  
-  // Check immediately on startup (but with a small delay to let other systems initialize)
+  console.log('📅 Starting delivery scheduler...');
+
+  // Check shortly after startup (with a small delay to let other systems initialize)
   setTimeout(() => {
-    checkAndSendDailyEmails();
+    checkAndSendDueDeliveries();
   }, 10000);
-  
+
   // Then set up regular interval checks
-  setInterval(checkAndSendDailyEmails, CHECK_INTERVAL_MS);
-}
\ No newline at end of file
+  setInterval(checkAndSendDueDeliveries, CHECK_INTERVAL_MS);
+}
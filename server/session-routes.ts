@@ -0,0 +1,100 @@
+import { type Express, Request, Response } from "express";
+import { storage } from "./storage";
+
+// Rough browser and OS names, enough for someone to recognize their devices
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\/|FxiOS/, "Firefox"],
+  [/Chrome\/|CriOS/, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Windows/, "Windows"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const os = OPERATING_SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || "Unknown device";
+}
+
+/**
+ * Add routes for listing and revoking the user's login sessions to Express app
+ */
+export function addSessionRoutes(app: Express) {
+  // Where the user is logged in, most recently used first
+  app.get("/api/sessions", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    try {
+      const userSessions = await storage.getUserSessions(req.user.id);
+      res.json(userSessions.map(userSession => ({
+        id: userSession.id,
+        device: describeDevice(userSession.userAgent),
+        userAgent: userSession.userAgent,
+        ipAddress: userSession.ipAddress,
+        createdAt: userSession.createdAt,
+        lastSeenAt: userSession.lastSeenAt,
+        current: userSession.sid === req.sessionID,
+      })));
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ error: "Failed to fetch sessions" });
+    }
+  });
+
+  // Log out one of the user's other sessions
+  app.delete("/api/sessions/:id", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid session ID" });
+    }
+
+    try {
+      if (!(await storage.deleteUserSession(req.user.id, id))) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ error: "Failed to log out session" });
+    }
+  });
+
+  // Log out everywhere, including this session
+  app.delete("/api/sessions", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const userId = req.user.id;
+    try {
+      const revoked = await storage.deleteUserSessions(userId);
+      console.log(`🔒 User ${userId} logged out of ${revoked} sessions`);
+      req.logout((err) => {
+        if (err) {
+          console.error("Error logging out:", err);
+        }
+        res.status(204).end();
+      });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ error: "Failed to log out everywhere" });
+    }
+  });
+}
@@ -0,0 +1,87 @@
+import session, { type SessionData } from "express-session";
+import { sessions } from "@shared/schema";
+import { db } from "./db";
+import { eq, and, gt, lt, sql } from "drizzle-orm";
+
+// Sessions without a cookie expiry (there shouldn't be any) last this long
+const DEFAULT_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// last_seen_at is written at most this often, not on every request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+const PRUNE_INTERVAL_MS = 15 * 60 * 1000;
+
+type Callback = (err?: any) => void;
+
+function expiryOf(sess: SessionData): Date {
+  return sess.cookie?.expires
+    ? new Date(sess.cookie.expires)
+    : new Date(Date.now() + DEFAULT_SESSION_TTL_MS);
+}
+
+// Passport keeps the logged-in user's ID in the session
+function userIdOf(sess: SessionData): number | null {
+  const userId = (sess as { passport?: { user?: unknown } }).passport?.user;
+  return typeof userId === "number" ? userId : null;
+}
+
+/**
+ * express-session store on the sessions table. Alongside the session data it
+ * keeps who the session belongs to, the device and when it was last used, so
+ * users can see and revoke their sessions.
+ */
+export class PostgresSessionStore extends session.Store {
+  constructor() {
+    super();
+    setInterval(() => {
+      this.pruneExpired().catch(error => console.error("Error pruning expired sessions:", error));
+    }, PRUNE_INTERVAL_MS).unref();
+  }
+
+  get(sid: string, callback: (err: any, session?: SessionData | null) => void): void {
+    db.select({ sess: sessions.sess })
+      .from(sessions)
+      .where(and(eq(sessions.sid, sid), gt(sessions.expire, new Date())))
+      .then(([row]) => callback(null, row ? (row.sess as SessionData) : null))
+      .catch(callback);
+  }
+
+  set(sid: string, sess: SessionData, callback?: Callback): void {
+    const values = {
+      sess,
+      expire: expiryOf(sess),
+      userId: userIdOf(sess),
+      userAgent: sess.device?.userAgent ?? null,
+      ipAddress: sess.device?.ipAddress ?? null,
+      lastSeenAt: new Date(),
+    };
+    db.insert(sessions)
+      .values({ sid, ...values })
+      .onConflictDoUpdate({ target: sessions.sid, set: values })
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: Callback): void {
+    db.delete(sessions)
+      .where(eq(sessions.sid, sid))
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  // Called on requests that didn't change the session
+  touch(sid: string, sess: SessionData, callback?: Callback): void {
+    db.update(sessions)
+      .set({ expire: expiryOf(sess), lastSeenAt: new Date() })
+      .where(and(
+        eq(sessions.sid, sid),
+        lt(sessions.lastSeenAt, new Date(Date.now() - LAST_SEEN_RESOLUTION_MS))
+      ))
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  async pruneExpired(): Promise<void> {
+    await db.delete(sessions).where(lt(sessions.expire, sql`now()`));
+  }
+}
@@ -0,0 +1,204 @@
+import express, { type Express, Request, Response } from "express";
+import { storage, type SmsFilter } from "./storage";
+import { twilioService, isSmsSimulationEnabled, validateTwilioSignature, type MmsMedia } from "./twilio";
+import { MAX_ATTACHMENTS_PER_ENTRY } from "./journal-attachments";
+import { checkFeature, sendUpgradeRequired } from "./entitlements";
+import { jobQueue, inboundSmsJobKey } from "./job-queue";
+
+// Twilio counts a single SMS as 160 GSM characters; anything beyond is split
+// into segments, so cap what the web app can send in one go.
+const MAX_SMS_LENGTH = 1600;
+
+/**
+ * Add SMS routes to Express app
+ */
+export function addSmsRoutes(app: Express) {
+  // Get SMS history for the current user
+  app.get("/api/sms", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    try {
+      const { direction, isJournalEntry, dateRange } = req.query;
+      const filter: SmsFilter = {};
+
+      if (direction === "inbound" || direction === "outbound") {
+        filter.direction = direction;
+      }
+
+      if (isJournalEntry === "true" || isJournalEntry === "false") {
+        filter.isJournalEntry = isJournalEntry === "true";
+      }
+
+      if (typeof dateRange === "string") {
+        filter.dateRange = dateRange;
+      }
+
+      const messages = await storage.getSmsMessages(req.user.id, filter);
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching SMS messages:", error);
+      res.status(500).json({ message: "Failed to fetch SMS messages" });
+    }
+  });
+
+  // Send an SMS from Flappy to the current user's phone
+  app.post("/api/sms/send", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    const { content } = req.body;
+    if (!content || typeof content !== "string" || !content.trim()) {
+      return res.status(400).json({ message: "Message content is required" });
+    }
+    if (content.length > MAX_SMS_LENGTH) {
+      return res.status(400).json({ message: `Message must be ${MAX_SMS_LENGTH} characters or fewer` });
+    }
+
+    const denial = checkFeature(req.user, "sms_journaling");
+    if (denial) {
+      return sendUpgradeRequired(res, denial);
+    }
+    if (!req.user.preferences?.phoneNumber) {
+      return res.status(400).json({ message: "Add a phone number in settings to use SMS features" });
+    }
+
+    try {
+      const message = await twilioService.sendSmsMessage(req.user, content.trim());
+      if (!message) {
+        return res.status(502).json({ message: "Failed to send SMS" });
+      }
+
+      res.status(201).json(message);
+    } catch (error) {
+      console.error("Error sending SMS:", error);
+      res.status(500).json({ message: "Failed to send SMS" });
+    }
+  });
+
+  // Send a fresh daily inspiration to the current user by SMS
+  app.post("/api/sms/request-inspiration", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    const denial = checkFeature(req.user, "sms_journaling");
+    if (denial) {
+      return sendUpgradeRequired(res, denial);
+    }
+    if (!req.user.preferences?.phoneNumber) {
+      return res.status(400).json({ message: "Add a phone number in settings to use SMS features" });
+    }
+
+    try {
+      const message = await twilioService.sendDailyInspirationSms(req.user);
+      if (!message) {
+        return res.status(502).json({ message: "Failed to send inspiration" });
+      }
+
+      res.status(201).json(message);
+    } catch (error) {
+      console.error("Error sending inspiration SMS:", error);
+      res.status(500).json({ message: "Failed to send inspiration" });
+    }
+  });
+
+  // Run a message through the full inbound SMS pipeline as if it had been
+  // texted from the user's phone. Replies go through the same send path, which
+  // logs them instead of calling Twilio when credentials aren't configured.
+  app.post("/api/sms/simulate-incoming", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    if (!isSmsSimulationEnabled()) {
+      return res.status(403).json({ message: "SMS simulation is disabled on this server" });
+    }
+
+    const { content } = req.body;
+    if (!content || typeof content !== "string" || !content.trim()) {
+      return res.status(400).json({ message: "Message content is required" });
+    }
+    if (content.length > MAX_SMS_LENGTH) {
+      return res.status(400).json({ message: `Message must be ${MAX_SMS_LENGTH} characters or fewer` });
+    }
+
+    const phoneNumber = req.user.preferences?.phoneNumber;
+    if (!phoneNumber) {
+      return res.status(400).json({ message: "Add a phone number in settings to simulate SMS" });
+    }
+
+    try {
+      const startedAt = new Date();
+      // Sent as the signed-in user, whoever else has entered the same number
+      await twilioService.processIncomingSms(phoneNumber, content, [], req.user);
+
+      // Return everything the pipeline stored for this exchange
+      const messages = await storage.getSmsMessages(req.user.id);
+      const exchange = messages
+        .filter(message => new Date(message.sentAt) >= startedAt)
+        .reverse(); // oldest first
+
+      res.json({
+        success: true,
+        simulated: true,
+        messages: exchange
+      });
+    } catch (error) {
+      console.error("Error simulating incoming SMS:", error);
+      res.status(500).json({ message: "Failed to simulate incoming SMS" });
+    }
+  });
+
+  // Twilio inbound SMS webhook (configure as the number's "A message comes in" URL)
+  app.post(
+    "/api/sms/webhook",
+    express.urlencoded({ extended: false }),
+    async (req: Request, res: Response) => {
+      const signature = req.headers["x-twilio-signature"] as string | undefined;
+      const protocol = req.headers["x-forwarded-proto"] || req.protocol;
+      const url = `${protocol}://${req.get("host")}${req.originalUrl}`;
+
+      if (!validateTwilioSignature(signature, url, req.body)) {
+        console.warn("Rejected Twilio webhook with invalid signature");
+        return res.status(403).send("Invalid signature");
+      }
+
+      const { From, Body } = req.body;
+      if (!From || typeof Body !== "string") {
+        return res.status(400).send("Missing From or Body");
+      }
+
+      // MMS: NumMedia files at MediaUrl0..N with their MediaContentType0..N
+      const media: MmsMedia[] = [];
+      const numMedia = Math.min(parseInt(req.body.NumMedia) || 0, MAX_ATTACHMENTS_PER_ENTRY);
+      for (let i = 0; i < numMedia; i++) {
+        const url = req.body[`MediaUrl${i}`];
+        if (typeof url === "string" && url) {
+          media.push({ url, contentType: String(req.body[`MediaContentType${i}`] || "") });
+        }
+      }
+
+      // Handled by the job worker; Twilio redelivers a message it didn't get a
+      // timely 200 for, and the MessageSid key keeps it from being handled twice
+      const messageSid = typeof req.body.MessageSid === "string" && req.body.MessageSid ? req.body.MessageSid : null;
+      try {
+        const { job, duplicate } = await jobQueue.enqueue("inbound_sms", { from: From, body: Body, media, messageSid }, {
+          idempotencyKey: inboundSmsJobKey(messageSid),
+        });
+        if (duplicate) {
+          console.log(`📱 Twilio redelivered message ${messageSid} (job ${job.id}); ignoring`);
+        }
+      } catch (error) {
+        // Without a 2xx Twilio tries the webhook again
+        console.error("Error queueing Twilio webhook:", error);
+        return res.status(500).send("Failed to queue message");
+      }
+
+      // Replies are sent through the REST API, so answer with empty TwiML
+      res.type("text/xml").send("<Response></Response>");
+    }
+  );
+}
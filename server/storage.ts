@@ -4,7 +4,19 @@ import {
   type Email, type InsertEmail, type UpdateUserPreferences, type SmsMessage, 
   type InsertSmsMessage, type PaymentMethod, type InsertPaymentMethod,
   type BillingTransaction, type InsertBillingTransaction,
-  type ConversationMemory, type InsertConversationMemory, type EmailQueueItem, type InsertEmailQueue
+  type ConversationMemory, type InsertConversationMemory,
+  type DeliverySchedule, type DeliveryChannel,
+  type Thread, type Message, type InsertMessage, type ThreadChannel,
+  type Embedding, type EmbeddingSourceType, type JournalEntryRevision,
+  type JournalAttachment, type InsertJournalAttachment,
+  type Conversation, type AccountExport,
+  type PromoCode, type InsertPromoCode, type PromoRedemption,
+  type TwoFactorCode, type InsertTwoFactorCode, type TwoFactorCodePurpose,
+  type UserSession,
+  type WebhookSubscription, type WebhookDelivery, type WebhookEvent, type UpdateWebhookSubscription,
+  type SafetyEvent,
+  type PromptTemplate,
+  type Job, type JobType, type JobStatus
 } from "@shared/schema";
 import createMemoryStore from "memorystore";
 import session from "express-session";
@@ -19,7 +31,8 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserByPhoneNumber(phoneNumber: string): Promise<User | undefined>;
-  getAllUsers(): Promise<User[]>;
+  getUserByStripeCustomerId(stripeCustomerId: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>; // Excludes deleted accounts
   createUser(user: InsertUser): Promise<User>;
   updateUserProfile(userId: number, profileData: { username: string; email: string; firstName?: string; lastName?: string; bio?: string }): Promise<User>;
   updateUserPreferences(userId: number, preferences: UpdateUserPreferences): Promise<User>;
@@ -27,15 +40,57 @@ export interface IStorage {
   updateUserPhoneNumber(userId: number, phoneNumber: string | null): Promise<User>;
   updateUserStripeCustomerId(userId: number, stripeCustomerId: string): Promise<User>;
   updateUserStripeSubscriptionId(userId: number, stripeSubscriptionId: string): Promise<User>;
+  updateUserBillingState(userId: number, state: UserBillingState): Promise<User>;
   updateUserPaymentDetails(userId: number, paymentDetails: PaymentDetails): Promise<User>;
+
+  // Password reset and email verification; tokens are stored as SHA-256 hashes
+  updateUserResetToken(userId: number, resetToken: string, resetTokenExpires: Date): Promise<User>;
+  getUserByResetToken(resetToken: string): Promise<User | undefined>;
+  updateUserPasswordAndClearToken(userId: number, newPassword: string): Promise<User>;
+  updateUserEmailVerificationToken(userId: number, token: string, expires: Date): Promise<User>;
+  getUserByEmailVerificationToken(token: string): Promise<User | undefined>;
+  markUserEmailVerified(userId: number): Promise<User>;
+
+  // Two-factor authentication; SMS and recovery codes are stored as SHA-256 hashes
+  updateUserTwoFactor(userId: number, state: UserTwoFactorState): Promise<User>;
+  claimTotpStep(userId: number, step: number): Promise<boolean>; // False if that step or a later one was already used
+  // Count a sign-in code about to be checked; the last allowed one locks the
+  // account for lockoutMs. False, without counting, while it's locked.
+  claimTwoFactorLoginAttempt(userId: number, maxAttempts: number, lockoutMs: number): Promise<boolean>;
+  resetTwoFactorLoginAttempts(userId: number): Promise<void>;
+  disableTwoFactor(userId: number): Promise<User>; // Also deletes the recovery codes
+  createTwoFactorCode(code: InsertTwoFactorCode): Promise<TwoFactorCode>;
+  getLatestTwoFactorCode(userId: number, purpose: TwoFactorCodePurpose): Promise<TwoFactorCode | undefined>;
+  recordTwoFactorCodeAttempt(id: number): Promise<void>;
+  consumeTwoFactorCode(id: number): Promise<boolean>; // False if it was already used
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: number): Promise<number>;
+  
+  // Login sessions, for the user's list of where they're logged in
+  getUserSessions(userId: number): Promise<UserSession[]>; // Unexpired, most recently used first
+  deleteUserSession(userId: number, id: number): Promise<boolean>;
+  deleteUserSessions(userId: number): Promise<number>; // Logs the user out everywhere
   
   // Journal operations
   getJournalEntries(userId: number, filter?: JournalFilter): Promise<JournalEntry[]>;
-  getJournalEntry(id: number): Promise<JournalEntry | undefined>;
+  getRecentJournalEntries(userId: number, days: number): Promise<JournalEntry[]>; // Oldest first
+  getJournalEntry(id: number, options?: { includeDeleted?: boolean }): Promise<JournalEntry | undefined>;
   createJournalEntry(entry: InsertJournalEntry): Promise<JournalEntry>;
   updateJournalEntry(id: number, entry: Partial<InsertJournalEntry>): Promise<JournalEntry | undefined>;
-  deleteJournalEntry(id: number): Promise<boolean>;
-  
+  deleteJournalEntry(id: number): Promise<boolean>; // Moves the entry to the trash
+  getTrashedJournalEntries(userId: number): Promise<JournalEntry[]>;
+  restoreJournalEntry(id: number): Promise<JournalEntry | undefined>;
+  purgeJournalEntry(id: number): Promise<boolean>;
+  purgeExpiredJournalEntries(deletedBefore: Date): Promise<number>;
+  searchJournalEntries(userId: number, query: string, options?: JournalSearchOptions): Promise<JournalSearchResults>;
+  getJournalRevisions(entryId: number): Promise<JournalEntryRevision[]>;
+  getJournalRevision(entryId: number, revisionNumber: number): Promise<JournalEntryRevision | undefined>;
+  restoreJournalRevision(entryId: number, revisionNumber: number): Promise<JournalEntry | undefined>;
+  getJournalAttachments(entryIds: number[]): Promise<JournalAttachment[]>;
+  createJournalAttachment(attachment: InsertJournalAttachment): Promise<JournalAttachment>;
+  getJournalFileReferences(): Promise<JournalFileReference[]>; // Every stored image and attachment, for the orphaned file sweep
+
   // Email operations
   getEmails(userId: number, filter?: EmailFilter): Promise<Email[]>;
   getEmail(id: number): Promise<Email | undefined>;
@@ -59,6 +114,27 @@ export interface IStorage {
   getBillingTransactions(userId: number): Promise<BillingTransaction[]>;
   getBillingTransaction(id: number): Promise<BillingTransaction | undefined>;
   createBillingTransaction(transaction: InsertBillingTransaction): Promise<BillingTransaction>;
+  getBillingTransactionByInvoiceId(stripeInvoiceId: string): Promise<BillingTransaction | undefined>;
+  updateBillingTransaction(id: number, updates: Partial<InsertBillingTransaction>): Promise<BillingTransaction>;
+  // Record a Stripe webhook event as processed; false if it already was
+  claimStripeEvent(eventId: string, type: string): Promise<boolean>;
+  // Forget a claimed event whose processing failed, so Stripe's retry is handled
+  releaseStripeEvent(eventId: string): Promise<void>;
+  
+  // Premium access operations
+  getPromoCodes(): Promise<PromoCode[]>;
+  getPromoCodeByCode(code: string): Promise<PromoCode | undefined>;
+  createPromoCode(promoCode: InsertPromoCode): Promise<PromoCode>;
+  disablePromoCode(id: number): Promise<PromoCode | undefined>;
+  getPromoRedemption(promoCodeId: number, userId: number): Promise<PromoRedemption | undefined>;
+  // Count a redemption against the code's limit and grant the user premium until the given
+  // time, all or nothing; undefined if the code has been used up or the user already redeemed it
+  redeemPromoCode(promoCodeId: number, userId: number, premiumUntil: Date): Promise<User | undefined>;
+  // Users on a trial or promo whose access ends before the cutoff and who haven't been reminded
+  getUsersDueExpiryReminder(cutoff: Date): Promise<User[]>;
+  // Turn premium off for users whose access has run out: trials and promos at premiumUntil,
+  // Stripe subscriptions at stripeCutoff (allowing for a late renewal webhook)
+  expirePremiumAccess(now: Date, stripeCutoff: Date): Promise<User[]>;
   
   // Conversation memory operations
   getConversationMemories(userId: number, type?: string): Promise<ConversationMemory[]>;
@@ -68,13 +144,78 @@ export interface IStorage {
   incrementConversationMemoryFrequency(id: number): Promise<ConversationMemory | undefined>;
   markConversationMemoryResolved(id: number, isResolved: boolean): Promise<ConversationMemory | undefined>;
   
-  // Email queue operations
-  enqueueEmail(payload: InsertEmailQueue): Promise<EmailQueueItem>;
-  getNextPendingEmail(): Promise<EmailQueueItem | undefined>;
-  markEmailProcessing(id: number): Promise<EmailQueueItem | undefined>;
-  markEmailCompleted(id: number): Promise<EmailQueueItem | undefined>;
-  markEmailFailed(id: number, errorMessage: string): Promise<EmailQueueItem | undefined>;
-  incrementEmailAttempts(id: number): Promise<EmailQueueItem | undefined>;
+  // Job queue operations
+  enqueueJob(job: NewJob): Promise<Job | undefined>; // Undefined when a job with the idempotency key exists
+  getJob(id: number): Promise<Job | undefined>;
+  getJobByIdempotencyKey(key: string): Promise<Job | undefined>;
+  getJobs(filter?: JobFilter): Promise<Job[]>; // Newest first
+  getJobCounts(): Promise<JobCount[]>;
+  // Due jobs of a type, marked running with their due time pushed back by leaseMs so no other worker picks them up meanwhile
+  claimDueJobs(type: JobType, limit: number, leaseMs: number): Promise<Job[]>;
+  // Updates a running job only while it's still on the given attempt, so a worker whose lease ran out can't
+  // overwrite the job after another has claimed it; undefined if it has been
+  updateClaimedJob(id: number, attempt: number, updates: Partial<Pick<Job, "status" | "runAt" | "lastError" | "completedAt">>): Promise<Job | undefined>;
+  retryJob(id: number): Promise<Job | undefined>; // Puts a dead or waiting job back to run now, with its attempts reset
+  recordJobStep(id: number, step: string, result: unknown): Promise<void>; // Adds a finished step and what it returned to the job's progress
+  purgeJobs(status: "completed" | "dead", finishedBefore: Date): Promise<number>;
+  
+  // Delivery schedule operations
+  getDeliverySchedules(): Promise<DeliverySchedule[]>;
+  saveDeliverySchedule(userId: number, channel: DeliveryChannel, nextDueAt: Date, scheduleKey: string): Promise<DeliverySchedule>;
+  claimDeliverySchedule(id: number, dueAt: Date, nextDueAt: Date, localDate: string): Promise<DeliverySchedule | undefined>;
+  deleteDeliverySchedule(userId: number, channel: DeliveryChannel): Promise<void>;
+  
+  // Webhook operations
+  getWebhookSubscriptions(userId: number): Promise<WebhookSubscription[]>;
+  getWebhookSubscription(userId: number, id: number): Promise<WebhookSubscription | undefined>;
+  getActiveWebhookSubscriptions(userId: number, event: WebhookEvent): Promise<WebhookSubscription[]>;
+  createWebhookSubscription(subscription: NewWebhookSubscription): Promise<WebhookSubscription>;
+  updateWebhookSubscription(userId: number, id: number, updates: UpdateWebhookSubscription): Promise<WebhookSubscription | undefined>;
+  deleteWebhookSubscription(userId: number, id: number): Promise<boolean>;
+  // Counts a delivery that ran out of retries; success resets the count
+  recordWebhookSubscriptionResult(id: number, succeeded: boolean): Promise<WebhookSubscription | undefined>;
+  createWebhookDeliveries(deliveries: NewWebhookDelivery[]): Promise<WebhookDelivery[]>;
+  getWebhookDeliveries(userId: number, subscriptionId: number, limit?: number): Promise<WebhookDelivery[]>; // Newest first
+  getWebhookDelivery(userId: number, id: number): Promise<WebhookDelivery | undefined>;
+  // Pending deliveries that are due, pushed back by leaseMs so no other worker picks them up meanwhile
+  claimDueWebhookDeliveries(limit: number, leaseMs: number): Promise<WebhookDelivery[]>;
+  updateWebhookDelivery(id: number, updates: Partial<Omit<WebhookDelivery, "id" | "subscriptionId" | "userId" | "createdAt">>): Promise<WebhookDelivery | undefined>;
+  
+  // Safety event operations
+  createSafetyEvent(event: NewSafetyEvent): Promise<SafetyEvent>;
+  getSafetyEvents(filter?: SafetyEventFilter): Promise<SafetyEvent[]>; // Newest first
+  
+  // Prompt template operations
+  getPromptTemplates(name?: string): Promise<PromptTemplate[]>; // By name, then version
+  createPromptTemplate(template: NewPromptTemplate): Promise<PromptTemplate>;
+  updatePromptTemplateWeight(id: number, weight: number): Promise<PromptTemplate | undefined>;
+  // How many emails and conversations each prompt version has produced since a time
+  getPromptVersionUsage(since: Date): Promise<PromptVersionUsage[]>;
+  
+  // Thread operations
+  getThreads(userId: number, filter?: ThreadFilter): Promise<Thread[]>;
+  getThread(id: number): Promise<Thread | undefined>;
+  getOrCreateThread(userId: number, channel: ThreadChannel, externalId: string, subject?: string): Promise<Thread>;
+  getThreadMessages(threadId: number, limit?: number): Promise<Message[]>;
+  getRecentMessages(userId: number, limit: number, channels?: ThreadChannel[]): Promise<Message[]>;
+  addMessage(message: InsertMessage): Promise<Message>;
+  // Messages the user sent to Flappy on a channel since a time, not counting journal entries
+  countInboundMessages(userId: number, channel: ThreadChannel, since: Date): Promise<number>;
+  
+  // Embedding operations
+  getEmbeddings(userId: number, model: string, sourceType?: EmbeddingSourceType): Promise<Embedding[]>;
+  saveEmbedding(userId: number, sourceType: EmbeddingSourceType, sourceId: number, model: string, contentHash: string, vector: number[]): Promise<Embedding>;
+  deleteEmbeddings(sourceType: EmbeddingSourceType, sourceId: number): Promise<void>;
+  
+  // Account data operations
+  getAccountData(userId: number): Promise<AccountData>;
+  deleteUserAccount(userId: number): Promise<void>; // Removes the user's data and anonymizes the user row
+  createAccountExport(userId: number): Promise<AccountExport>;
+  getAccountExport(id: number): Promise<AccountExport | undefined>;
+  getAccountExports(userId: number): Promise<AccountExport[]>;
+  claimPendingAccountExport(): Promise<AccountExport | undefined>;
+  updateAccountExport(id: number, updates: Partial<Omit<AccountExport, "id" | "userId" | "createdAt">>): Promise<AccountExport | undefined>;
+  getExpiredAccountExports(expiredBefore: Date): Promise<AccountExport[]>;
   
   // Session store
   sessionStore: any; // Using any type to avoid SessionStore type issues
@@ -87,6 +228,106 @@ export type JournalFilter = {
   tags?: string[];
 };
 
+// Everything stored about a user, as included in an account export
+export type AccountData = {
+  user: User;
+  journalEntries: JournalEntry[]; // Including entries in the trash
+  journalRevisions: JournalEntryRevision[];
+  journalAttachments: JournalAttachment[];
+  emails: Email[];
+  smsMessages: SmsMessage[];
+  conversations: Conversation[];
+  threads: Thread[];
+  messages: Message[];
+  conversationMemories: ConversationMemory[];
+  deliverySchedules: DeliverySchedule[];
+  paymentMethods: PaymentMethod[];
+  billingTransactions: BillingTransaction[];
+  promoRedemptions: PromoRedemption[];
+  webhookSubscriptions: WebhookSubscription[];
+  safetyEvents: SafetyEvent[];
+};
+
+export type NewWebhookSubscription = Pick<WebhookSubscription, "userId" | "url" | "secret" | "events"> & {
+  description?: string | null;
+};
+
+export type NewWebhookDelivery = Pick<WebhookDelivery, "subscriptionId" | "userId" | "event" | "eventId" | "payload">;
+
+export type NewSafetyEvent = Omit<SafetyEvent, "id" | "createdAt">;
+
+export type SafetyEventFilter = {
+  userId?: number;
+  level?: SafetyEvent["level"];
+  limit?: number;
+};
+
+export type NewJob = Pick<Job, "type" | "payload"> & {
+  idempotencyKey?: string | null;
+  sender?: string | null;
+  runAt?: Date;
+};
+
+export type JobFilter = {
+  type?: JobType;
+  status?: JobStatus;
+  limit?: number;
+};
+
+export type JobCount = {
+  type: JobType;
+  status: JobStatus;
+  count: number;
+};
+
+export type NewPromptTemplate = Omit<PromptTemplate, "id" | "createdAt">;
+
+export type PromptVersionUsage = {
+  promptVersion: string;
+  emails: number;
+  conversations: number;
+};
+
+// Subscription fields on a user that billing keeps in step with Stripe
+export type UserBillingState = Partial<Pick<User,
+  'isPremium' | 'premiumUntil' | 'stripeCustomerId' | 'stripeSubscriptionId' | 'subscriptionStatus' | 'cancelAtPeriodEnd' |
+  'premiumSource' | 'trialEndsAt' | 'premiumReminderSentAt'
+>>;
+
+export type UserTwoFactorState = Partial<Pick<User,
+  'twoFactorMethod' | 'twoFactorSecret' | 'twoFactorPhone' | 'twoFactorLastTotpStep' | 'twoFactorEnabledAt'
+>>;
+
+// A stored file an entry or attachment refers to, with the user whose entry it is
+export type JournalFileReference = { reference: string; userId: number };
+
+export type JournalSearchOptions = {
+  limit?: number;
+  offset?: number;
+};
+
+export type JournalSearchHit = {
+  entryId: number;
+  title: string | null;
+  titleHighlight: string | null; // Title with matches wrapped in <mark></mark>
+  snippet: string; // Best matching fragments with matches wrapped in <mark></mark>
+  mood: string | null;
+  tags: string[] | null;
+  createdAt: Date;
+  rank: number;
+  matchedIn: Array<"title" | "content" | "email" | "sms">;
+};
+
+export type JournalSearchResults = {
+  hits: JournalSearchHit[];
+  total: number;
+};
+
+export type ThreadFilter = {
+  channel?: ThreadChannel;
+  limit?: number;
+};
+
 export type EmailFilter = {
   type?: string;
   isRead?: boolean;
@@ -7,9 +7,12 @@ if (!process.env.STRIPE_SECRET_KEY) {
 }
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || 'dummy_key_for_dev', {
-  apiVersion: '2025-04-30.basil',
+  apiVersion: '2025-05-28.basil',
 });
 
+// The recurring price for Featherweight Premium
+const PREMIUM_PRICE_ID = process.env.STRIPE_PRICE_ID;
+
 export const stripeService = {
   /**
    * Create a Stripe customer for a user
@@ -32,61 +35,69 @@ export const stripeService = {
   },
 
   /**
-   * Create a subscription for a user
+   * Get the user's Stripe customer ID, creating the customer on first use
    */
-  async createSubscription(
-    user: User,
-    paymentMethodId: string,
-  ): Promise<{ subscriptionId: string; clientSecret: string | null }> {
-    try {
-      // Ensure the user has a Stripe customer ID
-      let customerId = user.stripeCustomerId;
-      if (!customerId) {
-        customerId = await this.createCustomer(user);
-        await storage.updateUserStripeCustomerId(user.id, customerId);
-      }
+  async ensureCustomer(user: User): Promise<string> {
+    if (user.stripeCustomerId) {
+      return user.stripeCustomerId;
+    }
 
-      // Attach the payment method to the customer
-      await stripe.paymentMethods.attach(paymentMethodId, {
-        customer: customerId,
-      });
+    const customerId = await this.createCustomer(user);
+    await storage.updateUserStripeCustomerId(user.id, customerId);
+    return customerId;
+  },
 
-      // Set the payment method as the default
-      await stripe.customers.update(customerId, {
-        invoice_settings: {
-          default_payment_method: paymentMethodId,
-        },
-      });
+  /**
+   * Start a premium subscription for a user. The subscription stays incomplete
+   * until the first invoice is paid with the returned client secret; premium
+   * access is granted by the invoice.paid webhook, not here.
+   */
+  async createSubscription(user: User): Promise<{ subscriptionId: string; clientSecret: string | null }> {
+    if (!PREMIUM_PRICE_ID) {
+      throw new Error('STRIPE_PRICE_ID is not configured');
+    }
+
+    try {
+      const customerId = await this.ensureCustomer(user);
+
+      // Reuse a subscription still waiting on its first payment rather than
+      // opening another one each time checkout is loaded
+      if (user.stripeSubscriptionId) {
+        const existing = await stripe.subscriptions.retrieve(user.stripeSubscriptionId, {
+          expand: ['latest_invoice.confirmation_secret'],
+        });
+        if (existing.status === 'incomplete') {
+          const invoice = existing.latest_invoice as Stripe.Invoice | null;
+          return {
+            subscriptionId: existing.id,
+            clientSecret: invoice?.confirmation_secret?.client_secret ?? null,
+          };
+        }
+      }
 
-      // Create the subscription
       const subscription = await stripe.subscriptions.create({
         customer: customerId,
-        items: [
-          {
-            price: 'price_monthly', // This would be your actual price ID in production
-            quantity: 1,
-          },
-        ],
+        items: [{ price: PREMIUM_PRICE_ID, quantity: 1 }],
         payment_behavior: 'default_incomplete',
         payment_settings: {
           payment_method_types: ['card'],
           save_default_payment_method: 'on_subscription',
         },
-        expand: ['latest_invoice.payment_intent'],
+        metadata: {
+          userId: user.id.toString(),
+        },
+        expand: ['latest_invoice.confirmation_secret'],
       });
 
-      // Store the subscription ID
-      await storage.updateUserStripeSubscriptionId(user.id, subscription.id);
-
-      // Get the client secret for the payment intent
-      const invoice = subscription.latest_invoice as Stripe.Invoice;
-      // Access the paymentIntent safely by handling the potential undefined value
-      // The expand option ensures this should be available as a PaymentIntent object
-      const paymentIntent = (invoice.payment_intent as unknown) as Stripe.PaymentIntent;
+      await storage.updateUserBillingState(user.id, {
+        stripeSubscriptionId: subscription.id,
+        subscriptionStatus: subscription.status,
+      });
 
+      const invoice = subscription.latest_invoice as Stripe.Invoice | null;
       return {
         subscriptionId: subscription.id,
-        clientSecret: paymentIntent.client_secret,
+        clientSecret: invoice?.confirmation_secret?.client_secret ?? null,
       };
     } catch (error) {
       console.error('Error creating subscription:', error);
@@ -95,17 +106,58 @@ export const stripeService = {
   },
 
   /**
-   * Cancel a subscription
+   * Get a subscription as Stripe currently has it
+   */
+  async getSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
+    try {
+      return await stripe.subscriptions.retrieve(subscriptionId);
+    } catch (error) {
+      console.error('Error retrieving subscription:', error);
+      throw new Error('Failed to retrieve subscription');
+    }
+  },
+
+  /**
+   * Cancel a subscription. By default it runs to the end of the period already
+   * paid for; pass immediately to end it now (e.g. when the account is deleted).
    */
-  async cancelSubscription(subscriptionId: string): Promise<void> {
+  async cancelSubscription(
+    subscriptionId: string,
+    { immediately = false }: { immediately?: boolean } = {}
+  ): Promise<Stripe.Subscription> {
     try {
-      await stripe.subscriptions.cancel(subscriptionId);
+      return immediately
+        ? await stripe.subscriptions.cancel(subscriptionId)
+        : await stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: true });
     } catch (error) {
       console.error('Error canceling subscription:', error);
       throw new Error('Failed to cancel subscription');
     }
   },
 
+  /**
+   * Undo a cancellation scheduled for the end of the period
+   */
+  async resumeSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
+    try {
+      return await stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: false });
+    } catch (error) {
+      console.error('Error resuming subscription:', error);
+      throw new Error('Failed to resume subscription');
+    }
+  },
+
+  /**
+   * Verify a webhook request's Stripe-Signature header and parse the event.
+   * Throws if the signature doesn't match the raw body.
+   */
+  constructWebhookEvent(payload: Buffer | string, signature: string): Stripe.Event {
+    if (!process.env.STRIPE_WEBHOOK_SECRET) {
+      throw new Error('STRIPE_WEBHOOK_SECRET is not configured');
+    }
+    return stripe.webhooks.constructEvent(payload, signature, process.env.STRIPE_WEBHOOK_SECRET);
+  },
+
   /**
    * Get a payment method
    */
@@ -245,15 +297,25 @@ export const stripeService = {
   },
   
   /**
-   * Update the default payment method for a customer
+   * Update the default payment method for a customer, and for their
+   * subscription, whose own default takes precedence
    */
-  async updateDefaultPaymentMethod(customerId: string, paymentMethodId: string): Promise<void> {
+  async updateDefaultPaymentMethod(
+    customerId: string,
+    paymentMethodId: string,
+    subscriptionId?: string | null
+  ): Promise<void> {
     try {
       await stripe.customers.update(customerId, {
         invoice_settings: {
           default_payment_method: paymentMethodId,
         },
       });
+      if (subscriptionId) {
+        await stripe.subscriptions.update(subscriptionId, {
+          default_payment_method: paymentMethodId,
+        });
+      }
     } catch (error) {
       console.error('Error updating default payment method:', error);
       throw new Error('Failed to update default payment method');
@@ -0,0 +1,89 @@
+import type { TextDiffPart } from "@shared/schema";
+
+// Above this many LCS cells (changed tokens in a × changed tokens in b) the
+// diff is computed line by line instead of word by word, and above it line by
+// line the whole text is shown as replaced, to bound time and memory
+const MAX_DIFF_CELLS = 4000000;
+
+/**
+ * Diff two texts, returning runs of equal, added and removed text in order.
+ * Concatenating the equal and removed parts gives `a`; equal and added gives `b`.
+ */
+export function diffText(a: string, b: string): TextDiffPart[] {
+  return diffTokens(tokenize(a, /(\s+)/), tokenize(b, /(\s+)/))
+    ?? diffTokens(tokenize(a, /(\n)/), tokenize(b, /(\n)/))
+    ?? [{ type: "removed" as const, value: a }, { type: "added" as const, value: b }].filter(part => part.value !== "");
+}
+
+// Split keeping the separators, so the parts join back into the original text
+function tokenize(text: string, separator: RegExp): string[] {
+  return text ? text.split(separator).filter(token => token !== "") : [];
+}
+
+// Null when the changed part is too large to diff within MAX_DIFF_CELLS
+function diffTokens(a: string[], b: string[]): TextDiffPart[] | null {
+  // Trim the common prefix and suffix first; edits are usually small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const rows = endA - start + 1;
+  const cols = endB - start + 1;
+  if (rows * cols > MAX_DIFF_CELLS) {
+    return null;
+  }
+
+  const parts: TextDiffPart[] = [];
+  const push = (type: TextDiffPart["type"], value: string) => {
+    if (!value) return;
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.value += value;
+    } else {
+      parts.push({ type, value });
+    }
+  };
+
+  push("equal", a.slice(0, start).join(""));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  // lcs[i * cols + j] = length of the longest common subsequence of midA[i..] and midB[j..]
+  const lcs = new Uint32Array(rows * cols);
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] = midA[i] === midB[j]
+        ? lcs[(i + 1) * cols + j + 1] + 1
+        : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      push("equal", midA[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      push("removed", midA[i]);
+      i++;
+    } else {
+      push("added", midB[j]);
+      j++;
+    }
+  }
+  push("removed", midA.slice(i).join(""));
+  push("added", midB.slice(j).join(""));
+
+  push("equal", a.slice(endA).join(""));
+
+  return parts;
+}
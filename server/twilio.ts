@@ -3,6 +3,11 @@ import { User, InsertSmsMessage, SmsMessage, InsertJournalEntry } from '@shared/
 import { storage } from './storage';
 import { generateFlappyContent, FlappyContentType } from './venice-ai';
 import { memoryService } from './memory-service';
+import { addJournalAttachments, attachmentOnlyContent, isAllowedAttachment, MAX_ATTACHMENT_BYTES, type IncomingAttachment } from './journal-attachments';
+import { hasFeature, checkFeature, checkMessageQuota, upgradeReplyText } from './entitlements';
+import { webhookService, toWebhookJournalEntry } from './webhooks';
+import { safetyService, type SafetyCheck, type SafetyEventSource } from './safety';
+import { untrackedSteps, type JobSteps } from './job-steps';
 
 // Initialize Twilio client
 const accountSid = process.env.TWILIO_ACCOUNT_SID;
@@ -26,6 +31,90 @@ if (!isTwilioConfigured) {
   }
 }
 
+/**
+ * Whether inbound SMS can be simulated from the web app. Always on when Twilio
+ * isn't configured (replies are mocked) and outside production; in production
+ * with real credentials it must be switched on with SMS_SIMULATION=true.
+ */
+export function isSmsSimulationEnabled(): boolean {
+  if (process.env.SMS_SIMULATION === 'true') return true;
+  if (process.env.SMS_SIMULATION === 'false') return false;
+  return !isTwilioConfigured || process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Validate the X-Twilio-Signature header of an incoming webhook request.
+ * Without an auth token there's nothing to check against, so unsigned
+ * requests are only let through outside production, or in production with
+ * SMS_SIMULATION=true; otherwise they're rejected.
+ */
+export function validateTwilioSignature(signature: string | undefined, url: string, params: Record<string, any>): boolean {
+  if (!isTwilioConfigured || !authToken) {
+    return process.env.NODE_ENV !== 'production' || process.env.SMS_SIMULATION === 'true';
+  }
+  if (!signature) {
+    return false;
+  }
+  return twilio.validateRequest(authToken, signature, url, params);
+}
+
+// A file sent with an MMS, as listed in the inbound webhook
+export type MmsMedia = {
+  url: string;
+  contentType: string;
+};
+
+/**
+ * Download the files sent with an MMS. Media is only fetched from Twilio
+ * (the webhook is unsigned when Twilio isn't configured, so the URLs can't be
+ * trusted to point anywhere else), using the account credentials when set.
+ * Files that fail to download, or aren't an allowed type and size, are skipped.
+ */
+async function downloadMmsMedia(media: MmsMedia[]): Promise<IncomingAttachment[]> {
+  const files: IncomingAttachment[] = [];
+
+  for (const item of media) {
+    try {
+      const url = new URL(item.url);
+      if (url.protocol !== 'https:' || !(url.hostname === 'api.twilio.com' || url.hostname.endsWith('.twilio.com'))) {
+        console.warn(`Ignoring MMS media outside Twilio: ${url.hostname}`);
+        continue;
+      }
+
+      const headers: Record<string, string> = {};
+      if (accountSid && authToken) {
+        headers.Authorization = `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`;
+      }
+
+      // Twilio redirects to its media CDN
+      const response = await fetch(url, { headers, redirect: 'follow' });
+      if (!response.ok) {
+        console.warn(`Failed to download MMS media (${response.status})`);
+        continue;
+      }
+
+      const contentType = response.headers.get('content-type') || item.contentType;
+      const declaredLength = parseInt(response.headers.get('content-length') || '0');
+      if (!isAllowedAttachment(contentType, declaredLength || 1)) {
+        console.warn(`Skipping MMS media of type ${contentType} (${declaredLength} bytes)`);
+        continue;
+      }
+
+      const content = Buffer.from(await response.arrayBuffer());
+      if (content.length > MAX_ATTACHMENT_BYTES) {
+        console.warn(`Skipping MMS media over ${MAX_ATTACHMENT_BYTES} bytes`);
+        continue;
+      }
+
+      files.push({ filename: null, contentType, content });
+    } catch (error) {
+      console.error('Error downloading MMS media:', error);
+    }
+  }
+
+  return files;
+}
+
 // Utility function to safely send SMS using Twilio or mock it
 async function safeSendMessage(to: string, body: string): Promise<{sid: string}> {
   if (client && isTwilioConfigured) {
@@ -46,10 +135,10 @@ export const twilioService = {
    * Send an SMS message to a user
    */
   async sendSmsMessage(user: User, content: string): Promise<SmsMessage | null> {
-    // Check if user is premium and has a phone number in preferences
+    // Check the user's plan includes SMS and they have a phone number in preferences
     const phoneNumber = user.preferences?.phoneNumber;
-    if (!user.isPremium || !phoneNumber) {
-      console.warn(`Cannot send SMS to user ${user.id}: not premium or no phone number`);
+    if (!hasFeature(user, 'sms_journaling') || !phoneNumber) {
+      console.warn(`Cannot send SMS to user ${user.id}: plan has no SMS or no phone number`);
       return null;
     }
 
@@ -74,6 +163,14 @@ export const twilioService = {
     }
   },
 
+  /**
+   * Send a sign-in or verification code by SMS. Security codes go to any
+   * plan and aren't kept in the user's message history.
+   */
+  async sendSecurityCode(phoneNumber: string, code: string): Promise<void> {
+    await safeSendMessage(phoneNumber, `Your Featherweight code is ${code}. It expires in 10 minutes. Don't share it with anyone.`);
+  },
+
   /**
    * Send daily inspiration via SMS for premium users
    */
@@ -92,16 +189,18 @@ export const twilioService = {
   },
 
   /**
-   * Process incoming SMS as a journal entry or conversation
+   * Process incoming SMS as a journal entry or conversation. The sender is
+   * looked up by phone number unless `knownUser` is given, as when a signed-in
+   * user simulates a message.
    */
-  async processIncomingSms(from: string, body: string): Promise<void> {
+  async processIncomingSms(from: string, body: string, media: MmsMedia[] = [], knownUser?: User, steps: JobSteps = untrackedSteps): Promise<void> {
     try {
       const messageBody = body.trim().toLowerCase();
       
       // Handle opt-out keywords
       const optOutKeywords = ['stop', 'unsubscribe', 'end', 'quit', 'cancel', 'optout', 'revoke', 'stopall'];
       if (optOutKeywords.includes(messageBody)) {
-        await this.handleOptOut(from);
+        await this.handleOptOut(from, knownUser);
         return;
       }
       
@@ -114,12 +213,12 @@ export const twilioService = {
       
       // Handle opt-in keywords
       if (messageBody === 'start') {
-        await this.handleOptIn(from);
+        await this.handleOptIn(from, knownUser);
         return;
       }
       
       // Look up the user by phone number
-      const user = await storage.getUserByPhoneNumber(from);
+      const user = knownUser ?? await storage.getUserByPhoneNumber(from);
       
       if (!user) {
         // If no user found, send a message indicating the service is unavailable
@@ -130,76 +229,170 @@ export const twilioService = {
         return;
       }
 
-      // Check if user is premium
-      if (!user.isPremium) {
-        await safeSendMessage(
-          from,
-          "This feature requires a premium subscription. Please upgrade your account at featherweight.world to enable SMS journaling."
-        );
+      // Someone in crisis gets support resources whatever their plan
+      const safetyCheck = await steps.once('safety_check', () => safetyService.check(user, body, 'sms'));
+
+      // Check the user's plan includes SMS
+      const featureDenial = checkFeature(user, 'sms_journaling');
+      if (featureDenial) {
+        if (safetyCheck) {
+          const inboundId = await steps.once('inbound_sms', async () => {
+            const inbound = await storage.createSmsMessage({
+              userId: user.id,
+              phoneNumber: from,
+              content: body,
+              direction: 'inbound',
+              isJournalEntry: false
+            });
+            return inbound.id;
+          });
+          await steps.once('reply', () => this.sendSafetyResponse(user, from, safetyCheck, { sourceType: 'sms_message', sourceId: inboundId }));
+          return;
+        }
+        await steps.once('reply', async () => {
+          await safeSendMessage(from, upgradeReplyText(featureDenial));
+        });
         return;
       }
 
+      // Photos and files sent by MMS always become a journal entry, so they're kept
+      const attachments = await downloadMmsMedia(media);
+      const isJournalEntry = attachments.length > 0 || this.isJournalEntryRequest(body);
+
+      // Journal entries are always kept; conversation replies count against the daily limit
+      // A step, as on a retry the message stored below would count against its own limit
+      const quotaDenial = isJournalEntry || safetyCheck ? null : await steps.once('quota', () => checkMessageQuota(user, 'sms'));
+
       // Store the incoming message
       const smsData: InsertSmsMessage = {
         userId: user.id,
         phoneNumber: from,
         content: body,
         direction: 'inbound',
-        isJournalEntry: this.isJournalEntryRequest(body)
+        isJournalEntry
       };
 
-      const savedMessage = await storage.createSmsMessage(smsData);
+      const savedMessageId = await steps.once('inbound_sms', async () => {
+        const savedMessage = await storage.createSmsMessage(smsData);
+        await webhookService.emit(user.id, 'sms.received', {
+          id: savedMessage.id,
+          content: savedMessage.content,
+          receivedAt: savedMessage.sentAt
+        });
+        return savedMessage.id;
+      });
 
       // If this is a journal entry request, create a journal entry
-      if (this.isJournalEntryRequest(body)) {
+      if (isJournalEntry) {
         try {
-          // Extract the journal content from the message - now async
-          const journalContent = await this.extractJournalContent(body, user.id, from);
-          
-          // Create a journal entry with a title based on the content
-          const journalTitle = this.generateJournalTitle(journalContent);
-          const journalData: InsertJournalEntry = {
-            userId: user.id,
-            content: journalContent,
-            title: journalTitle
-          };
-
-          const journalEntry = await storage.createJournalEntry(journalData);
+          const journalEntryId = await steps.once('journal_entry', async () => {
+            // Extract the journal content from the message - now async
+            const journalContent = body.trim()
+              ? await this.extractJournalContent(body, user.id, from)
+              : attachmentOnlyContent(attachments.length, 'text message');
+            
+            // Create a journal entry with a title based on the content
+            const journalTitle = this.generateJournalTitle(journalContent);
+            const journalData: InsertJournalEntry = {
+              userId: user.id,
+              content: journalContent,
+              title: journalTitle
+            };
+
+            const created = await storage.createJournalEntry(journalData);
+            return created.id;
+          });
+          const journalEntry = await storage.getJournalEntry(journalEntryId, { includeDeleted: true });
+          if (!journalEntry) {
+            throw new Error(`Journal entry ${journalEntryId} is missing`);
+          }
+
+          await steps.once('journal_attachments', async () => {
+            await addJournalAttachments(journalEntry, attachments, 'sms');
+          });
+          await steps.once('journal_webhooks', () =>
+            webhookService.emit(user.id, 'journal.created', toWebhookJournalEntry(journalEntry))
+          );
           
           // Process journal content for memories
-          await memoryService.processMessage(user.id, journalContent, 'journal_topic');
+          if (body.trim()) {
+            await steps.once('memories', async () => {
+              await memoryService.processMessage(user.id, journalEntry.content, 'journal_topic');
+            });
+          }
           
           // Update the SMS message with the journal entry ID
-          await storage.updateSmsMessage(savedMessage.id, {
+          await storage.updateSmsMessage(savedMessageId, {
             journalEntryId: journalEntry.id
           });
 
-          // Respond with acknowledgment
-          await this.sendJournalAcknowledgment(user);
+          // Respond with acknowledgment, or the support resources in its place
+          if (safetyCheck) {
+            await steps.once('reply', () => this.sendSafetyResponse(user, from, safetyCheck, { sourceType: 'journal_entry', sourceId: journalEntry.id }));
+          } else {
+            await steps.once('reply', async () => {
+              await this.sendJournalAcknowledgment(user);
+            });
+          }
         } catch (error) {
           console.error('Error creating journal entry from SMS:', error);
+          if (safetyCheck) {
+            await this.sendSafetyResponse(user, from, safetyCheck, { sourceType: 'sms_message', sourceId: savedMessageId });
+            return;
+          }
           // Send a fallback response if creating journal entry fails
           await safeSendMessage(
             from,
             "I had some trouble saving your journal entry. Please try again later or send your entry by email to flappy@featherweight.world."
           );
         }
+      } else if (safetyCheck) {
+        await steps.once('reply', () => this.sendSafetyResponse(user, from, safetyCheck, { sourceType: 'sms_message', sourceId: savedMessageId }));
+      } else if (quotaDenial) {
+        await steps.once('reply', async () => {
+          await safeSendMessage(from, upgradeReplyText(quotaDenial));
+        });
       } else {
         // This is a conversation with Flappy
-        await this.respondToConversation(user, body);
+        await steps.once('reply', async () => {
+          await this.respondToConversation(user, body);
+        });
       }
     } catch (error) {
       console.error('Error processing incoming SMS:', error);
+      throw error; // So the inbound_sms job is tried again
     }
   },
 
+  /**
+   * Send the support resources from a safety check in place of Flappy's
+   * reply and record the event. Goes out on any plan and isn't shortened
+   * to fit a single message.
+   */
+  async sendSafetyResponse(user: User, to: string, check: SafetyCheck, source: SafetyEventSource): Promise<void> {
+    try {
+      const message = await safeSendMessage(to, check.response);
+      await storage.createSmsMessage({
+        userId: user.id,
+        phoneNumber: to,
+        content: check.response,
+        direction: 'outbound',
+        twilioSid: message.sid,
+        isJournalEntry: false
+      });
+    } catch (error) {
+      console.error(`Error sending safety response to user ${user.id}:`, error);
+    }
+    await safetyService.recordEvent(user.id, check, source);
+  },
+
   /**
    * Handle SMS opt-out requests
    */
-  async handleOptOut(phoneNumber: string): Promise<void> {
+  async handleOptOut(phoneNumber: string, knownUser?: User): Promise<void> {
     try {
       // Look up user by phone number and update SMS consent
-      const user = await storage.getUserByPhoneNumber(phoneNumber);
+      const user = knownUser ?? await storage.getUserByPhoneNumber(phoneNumber);
       if (user) {
         await storage.updateUserPreferences(user.id, { 
           emailFrequency: user.preferences?.emailFrequency || "daily",
@@ -233,10 +426,10 @@ export const twilioService = {
   /**
    * Handle SMS opt-in requests
    */
-  async handleOptIn(phoneNumber: string): Promise<void> {
+  async handleOptIn(phoneNumber: string, knownUser?: User): Promise<void> {
     try {
       // Look up user by phone number and update SMS consent
-      const user = await storage.getUserByPhoneNumber(phoneNumber);
+      const user = knownUser ?? await storage.getUserByPhoneNumber(phoneNumber);
       if (user) {
         await storage.updateUserPreferences(user.id, { 
           emailFrequency: user.preferences?.emailFrequency || "daily",
@@ -336,7 +529,11 @@ export const twilioService = {
       
       console.log(`✅ Generated SMS response: ${smsResponse.substring(0, 50)}...`);
       
-      return await this.sendSmsMessage(user, smsResponse);
+      const reply = await this.sendSmsMessage(user, smsResponse);
+      if (reply) {
+        webhookService.emit(user.id, 'conversation.replied', { channel: 'sms', message, reply: reply.content });
+      }
+      return reply;
     } catch (error) {
       console.error('Error generating SMS conversation response:', error);
       
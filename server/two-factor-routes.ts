@@ -0,0 +1,162 @@
+import { type Express, Request, Response } from "express";
+import { storage } from "./storage";
+import { comparePasswords } from "./auth";
+import { twoFactorService, TwoFactorError, maskPhoneNumber } from "./two-factor";
+
+/**
+ * Add two-factor authentication setup and management routes to Express app
+ */
+export function addTwoFactorRoutes(app: Express) {
+  // Whether two-factor authentication is on, and how
+  app.get("/api/2fa", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    try {
+      const { twoFactorMethod, twoFactorPhone, twoFactorEnabledAt } = req.user;
+      res.json({
+        method: twoFactorMethod,
+        enabledAt: twoFactorEnabledAt,
+        phoneHint: twoFactorPhone ? maskPhoneNumber(twoFactorPhone) : null,
+        recoveryCodesRemaining: twoFactorMethod ? await storage.countUnusedRecoveryCodes(req.user.id) : 0,
+      });
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+      res.status(500).json({ error: "Failed to fetch two-factor status" });
+    }
+  });
+
+  // Start setting up an authenticator app. The secret is held in the session
+  // until a code from the app confirms it.
+  app.post("/api/2fa/totp/setup", (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    if (req.user.twoFactorMethod) {
+      return res.status(409).json({ error: "Two-factor authentication is already on" });
+    }
+
+    const { secret, otpauthUrl } = twoFactorService.createTotpSecret(req.user);
+    req.session.twoFactorSetup = { method: "totp", secret };
+    res.json({ secret, otpauthUrl });
+  });
+
+  // Finish setting up an authenticator app with a code from it
+  app.post("/api/2fa/totp/enable", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const setup = req.session.twoFactorSetup;
+    if (setup?.method !== "totp" || req.user.twoFactorMethod) {
+      return res.status(400).json({ error: "Start setting up your authenticator app first" });
+    }
+
+    try {
+      const recoveryCodes = await twoFactorService.enableTotp(req.user, setup.secret, String(req.body.code || ""));
+      if (!recoveryCodes) {
+        return res.status(400).json({ error: "That code isn't right. Check your app's clock and try again." });
+      }
+      delete req.session.twoFactorSetup;
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Error enabling authenticator app:", error);
+      res.status(500).json({ error: "Failed to turn on two-factor authentication" });
+    }
+  });
+
+  // Start setting up SMS codes by texting a code to the phone
+  app.post("/api/2fa/sms/setup", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    if (req.user.twoFactorMethod) {
+      return res.status(409).json({ error: "Two-factor authentication is already on" });
+    }
+
+    const phoneNumber = typeof req.body.phoneNumber === "string" ? req.body.phoneNumber.replace(/[\s()-]/g, "") : "";
+
+    try {
+      if (!(await twoFactorService.sendSmsCode(req.user, "enroll", phoneNumber))) {
+        return res.status(429).json({ error: "We just sent a code; please wait a moment before asking for another" });
+      }
+      req.session.twoFactorSetup = { method: "sms", phoneNumber };
+      res.json({ phoneHint: maskPhoneNumber(phoneNumber) });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(400).json({ error: error.message, code: error.code });
+      }
+      console.error("Error sending two-factor setup code:", error);
+      res.status(500).json({ error: "Failed to send code" });
+    }
+  });
+
+  // Finish setting up SMS codes with the code that was texted
+  app.post("/api/2fa/sms/enable", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    if (req.session.twoFactorSetup?.method !== "sms" || req.user.twoFactorMethod) {
+      return res.status(400).json({ error: "Send a code to your phone first" });
+    }
+
+    try {
+      const recoveryCodes = await twoFactorService.enableSms(req.user, String(req.body.code || ""));
+      if (!recoveryCodes) {
+        return res.status(400).json({ error: "That code isn't right. Please try again." });
+      }
+      delete req.session.twoFactorSetup;
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof TwoFactorError) {
+        return res.status(400).json({ error: error.message, code: error.code });
+      }
+      console.error("Error enabling SMS codes:", error);
+      res.status(500).json({ error: "Failed to turn on two-factor authentication" });
+    }
+  });
+
+  // Replace the recovery codes. Requires the password.
+  app.post("/api/2fa/recovery-codes", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+    if (!req.user.twoFactorMethod) {
+      return res.status(400).json({ error: "Two-factor authentication is off" });
+    }
+
+    const { password } = req.body || {};
+    if (typeof password !== "string" || !(await comparePasswords(password, req.user.password))) {
+      return res.status(403).json({ error: "Incorrect password" });
+    }
+
+    try {
+      res.json({ recoveryCodes: await twoFactorService.regenerateRecoveryCodes(req.user.id) });
+    } catch (error) {
+      console.error("Error replacing recovery codes:", error);
+      res.status(500).json({ error: "Failed to create new recovery codes" });
+    }
+  });
+
+  // Turn two-factor authentication off. Requires the password.
+  app.post("/api/2fa/disable", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const { password } = req.body || {};
+    if (typeof password !== "string" || !(await comparePasswords(password, req.user.password))) {
+      return res.status(403).json({ error: "Incorrect password" });
+    }
+
+    try {
+      await twoFactorService.disable(req.user);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error turning off two-factor authentication:", error);
+      res.status(500).json({ error: "Failed to turn off two-factor authentication" });
+    }
+  });
+}
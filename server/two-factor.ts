@@ -0,0 +1,289 @@
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import type { User, TwoFactorCodePurpose } from "@shared/schema";
+import { storage } from "./storage";
+import { twilioService } from "./twilio";
+
+const ISSUER = "Featherweight";
+
+// RFC 6238 defaults, which every authenticator app supports
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Codes from one step either side are accepted, for clock drift
+const TOTP_WINDOW = 1;
+
+const SMS_CODE_TTL_MS = 10 * 60 * 1000;
+const SMS_CODE_MAX_ATTEMPTS = 5;
+const SMS_RESEND_INTERVAL_MS = 30 * 1000;
+// Sign-in codes of any kind tried per account before it's locked for a while
+const LOGIN_MAX_ATTEMPTS = 5;
+const LOGIN_LOCKOUT_MS = 15 * 60 * 1000;
+
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export type TwoFactorErrorCode = "invalid_phone" | "code_expired" | "too_many_attempts" | "locked";
+
+/**
+ * A code that can't be checked or sent, with a message fit for the user
+ */
+export class TwoFactorError extends Error {
+  constructor(public code: TwoFactorErrorCode, message: string) {
+    super(message);
+    this.name = "TwoFactorError";
+  }
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of input.toUpperCase().replace(/=+$/, "")) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) throw new Error("Invalid base32 character");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// HOTP (RFC 4226) for one time step
+function totpCode(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+function currentTotpStep(): number {
+  return Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+// The time step a code belongs to, if it is valid now
+function matchTotpStep(secret: string, code: string): number | null {
+  const key = base32Decode(secret);
+  const now = currentTotpStep();
+  for (let step = now - TOTP_WINDOW; step <= now + TOTP_WINDOW; step++) {
+    if (codesMatch(totpCode(key, step), code)) return step;
+  }
+  return null;
+}
+
+function codesMatch(expected: string, supplied: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(supplied);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function hashCode(userId: number, code: string): string {
+  return createHash("sha256").update(`${userId}:${code}`).digest("hex");
+}
+
+// Recovery codes are shown as XXXXX-XXXXX but accepted in any case, with or without the dash
+function normalizeRecoveryCode(code: string): string {
+  return code.toUpperCase().replace(/[^A-Z2-7]/g, "");
+}
+
+function generateRecoveryCode(): string {
+  const code = base32Encode(randomBytes(7)).slice(0, 10);
+  return `${code.slice(0, 5)}-${code.slice(5)}`;
+}
+
+export function isValidPhoneNumber(phoneNumber: string): boolean {
+  return /^\+[1-9]\d{7,14}$/.test(phoneNumber);
+}
+
+// Enough of a number to recognize it by
+export function maskPhoneNumber(phoneNumber: string): string {
+  return `•••${phoneNumber.slice(-4)}`;
+}
+
+// A sign-in code from the user's app or phone, or one of their recovery codes
+async function checkLoginCode(user: User, trimmed: string): Promise<boolean> {
+  if (!/^\d+$/.test(trimmed)) {
+    const used = await storage.useRecoveryCode(user.id, hashCode(user.id, normalizeRecoveryCode(trimmed)));
+    if (used) console.log(`🔐 User ${user.id} signed in with a recovery code`);
+    return used;
+  }
+
+  if (user.twoFactorMethod === "totp" && user.twoFactorSecret) {
+    const step = matchTotpStep(user.twoFactorSecret, trimmed);
+    return step !== null && await storage.claimTotpStep(user.id, step);
+  }
+
+  if (user.twoFactorMethod === "sms") {
+    return (await twoFactorService.checkSmsCode(user, "login", trimmed)) !== null;
+  }
+
+  return false;
+}
+
+export const twoFactorService = {
+  /**
+   * A new TOTP secret and the otpauth:// URI authenticator apps import it from.
+   * Nothing is saved until the user confirms a code with enableTotp.
+   */
+  createTotpSecret(user: User): { secret: string; otpauthUrl: string } {
+    const secret = base32Encode(randomBytes(20));
+    const label = encodeURIComponent(`${ISSUER}:${user.email}`);
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}` +
+      `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+    return { secret, otpauthUrl };
+  },
+
+  /**
+   * Turn on TOTP once the user has shown their app produces codes for the
+   * secret. Returns new recovery codes, which are only ever shown this once.
+   */
+  async enableTotp(user: User, secret: string, code: string): Promise<string[] | null> {
+    const step = matchTotpStep(secret, code.trim());
+    if (step === null) return null;
+
+    await storage.updateUserTwoFactor(user.id, {
+      twoFactorMethod: "totp",
+      twoFactorSecret: secret,
+      twoFactorPhone: null,
+      twoFactorLastTotpStep: step,
+      twoFactorEnabledAt: new Date(),
+    });
+    console.log(`🔐 User ${user.id} turned on two-factor authentication (authenticator app)`);
+    return this.regenerateRecoveryCodes(user.id);
+  },
+
+  /**
+   * Text a one-time code. Returns false without sending if one went out moments ago.
+   */
+  async sendSmsCode(user: User, purpose: TwoFactorCodePurpose, phoneNumber: string): Promise<boolean> {
+    if (!isValidPhoneNumber(phoneNumber)) {
+      throw new TwoFactorError("invalid_phone", "Enter your number with its country code, e.g. +14155552671");
+    }
+
+    const latest = await storage.getLatestTwoFactorCode(user.id, purpose);
+    if (latest && Date.now() - latest.createdAt.getTime() < SMS_RESEND_INTERVAL_MS) {
+      return false;
+    }
+
+    const code = randomInt(0, 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+    await storage.createTwoFactorCode({
+      userId: user.id,
+      purpose,
+      codeHash: hashCode(user.id, code),
+      phoneNumber,
+      expiresAt: new Date(Date.now() + SMS_CODE_TTL_MS),
+    });
+    await twilioService.sendSecurityCode(phoneNumber, code);
+    return true;
+  },
+
+  /**
+   * Check a texted code against the latest one sent for the purpose. A
+   * correct code works once; the phone it was sent to is returned.
+   */
+  async checkSmsCode(user: User, purpose: TwoFactorCodePurpose, code: string): Promise<string | null> {
+    const latest = await storage.getLatestTwoFactorCode(user.id, purpose);
+    if (!latest || latest.consumedAt || latest.expiresAt <= new Date()) {
+      throw new TwoFactorError("code_expired", "That code has expired. Send a new one and try again.");
+    }
+    if (latest.attempts >= SMS_CODE_MAX_ATTEMPTS) {
+      throw new TwoFactorError("too_many_attempts", "Too many incorrect codes. Send a new one and try again.");
+    }
+
+    if (!codesMatch(latest.codeHash, hashCode(user.id, code.trim()))) {
+      await storage.recordTwoFactorCodeAttempt(latest.id);
+      return null;
+    }
+    return (await storage.consumeTwoFactorCode(latest.id)) ? latest.phoneNumber : null;
+  },
+
+  /**
+   * Turn on SMS codes for the phone a code was just sent to. Returns new
+   * recovery codes, or null if the code is wrong.
+   */
+  async enableSms(user: User, code: string): Promise<string[] | null> {
+    const phoneNumber = await this.checkSmsCode(user, "enroll", code);
+    if (!phoneNumber) return null;
+
+    await storage.updateUserTwoFactor(user.id, {
+      twoFactorMethod: "sms",
+      twoFactorSecret: null,
+      twoFactorPhone: phoneNumber,
+      twoFactorLastTotpStep: null,
+      twoFactorEnabledAt: new Date(),
+    });
+    console.log(`🔐 User ${user.id} turned on two-factor authentication (SMS)`);
+    return this.regenerateRecoveryCodes(user.id);
+  },
+
+  /**
+   * Start the second step of signing in: text a code if that's how the user
+   * signs in. Sending failures are logged, as a recovery code still works.
+   */
+  async startLoginChallenge(user: User): Promise<{ method: User["twoFactorMethod"]; phoneHint?: string }> {
+    if (user.twoFactorMethod === "sms" && user.twoFactorPhone) {
+      try {
+        await this.sendSmsCode(user, "login", user.twoFactorPhone);
+      } catch (error) {
+        console.error(`Error sending sign-in code to user ${user.id}:`, error);
+      }
+      return { method: "sms", phoneHint: maskPhoneNumber(user.twoFactorPhone) };
+    }
+    return { method: user.twoFactorMethod };
+  },
+
+  /**
+   * Check the second step of signing in: a code from the user's app or phone,
+   * or one of their recovery codes. Each code works once. Attempts are
+   * counted per account, whatever session they come from; after
+   * LOGIN_MAX_ATTEMPTS without a correct code the account is locked.
+   */
+  async verifyLoginCode(user: User, code: string): Promise<boolean> {
+    if (!(await storage.claimTwoFactorLoginAttempt(user.id, LOGIN_MAX_ATTEMPTS, LOGIN_LOCKOUT_MS))) {
+      throw new TwoFactorError("locked", "Too many incorrect codes. Please wait 15 minutes and try again.");
+    }
+
+    const verified = await checkLoginCode(user, code.trim());
+    if (verified) {
+      await storage.resetTwoFactorLoginAttempts(user.id);
+    }
+    return verified;
+  },
+
+  /**
+   * Replace the user's recovery codes with a new set, returned in plain text
+   * for the user to save; only hashes are stored
+   */
+  async regenerateRecoveryCodes(userId: number): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    await storage.replaceRecoveryCodes(userId, codes.map(code => hashCode(userId, normalizeRecoveryCode(code))));
+    return codes;
+  },
+
+  async disable(user: User): Promise<User> {
+    console.log(`🔐 User ${user.id} turned off two-factor authentication`);
+    return storage.disableTwoFactor(user.id);
+  },
+};
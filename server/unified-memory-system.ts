@@ -5,6 +5,7 @@ import { EventEmitter } from 'events';
 import { ConsciousThought } from './openai-streaming-consciousness-loop';
 import { SubconsciousThought } from './venice-ai-shadow-process';
 import crypto from 'crypto';
+import { embeddingService, localEmbedder, cosineSimilarity } from './embedding-service';
 
 export interface MemoryShard {
   id: string;
@@ -322,38 +323,13 @@ export class UnifiedMemorySystem extends EventEmitter {
    */
   private async generateEmbedding(content: string): Promise<number[]> {
     try {
-      // Simple embedding generation (in production, use proper embedding model)
-      const words = content.toLowerCase().split(/\s+/);
-      const embedding = new Array(384).fill(0); // 384-dimensional embedding
-      
-      // Hash-based embedding (simplified)
-      words.forEach((word, index) => {
-        const hash = this.simpleHash(word);
-        const position = hash % embedding.length;
-        embedding[position] += 1 / (index + 1); // Weight by position
-      });
-      
-      // Normalize
-      const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-      return embedding.map(val => magnitude > 0 ? val / magnitude : 0);
-      
+      const [embedding] = await embeddingService.getEmbedder().embed([content]);
+      return embedding;
     } catch (error) {
-      console.error('❌ Error generating embedding:', error);
-      return new Array(384).fill(0);
-    }
-  }
-
-  /**
-   * Simple hash function for embedding generation
-   */
-  private simpleHash(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+      console.error('❌ Error generating embedding, using local embedder:', error);
+      const [embedding] = await localEmbedder.embed([content]);
+      return embedding;
     }
-    return Math.abs(hash);
   }
 
   /**
@@ -462,20 +438,7 @@ export class UnifiedMemorySystem extends EventEmitter {
    * Calculate cosine similarity between two vectors
    */
   private calculateCosineSimilarity(vec1: number[], vec2: number[]): number {
-    if (vec1.length !== vec2.length) return 0;
-    
-    let dotProduct = 0;
-    let norm1 = 0;
-    let norm2 = 0;
-    
-    for (let i = 0; i < vec1.length; i++) {
-      dotProduct += vec1[i] * vec2[i];
-      norm1 += vec1[i] * vec1[i];
-      norm2 += vec2[i] * vec2[i];
-    }
-    
-    const magnitude = Math.sqrt(norm1) * Math.sqrt(norm2);
-    return magnitude > 0 ? dotProduct / magnitude : 0;
+    return cosineSimilarity(vec1, vec2);
   }
 
   /**
@@ -0,0 +1,157 @@
+import { type Express, Request, Response } from "express";
+import { fromZodError } from "zod-validation-error";
+import {
+  insertWebhookSubscriptionSchema, updateWebhookSubscriptionSchema, type WebhookSubscription
+} from "@shared/schema";
+import { storage } from "./storage";
+import { webhookService, WebhookError, type WebhookErrorCode } from "./webhooks";
+
+const ERROR_STATUSES: Record<WebhookErrorCode, number> = {
+  blocked_target: 400,
+  invalid_url: 400,
+  too_many_subscriptions: 409,
+  not_found: 404,
+  paused: 409,
+};
+
+// The signing secret is only shown when the subscription is created
+function withoutSecret({ secret, ...subscription }: WebhookSubscription) {
+  return subscription;
+}
+
+/**
+ * Add routes for managing the user's outbound webhooks and their delivery log to Express app
+ */
+export function addWebhookRoutes(app: Express) {
+  // The user's webhook subscriptions, oldest first
+  app.get("/api/webhooks", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    try {
+      const subscriptions = await storage.getWebhookSubscriptions(req.user.id);
+      res.json(subscriptions.map(withoutSecret));
+    } catch (error) {
+      console.error("Error fetching webhooks:", error);
+      res.status(500).json({ error: "Failed to fetch webhooks" });
+    }
+  });
+
+  // Subscribe a URL to events; the response includes the signing secret
+  app.post("/api/webhooks", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const result = insertWebhookSubscriptionSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: fromZodError(result.error).message });
+    }
+
+    try {
+      const subscription = await webhookService.createSubscription(req.user.id, result.data);
+      console.log(`🪝 User ${req.user.id} added webhook ${subscription.id}`);
+      res.status(201).json(subscription);
+    } catch (error) {
+      if (error instanceof WebhookError) {
+        return res.status(ERROR_STATUSES[error.code]).json({ error: error.message, code: error.code });
+      }
+      console.error("Error creating webhook:", error);
+      res.status(500).json({ error: "Failed to create webhook" });
+    }
+  });
+
+  // Change a webhook's URL, events or description, or pause and resume it
+  app.patch("/api/webhooks/:id", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid webhook ID" });
+    }
+
+    const result = updateWebhookSubscriptionSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: fromZodError(result.error).message });
+    }
+
+    try {
+      res.json(withoutSecret(await webhookService.updateSubscription(req.user.id, id, result.data)));
+    } catch (error) {
+      if (error instanceof WebhookError) {
+        return res.status(ERROR_STATUSES[error.code]).json({ error: error.message, code: error.code });
+      }
+      console.error("Error updating webhook:", error);
+      res.status(500).json({ error: "Failed to update webhook" });
+    }
+  });
+
+  // Remove a webhook and its delivery log
+  app.delete("/api/webhooks/:id", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid webhook ID" });
+    }
+
+    try {
+      if (!(await storage.deleteWebhookSubscription(req.user.id, id))) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting webhook:", error);
+      res.status(500).json({ error: "Failed to delete webhook" });
+    }
+  });
+
+  // A webhook's recent deliveries, newest first
+  app.get("/api/webhooks/:id/deliveries", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid webhook ID" });
+    }
+
+    try {
+      if (!(await storage.getWebhookSubscription(req.user.id, id))) {
+        return res.status(404).json({ error: "Webhook not found" });
+      }
+      res.json(await storage.getWebhookDeliveries(req.user.id, id));
+    } catch (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      res.status(500).json({ error: "Failed to fetch deliveries" });
+    }
+  });
+
+  // Send a delivery's event again
+  app.post("/api/webhooks/deliveries/:id/replay", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid delivery ID" });
+    }
+
+    try {
+      res.status(202).json(await webhookService.replay(req.user.id, id));
+    } catch (error) {
+      if (error instanceof WebhookError) {
+        return res.status(ERROR_STATUSES[error.code]).json({ error: error.message, code: error.code });
+      }
+      console.error("Error replaying webhook delivery:", error);
+      res.status(500).json({ error: "Failed to replay delivery" });
+    }
+  });
+}
@@ -1,7 +1,6 @@
 import { Request, Response } from "express";
-import { EmailContentExtractor } from "./email-content-extractor";
-import { GmailContentParser } from "./gmail-content-parser";
 import { storage } from "./storage";
+import { type InboundEmail, type InboundFormFile, getMessageBody, normalizeInboundPayload, parseSendGridInbound } from "./inbound-email";
 
 /**
  * Enhanced SendGrid webhook handler with comprehensive content extraction
@@ -13,12 +12,7 @@ export async function handleSendGridWebhook(req: Request, res: Response) {
   console.log(`Content-Length: ${req.headers['content-length']}`);
   
   try {
-    let extractedData: {
-      sender: string;
-      subject: string;
-      content: string;
-      inReplyTo?: string;
-    };
+    let email: InboundEmail;
 
     // Handle different content types
     const contentType = req.headers['content-type'] || '';
@@ -26,62 +20,34 @@ export async function handleSendGridWebhook(req: Request, res: Response) {
     if (contentType.includes('multipart/form-data')) {
       console.log('📋 Processing multipart/form-data');
       
-      // Handle multipart form data directly from req.body object  
-      if (req.body && typeof req.body === 'object' && Object.keys(req.body).length > 0) {
-        console.log('📊 Direct form data extraction SUCCESS');
-        console.log('Available fields:', Object.keys(req.body));
-        console.log('Raw form data:', JSON.stringify(req.body, null, 2));
-        
-        extractedData = {
-          sender: req.body.from || 'unknown@example.com',
-          subject: req.body.subject || 'No Subject', 
-          content: req.body.text || req.body.body || req.body.subject || '',
-          inReplyTo: req.body['in-reply-to'] || req.body.inReplyTo
-        };
-        
-        console.log(`✅ SUCCESSFUL Direct extraction:`, extractedData);
-      } else {
-        console.log('❌ Form data extraction failed, req.body:', req.body);
-        console.log('❌ req.body type:', typeof req.body);
-        console.log('❌ req.body keys:', req.body ? Object.keys(req.body) : 'no body');
-        
-        // Fallback to buffer parsing
-        const bufferString = req.body ? req.body.toString() : '';
-        console.log(`📊 Buffer fallback - length: ${bufferString.length} characters`);
-        
-        if (bufferString.length === 0) {
-          console.log('❌ Empty buffer received');
-          return res.status(400).json({ error: 'Empty request body' });
-        }
-        
-        extractedData = GmailContentParser.parseContent(bufferString);
+      if (!req.body || typeof req.body !== 'object' || Object.keys(req.body).length === 0) {
+        console.log('❌ Empty form data received');
+        return res.status(400).json({ error: 'Empty request body' });
       }
       
-    } else if (contentType.includes('application/json')) {
-      console.log('📋 Processing JSON webhook data');
-      const data = req.body;
-      
-      extractedData = {
-        sender: data.from || data.sender?.email || 'unknown@example.com',
-        subject: data.subject || 'No Subject',
-        content: data.text || data.body || '',
-        inReplyTo: data.headers?.['In-Reply-To'] || data['in-reply-to']
-      };
+      console.log('Available fields:', Object.keys(req.body));
+      email = await parseSendGridInbound(req.body, (req.files as InboundFormFile[] | undefined) || []);
       
     } else {
-      console.log('📋 Processing raw/unknown content type');
-      const rawBody = req.body ? req.body.toString() : '';
-      
-      // Try to extract from raw body
-      extractedData = EmailContentExtractor.extractFromMultipart(rawBody);
+      // JSON test payloads, or a raw MIME body
+      console.log('📋 Processing JSON or raw webhook data');
+      email = await normalizeInboundPayload(Buffer.isBuffer(req.body) ? req.body.toString('utf8') : req.body);
     }
     
+    const extractedData = {
+      sender: email.from.address,
+      subject: email.subject || 'No Subject',
+      content: getMessageBody(email),
+      inReplyTo: email.inReplyTo
+    };
+    
     console.log(`✅ Content extracted:`, {
       sender: extractedData.sender,
       subject: extractedData.subject,
       contentLength: extractedData.content.length,
       contentPreview: extractedData.content.substring(0, 100),
-      inReplyTo: extractedData.inReplyTo
+      inReplyTo: extractedData.inReplyTo,
+      attachments: email.attachments.length
     });
     
     // Validate extracted content
@@ -98,20 +64,13 @@ export async function handleSendGridWebhook(req: Request, res: Response) {
     }
     
     // Find user by email
-    const emailAddress = extractedData.sender.toLowerCase();
-    let user;
-    
-    // Try to extract email from "Name <email@domain.com>" format
-    const emailMatch = emailAddress.match(/<([^>]+)>/);
-    const cleanEmail = emailMatch ? emailMatch[1] : emailAddress;
-    
-    user = await storage.getUserByEmail(cleanEmail);
+    const user = await storage.getUserByEmail(extractedData.sender);
     
     if (!user) {
-      console.log(`❌ No user found for email: ${cleanEmail}`);
+      console.log(`❌ No user found for email: ${extractedData.sender}`);
       return res.status(404).json({ 
         error: 'User not found for email address',
-        email: cleanEmail
+        email: extractedData.sender
       });
     }
     
@@ -0,0 +1,401 @@
+import crypto from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import type {
+  JournalEntry, ThreadChannel, WebhookDelivery, WebhookEvent, WebhookSubscription,
+  InsertWebhookSubscription, UpdateWebhookSubscription
+} from "@shared/schema";
+import { storage } from "./storage";
+
+export const WEBHOOK_SIGNATURE_HEADER = "Featherweight-Signature";
+export const WEBHOOK_EVENT_HEADER = "Featherweight-Event";
+export const WEBHOOK_DELIVERY_HEADER = "Featherweight-Delivery";
+
+// A failed delivery is retried after 1, 2, 4 ... 64 minutes, 8 attempts in all
+const MAX_DELIVERY_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+// A subscription is paused after this many deliveries in a row run out of retries
+const MAX_CONSECUTIVE_FAILURES = 10;
+const MAX_SUBSCRIPTIONS_PER_USER = 10;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// However steadily it trickles in, a response can't take longer than this
+const REQUEST_DEADLINE_MS = 30 * 1000;
+const MAX_ERROR_LENGTH = 500;
+const POLL_INTERVAL_MS = 30 * 1000;
+const CLAIM_BATCH_SIZE = 20;
+// Long enough for a whole batch to time out before anyone else picks it up
+const CLAIM_LEASE_MS = 5 * 60 * 1000;
+
+export type WebhookErrorCode = "blocked_target" | "invalid_url" | "too_many_subscriptions" | "not_found" | "paused";
+
+export class WebhookError extends Error {
+  constructor(public code: WebhookErrorCode, message: string) {
+    super(message);
+    this.name = "WebhookError";
+  }
+}
+
+export type WebhookJournalEntry = Pick<JournalEntry, "id" | "title" | "content" | "mood" | "tags" | "createdAt" | "updatedAt">;
+
+// What each event sends as its data
+export type WebhookEventData = {
+  "journal.created": WebhookJournalEntry;
+  "journal.updated": WebhookJournalEntry;
+  "conversation.replied": { channel: ThreadChannel; message: string; reply: string };
+  "mood.detected": { mood: string; channel: ThreadChannel; journalEntryId: number | null };
+  "sms.received": { id: number; content: string; receivedAt: Date };
+};
+
+export type WebhookPayload<E extends WebhookEvent = WebhookEvent> = {
+  id: string; // The event ID, the same on every delivery and replay of the event
+  event: E;
+  createdAt: string;
+  data: WebhookEventData[E];
+};
+
+// Addresses webhooks may not be sent to: private networks, loopback,
+// link-local (including cloud metadata services) and other special ranges
+const blockedAddresses = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.0.2.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15],
+  ["198.51.100.0", 24], ["203.0.113.0", 24], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], ["::1", 128], ["64:ff9b::", 96], ["100::", 64], ["2001:db8::", 32],
+  ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+export function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses reach the IPv4 host they embed
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isBlockedAddress(mapped[1]);
+
+  const family = net.isIP(address);
+  if (family === 4) return blockedAddresses.check(address, "ipv4");
+  if (family === 6) return blockedAddresses.check(address, "ipv6");
+  return true;
+}
+
+function blockedTargetError(hostname: string) {
+  return new WebhookError("blocked_target", `Webhooks can't be sent to ${hostname}: it's a private or local address`);
+}
+
+// Resolves the host like the default lookup but refuses blocked addresses.
+// Checking the address actually connected to means a hostname can't pass
+// validation and then be pointed somewhere internal.
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    // The address is ignored when there's an error
+    if (error) return callback(error, []);
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(blockedTargetError(hostname), []);
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+function parseTargetUrl(url: string): URL {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    throw new WebhookError("invalid_url", "Enter a valid URL");
+  }
+  if (target.protocol !== "http:" && target.protocol !== "https:") {
+    throw new WebhookError("invalid_url", "Webhook URLs must use http or https");
+  }
+  return target;
+}
+
+/**
+ * Check that a URL can be sent webhooks: http or https, and not resolving
+ * to a private or local address
+ */
+export async function assertAllowedWebhookUrl(url: string): Promise<void> {
+  const target = parseTargetUrl(url);
+  const hostname = target.hostname.replace(/^\[|\]$/g, "");
+
+  if (net.isIP(hostname)) {
+    if (isBlockedAddress(hostname)) throw blockedTargetError(hostname);
+    return;
+  }
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true });
+  } catch {
+    throw new WebhookError("invalid_url", `Couldn't find ${hostname}`);
+  }
+  if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+    throw blockedTargetError(hostname);
+  }
+}
+
+/**
+ * The Featherweight-Signature header for a body: t is the Unix time it was
+ * signed and v1 the hex HMAC-SHA256 of "<t>.<body>" with the subscription's
+ * secret. Receivers should recompute v1 and reject old timestamps.
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+type WebhookResponse = { status: number; body: string };
+
+function postWebhook(url: string, body: string, headers: Record<string, string>): Promise<WebhookResponse> {
+  const target = parseTargetUrl(url);
+  const hostname = target.hostname.replace(/^\[|\]$/g, "");
+  // Literal addresses skip the lookup, so they're checked here
+  if (net.isIP(hostname) && isBlockedAddress(hostname)) {
+    return Promise.reject(blockedTargetError(hostname));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = (target.protocol === "https:" ? https : http).request(target, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": Buffer.byteLength(body).toString() },
+      lookup: safeLookup,
+      agent: false, // No pooled sockets, so every request goes through the lookup
+      timeout: REQUEST_TIMEOUT_MS,
+    }, (response) => {
+      let responseBody = "";
+      const finish = () => {
+        clearTimeout(deadline);
+        resolve({ status: response.statusCode || 0, body: responseBody.slice(0, MAX_ERROR_LENGTH) });
+      };
+      response.setEncoding("utf8");
+      response.on("data", (chunk: string) => {
+        responseBody += chunk;
+        // Only the start of the body is kept, so there's no need to read the rest
+        if (responseBody.length >= MAX_ERROR_LENGTH) {
+          finish();
+          request.destroy();
+        }
+      });
+      response.on("end", finish);
+      response.on("error", reject);
+    });
+    const deadline = setTimeout(
+      () => request.destroy(new Error(`Timed out after ${REQUEST_DEADLINE_MS / 1000}s`)),
+      REQUEST_DEADLINE_MS,
+    );
+    request.on("timeout", () => request.destroy(new Error(`Timed out after ${REQUEST_TIMEOUT_MS / 1000}s`)));
+    request.on("error", (error) => {
+      clearTimeout(deadline);
+      reject(error);
+    });
+    request.end(body);
+  });
+}
+
+function retryDelay(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1);
+}
+
+async function recordFailure(subscription: WebhookSubscription, delivery: WebhookDelivery, attempts: number,
+                             error: string, responseStatus: number | null, retry: boolean) {
+  const now = new Date();
+  const exhausted = !retry || attempts >= MAX_DELIVERY_ATTEMPTS;
+
+  await storage.updateWebhookDelivery(delivery.id, {
+    status: exhausted ? "failed" : "pending",
+    attempts,
+    lastAttemptAt: now,
+    responseStatus,
+    lastError: error.slice(0, MAX_ERROR_LENGTH),
+    nextAttemptAt: exhausted ? null : new Date(now.getTime() + retryDelay(attempts)),
+  });
+  if (!exhausted) return;
+
+  const updated = await storage.recordWebhookSubscriptionResult(subscription.id, false);
+  if (updated?.isActive && updated.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+    await storage.updateWebhookSubscription(updated.userId, updated.id, { isActive: false });
+    console.warn(`🪝 Paused webhook ${updated.id} for user ${updated.userId} after ${updated.consecutiveFailures} failed deliveries`);
+  }
+}
+
+async function attemptDelivery(delivery: WebhookDelivery): Promise<void> {
+  const subscription = await storage.getWebhookSubscription(delivery.userId, delivery.subscriptionId);
+  if (!subscription) return;
+
+  const attempts = delivery.attempts + 1;
+  if (!subscription.isActive) {
+    await storage.updateWebhookDelivery(delivery.id, {
+      status: "failed",
+      lastError: "Webhook was paused before this was delivered",
+      nextAttemptAt: null,
+    });
+    return;
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  try {
+    const response = await postWebhook(subscription.url, body, {
+      "Content-Type": "application/json",
+      "User-Agent": "Featherweight-Webhooks/1.0",
+      [WEBHOOK_EVENT_HEADER]: delivery.event,
+      [WEBHOOK_DELIVERY_HEADER]: String(delivery.id),
+      [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, body),
+    });
+
+    if (response.status >= 200 && response.status < 300) {
+      await storage.updateWebhookDelivery(delivery.id, {
+        status: "succeeded",
+        attempts,
+        lastAttemptAt: new Date(),
+        responseStatus: response.status,
+        lastError: null,
+        nextAttemptAt: null,
+        deliveredAt: new Date(),
+      });
+      if (subscription.consecutiveFailures > 0) {
+        await storage.recordWebhookSubscriptionResult(subscription.id, true);
+      }
+      return;
+    }
+
+    // Redirects aren't followed, so they count as failures too
+    await recordFailure(subscription, delivery, attempts,
+      `HTTP ${response.status}${response.body ? `: ${response.body}` : ""}`, response.status, true);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // A blocked address won't become deliverable by waiting
+    const retry = !(error instanceof WebhookError && error.code === "blocked_target");
+    await recordFailure(subscription, delivery, attempts, message, null, retry);
+  }
+}
+
+let isProcessing = false;
+let runAgain = false;
+
+async function processDueDeliveries() {
+  if (isProcessing) {
+    runAgain = true;
+    return;
+  }
+  isProcessing = true;
+
+  try {
+    do {
+      runAgain = false;
+      let batch: WebhookDelivery[];
+      while ((batch = await storage.claimDueWebhookDeliveries(CLAIM_BATCH_SIZE, CLAIM_LEASE_MS)).length > 0) {
+        await Promise.all(batch.map(delivery => attemptDelivery(delivery).catch(error => {
+          console.error(`Error delivering webhook ${delivery.id}:`, error);
+        })));
+      }
+    } while (runAgain);
+  } catch (error) {
+    console.error("Error processing webhook deliveries:", error);
+  } finally {
+    isProcessing = false;
+  }
+}
+
+export function toWebhookJournalEntry(entry: JournalEntry): WebhookJournalEntry {
+  const { id, title, content, mood, tags, createdAt, updatedAt } = entry;
+  return { id, title, content, mood, tags, createdAt, updatedAt };
+}
+
+export const webhookService = {
+  /**
+   * Create a subscription with a new signing secret. The secret is only
+   * returned here; the user has to copy it now.
+   */
+  async createSubscription(userId: number, input: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    if ((await storage.getWebhookSubscriptions(userId)).length >= MAX_SUBSCRIPTIONS_PER_USER) {
+      throw new WebhookError("too_many_subscriptions", `You can have up to ${MAX_SUBSCRIPTIONS_PER_USER} webhooks`);
+    }
+    await assertAllowedWebhookUrl(input.url);
+
+    return storage.createWebhookSubscription({
+      userId,
+      url: input.url,
+      events: input.events,
+      description: input.description ?? null,
+      secret: `whsec_${crypto.randomBytes(24).toString("hex")}`,
+    });
+  },
+
+  async updateSubscription(userId: number, id: number, updates: UpdateWebhookSubscription): Promise<WebhookSubscription> {
+    if (updates.url !== undefined) {
+      await assertAllowedWebhookUrl(updates.url);
+    }
+    const subscription = await storage.updateWebhookSubscription(userId, id, updates);
+    if (!subscription) {
+      throw new WebhookError("not_found", "Webhook not found");
+    }
+    return subscription;
+  },
+
+  /**
+   * Queue an event for each of the user's subscriptions to it. Never throws:
+   * webhooks mustn't get in the way of the journaling that triggered them.
+   */
+  async emit<E extends WebhookEvent>(userId: number, event: E, data: WebhookEventData[E]): Promise<void> {
+    try {
+      const subscriptions = await storage.getActiveWebhookSubscriptions(userId, event);
+      if (subscriptions.length === 0) return;
+
+      const payload: WebhookPayload<E> = {
+        id: `evt_${crypto.randomUUID().replace(/-/g, "")}`,
+        event,
+        createdAt: new Date().toISOString(),
+        data,
+      };
+      await storage.createWebhookDeliveries(subscriptions.map(subscription => ({
+        subscriptionId: subscription.id,
+        userId,
+        event,
+        eventId: payload.id,
+        payload,
+      })));
+      processDueDeliveries();
+    } catch (error) {
+      console.error(`Error queueing ${event} webhooks for user ${userId}:`, error);
+    }
+  },
+
+  /**
+   * Send a delivery's event again, as a new delivery with the same event ID
+   */
+  async replay(userId: number, deliveryId: number): Promise<WebhookDelivery> {
+    const delivery = await storage.getWebhookDelivery(userId, deliveryId);
+    const subscription = delivery && await storage.getWebhookSubscription(userId, delivery.subscriptionId);
+    if (!delivery || !subscription) {
+      throw new WebhookError("not_found", "Delivery not found");
+    }
+    if (!subscription.isActive) {
+      throw new WebhookError("paused", "Turn the webhook back on before replaying its deliveries");
+    }
+
+    const [replayed] = await storage.createWebhookDeliveries([{
+      subscriptionId: delivery.subscriptionId,
+      userId,
+      event: delivery.event,
+      eventId: delivery.eventId,
+      payload: delivery.payload,
+    }]);
+    processDueDeliveries();
+    return replayed;
+  },
+};
+
+export function startWebhookDeliveryWorker() {
+  console.log("🪝 Starting webhook delivery worker...");
+
+  processDueDeliveries();
+  setInterval(processDueDeliveries, POLL_INTERVAL_MS);
+}
@@ -0,0 +1,277 @@
+/**
+ * The weekly insight digest: a look back over a user's week of journaling
+ *
+ * The scheduler sends one each week to users with weekly insights turned on,
+ * covering the seven days before it's sent in the user's timezone. It has the
+ * week's entries, the moods they were tagged with, the user's journaling
+ * streak and the topics that keep coming up in their conversation memories,
+ * around Flappy's reflection on the week. Emails are laid out with tables and
+ * text only, since charts and images don't survive most email clients.
+ */
+
+import type { ConversationMemory, JournalEntry } from "@shared/schema";
+import { storage } from "./storage";
+import { UPGRADE_URL } from "./entitlements";
+
+const APP_URL = (process.env.APP_URL || "https://featherweight.world").replace(/\/$/, "");
+
+// Moods entries can be tagged with, in the order they're listed
+const MOODS = ["happy", "calm", "neutral", "sad", "frustrated"] as const;
+const MOOD_EMOJI: Record<string, string> = {
+  happy: "😊",
+  calm: "😌",
+  neutral: "😐",
+  sad: "😔",
+  frustrated: "😤",
+};
+
+const MAX_TOPICS = 5;
+// A topic counts as recurring once it's come up this many times
+const MIN_TOPIC_MENTIONS = 2;
+const MAX_EXCERPTS = 7;
+const EXCERPT_LENGTH = 280;
+// Streaks are counted back at most this far
+const MAX_STREAK_DAYS = 365;
+
+// The week a digest covers, from start up to end, and the timezone its days are in
+export type DigestWeek = {
+  start: Date;
+  end: Date;
+  timezone: string;
+};
+
+export type WeeklyDigest = {
+  week: DigestWeek;
+  entryCount: number;
+  daysJournaled: number;
+  moods: { mood: string; count: number }[]; // Most common first
+  entriesWithoutMood: number;
+  streak: number; // Consecutive days with an entry up to the last day of the week
+  topics: { topic: string; mentions: number }[]; // Most mentioned first
+  entries: { date: string; title: string | null; excerpt: string }[]; // Oldest first
+};
+
+export type RenderedDigest = {
+  html: string;
+  text: string;
+};
+
+// YYYY-MM-DD of an instant in the timezone
+function localDateKey(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+}
+
+function previousDateKey(key: string): string {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day - 1)).toISOString().slice(0, 10);
+}
+
+function formatDay(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-US", { timeZone, weekday: "short", month: "short", day: "numeric" }).format(date);
+}
+
+// "Oct 13 – Oct 19"; the end is exclusive, so the last day is the one before it
+function formatWeekRange(week: DigestWeek): string {
+  const format = (date: Date) => new Intl.DateTimeFormat("en-US", { timeZone: week.timezone, month: "short", day: "numeric" }).format(date);
+  return `${format(week.start)} – ${format(new Date(week.end.getTime() - 1))}`;
+}
+
+function excerpt(content: string): string {
+  const flat = content.replace(/\s+/g, " ").trim();
+  return flat.length > EXCERPT_LENGTH ? `${flat.slice(0, EXCERPT_LENGTH).replace(/\s+\S*$/, "")}…` : flat;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function plural(count: number, word: string, pluralWord = `${word}s`): string {
+  return `${count} ${count === 1 ? word : pluralWord}`;
+}
+
+function countStreak(entries: JournalEntry[], week: DigestWeek): number {
+  const days = new Set(entries.map(entry => localDateKey(new Date(entry.createdAt), week.timezone)));
+  let day = localDateKey(new Date(week.end.getTime() - 1), week.timezone);
+  let streak = 0;
+  while (days.has(day) && streak < MAX_STREAK_DAYS) {
+    streak++;
+    day = previousDateKey(day);
+  }
+  return streak;
+}
+
+function recurringTopics(memories: ConversationMemory[], week: DigestWeek): WeeklyDigest["topics"] {
+  const byTopic = new Map<string, number>();
+  for (const memory of memories) {
+    const topic = memory.topic?.trim();
+    if (!topic || memory.isResolved) continue;
+    if (memory.lastDiscussed < week.start || memory.lastDiscussed >= week.end) continue;
+    const key = topic.toLowerCase();
+    byTopic.set(key, (byTopic.get(key) ?? 0) + (memory.frequency ?? 1));
+  }
+
+  return Array.from(byTopic.entries())
+    .filter(([, mentions]) => mentions >= MIN_TOPIC_MENTIONS)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_TOPICS)
+    .map(([topic, mentions]) => ({ topic, mentions }));
+}
+
+/**
+ * Gather a user's week. Returns null if they didn't journal that week, so
+ * nobody gets an empty digest.
+ */
+export async function buildWeeklyDigest(userId: number, week: DigestWeek): Promise<WeeklyDigest | null> {
+  const allEntries = await storage.getJournalEntries(userId);
+  const entries = allEntries
+    .filter(entry => new Date(entry.createdAt) >= week.start && new Date(entry.createdAt) < week.end)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const moodCounts = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.mood) moodCounts.set(entry.mood, (moodCounts.get(entry.mood) ?? 0) + 1);
+  }
+  const moodRank = (mood: string) => {
+    const index = (MOODS as readonly string[]).indexOf(mood);
+    return index === -1 ? MOODS.length : index;
+  };
+
+  return {
+    week,
+    entryCount: entries.length,
+    daysJournaled: new Set(entries.map(entry => localDateKey(new Date(entry.createdAt), week.timezone))).size,
+    moods: Array.from(moodCounts.entries())
+      .map(([mood, count]) => ({ mood, count }))
+      .sort((a, b) => b.count - a.count || moodRank(a.mood) - moodRank(b.mood)),
+    entriesWithoutMood: entries.filter(entry => !entry.mood).length,
+    streak: countStreak(allEntries, week),
+    topics: recurringTopics(await storage.getConversationMemories(userId), week),
+    // The most recent entries when there are more than fit, listed in order
+    entries: entries.slice(-MAX_EXCERPTS).map(entry => ({
+      date: formatDay(new Date(entry.createdAt), week.timezone),
+      title: entry.title,
+      excerpt: excerpt(entry.content),
+    })),
+  };
+}
+
+/**
+ * The week in a few lines, for Flappy to reflect on
+ */
+export function describeWeeklyDigest(digest: WeeklyDigest): string {
+  const moods = digest.moods.map(({ mood, count }) => `${mood} ${count}`).join(", ");
+  const lines = [
+    `Week of ${formatWeekRange(digest.week)}.`,
+    `Journal entries: ${digest.entryCount}, on ${digest.daysJournaled} of 7 days.`,
+    `Moods: ${moods || "none tagged"}${moods && digest.entriesWithoutMood ? ` (${plural(digest.entriesWithoutMood, "entry", "entries")} without a mood)` : ""}.`,
+    `Journaling streak: ${plural(digest.streak, "day")}.`,
+  ];
+  if (digest.topics.length > 0) {
+    lines.push(`Recurring topics: ${digest.topics.map(({ topic, mentions }) => `${topic} (${plural(mentions, "mention")})`).join(", ")}.`);
+  }
+  lines.push("Entries:", ...digest.entries.map(entry => `- ${entry.date}${entry.title ? ` "${entry.title}"` : ""}: ${entry.excerpt}`));
+  return lines.join("\n");
+}
+
+/**
+ * Lay out a digest with Flappy's reflection as an HTML email and its plain-text
+ * version. The HTML includes the upgrade note for users who see ads; the
+ * text's is added when it's sent.
+ */
+export function renderWeeklyDigest(digest: WeeklyDigest, reflection: string, adFree: boolean): RenderedDigest {
+  const range = formatWeekRange(digest.week);
+  const moodLine = ({ mood, count }: { mood: string; count: number }) =>
+    `${MOOD_EMOJI[mood] ?? "•"} ${mood[0].toUpperCase()}${mood.slice(1)}: ${count} (${Math.round((count / digest.entryCount) * 100)}%)`;
+  // Untagged entries are listed last, so the shares add up to the whole week
+  const moodLines = digest.moods.map(moodLine).concat(digest.entriesWithoutMood > 0
+    ? [`• No mood: ${digest.entriesWithoutMood} (${Math.round((digest.entriesWithoutMood / digest.entryCount) * 100)}%)`]
+    : []);
+  const streakText = digest.streak > 0
+    ? `You're on a ${digest.streak}-day journaling streak.`
+    : "A new week is a good time to start a streak.";
+
+  // Plain text
+  const textSections = [
+    `Your week with Flappy, ${range}`,
+    `${plural(digest.entryCount, "journal entry", "journal entries")} on ${plural(digest.daysJournaled, "day")}. ${streakText}`,
+    reflection.trim(),
+  ];
+  if (digest.moods.length > 0) {
+    textSections.push(["Moods", ...moodLines].join("\n"));
+  }
+  if (digest.topics.length > 0) {
+    textSections.push(["On your mind", ...digest.topics.map(({ topic, mentions }) => `• ${topic} (${plural(mentions, "mention")})`)].join("\n"));
+  }
+  textSections.push([
+    "This week's entries",
+    ...digest.entries.map(entry => `• ${entry.date}${entry.title ? ` – ${entry.title}` : ""}\n  ${entry.excerpt}`),
+  ].join("\n"));
+  textSections.push(`Read your journal: ${APP_URL}/journal\nTurn off weekly insights: ${APP_URL}/settings`);
+  const text = textSections.join("\n\n");
+
+  // HTML
+  const stat = (value: number, label: string) => `
+          <td style="padding: 12px; text-align: center; background: #f9f9f9; border-radius: 8px;">
+            <div style="font-size: 24px; font-weight: bold; color: #1976d2;">${value}</div>
+            <div style="font-size: 12px; color: #666;">${label}</div>
+          </td>`;
+  const section = (title: string, body: string) => `
+  <h2 style="font-size: 16px; margin: 28px 0 8px;">${title}</h2>
+  ${body}`;
+
+  const reflectionHtml = reflection.trim().split(/\n{2,}/)
+    .map(paragraph => `<p style="margin: 0 0 12px;">${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`)
+    .join("\n    ");
+  const moodsHtml = digest.moods.length === 0 ? "" : section("Moods", `<table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+    ${moodLines.map(line => `<tr><td style="padding: 4px 0;">${escapeHtml(line)}</td></tr>`).join("\n    ")}
+  </table>`);
+  const topicsHtml = digest.topics.length === 0 ? "" : section("On your mind", `<ul style="margin: 0; padding-left: 20px;">
+    ${digest.topics.map(({ topic, mentions }) => `<li>${escapeHtml(topic)} <span style="color: #666;">(${plural(mentions, "mention")})</span></li>`).join("\n    ")}
+  </ul>`);
+  const entriesHtml = section("This week's entries", digest.entries.map(entry => `
+  <div style="margin: 0 0 12px;">
+    <div style="font-size: 12px; color: #666;">${escapeHtml(entry.date)}</div>
+    ${entry.title ? `<div style="font-weight: bold;">${escapeHtml(entry.title)}</div>` : ""}
+    <div>${escapeHtml(entry.excerpt)}</div>
+  </div>`).join(""));
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Your week with Flappy</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h1 style="font-size: 20px; margin: 0;">Your week with Flappy</h1>
+  <p style="margin: 0 0 16px; color: #666;">${escapeHtml(range)}</p>
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="8">
+    <tr>${stat(digest.entryCount, digest.entryCount === 1 ? "entry" : "entries")}${stat(digest.daysJournaled, digest.daysJournaled === 1 ? "day journaled" : "days journaled")}${stat(digest.streak, "day streak")}
+    </tr>
+  </table>
+  <p style="margin: 8px 0 0; color: #666;">${escapeHtml(streakText)}</p>
+  <div style="background: #f9f9f9; padding: 20px; border-radius: 8px; margin: 20px 0;">
+    ${reflectionHtml}
+  </div>
+  ${moodsHtml}
+  ${topicsHtml}
+  ${entriesHtml}
+  <p style="margin: 28px 0 0;">
+    <a href="${APP_URL}/journal" style="color: #1976d2;">Read your journal</a> ·
+    <a href="${APP_URL}/settings" style="color: #1976d2;">Turn off weekly insights</a>
+  </p>
+  ${!adFree ? `<div style="background: #e3f2fd; padding: 15px; border-radius: 5px; margin: 20px 0; text-align: center; font-size: 14px; color: #1976d2;">💎 Upgrade to Premium for ad-free experiences and exclusive features! <a href="${UPGRADE_URL}">Learn more</a></div>` : ""}
+</body>
+</html>`;
+
+  return { html, text };
+}
@@ -0,0 +1,161 @@
+import fs from "fs/promises";
+import zlib from "zlib";
+import { promisify } from "util";
+
+const deflateRaw = promisify(zlib.deflateRaw);
+
+// ZIP method codes
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+
+// General purpose flag: file names are UTF-8
+const FLAG_UTF8 = 0x0800;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, as stored in ZIP headers (local time, 2-second precision)
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+type CentralDirectoryRecord = {
+  name: Buffer;
+  method: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+};
+
+/**
+ * Writes a ZIP archive to disk one file at a time, so large archives never
+ * have to be held in memory. Files are deflated unless that doesn't make them
+ * smaller (e.g. images). No ZIP64 support, so archives must stay under 4 GB.
+ */
+export class ZipWriter {
+  private handle: fs.FileHandle | null = null;
+  private offset = 0;
+  private records: CentralDirectoryRecord[] = [];
+
+  constructor(private filePath: string) {}
+
+  async addFile(name: string, data: Buffer | string, modifiedAt: Date = new Date()): Promise<void> {
+    if (!this.handle) {
+      this.handle = await fs.open(this.filePath, "w");
+    }
+
+    const content = typeof data === "string" ? Buffer.from(data, "utf8") : data;
+    const deflated = await deflateRaw(content);
+    const method = deflated.length < content.length ? METHOD_DEFLATE : METHOD_STORE;
+    const body = method === METHOD_DEFLATE ? deflated : content;
+
+    const record: CentralDirectoryRecord = {
+      name: Buffer.from(name, "utf8"),
+      method,
+      crc: crc32(content),
+      compressedSize: body.length,
+      size: content.length,
+      offset: this.offset,
+      ...dosDateTime(modifiedAt)
+    };
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4); // Version needed to extract
+    header.writeUInt16LE(FLAG_UTF8, 6);
+    header.writeUInt16LE(record.method, 8);
+    header.writeUInt16LE(record.time, 10);
+    header.writeUInt16LE(record.date, 12);
+    header.writeUInt32LE(record.crc, 14);
+    header.writeUInt32LE(record.compressedSize, 18);
+    header.writeUInt32LE(record.size, 22);
+    header.writeUInt16LE(record.name.length, 26);
+    header.writeUInt16LE(0, 28); // Extra field length
+
+    await this.write(header);
+    await this.write(record.name);
+    await this.write(body);
+    this.records.push(record);
+  }
+
+  /**
+   * Write the central directory and close the file. Returns the archive size in bytes.
+   */
+  async finish(): Promise<number> {
+    if (!this.handle) {
+      this.handle = await fs.open(this.filePath, "w");
+    }
+
+    const directoryOffset = this.offset;
+    for (const record of this.records) {
+      const entry = Buffer.alloc(46);
+      entry.writeUInt32LE(0x02014b50, 0);
+      entry.writeUInt16LE(20, 4); // Version made by
+      entry.writeUInt16LE(20, 6); // Version needed to extract
+      entry.writeUInt16LE(FLAG_UTF8, 8);
+      entry.writeUInt16LE(record.method, 10);
+      entry.writeUInt16LE(record.time, 12);
+      entry.writeUInt16LE(record.date, 14);
+      entry.writeUInt32LE(record.crc, 16);
+      entry.writeUInt32LE(record.compressedSize, 20);
+      entry.writeUInt32LE(record.size, 24);
+      entry.writeUInt16LE(record.name.length, 28);
+      // Extra field, comment, disk number, attributes: all zero
+      entry.writeUInt32LE(record.offset, 42);
+
+      await this.write(entry);
+      await this.write(record.name);
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.records.length, 8);
+    end.writeUInt16LE(this.records.length, 10);
+    end.writeUInt32LE(this.offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await this.write(end);
+
+    await this.handle.close();
+    this.handle = null;
+    return this.offset;
+  }
+
+  /**
+   * Close the file without finishing the archive, e.g. after an error
+   */
+  async abort(): Promise<void> {
+    if (this.handle) {
+      await this.handle.close();
+      this.handle = null;
+    }
+  }
+
+  private async write(buffer: Buffer): Promise<void> {
+    await this.handle!.write(buffer);
+    this.offset += buffer.length;
+  }
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -15,6 +15,7 @@ export const conversations = pgTable("conversations", {
   messageTags: json("message_tags").$type<string[]>(),
   mood: text("mood"), // happy, calm, neutral, sad, frustrated
   reflectionPrompt: text("reflection_prompt"), // Interactive reflection prompt for follow-up questions
+  promptVersion: text("prompt_version"), // Prompt template that produced the reply, e.g. chatConversation@2
 });
 
 // Users table
@@ -29,13 +30,32 @@ export const users = pgTable("users", {
   smsConsent: boolean("sms_consent").default(false).notNull(),
   isPremium: boolean("is_premium").default(false).notNull(),
   premiumUntil: timestamp("premium_until"),
+  stripeCustomerId: text("stripe_customer_id"),
+  stripeSubscriptionId: text("stripe_subscription_id"),
+  subscriptionStatus: text("subscription_status"), // Stripe subscription status: active, past_due, canceled, etc.
+  cancelAtPeriodEnd: boolean("cancel_at_period_end").default(false).notNull(),
+  premiumSource: text("premium_source").$type<PremiumSource>(), // What premiumUntil comes from
+  trialEndsAt: timestamp("trial_ends_at"), // Set when the user starts their one free trial
+  premiumReminderSentAt: timestamp("premium_reminder_sent_at"), // Trial or promo expiry reminder, cleared when access is extended
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   preferences: json("preferences").$type<UserPreferences>(),
   paymentDetails: json("payment_details").$type<PaymentDetails>(),
-  // Password reset fields
-  resetToken: text("reset_token"),
+  // Password reset and email verification fields
+  resetToken: text("reset_token"), // SHA-256 of the token in the reset link
   resetTokenExpires: timestamp("reset_token_expires"),
+  emailVerifiedAt: timestamp("email_verified_at"), // Null until the user follows the link sent to their address
+  emailVerificationToken: text("email_verification_token"), // SHA-256 of the token in the verification link
+  emailVerificationExpires: timestamp("email_verification_expires"),
+  // Two-factor authentication; off while twoFactorMethod is null
+  twoFactorMethod: text("two_factor_method").$type<TwoFactorMethod>(),
+  twoFactorSecret: text("two_factor_secret"), // Base32 TOTP secret
+  twoFactorPhone: text("two_factor_phone"), // Where SMS codes are sent; separate from the journaling number
+  twoFactorLastTotpStep: integer("two_factor_last_totp_step"), // Last accepted TOTP time step, so a code works once
+  twoFactorEnabledAt: timestamp("two_factor_enabled_at"),
+  twoFactorLoginAttempts: integer("two_factor_login_attempts").default(0).notNull(), // Codes tried since the last sign-in or lockout
+  twoFactorLockedUntil: timestamp("two_factor_locked_until"), // No codes are checked until then
+  deletedAt: timestamp("deleted_at"), // Set when the account is deleted and the row anonymized
 });
 
 // Journal entries table
@@ -50,6 +70,45 @@ export const journalEntries = pgTable("journal_entries", {
   tags: json("tags").$type<string[]>(),
   imageUrl: text("image_url"),
   emailId: text("email_id"), // To track which email this entry is responding to
+  deletedAt: timestamp("deleted_at"), // Set when the entry is moved to the trash
+  // search_vector, the generated tsvector journal search uses, is added in
+  // migrate.ts and left unmapped so it isn't loaded with every entry
+});
+
+// Trashed journal entries are purged permanently after this many days
+export const JOURNAL_TRASH_RETENTION_DAYS = 30;
+
+// Journal entry revisions - a snapshot of an entry after each create, edit or restore
+export const journalEntryRevisions = pgTable("journal_entry_revisions", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").references(() => journalEntries.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  revisionNumber: integer("revision_number").notNull(), // 1 for the original, counting up per entry
+  title: text("title"),
+  content: text("content").notNull(),
+  mood: text("mood"),
+  tags: json("tags").$type<string[]>(),
+  source: text("source").notNull(), // "create", "edit" or "restore"
+  restoredFromRevision: integer("restored_from_revision"), // Revision number copied when source is "restore"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("journal_entry_revisions_entry_number").on(table.entryId, table.revisionNumber),
+]);
+
+// Files attached to journal entries, e.g. photos sent in by email or MMS
+export const journalAttachments = pgTable("journal_attachments", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").references(() => journalEntries.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  storageKey: text("storage_key").notNull(), // See server/file-storage.ts
+  thumbnailKey: text("thumbnail_key"), // Set for images with a smaller preview; otherwise the image itself is shown
+  filename: text("filename").notNull(), // Name as sent, for display and downloads
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(), // Bytes
+  width: integer("width"), // Pixels, for images
+  height: integer("height"),
+  source: text("source").notNull(), // "email", "sms" or "upload"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 // Payment methods table
@@ -78,6 +137,137 @@ export const billingTransactions = pgTable("billing_transactions", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Promo codes - each grants premium for a number of days, without a Stripe subscription
+export const promoCodes = pgTable("promo_codes", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(), // Stored uppercase; matched case-insensitively
+  description: text("description"), // Campaign it belongs to, for the growth team
+  durationDays: integer("duration_days").notNull(),
+  maxRedemptions: integer("max_redemptions"), // Null for unlimited
+  redemptionCount: integer("redemption_count").default(0).notNull(),
+  expiresAt: timestamp("expires_at"), // Can't be redeemed after this; null for no expiry
+  disabledAt: timestamp("disabled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Promo code redemptions - each user may redeem a code once
+export const promoRedemptions = pgTable("promo_redemptions", {
+  id: serial("id").primaryKey(),
+  promoCodeId: integer("promo_code_id").references(() => promoCodes.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  premiumUntil: timestamp("premium_until").notNull(), // The access it granted
+  redeemedAt: timestamp("redeemed_at").defaultNow().notNull(),
+}, (table) => [
+  unique("promo_redemptions_code_user").on(table.promoCodeId, table.userId),
+]);
+
+// One-time codes sent by SMS, to sign in or to confirm a phone for two-factor authentication
+export const twoFactorCodes = pgTable("two_factor_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  purpose: text("purpose").$type<TwoFactorCodePurpose>().notNull(),
+  codeHash: text("code_hash").notNull(),
+  phoneNumber: text("phone_number").notNull(),
+  attempts: integer("attempts").default(0).notNull(), // Wrong guesses; the code stops working after a few
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Recovery codes for signing in without the second factor; each works once
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Login sessions. sess holds the express-session data; the other columns
+// describe the session for the user's list of where they're logged in.
+export const sessions = pgTable("sessions", {
+  sid: text("sid").primaryKey(),
+  id: serial("id").notNull().unique(), // Shown to the user in place of the sid, which is a credential
+  sess: json("sess").notNull(),
+  expire: timestamp("expire").notNull(),
+  userId: integer("user_id").references(() => users.id), // Null until someone logs in
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+});
+
+// Outbound webhooks: a user's endpoints that are sent journal and conversation events
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // Signs each delivery; shown to the user once
+  events: json("events").$type<WebhookEvent[]>().notNull(),
+  description: text("description"),
+  isActive: boolean("is_active").default(true).notNull(),
+  consecutiveFailures: integer("consecutive_failures").default(0).notNull(), // Deliveries that ran out of retries in a row
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One event sent to one subscription, with its retries
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").references(() => webhookSubscriptions.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  event: text("event").$type<WebhookEvent>().notNull(),
+  eventId: text("event_id").notNull(), // Same for every subscription sent the event, so receivers can deduplicate
+  payload: json("payload").notNull(),
+  status: text("status").$type<WebhookDeliveryStatus>().default("pending").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(), // Null once delivered or out of retries
+  lastAttemptAt: timestamp("last_attempt_at"),
+  responseStatus: integer("response_status"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  deliveredAt: timestamp("delivered_at"),
+});
+
+// Messages the safety check flagged, kept as an audit trail of what was
+// detected and how Flappy responded
+export const safetyEvents = pgTable("safety_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  channel: text("channel").$type<ThreadChannel>().notNull(),
+  level: text("level").$type<SafetyLevel>().notNull(),
+  matchedRules: json("matched_rules").$type<string[]>().notNull(), // Rule IDs from server/safety.ts
+  modelLevel: text("model_level").$type<SafetyLevel | "none">(), // Null when the model check didn't run
+  region: text("region").notNull(), // Whose crisis resources were given
+  response: text("response").notNull(), // The template sent in place of Flappy's reply
+  sourceType: text("source_type"), // conversation, email, sms_message or journal_entry
+  sourceId: integer("source_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Versions of Flappy's prompts added at runtime. The built-in version 1 of
+// each is in server/prompt-templates.ts; versions here replace it once any
+// has a weight, sharing traffic in proportion to their weights.
+export const promptTemplates = pgTable("prompt_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // The FlappyContentType it's for
+  version: integer("version").notNull(),
+  description: text("description"), // What changed, for comparing versions
+  body: text("body").notNull(), // Prompt text with {{variable}} placeholders
+  weight: integer("weight").default(0).notNull(), // Share of traffic; 0 is off
+  createdBy: text("created_by"), // Admin email
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("prompt_templates_name_version").on(table.name, table.version),
+]);
+
+// Stripe webhook events that have been processed, so redelivered events are skipped
+export const stripeEvents = pgTable("stripe_events", {
+  id: text("id").primaryKey(), // Stripe event ID, evt_...
+  type: text("type").notNull(),
+  processedAt: timestamp("processed_at").defaultNow().notNull(),
+});
+
 // Emails table to track sent emails
 export const emails = pgTable("emails", {
   id: serial("id").primaryKey(),
@@ -85,7 +275,7 @@ export const emails = pgTable("emails", {
   subject: text("subject").notNull(),
   content: text("content").notNull(),
   sentAt: timestamp("sent_at").defaultNow().notNull(),
-  type: text("type").notNull(), // daily_inspiration, journal_acknowledgment, weekly_insight, inbound, conversation_reply
+  type: text("type").notNull(), // daily_inspiration, journal_acknowledgment, weekly_insight, inbound, conversation_reply, premium_reminder, safety_response
   isRead: boolean("is_read").default(false),
   messageId: text("message_id"), // Email message ID for tracking
   conversationId: text("conversation_id"), // Conversation thread ID
@@ -95,6 +285,7 @@ export const emails = pgTable("emails", {
   from: text("from"), // Sender email address
   mood: text("mood"), // Detected mood from content
   tags: json("tags").$type<string[]>(), // Extracted tags
+  promptVersion: text("prompt_version"), // Prompt template that produced a Flappy email, e.g. journalResponse@2
 });
 
 // SMS messages table to track SMS conversations
@@ -130,7 +321,7 @@ export const conversationMemories = pgTable("conversation_memories", {
   growthOpportunity: text("growth_opportunity"), // Potential area for personal growth related to this topic
 });
 
-// Email queue table for asynchronous processing
+// Email queue table, replaced by jobs; rows from before are kept for reference
 export const emailQueue = pgTable("email_queue", {
   id: serial("id").primaryKey(),
   payload: jsonb("payload").notNull(),
@@ -142,6 +333,98 @@ export const emailQueue = pgTable("email_queue", {
   processedAt: timestamp("processed_at"),
 });
 
+// Background jobs, worked through by the job worker in server/job-queue.ts
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").$type<JobType>().notNull(),
+  payload: jsonb("payload").notNull(),
+  status: text("status").$type<JobStatus>().default("pending").notNull(),
+  idempotencyKey: text("idempotency_key").unique(), // e.g. email:<Message-ID>; a job with the same key isn't queued twice
+  sender: text("sender"), // Email address or phone number an inbound message came from, so a deleted account's jobs can be found
+  attempts: integer("attempts").default(0).notNull(),
+  runAt: timestamp("run_at").defaultNow().notNull(), // Due time; while running, when the worker's lease runs out
+  lastError: text("last_error"),
+  progress: jsonb("progress").$type<Record<string, unknown>>().default({}).notNull(), // What each finished step returned, by step name; see server/job-steps.ts
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Delivery schedule table - one row per user and channel for daily inspirations
+export const deliverySchedules = pgTable("delivery_schedules", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  channel: text("channel").$type<DeliveryChannel>().notNull(), // "email" or "sms" daily inspirations, or "weekly_insight"
+  nextDueAt: timestamp("next_due_at").notNull(), // UTC instant of the next delivery
+  scheduleKey: text("schedule_key").notNull(), // timezone|time|frequency the row was computed from
+  lastSentAt: timestamp("last_sent_at"),
+  lastSentLocalDate: text("last_sent_local_date"), // YYYY-MM-DD in the user's timezone
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("delivery_schedules_user_channel").on(table.userId, table.channel),
+]);
+
+// Threads table - one conversation across any channel (chat, email or SMS)
+export const threads = pgTable("threads", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  channel: text("channel").notNull(), // "chat", "email" or "sms"
+  externalId: text("external_id").notNull(), // Email conversationId, "sms:<phone>" or chat thread key
+  subject: text("subject"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastMessageAt: timestamp("last_message_at").defaultNow().notNull(),
+}, (table) => [
+  unique("threads_user_channel_external").on(table.userId, table.channel, table.externalId),
+]);
+
+// Messages table - a single turn in a thread, from the user or from Flappy
+export const messages = pgTable("messages", {
+  id: serial("id").primaryKey(),
+  threadId: integer("thread_id").references(() => threads.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  role: text("role").notNull(), // "user" or "assistant"
+  channel: text("channel").notNull(), // "chat", "email" or "sms"
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  sourceType: text("source_type"), // "conversation", "email" or "sms" - the legacy row this turn mirrors
+  sourceId: integer("source_id"),
+  journalEntryId: integer("journal_entry_id"),
+  mood: text("mood"),
+  metadata: jsonb("metadata").$type<Record<string, any>>(),
+}, (table) => [
+  unique("messages_source_role").on(table.sourceType, table.sourceId, table.role),
+]);
+
+// Embeddings table - vectors for semantic search over memories and journal entries
+export const embeddings = pgTable("embeddings", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  sourceType: text("source_type").notNull(), // "memory" or "journal_entry"
+  sourceId: integer("source_id").notNull(),
+  model: text("model").notNull(), // Embedder that produced the vector; vectors are only compared within a model
+  contentHash: text("content_hash").notNull(), // Hash of the embedded text, so edits trigger re-embedding
+  vector: jsonb("vector").$type<number[]>().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique("embeddings_source_model").on(table.sourceType, table.sourceId, table.model),
+]);
+
+// Account exports - a ZIP archive of everything stored about a user, built in the background
+export const accountExports = pgTable("account_exports", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  status: text("status").default("pending").notNull(), // pending, processing, completed, failed, expired
+  filePath: text("file_path"), // Archive location on disk once completed
+  fileSize: integer("file_size"), // In bytes
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+  expiresAt: timestamp("expires_at"), // The archive is deleted after this
+});
+
+// Completed account exports can be downloaded for this many days
+export const ACCOUNT_EXPORT_RETENTION_DAYS = 7;
+
 // Types for JSON fields
 export type UserPreferences = {
   emailFrequency: "daily" | "weekdays" | "weekends" | "weekly";
@@ -155,9 +438,34 @@ export type UserPreferences = {
   lastName?: string;
   bio?: string;
   emailDeliveryTime?: string; // Time of day for daily emails, format: "HH:MM" in 24hr format
+  timezone?: string; // IANA timezone name used for delivery times, e.g. "America/New_York"
   disableDailyEmails?: boolean; // Option to turn off daily inspirations
 };
 
+// Where a user's premium access comes from
+export type PremiumSource = "stripe" | "trial" | "promo";
+
+export const WEBHOOK_EVENTS = [
+  "journal.created",
+  "journal.updated",
+  "conversation.replied",
+  "mood.detected",
+  "sms.received",
+] as const;
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+export const JOB_TYPES = ["inbound_email", "inbound_sms"] as const;
+export type JobType = typeof JOB_TYPES[number];
+// dead: gave up after the last attempt failed; kept until retried or purged
+export const JOB_STATUSES = ["pending", "running", "completed", "dead"] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+// concern: signs of distress; crisis: risk of suicide or self-harm
+export type SafetyLevel = "concern" | "crisis";
+
+// How a user proves it's them after their password
+export type TwoFactorMethod = "totp" | "sms";
+export type TwoFactorCodePurpose = "login" | "enroll";
+
 export type PaymentDetails = {
   lastFour: string;
   cardBrand?: string;
@@ -175,9 +483,27 @@ export const insertUserSchema = createInsertSchema(users)
     preferences: true,
     isPremium: true,
     premiumUntil: true,
+    stripeCustomerId: true,
+    stripeSubscriptionId: true,
+    subscriptionStatus: true,
+    cancelAtPeriodEnd: true,
+    premiumSource: true,
+    trialEndsAt: true,
+    premiumReminderSentAt: true,
     resetToken: true,
     resetTokenExpires: true,
-    paymentDetails: true
+    emailVerifiedAt: true,
+    emailVerificationToken: true,
+    emailVerificationExpires: true,
+    twoFactorMethod: true,
+    twoFactorSecret: true,
+    twoFactorPhone: true,
+    twoFactorLastTotpStep: true,
+    twoFactorEnabledAt: true,
+    twoFactorLoginAttempts: true,
+    twoFactorLockedUntil: true,
+    paymentDetails: true,
+    deletedAt: true
   })
   .extend({
     email: z.string().email({ message: "Please enter a valid email address" }),
@@ -191,7 +517,7 @@ export const insertUserSchema = createInsertSchema(users)
   });
 
 export const insertJournalEntrySchema = createInsertSchema(journalEntries)
-  .omit({ id: true, createdAt: true, updatedAt: true })
+  .omit({ id: true, createdAt: true, updatedAt: true, deletedAt: true })
   .extend({
     content: z.string().min(1, { message: "Journal entry cannot be empty" }),
     title: z.string().optional(),
@@ -201,12 +527,18 @@ export const insertJournalEntrySchema = createInsertSchema(journalEntries)
     emailId: z.string().optional(),
   });
 
+export const insertJournalAttachmentSchema = createInsertSchema(journalAttachments)
+  .omit({ id: true, createdAt: true })
+  .extend({
+    source: z.enum(["email", "sms", "upload"]),
+  });
+
 export const insertEmailSchema = createInsertSchema(emails)
   .omit({ id: true, sentAt: true, isRead: true })
   .extend({
     subject: z.string().min(1, { message: "Email subject cannot be empty" }),
     content: z.string().min(1, { message: "Email content cannot be empty" }),
-    type: z.enum(["daily_inspiration", "journal_acknowledgment", "weekly_insight", "inbound", "conversation_reply"]),
+    type: z.enum(["daily_inspiration", "journal_acknowledgment", "weekly_insight", "inbound", "conversation_reply", "premium_reminder", "safety_response"]),
     direction: z.enum(["inbound", "outbound"]).optional(),
     conversationId: z.string().optional(),
     messageId: z.string().optional(),
@@ -255,6 +587,61 @@ export const insertBillingTransactionSchema = createInsertSchema(billingTransact
     status: z.enum(["succeeded", "failed", "pending"]),
   });
 
+export const insertPromoCodeSchema = createInsertSchema(promoCodes)
+  .omit({ id: true, redemptionCount: true, disabledAt: true, createdAt: true })
+  .extend({
+    code: z.string().trim().regex(/^[A-Za-z0-9_-]{4,32}$/, {
+      message: "Codes are 4 to 32 letters, numbers, dashes or underscores"
+    }).transform(code => code.toUpperCase()),
+    description: z.string().max(200).optional(),
+    durationDays: z.number().int().min(1).max(366),
+    maxRedemptions: z.number().int().positive().nullable().optional(),
+    expiresAt: z.coerce.date().nullable().optional(),
+  });
+
+export const insertTwoFactorCodeSchema = createInsertSchema(twoFactorCodes)
+  .omit({ id: true, attempts: true, consumedAt: true, createdAt: true })
+  .extend({
+    purpose: z.enum(["login", "enroll"]),
+  });
+
+export const insertWebhookSubscriptionSchema = createInsertSchema(webhookSubscriptions)
+  .pick({ url: true, events: true, description: true })
+  .extend({
+    url: z.string().trim().url({ message: "Enter a valid URL" }).max(2048)
+      .refine(url => /^https?:\/\//i.test(url), { message: "Webhook URLs must use http or https" }),
+    events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, { message: "Choose at least one event" })
+      .transform(events => Array.from(new Set(events))),
+    description: z.string().trim().max(200).nullable().optional(),
+  });
+
+export const updateWebhookSubscriptionSchema = insertWebhookSubscriptionSchema
+  .extend({ isActive: z.boolean() })
+  .partial();
+
+export const insertPromptTemplateSchema = createInsertSchema(promptTemplates)
+  .pick({ name: true, description: true, body: true, weight: true })
+  .extend({
+    name: z.string().trim().min(1),
+    description: z.string().trim().max(200).nullable().optional(),
+    body: z.string().trim().min(1, { message: "Template body cannot be empty" }).max(20000),
+    weight: z.number().int().min(0).max(1000).default(0),
+  });
+
+export const updatePromptTemplateSchema = z.object({
+  weight: z.number().int().min(0).max(1000),
+});
+
+// Checks an IANA timezone name against the runtime's timezone database
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 export const updateUserPreferencesSchema = z.object({
   emailFrequency: z.enum(["daily", "weekdays", "weekends", "weekly"]),
   marketingEmails: z.boolean().default(false),
@@ -264,6 +651,9 @@ export const updateUserPreferencesSchema = z.object({
   receiveSms: z.boolean().default(false).optional(),
   smsConsent: z.boolean().default(false).optional(),
   emailDeliveryTime: z.string().optional(),
+  timezone: z.string().optional().refine(val => !val || isValidTimeZone(val), {
+    message: "Please choose a valid timezone"
+  }),
   disableDailyEmails: z.boolean().optional(),
   phoneNumber: z.string().optional().refine(val => !val || /^\+?[1-9]\d{1,14}$/.test(val), {
     message: "Please enter a valid phone number in E.164 format (e.g., +14155552671)"
@@ -274,15 +664,63 @@ export const updateUserPreferencesSchema = z.object({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type JournalEntry = typeof journalEntries.$inferSelect;
+export type JournalEntryRevision = typeof journalEntryRevisions.$inferSelect;
+export type JournalRevisionSource = "create" | "edit" | "restore";
+export type JournalAttachment = typeof journalAttachments.$inferSelect;
+export type JournalAttachmentSource = "email" | "sms" | "upload";
+
+// Journal entries and attachments as sent to the client: stored files are
+// replaced by signed URLs that expire, so they're fetched fresh with the entry
+export type ClientJournalAttachment = Omit<JournalAttachment, "storageKey" | "thumbnailKey"> & {
+  url: string;
+  thumbnailUrl: string | null;
+};
+export type JournalEntryWithAttachments = JournalEntry & {
+  signedImageUrl: string | null; // For display; imageUrl is the stored reference
+  attachments: ClientJournalAttachment[];
+};
+
+// A run of text that is unchanged, added or removed between two revisions
+export type TextDiffPart = {
+  type: "equal" | "added" | "removed";
+  value: string;
+};
+
+export type JournalRevisionDiff = {
+  from: JournalEntryRevision;
+  to: JournalEntryRevision;
+  title: TextDiffPart[];
+  content: TextDiffPart[];
+  mood: { from: string | null; to: string | null } | null; // null when unchanged
+  tags: { added: string[]; removed: string[] };
+};
 export type Email = typeof emails.$inferSelect;
 export type SmsMessage = typeof smsMessages.$inferSelect;
 export type PaymentMethod = typeof paymentMethods.$inferSelect;
 export type BillingTransaction = typeof billingTransactions.$inferSelect;
+export type PromoCode = typeof promoCodes.$inferSelect;
+export type PromoRedemption = typeof promoRedemptions.$inferSelect;
+export type TwoFactorCode = typeof twoFactorCodes.$inferSelect;
+export type UserSession = typeof sessions.$inferSelect;
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type SafetyEvent = typeof safetyEvents.$inferSelect;
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
 export type ConversationMemory = typeof conversationMemories.$inferSelect;
 export type Conversation = typeof conversations.$inferSelect;
 export type EmailQueueItem = typeof emailQueue.$inferSelect;
+export type Job = typeof jobs.$inferSelect;
+export type DeliverySchedule = typeof deliverySchedules.$inferSelect;
+// weekly_insight: the weekly insight digest, sent by email
+export type DeliveryChannel = "email" | "sms" | "weekly_insight";
 export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
+export type InsertJournalAttachment = z.infer<typeof insertJournalAttachmentSchema>;
 export type InsertEmail = z.infer<typeof insertEmailSchema>;
+export type InsertPromoCode = z.infer<typeof insertPromoCodeSchema>;
+export type InsertTwoFactorCode = z.infer<typeof insertTwoFactorCodeSchema>;
+export type InsertWebhookSubscription = z.infer<typeof insertWebhookSubscriptionSchema>;
+export type UpdateWebhookSubscription = z.infer<typeof updateWebhookSubscriptionSchema>;
+export type InsertPromptTemplate = z.infer<typeof insertPromptTemplateSchema>;
 export type InsertSmsMessage = z.infer<typeof insertSmsMessageSchema>;
 export type InsertPaymentMethod = z.infer<typeof insertPaymentMethodSchema>;
 export type InsertBillingTransaction = z.infer<typeof insertBillingTransactionSchema>;
@@ -299,6 +737,25 @@ export const insertConversationSchema = createInsertSchema(conversations)
     savedAsJournal: z.boolean().default(false),
   });
 
+export const insertThreadSchema = createInsertSchema(threads)
+  .omit({ id: true, createdAt: true, lastMessageAt: true })
+  .extend({
+    channel: z.enum(["chat", "email", "sms"]),
+    externalId: z.string().min(1),
+    subject: z.string().nullable().optional(),
+  });
+
+export const insertMessageSchema = createInsertSchema(messages)
+  .omit({ id: true })
+  .extend({
+    role: z.enum(["user", "assistant"]),
+    channel: z.enum(["chat", "email", "sms"]),
+    content: z.string().min(1, { message: "Message cannot be empty" }),
+    sourceType: z.enum(["conversation", "email", "sms"]).nullable().optional(),
+    createdAt: z.date().optional(),
+    metadata: z.record(z.any()).nullable().optional(),
+  });
+
 export const insertEmailQueueSchema = createInsertSchema(emailQueue)
   .omit({ id: true, createdAt: true, updatedAt: true, processedAt: true, processAttempts: true })
   .extend({
@@ -309,3 +766,12 @@ export const insertEmailQueueSchema = createInsertSchema(emailQueue)
 
 export type InsertConversation = z.infer<typeof insertConversationSchema>;
 export type InsertEmailQueue = z.infer<typeof insertEmailQueueSchema>;
+export type Thread = typeof threads.$inferSelect;
+export type Message = typeof messages.$inferSelect;
+export type InsertThread = z.infer<typeof insertThreadSchema>;
+export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type ThreadChannel = "chat" | "email" | "sms";
+export type Embedding = typeof embeddings.$inferSelect;
+export type EmbeddingSourceType = "memory" | "journal_entry";
+export type AccountExport = typeof accountExports.$inferSelect;
+export type AccountExportStatus = "pending" | "processing" | "completed" | "failed" | "expired";